@@ -0,0 +1,120 @@
+#!/usr/bin/env tsx
+
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import fg from 'fast-glob';
+import { FalMockEndpoint, FalMockFixture, loadFalMockFixtures } from '../src/utils/fal-mock.js';
+import { formatFalSchemaIssues, getFalOpenApiDirectory, validateFalPayload, validateFalResponse } from '../src/utils/fal-openapi.js';
+import { createContractInputs } from '../test/helpers/contract-inputs.js';
+import { runFalNodeWithMock } from '../test/helpers/fal-node-harness.js';
+
+interface CliOptions {
+  fixturesDir?: string;
+  filter?: string;
+}
+
+type Outcome = 'pass' | 'fail' | 'skip';
+
+const usage = 'Usage: tsx scripts/check-node-contracts.ts [--fixtures <dir>] [node path filter]';
+
+const parseArgs = (args: string[]): CliOptions => {
+  const options: CliOptions = {};
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index];
+    if (arg === '--fixtures') {
+      options.fixturesDir = args[++index];
+      if (!options.fixturesDir) {
+        console.error(usage);
+        process.exit(1);
+      }
+    } else if (arg === '--help' || arg === '-h') {
+      console.log(usage);
+      process.exit(0);
+    } else {
+      options.filter = arg;
+    }
+  }
+  return options;
+};
+
+const recordingsOf = (entry: FalMockEndpoint): FalMockFixture[] =>
+  typeof entry === 'function' ? [] : Array.isArray(entry) ? entry : [entry];
+
+const options = parseArgs(process.argv.slice(2));
+const rootDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const recorded = options.fixturesDir ? await loadFalMockFixtures(options.fixturesDir) : {};
+const counts: Record<Outcome, number> = { pass: 0, fail: 0, skip: 0 };
+
+const report = (outcome: Outcome, name: string, detail?: string) => {
+  counts[outcome] += 1;
+  console.log(`${outcome.toUpperCase().padEnd(4)} ${name}${detail ? ` – ${detail}` : ''}`);
+};
+
+console.log(`Checking against OpenAPI specs in ${path.relative(process.cwd(), getFalOpenApiDirectory()) || '.'}`);
+
+// Payloads are captured before any result is read, so an empty result is enough for endpoints without a recording
+const fallbackFixture: FalMockFixture = { result: {} };
+const fixtures = new Proxy(recorded, {
+  get: (target, endpoint) => (typeof endpoint === 'string' && target[endpoint]) || fallbackFixture
+});
+
+const { inputs, assets } = await createContractInputs();
+
+const nodeFiles = (await fg('src/nodes/**/*Node.ts', { cwd: rootDir, absolute: true }))
+  .filter((file) => !options.filter || file.includes(options.filter))
+  .sort();
+
+for (const file of nodeFiles) {
+  const name = path.relative(path.join(rootDir, 'src', 'nodes'), file);
+  const node = (await import(pathToFileURL(file).href)).default;
+  // Runtime validation would reject the payload before the mock sees it
+  const run = await runFalNodeWithMock(node, { inputs, assets, fixtures, env: { FAL_VALIDATE_SCHEMAS: undefined } });
+
+  if (!run.calls.length) {
+    report('skip', name, `no Fal call made (${(run.error as Error)?.message ?? 'no error'})`);
+    continue;
+  }
+
+  const problems: string[] = [];
+  const unchecked: string[] = [];
+  for (const call of run.calls) {
+    const issues = await validateFalPayload(call.endpoint, call.input);
+    if (!issues) {
+      unchecked.push(call.endpoint);
+    } else if (issues.length) {
+      problems.push(`${call.endpoint}: ${formatFalSchemaIssues(issues)}`);
+    }
+  }
+
+  if (problems.length) {
+    report('fail', name, problems.join(' | '));
+  } else if (unchecked.length === run.calls.length) {
+    report('skip', name, `no saved spec for ${Array.from(new Set(unchecked)).join(', ')}`);
+  } else {
+    report('pass', name);
+  }
+}
+
+// Recorded traffic shows what Fal actually accepts and returns, so both sides are checked
+for (const [endpoint, entry] of Object.entries(recorded)) {
+  const recordings = recordingsOf(entry);
+  for (const [index, recording] of recordings.entries()) {
+    const label = `fixture ${endpoint}${recordings.length > 1 ? ` #${index + 1}` : ''}`;
+    const payloadIssues = recording.input === undefined ? [] : await validateFalPayload(endpoint, recording.input);
+    const responseIssues = recording.result === undefined ? [] : await validateFalResponse(endpoint, recording.result);
+    if (!payloadIssues || !responseIssues) {
+      report('skip', label, 'no saved spec');
+    } else if (payloadIssues.length || responseIssues.length) {
+      const details = [
+        payloadIssues.length ? `payload: ${formatFalSchemaIssues(payloadIssues)}` : '',
+        responseIssues.length ? `response: ${formatFalSchemaIssues(responseIssues)}` : ''
+      ].filter(Boolean);
+      report('fail', label, details.join(' | '));
+    } else {
+      report('pass', label);
+    }
+  }
+}
+
+console.log(`\n${counts.pass} passed, ${counts.fail} failed, ${counts.skip} skipped`);
+process.exit(counts.fail ? 1 : 0);
@@ -0,0 +1,730 @@
+#!/usr/bin/env tsx
+
+import path from 'node:path';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+
+type JsonSchema = {
+  $ref?: string;
+  type?: string | string[];
+  title?: string;
+  description?: string;
+  default?: unknown;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  'x-fal-order-properties'?: string[];
+};
+
+type OpenApiSpec = {
+  info?: { title?: string; 'x-fal-metadata'?: { endpointId?: string } };
+  paths?: Record<string, Record<string, any>>;
+  components?: { schemas?: Record<string, JsonSchema> };
+};
+
+type AssetKind = 'image' | 'video' | 'mesh' | 'file';
+
+type InputField = {
+  name: string;
+  variable: string;
+  kind: 'string' | 'asset';
+  assetKind?: AssetKind;
+  multiple: boolean;
+  required: boolean;
+  description: string;
+};
+
+type ParameterField = {
+  name: string;
+  variable: string;
+  type: 'number' | 'boolean' | 'select' | 'string';
+  integer: boolean;
+  defaultValue: string | number | boolean;
+  min?: number;
+  max?: number;
+  step?: number;
+  options?: Array<{ label: string; value: string }>;
+  optional: boolean;
+  label: string;
+  description: string;
+};
+
+type OutputField = {
+  name: string;
+  variable: string;
+  kind: 'asset' | 'number' | 'string' | 'boolean';
+  assetKind?: AssetKind;
+  multiple: boolean;
+  required: boolean;
+  description: string;
+};
+
+type GeneratorOptions = {
+  specPath: string;
+  outPath?: string;
+  name?: string;
+  category?: string;
+  uid?: string;
+};
+
+const usage = 'Usage: tsx scripts/generate-node.ts <spec.json> [--out <file>] [--name <display name>] [--category <category>] [--uid <uid>]';
+
+const parseArgs = (argv: string[]): GeneratorOptions => {
+  const [specPath, ...rest] = argv;
+
+  if (!specPath || specPath.startsWith('--')) {
+    console.error(usage);
+    process.exit(1);
+  }
+
+  const options: GeneratorOptions = { specPath };
+
+  for (let index = 0; index < rest.length; index += 2) {
+    const flag = rest[index];
+    const value = rest[index + 1];
+
+    if (!value) {
+      console.error(`Missing value for ${flag}`);
+      process.exit(1);
+    }
+
+    switch (flag) {
+      case '--out':
+        options.outPath = value;
+        break;
+      case '--name':
+        options.name = value;
+        break;
+      case '--category':
+        options.category = value;
+        break;
+      case '--uid':
+        options.uid = value;
+        break;
+      default:
+        console.error(`Unknown option ${flag}\n${usage}`);
+        process.exit(1);
+    }
+  }
+
+  return options;
+};
+
+const toWords = (value: string): string[] =>
+  value
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^a-zA-Z0-9.]+/)
+    .filter(Boolean);
+
+const toPascalCase = (value: string): string =>
+  toWords(value.replace(/\./g, '-'))
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+
+const toCamelCase = (value: string): string => {
+  const pascal = toPascalCase(value);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+};
+
+const acronyms = new Set(['url', 'id', 'hd', 'fps', 'cfg', 'jpeg', 'jpg', 'png', 'webp', 'gif', 'mp4', 'glb', 'nsfw']);
+const minorWords = new Set(['to', 'and', 'of', 'with', 'in']);
+
+const toTitle = (value: string): string =>
+  toWords(value)
+    .map((word, index) => {
+      const lower = word.toLowerCase();
+      if (acronyms.has(lower)) return lower.toUpperCase();
+      if (index > 0 && minorWords.has(lower)) return lower;
+      return word.charAt(0).toUpperCase() + word.slice(1);
+    })
+    .join(' ');
+
+const objectEntry = (name: string, variable: string): string =>
+  name === variable ? name : `${name}: ${variable}`;
+
+const quote = (value: string): string => `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`;
+
+// Keep descriptions to a single sentence so generated definitions read like the hand-written ones
+const summarize = (value: string | undefined, fallback: string): string => {
+  const text = (value ?? '').replace(/\s+/g, ' ').trim();
+  if (!text) {
+    return fallback;
+  }
+  const sentence = text.match(/^(.+?[.!?])(\s|$)/)?.[1] ?? text;
+  return sentence.replace(/\.$/, '');
+};
+
+const literal = (value: string | number | boolean): string =>
+  typeof value === 'string' ? quote(value) : String(value);
+
+const createResolver = (spec: OpenApiSpec) => {
+  const schemas = spec.components?.schemas ?? {};
+
+  const refName = (ref: string): string => ref.split('/').pop() ?? ref;
+
+  const resolve = (schema: JsonSchema | undefined): JsonSchema => {
+    if (!schema) {
+      return {};
+    }
+    if (schema.$ref) {
+      const target = schemas[refName(schema.$ref)];
+      if (!target) {
+        throw new Error(`Unresolved schema reference ${schema.$ref}`);
+      }
+      return resolve(target);
+    }
+    if (schema.allOf?.length === 1) {
+      const { allOf, ...rest } = schema;
+      return { ...resolve(allOf[0]), ...rest };
+    }
+    return schema;
+  };
+
+  // Name of the referenced component, used to recognise Fal file/image types
+  const referenceName = (schema: JsonSchema | undefined): string | undefined => {
+    if (!schema) {
+      return undefined;
+    }
+    if (schema.$ref) {
+      return refName(schema.$ref);
+    }
+    if (schema.allOf?.length === 1) {
+      return referenceName(schema.allOf[0]);
+    }
+    return undefined;
+  };
+
+  return { resolve, referenceName };
+};
+
+const findEndpointSchemas = (spec: OpenApiSpec) => {
+  const paths = spec.paths ?? {};
+  const submitEntry = Object.entries(paths).find(([, item]) => item.post?.requestBody);
+
+  if (!submitEntry) {
+    throw new Error('Spec does not contain a queue submit operation');
+  }
+
+  const [submitPath, submitItem] = submitEntry;
+  const endpointId = spec.info?.['x-fal-metadata']?.endpointId ?? submitPath.replace(/^\//, '');
+  const inputSchema: JsonSchema | undefined = submitItem.post.requestBody.content?.['application/json']?.schema;
+
+  const resultEntry = Object.entries(paths).find(([itemPath, item]) =>
+    itemPath.endsWith('/requests/{request_id}') && item.get
+  );
+  const outputSchema: JsonSchema | undefined = resultEntry?.[1].get.responses?.['200']?.content?.['application/json']?.schema;
+
+  if (!inputSchema || !outputSchema) {
+    throw new Error(`Could not locate input/output schemas for ${endpointId}`);
+  }
+
+  return { endpointId, inputSchema, outputSchema };
+};
+
+const orderedProperties = (schema: JsonSchema): Array<[string, JsonSchema]> => {
+  const properties = schema.properties ?? {};
+  const order = schema['x-fal-order-properties'] ?? Object.keys(properties);
+  const names = [...order, ...Object.keys(properties).filter((name) => !order.includes(name))];
+  return names.filter((name) => properties[name]).map((name) => [name, properties[name]]);
+};
+
+const schemaTypes = (schema: JsonSchema): string[] => {
+  if (Array.isArray(schema.type)) {
+    return schema.type;
+  }
+  if (schema.type) {
+    return [schema.type];
+  }
+  const variants = schema.anyOf ?? schema.oneOf ?? [];
+  return variants.flatMap((variant) => (variant.type ? schemaTypes(variant) : []));
+};
+
+const enumValues = (schema: JsonSchema): string[] | undefined => {
+  if (schema.enum) {
+    return schema.enum.map(String);
+  }
+  const variants = schema.anyOf ?? schema.oneOf ?? [];
+  const withEnum = variants.find((variant) => variant.enum);
+  return withEnum?.enum?.map(String);
+};
+
+const assetKindFromName = (name: string): AssetKind | undefined => {
+  const lower = name.toLowerCase();
+  if (/(image|mask|frame|photo)/.test(lower)) return 'image';
+  if (/video/.test(lower)) return 'video';
+  if (/(mesh|glb|model_|3d)/.test(lower)) return 'mesh';
+  return undefined;
+};
+
+// Filename extension and content type of the non-image asset inputs streamed to Fal storage
+const streamedAssetFormats: Record<Exclude<AssetKind, 'image'>, { extension: string, contentType: string }> = {
+  video: { extension: 'mp4', contentType: 'video/mp4' },
+  mesh: { extension: 'glb', contentType: 'model/gltf-binary' },
+  file: { extension: 'bin', contentType: 'application/octet-stream' }
+};
+
+const isAssetInput = (name: string): boolean => /_urls?$/.test(name) || name === 'url';
+
+const collectInputs = (schema: JsonSchema, resolve: (schema: JsonSchema | undefined) => JsonSchema) => {
+  const required = new Set(schema.required ?? []);
+  const inputs: InputField[] = [];
+  const parameters: ParameterField[] = [];
+  const skipped: string[] = [];
+
+  for (const [name, rawProperty] of orderedProperties(schema)) {
+    const property = resolve(rawProperty);
+    const types = schemaTypes(property);
+    const description = summarize(property.description, toTitle(name));
+    const values = enumValues(property);
+
+    if (isAssetInput(name)) {
+      inputs.push({
+        name,
+        variable: `${toCamelCase(name.replace(/_urls?$/, ''))}${name.endsWith('_urls') ? 'Uris' : 'Uri'}`,
+        kind: 'asset',
+        assetKind: assetKindFromName(name) ?? 'file',
+        multiple: name.endsWith('_urls') || types.includes('array'),
+        required: required.has(name),
+        description
+      });
+      continue;
+    }
+
+    if (!values && types.includes('string') && (required.has(name) || /prompt$/.test(name))) {
+      inputs.push({ name, variable: toCamelCase(name), kind: 'string', multiple: false, required: required.has(name), description });
+      continue;
+    }
+
+    const label = property.title ?? toTitle(name);
+    const optional = property.default === undefined;
+
+    if (values?.length) {
+      const defaultValue = typeof property.default === 'string' && values.includes(property.default) ? property.default : values[0];
+      parameters.push({
+        name,
+        variable: toCamelCase(name),
+        type: 'select',
+        integer: false,
+        defaultValue,
+        options: values.map((value) => ({ label: toTitle(value), value })),
+        optional: false,
+        label,
+        description
+      });
+      continue;
+    }
+
+    if (types.includes('boolean')) {
+      parameters.push({
+        name,
+        variable: toCamelCase(name),
+        type: 'boolean',
+        integer: false,
+        defaultValue: typeof property.default === 'boolean' ? property.default : false,
+        optional: false,
+        label,
+        description
+      });
+      continue;
+    }
+
+    if (types.includes('integer') || types.includes('number')) {
+      const integer = types.includes('integer');
+      const min = property.minimum ?? property.exclusiveMinimum;
+      const max = property.maximum ?? property.exclusiveMaximum;
+
+      // Fal leaves seeds without a default; -1 keeps the random behaviour, matching the other nodes
+      if (optional && name !== 'seed') {
+        skipped.push(`${name} (no default)`);
+        continue;
+      }
+
+      parameters.push({
+        name,
+        variable: toCamelCase(name),
+        type: 'number',
+        integer,
+        defaultValue: optional ? -1 : Number(property.default),
+        min: optional ? -1 : min,
+        max,
+        step: integer ? 1 : (max !== undefined && max <= 1 ? 0.01 : 0.1),
+        optional,
+        label: name === 'seed' ? 'Seed (-1 = random)' : label,
+        description
+      });
+      continue;
+    }
+
+    if (types.includes('string')) {
+      parameters.push({
+        name,
+        variable: toCamelCase(name),
+        type: 'string',
+        integer: false,
+        defaultValue: typeof property.default === 'string' ? property.default : '',
+        optional: property.default === undefined,
+        label,
+        description
+      });
+      continue;
+    }
+
+    skipped.push(`${name} (${types.join(' | ') || 'object'})`);
+  }
+
+  return { inputs, parameters, skipped };
+};
+
+const isFileSchema = (schema: JsonSchema, refName: string | undefined): boolean =>
+  Boolean(schema.properties?.url) && (Boolean(refName && /(file|image|video)/i.test(refName)) || Boolean(schema.properties?.content_type));
+
+const collectOutputs = (
+  schema: JsonSchema,
+  resolve: (schema: JsonSchema | undefined) => JsonSchema,
+  referenceName: (schema: JsonSchema | undefined) => string | undefined
+) => {
+  const outputs: OutputField[] = [];
+  const skipped: string[] = [];
+  const requiredOutputs = new Set(schema.required ?? []);
+
+  for (const [name, rawProperty] of orderedProperties(schema)) {
+    const property = resolve(rawProperty);
+    const types = schemaTypes(property);
+    const multiple = types.includes('array');
+    const itemSchema = multiple ? resolve(property.items) : property;
+    const itemRef = multiple ? referenceName(property.items) : referenceName(rawProperty);
+    const itemTypes = schemaTypes(itemSchema);
+    const description = summarize(property.description, toTitle(name));
+    const variable = `${toCamelCase(name)}Output`;
+    const required = requiredOutputs.has(name);
+
+    if (isFileSchema(itemSchema, itemRef)) {
+      const assetKind = assetKindFromName(name) ?? assetKindFromName(itemRef ?? '') ?? 'file';
+      outputs.push({ name, variable, kind: 'asset', assetKind, multiple, required, description });
+    } else if (itemTypes.includes('integer') || itemTypes.includes('number')) {
+      outputs.push({ name, variable, kind: 'number', multiple, required, description });
+    } else if (itemTypes.includes('boolean')) {
+      outputs.push({ name, variable, kind: 'boolean', multiple, required, description });
+    } else if (itemTypes.includes('string')) {
+      outputs.push({ name, variable, kind: 'string', multiple, required, description });
+    } else {
+      skipped.push(`${name} (${types.join(' | ') || 'object'})`);
+    }
+  }
+
+  return { outputs, skipped };
+};
+
+const assetOutputType = (kind: AssetKind): string => `asset:${kind}`;
+
+const renderParameter = (parameter: ParameterField): string => {
+  const lines = [
+    `      name: ${quote(parameter.name)}`,
+    `      type: ${quote(parameter.type)}`,
+    `      value: ${literal(parameter.defaultValue)}`,
+    `      default: ${literal(parameter.defaultValue)}`
+  ];
+  if (parameter.min !== undefined) lines.push(`      min: ${parameter.min}`);
+  if (parameter.max !== undefined) lines.push(`      max: ${parameter.max}`);
+  if (parameter.step !== undefined) lines.push(`      step: ${parameter.step}`);
+  lines.push(`      label: ${quote(parameter.label)}`);
+  lines.push(`      description: ${quote(parameter.description)}`);
+  if (parameter.options) {
+    const options = parameter.options.map((option) => `        { label: ${quote(option.label)}, value: ${quote(option.value)} }`);
+    lines.push(`      options: [\n${options.join(',\n')}\n      ]`);
+  }
+  return `    {\n${lines.join(',\n')}\n    }`;
+};
+
+// Seeded endpoints can replay cached results, so they get the same bypass switch as the hand-written nodes
+const bypassCacheParameter = [
+  '    {',
+  "      name: 'bypass_cache',",
+  "      type: 'boolean',",
+  '      value: false,',
+  '      default: false,',
+  "      label: 'Bypass Cache',",
+  "      description: 'Call Fal even when a cached result exists for this seed and these inputs'",
+  '    }'
+].join('\n');
+
+// Same report output as the hand-written nodes using withFalSafetyPolicy
+const safetyReportOutput = {
+  name: 'safety_report',
+  type: 'string',
+  description: 'JSON report of the NSFW check: policy, decision, seeds tried and the flag of every image'
+};
+
+const renderParameterRead = (parameter: ParameterField): string => {
+  const read = `getParameterValue(parameters, ${quote(parameter.name)}, ${literal(parameter.defaultValue)})`;
+  switch (parameter.type) {
+    case 'number':
+      return `  const ${parameter.variable} = Number(${read})`;
+    case 'boolean':
+      return `  const ${parameter.variable} = Boolean(${read})`;
+    default:
+      return `  const ${parameter.variable} = String(${read})`;
+  }
+};
+
+// Common Fal fields go through the validating readers of readFalResponse, the rest through response.data
+const renderOutputMapping = (output: OutputField): string => {
+  const name = quote(output.name);
+  const declare = `      const ${output.variable} =`;
+  if (output.kind === 'asset') {
+    const kind = quote(output.assetKind!);
+    if (output.multiple) {
+      const files = output.name === 'images' && output.required ? 'response.images()' : `response.files(${name})`;
+      return `${declare} await Promise.all(${files}.map((file) => rehostFalAsset(file, ${kind})))`;
+    }
+    if (output.required) {
+      return `${declare} [await rehostFalAsset(response.file(${name}), ${kind})]`;
+    }
+    const file = `${toCamelCase(output.name)}File`;
+    return [
+      `      const ${file} = response.optionalFile(${name})`,
+      `${declare} ${file} ? [await rehostFalAsset(${file}, ${kind})] : []`
+    ].join('\n');
+  }
+  if (output.name === 'has_nsfw_concepts') {
+    return `${declare} response.nsfwFlags()`;
+  }
+  if (output.multiple) {
+    return `${declare} response.list(${name})`;
+  }
+  const value = `${toCamelCase(output.name)}Value`;
+  const read = output.name === 'seed'
+    ? 'response.seed()'
+    : output.kind === 'string' ? `response.text(${name})` : `response.data.${output.name}`;
+  const present = output.kind === 'string' || output.name === 'seed' ? `${value} !== undefined` : `typeof ${value} === ${quote(output.kind)}`;
+  return [`      const ${value} = ${read}`, `${declare} ${present} ? [${value}] : []`].join('\n');
+};
+
+const generateNodeSource = (spec: OpenApiSpec, overrides: Omit<GeneratorOptions, 'specPath' | 'outPath'> = {}): string => {
+  const { resolve, referenceName } = createResolver(spec);
+  const { endpointId, inputSchema, outputSchema } = findEndpointSchemas(spec);
+  const resolvedInput = resolve(inputSchema);
+  const resolvedOutput = resolve(outputSchema);
+
+  const endpointSegments = endpointId.split('/').filter((segment) => segment !== 'fal-ai');
+  const baseName = toPascalCase(endpointSegments.join('-'));
+  const displayName = overrides.name ?? toTitle(endpointSegments.join(' '));
+  const uid = overrides.uid ?? `fal-${endpointSegments.join('-').replace(/[^a-z0-9-]+/gi, '-').toLowerCase()}`;
+  const category = overrides.category ?? toTitle(endpointSegments[0] ?? 'Fal');
+  const nodeVariable = `${toCamelCase(baseName)}Node`;
+
+  const { inputs, parameters, skipped: skippedInputs } = collectInputs(resolvedInput, resolve);
+  const { outputs, skipped: skippedOutputs } = collectOutputs(resolvedOutput, resolve, referenceName);
+
+  const hasSeed = parameters.some((parameter) => parameter.name === 'seed');
+  // The NSFW safety policy filters 'images' by 'has_nsfw_concepts' and regenerates with a new seed
+  const hasSafetyPolicy = hasSeed && ['images', 'has_nsfw_concepts'].every((name) => outputs.some((output) => output.name === name));
+  const assetInputs = inputs.filter((input) => input.kind === 'asset');
+  // Images are converted to a format Fal accepts; videos and other files are streamed without loading them into memory
+  const hasImageInputs = assetInputs.some((input) => input.assetKind === 'image');
+  const hasStreamedInputs = assetInputs.some((input) => input.assetKind !== 'image');
+  const hasAssetOutputs = outputs.some((output) => output.kind === 'asset');
+  const storageImports = [...(hasImageInputs ? ['uploadImageToFal'] : []), ...(hasStreamedInputs ? ['uploadAssetStreamToFal'] : [])];
+  const assetImports = [...(hasAssetOutputs ? ['rehostFalAsset'] : []), ...(hasImageInputs ? ['resolveAsset'] : [])];
+
+  const lines: string[] = [];
+  const pushBlock = (block: string) => {
+    if (block) {
+      lines.push(block);
+    }
+  };
+  lines.push(`import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'`);
+  lines.push(`import { runFalExecution } from '../../utils/fal-execution.js'`);
+  lines.push(`import { readFalResponse } from '../../utils/fal-response.js'`);
+  lines.push(`import { withFalBatch } from '../../utils/fal-batch.js'`);
+  if (hasSafetyPolicy) lines.push(`import { createSafetyPolicyParameters, withFalSafetyPolicy } from '../../utils/fal-safety.js'`);
+  lines.push(`import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'`);
+  if (storageImports.length) lines.push(`import { ${storageImports.join(', ')} } from '../../utils/fal-storage.js'`);
+  if (assetImports.length) lines.push(`import { ${assetImports.join(', ')} } from '../../utils/asset-utils.js'`);
+  lines.push('');
+  lines.push(`// Generated from the Fal OpenAPI spec for ${endpointId} by scripts/generate-node.ts`);
+  const skipped = [...skippedInputs, ...skippedOutputs.map((entry) => `output ${entry}`)];
+  if (skipped.length) {
+    lines.push(`// Not exposed: ${skipped.join(', ')}`);
+  }
+  lines.push('');
+
+  lines.push('const nodeDefinition: NodeDefinition = {');
+  lines.push(`  uid: ${quote(uid)},`);
+  lines.push(`  name: ${quote(displayName)},`);
+  lines.push(`  category: ${quote(category)},`);
+  lines.push(`  version: '1.0.0',`);
+  lines.push(`  type: 'server',`);
+  lines.push(`  description: ${quote(summarize(resolvedInput.description, `Runs the Fal ${endpointId} endpoint`))},`);
+  lines.push('  inputs: [');
+  pushBlock(inputs.map((input) => [
+    '    {',
+    `      name: ${quote(input.name)},`,
+    `      type: ${quote(input.kind === 'asset' ? assetOutputType(input.assetKind!) : 'string')},`,
+    `      description: ${quote(input.description)}`,
+    '    }'
+  ].join('\n')).join(',\n'));
+  lines.push('  ],');
+  lines.push('  outputs: [');
+  const outputDefinitions = [
+    ...outputs.map((output) => ({
+      name: output.name,
+      type: output.kind === 'asset' ? assetOutputType(output.assetKind!) : output.kind,
+      description: output.description
+    })),
+    ...(hasSafetyPolicy ? [safetyReportOutput] : [])
+  ];
+  pushBlock(outputDefinitions.map((output) => [
+    '    {',
+    `      name: ${quote(output.name)},`,
+    `      type: ${quote(output.type)},`,
+    `      description: ${quote(output.description)}`,
+    '    }'
+  ].join('\n')).join(',\n'));
+  lines.push('  ],');
+  lines.push('  parameters: [');
+  pushBlock([
+    ...parameters.map(renderParameter),
+    ...(hasSeed ? [bypassCacheParameter] : []),
+    ...(hasSafetyPolicy ? ['    ...createSafetyPolicyParameters()'] : []),
+    '    createBatchModeParameter()',
+    '    createCredentialProfileParameter()'
+  ].join(',\n'));
+  lines.push('  ]');
+  lines.push('}');
+  lines.push('');
+
+  lines.push(`const ${nodeVariable}: NodeInstance = NanoSDK.registerNode(nodeDefinition)`);
+  lines.push('');
+  // Batch mode maps over the single-value inputs; list inputs are sent whole with every request
+  const batchInputs = inputs.filter((input) => !input.multiple).map((input) => `'${input.name}'`).join(', ');
+  const execute = 'async ({ inputs, parameters, context }) => {';
+  lines.push(`${nodeVariable}.execute = withFalBatch({ inputs: [${batchInputs}] }, ${hasSafetyPolicy ? `withFalSafetyPolicy({}, ${execute}` : execute}`);
+  for (const input of inputs) {
+    if (input.multiple) {
+      lines.push(`  const ${input.variable} = (inputs.${input.name} ?? []) as string[]`);
+    } else {
+      lines.push(`  const ${input.variable} = inputs.${input.name}?.[0] as string${input.required ? '' : ' | undefined'}`);
+    }
+  }
+  for (const input of inputs.filter((entry) => entry.required)) {
+    const message = `${toTitle(input.name.replace(/_urls?$/, ''))} is required`;
+    const missing = input.multiple ? `!${input.variable}.length` : `!${input.variable}`;
+    lines.push('');
+    lines.push(`  if (${missing}) {`);
+    lines.push(`    context.sendStatus({ type: 'error', message: ${quote(message)} })`);
+    lines.push(`    throw new Error(${quote(message)})`);
+    lines.push('  }');
+  }
+  if (parameters.length) {
+    lines.push('');
+    lines.push(...parameters.map(renderParameterRead));
+  }
+  lines.push('');
+  lines.push('  return runFalExecution({');
+  lines.push(`    endpoint: ${quote(endpointId)},`);
+  lines.push('    context,');
+  lines.push(`    errorMessage: ${quote(`Failed to run ${displayName}`)},`);
+  lines.push(`    credential: getParameterValue(parameters, 'credential_profile', 'default'),`);
+  if (assetInputs.length) {
+    // Generated inputs keep the Fal field name, so opt out of the runner's image_url -> image renaming
+    lines.push(`    fieldNames: { ${assetInputs.map((input) => objectEntry(input.name, quote(input.name))).join(', ')} },`);
+  }
+  if (hasSeed) {
+    lines.push(`    resultCache: { bypass: Boolean(getParameterValue(parameters, 'bypass_cache', false)) },`);
+  }
+  lines.push('    progress: {');
+  lines.push('      expectedMs: 30000,');
+  lines.push(`      inQueueMessage: 'Waiting in queue...',`);
+  lines.push(`      finalizingMessage: 'Finalizing...',`);
+  lines.push('      defaultInProgressMessage: (n) => `Processing step ${n}...`');
+  lines.push('    },');
+  lines.push(`    buildPayload: ${assetInputs.length ? 'async ' : ''}() => {`);
+  lines.push('      const payload: Record<string, unknown> = {');
+  const payloadEntries = [
+    ...inputs.filter((input) => input.kind === 'string' && input.required).map((input) => `        ${objectEntry(input.name, input.variable)}`),
+    ...parameters.filter((parameter) => !parameter.optional).map((parameter) => `        ${objectEntry(parameter.name, parameter.variable)}`)
+  ];
+  pushBlock(payloadEntries.join(',\n'));
+  lines.push('      }');
+  for (const input of inputs.filter((entry) => entry.kind === 'string' && !entry.required)) {
+    lines.push('');
+    lines.push(`      if (${input.variable}) {`);
+    lines.push(`        payload.${input.name} = ${input.variable}`);
+    lines.push('      }');
+  }
+  for (const parameter of parameters.filter((entry) => entry.optional)) {
+    const condition = parameter.type === 'number'
+      ? `Number.isInteger(${parameter.variable}) && ${parameter.variable} >= 0`
+      : `${parameter.variable}.trim()`;
+    lines.push('');
+    lines.push(`      if (${condition}) {`);
+    lines.push(`        payload.${parameter.name} = ${parameter.variable}`);
+    lines.push('      }');
+  }
+  for (const input of assetInputs) {
+    const prefix = `${uid.replace(/^fal-/, '')}-${input.name.replace(/_urls?$/, '').replace(/_/g, '-')}`;
+    const streamed = input.assetKind === 'image' ? undefined : streamedAssetFormats[input.assetKind ?? 'file'];
+    const streamUpload = (uri: string, filename: string) =>
+      `uploadAssetStreamToFal(${uri}, { filename: ${filename}, contentType: ${quote(streamed!.contentType)} })`;
+    lines.push('');
+    if (input.multiple && !streamed) {
+      lines.push(`      payload.${input.name} = await Promise.all(${input.variable}.map(async (uri, index) => {`);
+      lines.push(`        const buffer = await resolveAsset(uri, { asBuffer: true }) as Buffer`);
+      lines.push(`        return uploadImageToFal(buffer, { filenamePrefix: \`${prefix}-\${index + 1}\` })`);
+      lines.push('      }))');
+    } else if (input.multiple) {
+      lines.push(`      payload.${input.name} = await Promise.all(${input.variable}.map((uri, index) =>`);
+      lines.push(`        ${streamUpload('uri', `\`${prefix}-\${index + 1}.${streamed!.extension}\``)}))`);
+    } else {
+      const indent = input.required ? '      ' : '        ';
+      if (!input.required) lines.push(`      if (${input.variable}) {`);
+      if (!streamed) {
+        lines.push(`${indent}const ${input.variable.replace(/Uri$/, 'Buffer')} = await resolveAsset(${input.variable}, { asBuffer: true }) as Buffer`);
+        lines.push(`${indent}payload.${input.name} = await uploadImageToFal(${input.variable.replace(/Uri$/, 'Buffer')}, { filenamePrefix: ${quote(prefix)} })`);
+      } else {
+        lines.push(`${indent}payload.${input.name} = await ${streamUpload(input.variable, quote(`${prefix}.${streamed.extension}`))}`);
+      }
+      if (!input.required) lines.push('      }');
+    }
+  }
+  lines.push('');
+  lines.push('      return payload');
+  lines.push('    },');
+  lines.push('    mapOutput: async (result) => {');
+  lines.push(`      const response = readFalResponse(result, ${quote(displayName)})`);
+  lines.push('');
+  lines.push(...outputs.map(renderOutputMapping));
+  lines.push('');
+  lines.push('      return {');
+  pushBlock(outputs.map((output) => `        ${output.name}: ${output.variable}`).join(',\n'));
+
+  lines.push('      }');
+  lines.push('    }');
+  lines.push('  })');
+  lines.push(hasSafetyPolicy ? '}))' : '})');
+  lines.push('');
+  lines.push(`export default ${nodeVariable}`);
+  lines.push('');
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n');
+};
+
+const options = parseArgs(process.argv.slice(2));
+const spec = JSON.parse(await readFile(options.specPath, 'utf8')) as OpenApiSpec;
+const source = generateNodeSource(spec, options);
+
+if (options.outPath) {
+  await mkdir(path.dirname(options.outPath), { recursive: true });
+  await writeFile(options.outPath, source, 'utf8');
+  console.log(`Generated ${path.relative(process.cwd(), options.outPath)} from ${path.relative(process.cwd(), options.specPath)}`);
+} else {
+  process.stdout.write(source);
+}
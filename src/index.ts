@@ -1,4 +1,10 @@
 import { NanoSDK } from '@nanograph/sdk'
+import { cancelActiveFalRequests, detachActiveFalRequests } from './utils/fal-cancellation.js'
+import { isFalJournalEnabled, resumeFalJournal } from './utils/fal-journal.js'
+import { isFalWebhookEnabled, startFalWebhookReceiver, stopFalWebhookReceiver } from './utils/fal-webhook.js'
+import { closeFalRealtimeConnections } from './utils/fal-realtime.js'
+import { setFalTransport } from './utils/fal-client.js'
+import { createFalMockClient, loadFalMockFixtures } from './utils/fal-mock.js'
 
 // Initialize SDK
 const sdk = new NanoSDK()
@@ -7,13 +13,45 @@ const sdk = new NanoSDK()
  * Main entry point for the Node Server
  */
 async function main() {
+  // Serve recorded fixtures instead of calling fal.ai, for offline runs of whole workflows
+  const mockFixtures = process.env.FAL_MOCK_FIXTURES?.trim()
+  if (mockFixtures) {
+    const fixtures = await loadFalMockFixtures(mockFixtures)
+    setFalTransport(createFalMockClient(fixtures).client)
+    console.log(`[NodeServer] Fal mock enabled with ${Object.keys(fixtures).length} endpoint fixture(s) from ${mockFixtures}`)
+  }
+
   // Start the server
   await sdk.start()
-}
 
-// Register shutdown handler
-sdk.onShutdown(() => {
+  // Listen for Fal callbacks up front so a port conflict shows at startup; nodes poll while the receiver is down
+  if (isFalWebhookEnabled()) {
+    await startFalWebhookReceiver().catch((error) => {
+      console.error('[NodeServer] Failed to start Fal webhook receiver:', error?.message ?? error)
+    })
+  }
+
+  // Fal jobs left by a previous process: finished results are fetched now and every job goes to
+  // the next run of its node with the same inputs, which reattaches instead of submitting again
+  const pending = await resumeFalJournal()
+  for (const job of pending) {
+    const workflow = job.workflowId ? ` in workflow ${job.workflowId}` : ''
+    console.log(job.status === 'COMPLETED'
+      ? `[NodeServer] Fal job ${job.requestId} on ${job.endpoint}${workflow} finished during the restart; run its node again to collect the result`
+      : `[NodeServer] Fal job ${job.requestId} on ${job.endpoint}${workflow} is still ${job.status === 'IN_QUEUE' ? 'queued' : 'running'}; run its node again to reattach`)
+  }
+}
 
+// Register shutdown handler: stop any Fal jobs still running so they are not billed,
+// unless the job journal is enabled, in which case they are left running to be reattached
+sdk.onShutdown(async () => {
+  await stopFalWebhookReceiver()
+  closeFalRealtimeConnections()
+  if (isFalJournalEnabled()) {
+    detachActiveFalRequests()
+    return
+  }
+  await cancelActiveFalRequests()
 })
 
 // Handle process signals
@@ -1,20 +1,10 @@
 import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { FalImageReference, assetToDataUrl, uploadGeneratedImages } from '../flux-pro/utils.js'
-
-interface Flux1KreaImageToImageResponse {
-  images?: FalImageReference[]
-  seed?: number
-  has_nsfw_concepts?: boolean[]
-  data?: {
-    images?: FalImageReference[]
-    seed?: number
-    has_nsfw_concepts?: boolean[]
-  }
-}
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createSafetyPolicyParameters, withFalSafetyPolicy } from '../../utils/fal-safety.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { assetToDataUrl, uploadGeneratedImages } from '../flux-pro/utils.js'
 
 const allowedFormats = new Set(['jpeg', 'png'])
 const allowedAccelerations = new Set(['none', 'regular', 'high'])
@@ -60,6 +50,11 @@ const nodeDefinition: NodeDefinition = {
       name: 'has_nsfw_concepts',
       type: 'boolean',
       description: 'NSFW flags reported per generated image'
+    },
+    {
+      name: 'safety_report',
+      type: 'string',
+      description: 'JSON report of the NSFW check: policy, decision, seeds tried and the flag of every image'
     }
   ],
   parameters: [
@@ -117,6 +112,14 @@ const nodeDefinition: NodeDefinition = {
       label: 'Seed (-1 = random)',
       description: 'Use a fixed seed (>= 0) for repeatable variations'
     },
+    {
+      name: 'bypass_cache',
+      type: 'boolean',
+      value: false,
+      default: false,
+      label: 'Bypass Cache',
+      description: 'Call Fal even when a cached result exists for this seed and these inputs'
+    },
     {
       name: 'output_format',
       type: 'select',
@@ -157,15 +160,16 @@ const nodeDefinition: NodeDefinition = {
       default: true,
       label: 'Enable Safety Checker',
       description: 'Toggle the Fal.ai safety checker'
-    }
+    },
+    ...createSafetyPolicyParameters(),
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
   ]
 }
 
 const flux1KreaImageToImageNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-flux1KreaImageToImageNode.execute = async ({ inputs, parameters, context }) => {
-  configureFalClient()
-
+flux1KreaImageToImageNode.execute = withFalBatch({ inputs: ['prompt', 'image'] }, withFalSafetyPolicy({}, async ({ inputs, parameters, context }) => {
   const prompt = inputs.prompt?.[0] as string
   const imageUri = inputs.image?.[0] as string
 
@@ -179,10 +183,6 @@ flux1KreaImageToImageNode.execute = async ({ inputs, parameters, context }) => {
     throw new Error('An input image is required')
   }
 
-  context.sendStatus({ type: 'running', message: 'Preparing input image...' })
-
-  const imageDataUrl = await assetToDataUrl(imageUri)
-
   const numImages = clampNumber(Number(getParameterValue(parameters, 'num_images', 1)), 1, 4)
   const strength = clampNumber(Number(getParameterValue(parameters, 'strength', 0.95)), 0.01, 1)
   const numInferenceSteps = clampNumber(Math.round(Number(getParameterValue(parameters, 'num_inference_steps', 40))), 10, 50)
@@ -197,7 +197,6 @@ flux1KreaImageToImageNode.execute = async ({ inputs, parameters, context }) => {
 
   const payload: Record<string, unknown> = {
     prompt,
-    image_url: imageDataUrl,
     num_images: numImages,
     strength,
     num_inference_steps: numInferenceSteps,
@@ -220,63 +219,34 @@ flux1KreaImageToImageNode.execute = async ({ inputs, parameters, context }) => {
     Math.max(18000, Math.floor(numImages * 28000 * stepFactor * accelerationFactor * syncFactor))
   )
 
-  const strategy = createProgressStrategy({
-    expectedMs,
-    inQueueMessage: 'Waiting for Flux-1 Krea image-to-image...',
-    finalizingMessage: 'Finalizing images...',
-    defaultInProgressMessage: (step) => `Processing step ${step}...`
-  })
+  return runFalExecution({
+    endpoint: 'fal-ai/flux-1/krea/image-to-image',
+    context,
+    errorMessage: 'Failed to run Flux-1 Krea image-to-image',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    resultCache: { bypass: Boolean(getParameterValue(parameters, 'bypass_cache', false)) },
+    progress: {
+      expectedMs,
+      inQueueMessage: 'Waiting for Flux-1 Krea image-to-image...',
+      finalizingMessage: 'Finalizing images...',
+      defaultInProgressMessage: (step) => `Processing step ${step}...`
+    },
+    buildPayload: async () => {
+      context.sendStatus({ type: 'running', message: 'Preparing input image...' })
+      return { ...payload, image_url: await assetToDataUrl(imageUri) }
+    },
 
-  try {
-    let stepCount = 0
+    mapOutput: async (result) => {
+      const response = readFalResponse(result, 'Flux-1 Krea image-to-image')
+      const seed = response.seed()
 
-    const result = await fal.subscribe('fal-ai/flux-1/krea/image-to-image', {
-      input: payload as any,
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        if (status.status === 'IN_QUEUE') {
-          const update = strategy.onQueue()
-          context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount += 1
-          const update = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-        } else if (status.status === 'COMPLETED') {
-          const update = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-        }
+      return {
+        images: await uploadGeneratedImages(response.images()),
+        seed: seed === undefined ? [] : [seed],
+        has_nsfw_concepts: response.nsfwFlags()
       }
-    }) as Flux1KreaImageToImageResponse
-
-    const responseData = (result as any)?.data ?? {}
-    const directImages = Array.isArray(result.images) ? result.images : []
-    const nestedImages = Array.isArray(responseData.images) ? responseData.images : []
-    const images = (directImages.length ? directImages : nestedImages) as FalImageReference[]
-
-    if (!images.length) {
-      throw new Error('No images were returned by the Flux-1 Krea image-to-image API')
-    }
-
-    const uploadedImages = await uploadGeneratedImages(images)
-
-    const responseSeed = typeof responseData.seed === 'number'
-      ? responseData.seed
-      : (typeof result.seed === 'number' ? result.seed : undefined)
-
-    const nsfwFlags = Array.isArray(responseData.has_nsfw_concepts)
-      ? responseData.has_nsfw_concepts
-      : (Array.isArray(result.has_nsfw_concepts) ? result.has_nsfw_concepts : [])
-
-    return {
-      images: uploadedImages,
-      seed: typeof responseSeed === 'number' ? [responseSeed] : [],
-      has_nsfw_concepts: nsfwFlags
     }
-  } catch (error: any) {
-    const message = error?.message || 'Failed to run Flux-1 Krea image-to-image'
-    context.sendStatus({ type: 'error', message })
-    throw error
-  }
-}
+  })
+}))
 
 export default flux1KreaImageToImageNode
@@ -1,20 +1,10 @@
 import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { FalImageReference, uploadGeneratedImages } from '../flux-pro/utils.js'
-
-interface Flux1KreaResponse {
-  images?: FalImageReference[]
-  seed?: number
-  has_nsfw_concepts?: boolean[]
-  data?: {
-    images?: FalImageReference[]
-    seed?: number
-    has_nsfw_concepts?: boolean[]
-  }
-}
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createSafetyPolicyParameters, withFalSafetyPolicy } from '../../utils/fal-safety.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { uploadGeneratedImages } from '../flux-pro/utils.js'
 
 const IMAGE_SIZE_PRESETS = [
   'landscape_4_3',
@@ -82,6 +72,11 @@ const nodeDefinition: NodeDefinition = {
       name: 'has_nsfw_concepts',
       type: 'boolean',
       description: 'Flag per generated image indicating potential NSFW content'
+    },
+    {
+      name: 'safety_report',
+      type: 'string',
+      description: 'JSON report of the NSFW check: policy, decision, seeds tried and the flag of every image'
     }
   ],
   parameters: [
@@ -159,6 +154,14 @@ const nodeDefinition: NodeDefinition = {
       label: 'Seed (-1 = random)',
       description: 'Use a fixed seed (>= 0) for repeatable generations'
     },
+    {
+      name: 'bypass_cache',
+      type: 'boolean',
+      value: false,
+      default: false,
+      label: 'Bypass Cache',
+      description: 'Call Fal even when a cached result exists for this seed and these inputs'
+    },
     {
       name: 'output_format',
       type: 'select',
@@ -184,6 +187,14 @@ const nodeDefinition: NodeDefinition = {
         { label: 'High', value: 'high' }
       ]
     },
+    {
+      name: 'realtime',
+      type: 'boolean',
+      value: false,
+      default: false,
+      label: 'Realtime Mode',
+      description: 'Skip the Fal queue and reuse an open realtime connection, for fast interactive iterations'
+    },
     {
       name: 'sync_mode',
       type: 'boolean',
@@ -199,15 +210,16 @@ const nodeDefinition: NodeDefinition = {
       default: true,
       label: 'Enable Safety Checker',
       description: 'Toggle the Fal.ai safety checker'
-    }
+    },
+    ...createSafetyPolicyParameters(),
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
   ]
 }
 
 const flux1KreaTextToImageNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-flux1KreaTextToImageNode.execute = async ({ inputs, parameters, context }) => {
-  configureFalClient()
-
+flux1KreaTextToImageNode.execute = withFalBatch({ inputs: ['prompt'] }, withFalSafetyPolicy({}, async ({ inputs, parameters, context }) => {
   const prompt = inputs.prompt?.[0] as string
 
   if (!prompt) {
@@ -255,63 +267,32 @@ flux1KreaTextToImageNode.execute = async ({ inputs, parameters, context }) => {
     Math.max(15000, Math.floor(numImages * 26000 * stepFactor * accelerationFactor * syncFactor))
   )
 
-  const strategy = createProgressStrategy({
-    expectedMs,
-    inQueueMessage: 'Waiting for Flux-1 Krea...',
-    finalizingMessage: 'Finalizing images...',
-    defaultInProgressMessage: (step) => `Processing step ${step}...`
-  })
-
-  try {
-    let stepCount = 0
+  return runFalExecution({
+    endpoint: 'fal-ai/flux-1/krea',
+    context,
+    errorMessage: 'Failed to generate images with Flux-1 Krea',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    resultCache: { bypass: Boolean(getParameterValue(parameters, 'bypass_cache', false)) },
+    realtime: Boolean(getParameterValue(parameters, 'realtime', false)),
+    fieldNames: { 'image_size.width': 'custom_width', 'image_size.height': 'custom_height' },
+    progress: {
+      expectedMs,
+      inQueueMessage: 'Waiting for Flux-1 Krea...',
+      finalizingMessage: 'Finalizing images...',
+      defaultInProgressMessage: (step) => `Processing step ${step}...`
+    },
+    buildPayload: () => payload,
+    mapOutput: async (result) => {
+      const response = readFalResponse(result, 'Flux-1 Krea')
+      const seed = response.seed()
 
-    const result = await fal.subscribe('fal-ai/flux-1/krea', {
-      input: payload as any,
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        if (status.status === 'IN_QUEUE') {
-          const update = strategy.onQueue()
-          context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount += 1
-          const update = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-        } else if (status.status === 'COMPLETED') {
-          const update = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-        }
+      return {
+        images: await uploadGeneratedImages(response.images()),
+        seed: seed === undefined ? [] : [seed],
+        has_nsfw_concepts: response.nsfwFlags()
       }
-    }) as Flux1KreaResponse
-
-    const responseData = (result as any)?.data ?? {}
-    const directImages = Array.isArray(result.images) ? result.images : []
-    const nestedImages = Array.isArray(responseData.images) ? responseData.images : []
-    const images = (directImages.length ? directImages : nestedImages) as FalImageReference[]
-
-    if (!images.length) {
-      throw new Error('No images were returned by the Flux-1 Krea API')
     }
-
-    const uploadedImages = await uploadGeneratedImages(images)
-
-    const responseSeed = typeof responseData.seed === 'number'
-      ? responseData.seed
-      : (typeof result.seed === 'number' ? result.seed : undefined)
-
-    const nsfwFlags = Array.isArray(responseData.has_nsfw_concepts)
-      ? responseData.has_nsfw_concepts
-      : (Array.isArray(result.has_nsfw_concepts) ? result.has_nsfw_concepts : [])
-
-    return {
-      images: uploadedImages,
-      seed: typeof responseSeed === 'number' ? [responseSeed] : [],
-      has_nsfw_concepts: nsfwFlags
-    }
-  } catch (error: any) {
-    const message = error?.message || 'Failed to generate images with Flux-1 Krea'
-    context.sendStatus({ type: 'error', message })
-    throw error
-  }
-}
+  })
+}))
 
 export default flux1KreaTextToImageNode
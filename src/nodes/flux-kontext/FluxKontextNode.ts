@@ -1,23 +1,10 @@
-import { NanoSDK, NodeDefinition, NodeInstance, resolveAsset, uploadAsset } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { uploadBufferToFal } from '../../utils/fal-storage.js'
-import { generateAssetFilename } from '../../utils/asset-utils.js'
-
-interface FluxKontextImage {
-  url?: string
-}
-
-interface FluxKontextResponse {
-  images?: FluxKontextImage[]
-  seed?: number
-  data?: {
-    images?: FluxKontextImage[]
-    seed?: number
-  }
-}
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { uploadImageToFal } from '../../utils/fal-storage.js'
+import { rehostFalAsset, resolveAsset } from '../../utils/asset-utils.js'
 
 const MODEL_OPTIONS = ['pro', 'max'] as const
 const OUTPUT_FORMATS = ['jpeg', 'png'] as const
@@ -35,39 +22,6 @@ const ensureOption = <T extends string>(value: unknown, options: readonly T[], f
   return fallback
 }
 
-const detectImageFormat = (buffer: Buffer): 'jpeg' | 'png' | 'webp' => {
-  if (buffer.length > 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
-    return 'jpeg'
-  }
-  if (
-    buffer.length > 8 &&
-    buffer[0] === 0x89 &&
-    buffer[1] === 0x50 &&
-    buffer[2] === 0x4e &&
-    buffer[3] === 0x47 &&
-    buffer[4] === 0x0d &&
-    buffer[5] === 0x0a &&
-    buffer[6] === 0x1a &&
-    buffer[7] === 0x0a
-  ) {
-    return 'png'
-  }
-  if (
-    buffer.length > 12 &&
-    buffer[0] === 0x52 &&
-    buffer[1] === 0x49 &&
-    buffer[2] === 0x46 &&
-    buffer[3] === 0x46 &&
-    buffer[8] === 0x57 &&
-    buffer[9] === 0x45 &&
-    buffer[10] === 0x42 &&
-    buffer[11] === 0x50
-  ) {
-    return 'webp'
-  }
-  return 'jpeg'
-}
-
 const nodeDefinition: NodeDefinition = {
   uid: 'fal-flux-kontext',
   name: 'Flux Kontext Image Edit',
@@ -196,15 +150,23 @@ const nodeDefinition: NodeDefinition = {
       step: 1,
       label: 'Seed',
       description: 'Use a fixed seed (>= 0) for repeatable generations, or -1 for random'
-    }
+    },
+    {
+      name: 'bypass_cache',
+      type: 'boolean',
+      value: false,
+      default: false,
+      label: 'Bypass Cache',
+      description: 'Call Fal even when a cached result exists for this seed and these inputs'
+    },
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
   ]
 }
 
 const fluxKontextNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-fluxKontextNode.execute = async ({ inputs, parameters, context }) => {
-  configureFalClient()
-
+fluxKontextNode.execute = withFalBatch({ inputs: ['prompt', 'image'] }, async ({ inputs, parameters, context }) => {
   const prompt = inputs.prompt?.[0] as string
   const imageUri = inputs.image?.[0] as string
 
@@ -230,12 +192,6 @@ fluxKontextNode.execute = async ({ inputs, parameters, context }) => {
   const seedValue = Number(getParameterValue(parameters, 'seed', -1))
   const seed = Number.isInteger(seedValue) && seedValue >= 0 ? seedValue : undefined
 
-  context.sendStatus({ type: 'running', message: 'Preparing source image...' })
-
-  const imageBuffer = await resolveAsset(imageUri, { asBuffer: true }) as Buffer
-  const detectedFormat = detectImageFormat(imageBuffer)
-  const imageUrl = await uploadBufferToFal(imageBuffer, detectedFormat, { filenamePrefix: 'flux-kontext-source' })
-
   const payload: Record<string, unknown> = {
     prompt,
     guidance_scale: guidanceScale,
@@ -244,8 +200,7 @@ fluxKontextNode.execute = async ({ inputs, parameters, context }) => {
     safety_tolerance: safetyTolerance,
     aspect_ratio: aspectRatio,
     sync_mode: syncMode,
-    enhance_prompt: enhancePrompt,
-    image_url: imageUrl
+    enhance_prompt: enhancePrompt
   }
 
   if (typeof seed === 'number') {
@@ -260,75 +215,37 @@ fluxKontextNode.execute = async ({ inputs, parameters, context }) => {
   const syncFactor = syncMode ? 1.2 : 1
   const expectedMs = Math.min(120000, Math.max(18000, Math.floor(baseMs * numImages * syncFactor)))
 
-  const strategy = createProgressStrategy({
-    expectedMs,
-    inQueueMessage: 'Waiting in queue...',
-    finalizingMessage: 'Finalizing images...',
-    defaultInProgressMessage: (step) => `Processing step ${step}...`
-  })
-
-  try {
-    let stepCount = 0
-
-    const result = await fal.subscribe(endpoint, {
-      input: payload as any,
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        if (status.status === 'IN_QUEUE') {
-          const update = strategy.onQueue()
-          context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount += 1
-          const update = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-        } else if (status.status === 'COMPLETED') {
-          const update = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-        }
-      }
-    }) as FluxKontextResponse
-
-    const responseData = (result as any)?.data ?? {}
-    const directImages: FluxKontextImage[] = Array.isArray(result.images) ? result.images : []
-    const dataImages: FluxKontextImage[] = Array.isArray(responseData.images) ? responseData.images : []
-    const images: FluxKontextImage[] = directImages.length ? directImages : dataImages
+  return runFalExecution({
+    endpoint,
+    context,
+    errorMessage: 'Failed to generate image',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    resultCache: { bypass: Boolean(getParameterValue(parameters, 'bypass_cache', false)) },
+    progress: {
+      expectedMs,
+      inQueueMessage: 'Waiting in queue...',
+      finalizingMessage: 'Finalizing images...',
+      defaultInProgressMessage: (step) => `Processing step ${step}...`
+    },
+    buildPayload: async () => {
+      context.sendStatus({ type: 'running', message: 'Preparing source image...' })
 
-    if (!images.length) {
-      throw new Error('No images were returned by the Flux Kontext API')
-    }
+      const imageBuffer = await resolveAsset(imageUri, { asBuffer: true }) as Buffer
+      const imageUrl = await uploadImageToFal(imageBuffer, { filenamePrefix: 'flux-kontext-source' })
 
-    const uploadedImages = await Promise.all(images.map(async (image: FluxKontextImage) => {
-      if (!image?.url) {
-        throw new Error('Flux Kontext returned an image without a URL')
-      }
+      return { ...payload, image_url: imageUrl }
+    },
 
-      const response = await fetch(image.url)
-      const contentType = response.headers.get('content-type')
-      const arrayBuffer = await response.arrayBuffer()
-      const buffer = Buffer.from(arrayBuffer)
-      const filename = generateAssetFilename(image.url, contentType, 'image')
-      const uploadResult = await uploadAsset(buffer, { type: 'image', filename })
+    mapOutput: async (result) => {
+      const response = readFalResponse(result, 'Flux Kontext')
+      const seed = response.seed()
 
-      if (!uploadResult?.uri) {
-        throw new Error('Failed to upload generated image')
+      return {
+        image: await Promise.all(response.images().map((image) => rehostFalAsset(image, 'image'))),
+        seed: seed === undefined ? [] : [seed]
       }
-
-      return uploadResult.uri
-    }))
-
-    const responseSeed = typeof responseData.seed === 'number'
-      ? responseData.seed
-      : (typeof (result as any).seed === 'number' ? (result as any).seed : undefined)
-
-    return {
-      image: uploadedImages,
-      seed: typeof responseSeed === 'number' ? [responseSeed] : []
     }
-  } catch (error: any) {
-    const message = error?.message || 'Failed to generate image'
-    context.sendStatus({ type: 'error', message })
-    throw error
-  }
-}
+  })
+})
 
 export default fluxKontextNode
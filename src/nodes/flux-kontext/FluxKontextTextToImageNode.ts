@@ -1,22 +1,9 @@
-import { NanoSDK, NodeDefinition, NodeInstance, uploadAsset } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { generateAssetFilename } from '../../utils/asset-utils.js'
-
-interface FluxKontextImage {
-  url?: string
-}
-
-interface FluxKontextResponse {
-  images?: FluxKontextImage[]
-  seed?: number
-  data?: {
-    images?: FluxKontextImage[]
-    seed?: number
-  }
-}
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { rehostFalAsset } from '../../utils/asset-utils.js'
 
 const MODEL_OPTIONS = ['pro', 'max'] as const
 const OUTPUT_FORMATS = ['jpeg', 'png'] as const
@@ -157,15 +144,23 @@ const nodeDefinition: NodeDefinition = {
       step: 1,
       label: 'Seed',
       description: 'Use a fixed seed (>= 0) for repeatable generations, or -1 for random'
-    }
+    },
+    {
+      name: 'bypass_cache',
+      type: 'boolean',
+      value: false,
+      default: false,
+      label: 'Bypass Cache',
+      description: 'Call Fal even when a cached result exists for this seed and these inputs'
+    },
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
   ]
 }
 
 const fluxKontextTextToImageNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-fluxKontextTextToImageNode.execute = async ({ inputs, parameters, context }) => {
-  configureFalClient()
-
+fluxKontextTextToImageNode.execute = withFalBatch({ inputs: ['prompt'] }, async ({ inputs, parameters, context }) => {
   const prompt = inputs.prompt?.[0] as string
 
   if (!prompt) {
@@ -208,75 +203,29 @@ fluxKontextTextToImageNode.execute = async ({ inputs, parameters, context }) =>
   const syncFactor = syncMode ? 1.2 : 1
   const expectedMs = Math.min(120000, Math.max(18000, Math.floor(baseMs * numImages * syncFactor)))
 
-  const strategy = createProgressStrategy({
-    expectedMs,
-    inQueueMessage: 'Waiting in queue...',
-    finalizingMessage: 'Finalizing images...',
-    defaultInProgressMessage: (step) => `Processing step ${step}...`
-  })
-
-  try {
-    let stepCount = 0
-
-    const result = await fal.subscribe(endpoint, {
-      input: payload as any,
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        if (status.status === 'IN_QUEUE') {
-          const update = strategy.onQueue()
-          context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount += 1
-          const update = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-        } else if (status.status === 'COMPLETED') {
-          const update = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-        }
-      }
-    }) as FluxKontextResponse
-
-    const responseData = (result as any)?.data ?? {}
-    const directImages: FluxKontextImage[] = Array.isArray(result.images) ? result.images : []
-    const dataImages: FluxKontextImage[] = Array.isArray(responseData.images) ? responseData.images : []
-    const images: FluxKontextImage[] = directImages.length ? directImages : dataImages
-
-    if (!images.length) {
-      throw new Error('No images were returned by the Flux Kontext text-to-image API')
-    }
-
-    const uploadedImages = await Promise.all(images.map(async (image: FluxKontextImage) => {
-      if (!image?.url) {
-        throw new Error('Flux Kontext returned an image without a URL')
-      }
-
-      const response = await fetch(image.url)
-      const contentType = response.headers.get('content-type')
-      const arrayBuffer = await response.arrayBuffer()
-      const buffer = Buffer.from(arrayBuffer)
-      const filename = generateAssetFilename(image.url, contentType, 'image')
-      const uploadResult = await uploadAsset(buffer, { type: 'image', filename })
-
-      if (!uploadResult?.uri) {
-        throw new Error('Failed to upload generated image')
+  return runFalExecution({
+    endpoint,
+    context,
+    errorMessage: 'Failed to generate image',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    resultCache: { bypass: Boolean(getParameterValue(parameters, 'bypass_cache', false)) },
+    progress: {
+      expectedMs,
+      inQueueMessage: 'Waiting in queue...',
+      finalizingMessage: 'Finalizing images...',
+      defaultInProgressMessage: (step) => `Processing step ${step}...`
+    },
+    buildPayload: () => payload,
+    mapOutput: async (result) => {
+      const response = readFalResponse(result, 'Flux Kontext text-to-image')
+      const seed = response.seed()
+
+      return {
+        image: await Promise.all(response.images().map((image) => rehostFalAsset(image, 'image'))),
+        seed: seed === undefined ? [] : [seed]
       }
-
-      return uploadResult.uri
-    }))
-
-    const responseSeed = typeof responseData.seed === 'number'
-      ? responseData.seed
-      : (typeof (result as any).seed === 'number' ? (result as any).seed : undefined)
-
-    return {
-      image: uploadedImages,
-      seed: typeof responseSeed === 'number' ? [responseSeed] : []
     }
-  } catch (error: any) {
-    const message = error?.message || 'Failed to generate image'
-    context.sendStatus({ type: 'error', message })
-    throw error
-  }
-}
+  })
+})
 
 export default fluxKontextTextToImageNode
@@ -1,20 +1,10 @@
 import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { FalImageReference, assetToDataUrl, uploadGeneratedImages } from './utils.js'
-
-interface FluxProControlResponse {
-  images?: FalImageReference[]
-  seed?: number
-  has_nsfw_concepts?: boolean[]
-  data?: {
-    images?: FalImageReference[]
-    seed?: number
-    has_nsfw_concepts?: boolean[]
-  }
-}
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createSafetyPolicyParameters, withFalSafetyPolicy } from '../../utils/fal-safety.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { assetToDataUrl, uploadGeneratedImages } from './utils.js'
 
 type ControlVariantKey =
   | 'flux-pro-v1-canny'
@@ -116,6 +106,11 @@ const nodeDefinition: NodeDefinition = {
       name: 'has_nsfw_concepts',
       type: 'boolean',
       description: 'Flags per generated image indicating potential NSFW content'
+    },
+    {
+      name: 'safety_report',
+      type: 'string',
+      description: 'JSON report of the NSFW check: policy, decision, seeds tried and the flag of every image'
     }
   ],
   parameters: [
@@ -222,6 +217,14 @@ const nodeDefinition: NodeDefinition = {
       label: 'Seed (-1 = random)',
       description: 'Use a fixed seed (>=0) for repeatable generations'
     },
+    {
+      name: 'bypass_cache',
+      type: 'boolean',
+      value: false,
+      default: false,
+      label: 'Bypass Cache',
+      description: 'Call Fal even when a cached result exists for this seed and these inputs'
+    },
     {
       name: 'finetune_id',
       type: 'text',
@@ -240,15 +243,16 @@ const nodeDefinition: NodeDefinition = {
       step: 0.05,
       label: 'Fine-tune Strength',
       description: 'Controls how strongly the fine-tune influences the output (fine-tuned variants)'
-    }
+    },
+    ...createSafetyPolicyParameters(),
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
   ]
 }
 
 const fluxProControlNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-fluxProControlNode.execute = async ({ inputs, parameters, context }) => {
-  configureFalClient()
-
+fluxProControlNode.execute = withFalBatch({ inputs: ['prompt', 'control_image'] }, withFalSafetyPolicy({}, async ({ inputs, parameters, context }) => {
   const prompt = inputs.prompt?.[0] as string
   const controlImageUri = inputs.control_image?.[0] as string
 
@@ -270,10 +274,6 @@ fluxProControlNode.execute = async ({ inputs, parameters, context }) => {
 
   const variant = CONTROL_VARIANTS[variantKey]
 
-  context.sendStatus({ type: 'running', message: 'Preparing control image...' })
-
-  const controlImageDataUrl = await assetToDataUrl(controlImageUri)
-
   const numImages = clamp(Number(getParameterValue(parameters, 'num_images', 1)), 1, 4)
   const imageSize = ensureOption(getParameterValue(parameters, 'image_size', 'landscape_4_3'), IMAGE_SIZE_OPTIONS, 'landscape_4_3')
   const numInferenceSteps = clamp(Number(getParameterValue(parameters, 'num_inference_steps', 28)), 1, 50)
@@ -305,7 +305,6 @@ fluxProControlNode.execute = async ({ inputs, parameters, context }) => {
 
   const payload: Record<string, unknown> = {
     prompt,
-    control_image_url: controlImageDataUrl,
     image_size: imageSize,
     num_inference_steps: numInferenceSteps,
     guidance_scale: guidanceScale,
@@ -328,64 +327,34 @@ fluxProControlNode.execute = async ({ inputs, parameters, context }) => {
   const syncFactor = syncMode ? 1.25 : 1
   const expectedMs = Math.min(120000, Math.max(18000, Math.floor(variant.baseMs * numImages * syncFactor)))
 
-  const strategy = createProgressStrategy({
-    expectedMs,
-    inQueueMessage: `Waiting for ${variant.label}...`,
-    finalizingMessage: 'Finalizing images...',
-    defaultInProgressMessage: (step) => `Processing step ${step}...`
-  })
+  return runFalExecution({
+    endpoint: variant.endpoint,
+    context,
+    errorMessage: 'Failed to run Flux Pro Control generation',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    resultCache: { bypass: Boolean(getParameterValue(parameters, 'bypass_cache', false)) },
+    progress: {
+      expectedMs,
+      inQueueMessage: `Waiting for ${variant.label}...`,
+      finalizingMessage: 'Finalizing images...',
+      defaultInProgressMessage: (step) => `Processing step ${step}...`
+    },
+    buildPayload: async () => {
+      context.sendStatus({ type: 'running', message: 'Preparing control image...' })
+      return { ...payload, control_image_url: await assetToDataUrl(controlImageUri) }
+    },
 
-  try {
-    let stepCount = 0
+    mapOutput: async (result) => {
+      const response = readFalResponse(result, 'Flux Pro Control')
+      const seed = response.seed()
 
-    const result = await fal.subscribe(variant.endpoint, {
-      input: payload as any,
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        if (status.status === 'IN_QUEUE') {
-          const update = strategy.onQueue()
-          context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount += 1
-          const update = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-        } else if (status.status === 'COMPLETED') {
-          const update = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-        }
+      return {
+        images: await uploadGeneratedImages(response.images()),
+        seed: seed === undefined ? [] : [seed],
+        has_nsfw_concepts: response.nsfwFlags()
       }
-    }) as FluxProControlResponse
-
-    const responseData = (result as any)?.data ?? {}
-
-    const directImages = Array.isArray(result.images) ? result.images : []
-    const nestedImages = Array.isArray(responseData.images) ? responseData.images : []
-    const images = (directImages.length ? directImages : nestedImages) as FalImageReference[]
-
-    if (!images.length) {
-      throw new Error('No images were returned by the Flux Pro Control API')
     }
-
-    const uploadedImages = await uploadGeneratedImages(images)
-
-    const responseSeed = typeof responseData.seed === 'number'
-      ? responseData.seed
-      : (typeof result.seed === 'number' ? result.seed : undefined)
-
-    const nsfwFlags = Array.isArray(responseData.has_nsfw_concepts)
-      ? responseData.has_nsfw_concepts
-      : (Array.isArray(result.has_nsfw_concepts) ? result.has_nsfw_concepts : [])
-
-    return {
-      images: uploadedImages,
-      seed: typeof responseSeed === 'number' ? [responseSeed] : [],
-      has_nsfw_concepts: nsfwFlags
-    }
-  } catch (error: any) {
-    const message = error?.message || 'Failed to run Flux Pro Control generation'
-    context.sendStatus({ type: 'error', message })
-    throw error
-  }
-}
+  })
+}))
 
 export default fluxProControlNode
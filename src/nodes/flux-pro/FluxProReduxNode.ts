@@ -1,20 +1,10 @@
 import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { FalImageReference, assetToDataUrl, uploadGeneratedImages } from './utils.js'
-
-interface FluxProReduxResponse {
-  images?: FalImageReference[]
-  seed?: number
-  has_nsfw_concepts?: boolean[]
-  data?: {
-    images?: FalImageReference[]
-    seed?: number
-    has_nsfw_concepts?: boolean[]
-  }
-}
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createSafetyPolicyParameters, withFalSafetyPolicy } from '../../utils/fal-safety.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { assetToDataUrl, uploadGeneratedImages } from './utils.js'
 
 type ReduxVariantKey = 'flux-pro-v1-redux' | 'flux-pro-v1_1-redux' | 'flux-pro-v1_1-ultra-redux'
 
@@ -109,6 +99,11 @@ const nodeDefinition: NodeDefinition = {
       name: 'has_nsfw_concepts',
       type: 'boolean',
       description: 'Flags per generated image indicating potential NSFW content'
+    },
+    {
+      name: 'safety_report',
+      type: 'string',
+      description: 'JSON report of the NSFW check: policy, decision, seeds tried and the flag of every image'
     }
   ],
   parameters: [
@@ -249,15 +244,24 @@ const nodeDefinition: NodeDefinition = {
       step: 1,
       label: 'Seed (-1 = random)',
       description: 'Use a fixed seed (>=0) for repeatable variations'
-    }
+    },
+    {
+      name: 'bypass_cache',
+      type: 'boolean',
+      value: false,
+      default: false,
+      label: 'Bypass Cache',
+      description: 'Call Fal even when a cached result exists for this seed and these inputs'
+    },
+    ...createSafetyPolicyParameters(),
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
   ]
 }
 
 const fluxProReduxNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-fluxProReduxNode.execute = async ({ inputs, parameters, context }) => {
-  configureFalClient()
-
+fluxProReduxNode.execute = withFalBatch({ inputs: ['image', 'prompt'] }, withFalSafetyPolicy({}, async ({ inputs, parameters, context }) => {
   const imageUri = inputs.image?.[0] as string
   const prompt = inputs.prompt?.[0] as string | undefined
 
@@ -274,10 +278,6 @@ fluxProReduxNode.execute = async ({ inputs, parameters, context }) => {
 
   const variant = REDUX_VARIANTS[variantKey]
 
-  context.sendStatus({ type: 'running', message: 'Preparing input image...' })
-
-  const imageDataUrl = await assetToDataUrl(imageUri)
-
   const numImages = clamp(Number(getParameterValue(parameters, 'num_images', 1)), 1, 4)
   const syncMode = Boolean(getParameterValue(parameters, 'sync_mode', false))
   const enhancePrompt = Boolean(getParameterValue(parameters, 'enhance_prompt', false))
@@ -299,7 +299,6 @@ fluxProReduxNode.execute = async ({ inputs, parameters, context }) => {
 
   const payload: Record<string, unknown> = {
     prompt: typeof prompt === 'string' ? prompt : '',
-    image_url: imageDataUrl,
     num_images: numImages,
     output_format: outputFormat,
     safety_tolerance: safetyTolerance,
@@ -336,64 +335,34 @@ fluxProReduxNode.execute = async ({ inputs, parameters, context }) => {
   const syncFactor = syncMode ? 1.2 : 1
   const expectedMs = Math.min(120000, Math.max(16000, Math.floor(variant.baseMs * numImages * syncFactor)))
 
-  const strategy = createProgressStrategy({
-    expectedMs,
-    inQueueMessage: `Waiting for ${variant.label}...`,
-    finalizingMessage: 'Finalizing images...',
-    defaultInProgressMessage: (step) => `Processing step ${step}...`
-  })
+  return runFalExecution({
+    endpoint: variant.endpoint,
+    context,
+    errorMessage: 'Failed to run Flux Pro Redux',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    resultCache: { bypass: Boolean(getParameterValue(parameters, 'bypass_cache', false)) },
+    progress: {
+      expectedMs,
+      inQueueMessage: `Waiting for ${variant.label}...`,
+      finalizingMessage: 'Finalizing images...',
+      defaultInProgressMessage: (step) => `Processing step ${step}...`
+    },
+    buildPayload: async () => {
+      context.sendStatus({ type: 'running', message: 'Preparing input image...' })
+      return { ...payload, image_url: await assetToDataUrl(imageUri) }
+    },
 
-  try {
-    let stepCount = 0
+    mapOutput: async (result) => {
+      const response = readFalResponse(result, 'Flux Pro Redux')
+      const seed = response.seed()
 
-    const result = await fal.subscribe(variant.endpoint, {
-      input: payload as any,
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        if (status.status === 'IN_QUEUE') {
-          const update = strategy.onQueue()
-          context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount += 1
-          const update = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-        } else if (status.status === 'COMPLETED') {
-          const update = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-        }
+      return {
+        images: await uploadGeneratedImages(response.images()),
+        seed: seed === undefined ? [] : [seed],
+        has_nsfw_concepts: response.nsfwFlags()
       }
-    }) as FluxProReduxResponse
-
-    const responseData = (result as any)?.data ?? {}
-
-    const directImages = Array.isArray(result.images) ? result.images : []
-    const nestedImages = Array.isArray(responseData.images) ? responseData.images : []
-    const images = (directImages.length ? directImages : nestedImages) as FalImageReference[]
-
-    if (!images.length) {
-      throw new Error('No images were returned by the Flux Pro Redux API')
     }
-
-    const uploadedImages = await uploadGeneratedImages(images)
-
-    const responseSeed = typeof responseData.seed === 'number'
-      ? responseData.seed
-      : (typeof result.seed === 'number' ? result.seed : undefined)
-
-    const nsfwFlags = Array.isArray(responseData.has_nsfw_concepts)
-      ? responseData.has_nsfw_concepts
-      : (Array.isArray(result.has_nsfw_concepts) ? result.has_nsfw_concepts : [])
-
-    return {
-      images: uploadedImages,
-      seed: typeof responseSeed === 'number' ? [responseSeed] : [],
-      has_nsfw_concepts: nsfwFlags
-    }
-  } catch (error: any) {
-    const message = error?.message || 'Failed to run Flux Pro Redux'
-    context.sendStatus({ type: 'error', message })
-    throw error
-  }
-}
+  })
+}))
 
 export default fluxProReduxNode
@@ -1,20 +1,11 @@
 import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { FalImageReference, uploadGeneratedImages } from './utils.js'
-
-interface FluxProTextToImageResponse {
-  images?: FalImageReference[]
-  seed?: number
-  has_nsfw_concepts?: boolean[]
-  data?: {
-    images?: FalImageReference[]
-    seed?: number
-    has_nsfw_concepts?: boolean[]
-  }
-}
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createSafetyPolicyParameters, withFalSafetyPolicy } from '../../utils/fal-safety.js'
+import { createSweepParameters, withFalSweep } from '../../utils/fal-sweep.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { uploadGeneratedImages } from './utils.js'
 
 type TextToImageVariantKey = 'flux-pro-new' | 'flux-pro-v1_1' | 'flux-pro-v1_1-ultra' | 'flux-pro-v1_1-ultra-finetuned'
 
@@ -83,6 +74,9 @@ const ensureOption = <T extends string>(value: unknown, options: readonly T[], f
   return fallback
 }
 
+// Parameters the Parameter Sweep may vary
+const SWEEP_PARAMETERS = ['guidance_scale', 'num_inference_steps', 'seed', 'image_size']
+
 const nodeDefinition: NodeDefinition = {
   uid: 'fal-flux-pro-text-to-image',
   name: 'Flux Pro Text to Image',
@@ -112,6 +106,21 @@ const nodeDefinition: NodeDefinition = {
       name: 'has_nsfw_concepts',
       type: 'boolean',
       description: 'Flag per generated image indicating potential NSFW content'
+    },
+    {
+      name: 'safety_report',
+      type: 'string',
+      description: 'JSON report of the NSFW check: policy, decision, seeds tried and the flag of every image'
+    },
+    {
+      name: 'manifest',
+      type: 'string',
+      description: 'Parameter Sweep only: JSON listing the parameters behind every generated image'
+    },
+    {
+      name: 'contact_sheet',
+      type: 'asset:image',
+      description: 'Parameter Sweep only: labelled grid of all sweep results, when Sweep Contact Sheet is on'
     }
   ],
   parameters: [
@@ -243,6 +252,14 @@ const nodeDefinition: NodeDefinition = {
       label: 'Seed (-1 = random)',
       description: 'Use a fixed seed (>= 0) for repeatable generations'
     },
+    {
+      name: 'bypass_cache',
+      type: 'boolean',
+      value: false,
+      default: false,
+      label: 'Bypass Cache',
+      description: 'Call Fal even when a cached result exists for this seed and these inputs'
+    },
     {
       name: 'finetune_id',
       type: 'text',
@@ -261,15 +278,17 @@ const nodeDefinition: NodeDefinition = {
       step: 0.05,
       label: 'Fine-tune Strength',
       description: 'Controls how strongly the fine-tune influences the output (Ultra fine-tuned variant)'
-    }
+    },
+    ...createSweepParameters(SWEEP_PARAMETERS),
+    ...createSafetyPolicyParameters(),
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
   ]
 }
 
 const fluxProTextToImageNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-fluxProTextToImageNode.execute = async ({ inputs, parameters, context }) => {
-  configureFalClient()
-
+fluxProTextToImageNode.execute = withFalSweep({ parameters: SWEEP_PARAMETERS }, withFalBatch({ inputs: ['prompt'] }, withFalSafetyPolicy({}, async ({ inputs, parameters, context }) => {
   const prompt = inputs.prompt?.[0] as string
 
   if (!prompt) {
@@ -366,64 +385,30 @@ fluxProTextToImageNode.execute = async ({ inputs, parameters, context }) => {
   const syncFactor = syncMode ? 1.25 : 1
   const expectedMs = Math.min(120000, Math.max(15000, Math.floor(variant.baseMs * numImages * syncFactor)))
 
-  const strategy = createProgressStrategy({
-    expectedMs,
-    inQueueMessage: `Waiting for ${variant.label}...`,
-    finalizingMessage: 'Finalizing images...',
-    defaultInProgressMessage: (step) => `Processing step ${step}...`
-  })
-
-  try {
-    let stepCount = 0
-
-    const result = await fal.subscribe(variant.endpoint, {
-      input: payload as any,
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        if (status.status === 'IN_QUEUE') {
-          const update = strategy.onQueue()
-          context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount += 1
-          const update = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-        } else if (status.status === 'COMPLETED') {
-          const update = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-        }
+  return runFalExecution({
+    endpoint: variant.endpoint,
+    context,
+    errorMessage: 'Failed to generate images with Flux Pro',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    resultCache: { bypass: Boolean(getParameterValue(parameters, 'bypass_cache', false)) },
+    progress: {
+      expectedMs,
+      inQueueMessage: `Waiting for ${variant.label}...`,
+      finalizingMessage: 'Finalizing images...',
+      defaultInProgressMessage: (step) => `Processing step ${step}...`
+    },
+    buildPayload: () => payload,
+    mapOutput: async (result) => {
+      const response = readFalResponse(result, 'Flux Pro')
+      const seed = response.seed()
+
+      return {
+        images: await uploadGeneratedImages(response.images()),
+        seed: seed === undefined ? [] : [seed],
+        has_nsfw_concepts: response.nsfwFlags()
       }
-    }) as FluxProTextToImageResponse
-
-    const responseData = (result as any)?.data ?? {}
-
-    const directImages = Array.isArray(result.images) ? result.images : []
-    const nestedImages = Array.isArray(responseData.images) ? responseData.images : []
-    const images = (directImages.length ? directImages : nestedImages) as FalImageReference[]
-
-    if (!images.length) {
-      throw new Error('No images were returned by the Flux Pro API')
     }
-
-    const uploadedImages = await uploadGeneratedImages(images)
-
-    const responseSeed = typeof responseData.seed === 'number'
-      ? responseData.seed
-      : (typeof result.seed === 'number' ? result.seed : undefined)
-
-    const nsfwFlags = Array.isArray(responseData.has_nsfw_concepts)
-      ? responseData.has_nsfw_concepts
-      : (Array.isArray(result.has_nsfw_concepts) ? result.has_nsfw_concepts : [])
-
-    return {
-      images: uploadedImages,
-      seed: typeof responseSeed === 'number' ? [responseSeed] : [],
-      has_nsfw_concepts: nsfwFlags
-    }
-  } catch (error: any) {
-    const message = error?.message || 'Failed to generate images with Flux Pro'
-    context.sendStatus({ type: 'error', message })
-    throw error
-  }
-}
+  })
+})))
 
 export default fluxProTextToImageNode
@@ -1,59 +1,17 @@
-import { NanoSDK, NodeDefinition, NodeInstance, resolveAsset, uploadAsset } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { uploadBufferToFal } from '../../utils/fal-storage.js'
-import { generateAssetFilename } from '../../utils/asset-utils.js'
-
-interface FluxSrpoImage {
-  url?: string
-}
-
-interface FluxSrpoImageToImageResponse {
-  images?: FluxSrpoImage[]
-  seed?: number
-  has_nsfw_concepts?: boolean[]
-}
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createSafetyPolicyParameters, withFalSafetyPolicy } from '../../utils/fal-safety.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { uploadImageToFal } from '../../utils/fal-storage.js'
+import { rehostFalAsset, resolveAsset } from '../../utils/asset-utils.js'
 
 const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max)
 
 const allowedFormats = new Set(['jpeg', 'png'])
 const allowedAccelerations = new Set(['none', 'regular', 'high'])
 
-const detectImageFormat = (buffer: Buffer): string => {
-  if (buffer.length > 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
-    return 'jpeg'
-  }
-  if (
-    buffer.length > 8 &&
-    buffer[0] === 0x89 &&
-    buffer[1] === 0x50 &&
-    buffer[2] === 0x4e &&
-    buffer[3] === 0x47 &&
-    buffer[4] === 0x0d &&
-    buffer[5] === 0x0a &&
-    buffer[6] === 0x1a &&
-    buffer[7] === 0x0a
-  ) {
-    return 'png'
-  }
-  if (
-    buffer.length > 12 &&
-    buffer[0] === 0x52 &&
-    buffer[1] === 0x49 &&
-    buffer[2] === 0x46 &&
-    buffer[3] === 0x46 &&
-    buffer[8] === 0x57 &&
-    buffer[9] === 0x45 &&
-    buffer[10] === 0x42 &&
-    buffer[11] === 0x50
-  ) {
-    return 'webp'
-  }
-  return 'jpeg'
-}
-
 const nodeDefinition: NodeDefinition = {
   uid: 'fal-flux-srpo-image-to-image',
   name: 'Flux SRPO Image to Image',
@@ -88,6 +46,11 @@ const nodeDefinition: NodeDefinition = {
       name: 'has_nsfw_concepts',
       type: 'boolean',
       description: 'NSFW flags reported per transformed image'
+    },
+    {
+      name: 'safety_report',
+      type: 'string',
+      description: 'JSON report of the NSFW check: policy, decision, seeds tried and the flag of every image'
     }
   ],
   parameters: [
@@ -151,6 +114,14 @@ const nodeDefinition: NodeDefinition = {
       label: 'Seed (-1 = random)',
       description: 'Set a fixed seed for reproducibility; use -1 for random'
     },
+    {
+      name: 'bypass_cache',
+      type: 'boolean',
+      value: false,
+      default: false,
+      label: 'Bypass Cache',
+      description: 'Call Fal even when a cached result exists for this seed and these inputs'
+    },
     {
       name: 'output_format',
       type: 'select',
@@ -191,15 +162,16 @@ const nodeDefinition: NodeDefinition = {
       default: false,
       label: 'Sync Mode',
       description: 'Wait for inline images before responding (increases latency)'
-    }
+    },
+    ...createSafetyPolicyParameters(),
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
   ]
 }
 
 const fluxSrpoImageToImageNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-fluxSrpoImageToImageNode.execute = async ({ inputs, parameters, context }) => {
-  configureFalClient()
-
+fluxSrpoImageToImageNode.execute = withFalBatch({ inputs: ['prompt', 'image'] }, withFalSafetyPolicy({}, async ({ inputs, parameters, context }) => {
   const prompt = inputs.prompt?.[0] as string
   const imageUri = inputs.image?.[0] as string
 
@@ -234,15 +206,8 @@ fluxSrpoImageToImageNode.execute = async ({ inputs, parameters, context }) => {
   const enableSafetyChecker = Boolean(getParameterValue(parameters, 'enable_safety_checker', true))
   const syncMode = Boolean(getParameterValue(parameters, 'sync_mode', false))
 
-  context.sendStatus({ type: 'running', message: `Preparing source image for ${variantLabel}...` })
-
-  const buffer = await resolveAsset(imageUri, { asBuffer: true }) as Buffer
-  const detectedFormat = detectImageFormat(buffer)
-  const imageUrl = await uploadBufferToFal(buffer, detectedFormat, { filenamePrefix: 'flux-srpo-source' })
-
   const payload: any = {
     prompt,
-    image_url: imageUrl,
     strength,
     num_inference_steps: numInferenceSteps,
     guidance_scale: guidanceScale,
@@ -263,92 +228,41 @@ fluxSrpoImageToImageNode.execute = async ({ inputs, parameters, context }) => {
     180000,
     Math.max(20000, Math.floor(numImages * numInferenceSteps * 620 * accelerationFactor * syncFactor))
   )
-  const strategy = createProgressStrategy({
-    expectedMs,
-    inQueueMessage: 'Waiting in queue...',
-    finalizingMessage: 'Finalizing images...',
-    defaultInProgressMessage: (n) => `Processing step ${n}...`
-  })
-
-  try {
-    let stepCount = 0
-
-    const result = await fal.subscribe(endpoint, {
-      input: payload,
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        if (status.status === 'IN_QUEUE') {
-          const r = strategy.onQueue()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount += 1
-          const r = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'COMPLETED') {
-          const r = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        }
-      }
-    }) as FluxSrpoImageToImageResponse
 
-    console.log(`[Flux SRPO Image2Image] Fal response (${variantLabel}):`, JSON.stringify(result, null, 2))
-
-    const responseData = (result as any)?.data ?? {}
-    const directImages = Array.isArray(result.images) ? result.images : []
-    const dataImages = Array.isArray(responseData.images) ? responseData.images : []
-    const images = directImages.length ? directImages : dataImages
+  return runFalExecution({
+    endpoint,
+    context,
+    errorMessage: `Failed to transform image with ${variantLabel}`,
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    resultCache: { bypass: Boolean(getParameterValue(parameters, 'bypass_cache', false)) },
+    progress: {
+      expectedMs,
+      inQueueMessage: 'Waiting in queue...',
+      finalizingMessage: 'Finalizing images...',
+      defaultInProgressMessage: (n) => `Processing step ${n}...`
+    },
+    buildPayload: async () => {
+      context.sendStatus({ type: 'running', message: `Preparing source image for ${variantLabel}...` })
 
-    if (!images.length) {
-      throw new Error(`No images were returned by the ${variantLabel} image-to-image API`)
-    }
+      const buffer = await resolveAsset(imageUri, { asBuffer: true }) as Buffer
+      const imageUrl = await uploadImageToFal(buffer, { filenamePrefix: 'flux-srpo-source' })
 
-    const uploadedUris: string[] = []
+      return { ...payload, image_url: imageUrl }
+    },
 
-    for (const image of images) {
-      if (!image.url) {
-        continue
-      }
+    mapOutput: async (result) => {
+      console.log(`[Flux SRPO Image2Image] Fal response (${variantLabel}):`, JSON.stringify(result, null, 2))
 
-      const response = await fetch(image.url)
-      const contentType = response.headers.get('content-type')
-      const arrayBuffer = await response.arrayBuffer()
-      const resultBuffer = Buffer.from(arrayBuffer)
-      const filename = generateAssetFilename(image.url, contentType, 'image')
-      const uploadResult = await uploadAsset(resultBuffer, { type: 'image', filename })
+      const response = readFalResponse(result, variantLabel)
+      const seed = response.seed()
 
-      if (!uploadResult.uri) {
-        throw new Error('Failed to upload transformed image')
+      return {
+        images: await Promise.all(response.images().map((image) => rehostFalAsset(image, 'image'))),
+        seed: seed === undefined ? [] : [seed],
+        has_nsfw_concepts: response.nsfwFlags()
       }
-
-      uploadedUris.push(uploadResult.uri)
-    }
-
-    if (!uploadedUris.length) {
-      throw new Error('Transformed images could not be retrieved')
-    }
-
-    const hasNsfw = Array.isArray(result.has_nsfw_concepts)
-      ? result.has_nsfw_concepts.map((flag) => Boolean(flag))
-      : Array.isArray(responseData.has_nsfw_concepts)
-        ? responseData.has_nsfw_concepts.map((flag: any) => Boolean(flag))
-        : []
-
-    const seedValueFromResponse = typeof result.seed === 'number'
-      ? result.seed
-      : typeof responseData.seed === 'number'
-        ? responseData.seed
-        : undefined
-
-    return {
-      images: uploadedUris,
-      seed: seedValueFromResponse !== undefined ? [seedValueFromResponse] : [],
-      has_nsfw_concepts: hasNsfw
     }
-  } catch (error: any) {
-    const message = error?.message ?? `Failed to transform image with ${variantLabel}`
-    context.sendStatus({ type: 'error', message })
-    throw error
-  }
-}
+  })
+}))
 
 export default fluxSrpoImageToImageNode
@@ -1,19 +1,10 @@
-import { NanoSDK, NodeDefinition, NodeInstance, uploadAsset } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { generateAssetFilename } from '../../utils/asset-utils.js'
-
-interface FluxSrpoImage {
-  url?: string
-}
-
-interface FluxSrpoTextToImageResponse {
-  images?: FluxSrpoImage[]
-  seed?: number
-  has_nsfw_concepts?: boolean[]
-}
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createSafetyPolicyParameters, withFalSafetyPolicy } from '../../utils/fal-safety.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { rehostFalAsset } from '../../utils/asset-utils.js'
 
 const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max)
 
@@ -49,6 +40,11 @@ const nodeDefinition: NodeDefinition = {
       name: 'has_nsfw_concepts',
       type: 'boolean',
       description: 'NSFW flags reported per generated image'
+    },
+    {
+      name: 'safety_report',
+      type: 'string',
+      description: 'JSON report of the NSFW check: policy, decision, seeds tried and the flag of every image'
     }
   ],
 
@@ -140,6 +136,14 @@ const nodeDefinition: NodeDefinition = {
       label: 'Seed (-1 = random)',
       description: 'Set a fixed seed for reproducibility; use -1 for random'
     },
+    {
+      name: 'bypass_cache',
+      type: 'boolean',
+      value: false,
+      default: false,
+      label: 'Bypass Cache',
+      description: 'Call Fal even when a cached result exists for this seed and these inputs'
+    },
     {
       name: 'output_format',
       type: 'select',
@@ -180,15 +184,16 @@ const nodeDefinition: NodeDefinition = {
       default: false,
       label: 'Sync Mode',
       description: 'Wait for inline images before responding (increases latency)'
-    }
+    },
+    ...createSafetyPolicyParameters(),
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
   ]
 }
 
 const fluxSrpoTextToImageNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-fluxSrpoTextToImageNode.execute = async ({ inputs, parameters, context }) => {
-  configureFalClient()
-
+fluxSrpoTextToImageNode.execute = withFalBatch({ inputs: ['prompt'] }, withFalSafetyPolicy({}, async ({ inputs, parameters, context }) => {
   const prompt = inputs.prompt?.[0] as string
 
   if (!prompt) {
@@ -245,94 +250,34 @@ fluxSrpoTextToImageNode.execute = async ({ inputs, parameters, context }) => {
     180000,
     Math.max(18000, Math.floor(numImages * numInferenceSteps * 650 * accelerationFactor * syncFactor))
   )
-  const strategy = createProgressStrategy({
-    expectedMs,
-    inQueueMessage: 'Waiting in queue...',
-    finalizingMessage: 'Finalizing images...',
-    defaultInProgressMessage: (n) => `Processing step ${n}...`
-  })
 
   context.sendStatus({ type: 'running', message: `Submitting ${variantLabel} request to Fal...` })
 
-  try {
-    let stepCount = 0
-
-    const result = await fal.subscribe(endpoint, {
-      input: payload,
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        if (status.status === 'IN_QUEUE') {
-          const r = strategy.onQueue()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount += 1
-          const r = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'COMPLETED') {
-          const r = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        }
-      }
-    }) as FluxSrpoTextToImageResponse
-
-    const responseData = (result as any)?.data ?? {}
-    const directImages = Array.isArray(result.images) ? result.images : []
-    const dataImages = Array.isArray(responseData.images) ? responseData.images : []
-    const images = directImages.length ? directImages : dataImages
-
-    if (!images.length) {
-      throw new Error(`No images were returned by the ${variantLabel} API`)
-    }
-
-    const uploadedUris: string[] = []
-
-    for (const image of images) {
-      if (!image.url) {
-        continue
-      }
-
-      const response = await fetch(image.url)
-      const contentType = response.headers.get('content-type')
-      const arrayBuffer = await response.arrayBuffer()
-      const buffer = Buffer.from(arrayBuffer)
-      const filename = generateAssetFilename(image.url, contentType, 'image')
-      const uploadResult = await uploadAsset(buffer, { type: 'image', filename })
-
-      if (!uploadResult.uri) {
-        throw new Error('Failed to upload generated image')
+  return runFalExecution({
+    endpoint,
+    context,
+    errorMessage: `Failed to generate images with ${variantLabel}`,
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    resultCache: { bypass: Boolean(getParameterValue(parameters, 'bypass_cache', false)) },
+    fieldNames: { 'image_size.width': 'custom_width', 'image_size.height': 'custom_height' },
+    progress: {
+      expectedMs,
+      inQueueMessage: 'Waiting in queue...',
+      finalizingMessage: 'Finalizing images...',
+      defaultInProgressMessage: (n) => `Processing step ${n}...`
+    },
+    buildPayload: () => payload,
+    mapOutput: async (result) => {
+      const response = readFalResponse(result, variantLabel)
+      const seed = response.seed()
+
+      return {
+        images: await Promise.all(response.images().map((image) => rehostFalAsset(image, 'image'))),
+        seed: seed === undefined ? [] : [seed],
+        has_nsfw_concepts: response.nsfwFlags()
       }
-
-      uploadedUris.push(uploadResult.uri)
     }
-
-    if (!uploadedUris.length) {
-      throw new Error('Generated images could not be retrieved')
-    }
-
-    const hasNsfw = Array.isArray(result.has_nsfw_concepts)
-      ? result.has_nsfw_concepts.map((flag) => Boolean(flag))
-      : Array.isArray(responseData.has_nsfw_concepts)
-        ? responseData.has_nsfw_concepts.map((flag: any) => Boolean(flag))
-        : []
-
-    const seedValueFromResponse = typeof result.seed === 'number'
-      ? result.seed
-      : typeof responseData.seed === 'number'
-        ? responseData.seed
-        : undefined
-
-    const outputs: Record<string, any> = {
-      images: uploadedUris,
-      seed: seedValueFromResponse !== undefined ? [seedValueFromResponse] : [],
-      has_nsfw_concepts: hasNsfw
-    }
-
-    return outputs
-  } catch (error: any) {
-    const message = error?.message ?? `Failed to generate images with ${variantLabel}`
-    context.sendStatus({ type: 'error', message })
-    throw error
-  }
-}
+  })
+}))
 
 export default fluxSrpoTextToImageNode
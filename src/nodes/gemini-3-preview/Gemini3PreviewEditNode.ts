@@ -1,20 +1,9 @@
-import { NanoSDK, NodeDefinition, NodeInstance, resolveAsset } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { FalImageReference, uploadGeneratedImages, assetToDataUrl } from '../flux-pro/utils.js'
-
-interface Gemini3ProPreviewEditResponse {
-    data?: {
-        images?: FalImageReference[]
-        description?: string
-        timings?: Record<string, number>
-    }
-    images?: FalImageReference[]
-    description?: string
-    timings?: Record<string, number>
-}
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { uploadGeneratedImages, assetToDataUrl } from '../flux-pro/utils.js'
 
 const nodeDefinition: NodeDefinition = {
     uid: 'fal-ai-gemini-3-pro-image-preview-edit',
@@ -128,15 +117,15 @@ const nodeDefinition: NodeDefinition = {
             default: false,
             label: 'Enable Web Search',
             description: 'Enable web search for the image generation task.'
-        }
+        },
+        createBatchModeParameter(),
+        createCredentialProfileParameter()
     ]
 }
 
 const gemini3PreviewEditNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-gemini3PreviewEditNode.execute = async ({ inputs, parameters, context }) => {
-    configureFalClient()
-
+gemini3PreviewEditNode.execute = withFalBatch({ inputs: ['prompt', 'image1', 'image2', 'image3', 'image4'] }, async ({ inputs, parameters, context }) => {
     const prompt = inputs.prompt?.[0] as string
 
     if (!prompt) {
@@ -156,8 +145,6 @@ gemini3PreviewEditNode.execute = async ({ inputs, parameters, context }) => {
         throw new Error('At least one image is required')
     }
 
-    const imageUrls = await Promise.all(imageInputs.map(uri => assetToDataUrl(uri)))
-
     const outputFormat = String(getParameterValue(parameters, 'output_format', 'png'))
     const resolution = String(getParameterValue(parameters, 'resolution', '1K'))
     const aspectRatio = String(getParameterValue(parameters, 'aspect_ratio', 'auto'))
@@ -166,7 +153,6 @@ gemini3PreviewEditNode.execute = async ({ inputs, parameters, context }) => {
 
     const payload = {
         prompt,
-        image_urls: imageUrls,
         output_format: outputFormat,
         resolution,
         aspect_ratio: aspectRatio,
@@ -174,56 +160,36 @@ gemini3PreviewEditNode.execute = async ({ inputs, parameters, context }) => {
         enable_web_search: enableWebSearch
     }
 
-    const expectedMs = Math.max(10000, imageUrls.length * 5000)
+    const expectedMs = Math.max(10000, imageInputs.length * 5000)
+
+    return runFalExecution({
+        endpoint: 'fal-ai/gemini-3-pro-image-preview/edit',
+        context,
+        errorMessage: 'Failed to generate images with Gemini 3 Pro Edit',
+        credential: getParameterValue(parameters, 'credential_profile', 'default'),
+        progress: {
+            expectedMs,
+            inQueueMessage: 'Waiting for Gemini Edit...',
+            finalizingMessage: 'Finalizing images...',
+            defaultInProgressMessage: (step) => `Processing step ${step}...`
+        },
+        buildPayload: async () => ({
+            ...payload,
+            image_urls: await Promise.all(imageInputs.map(uri => assetToDataUrl(uri)))
+        }),
 
-    const strategy = createProgressStrategy({
-        expectedMs,
-        inQueueMessage: 'Waiting for Gemini Edit...',
-        finalizingMessage: 'Finalizing images...',
-        defaultInProgressMessage: (step) => `Processing step ${step}...`
-    })
+        mapOutput: async (result) => {
+            console.log('Gemini 3 Edit Response:', JSON.stringify(result, null, 2))
 
-    try {
-        let stepCount = 0
+            const response = readFalResponse(result, 'Gemini 3 Pro edit')
+            const description = response.text('description')
 
-        const result = await fal.subscribe('fal-ai/gemini-3-pro-image-preview/edit', {
-            input: payload,
-            logs: true,
-            onQueueUpdate: (status: QueueStatus) => {
-                if (status.status === 'IN_QUEUE') {
-                    const update = strategy.onQueue()
-                    context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-                } else if (status.status === 'IN_PROGRESS') {
-                    stepCount += 1
-                    const update = strategy.onProgress(status, stepCount)
-                    context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-                } else if (status.status === 'COMPLETED') {
-                    const update = strategy.onCompleted()
-                    context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-                }
+            return {
+                images: await uploadGeneratedImages(response.images()),
+                description: description ? [description] : []
             }
-        }) as unknown as Gemini3ProPreviewEditResponse
-
-        console.log('Gemini 3 Edit Response:', JSON.stringify(result, null, 2))
-
-        const images = result.images || result.data?.images || []
-
-        if (!images.length) {
-            throw new Error('No images were returned by the Gemini API')
-        }
-
-        const uploadedImages = await uploadGeneratedImages(images)
-
-        return {
-            images: uploadedImages,
-            description: result.description ? [result.description] : (result.data?.description ? [result.data.description] : [])
         }
-
-    } catch (error: any) {
-        const message = error?.message || 'Failed to generate images with Gemini 3 Pro Edit'
-        context.sendStatus({ type: 'error', message })
-        throw error
-    }
-}
+    })
+})
 
 export default gemini3PreviewEditNode
@@ -1,20 +1,9 @@
-import { NanoSDK, NodeDefinition, NodeInstance, resolveAsset } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { FalImageReference, uploadGeneratedImages } from '../flux-pro/utils.js'
-
-interface Gemini3ProPreviewResponse {
-    data?: {
-        images?: FalImageReference[]
-        description?: string
-        timings?: Record<string, number>
-    }
-    images?: FalImageReference[]
-    description?: string
-    timings?: Record<string, number>
-}
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { uploadGeneratedImages } from '../flux-pro/utils.js'
 
 const nodeDefinition: NodeDefinition = {
     uid: 'fal-ai-gemini-3-pro-image-preview',
@@ -116,15 +105,15 @@ const nodeDefinition: NodeDefinition = {
             default: false,
             label: 'Enable Web Search',
             description: 'Enable web search for the image generation task.'
-        }
+        },
+        createBatchModeParameter(),
+        createCredentialProfileParameter()
     ]
 }
 
 const gemini3PreviewNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-gemini3PreviewNode.execute = async ({ inputs, parameters, context }) => {
-    configureFalClient()
-
+gemini3PreviewNode.execute = withFalBatch({ inputs: ['prompt'] }, async ({ inputs, parameters, context }) => {
     const prompt = inputs.prompt?.[0] as string
 
     if (!prompt) {
@@ -151,54 +140,30 @@ gemini3PreviewNode.execute = async ({ inputs, parameters, context }) => {
 
     const expectedMs = 10000
 
-    const strategy = createProgressStrategy({
-        expectedMs,
-        inQueueMessage: 'Waiting for Gemini...',
-        finalizingMessage: 'Finalizing images...',
-        defaultInProgressMessage: (step) => `Processing step ${step}...`
-    })
+    return runFalExecution({
+        endpoint: 'fal-ai/gemini-3-pro-image-preview',
+        context,
+        errorMessage: 'Failed to generate images with Gemini 3 Pro',
+        credential: getParameterValue(parameters, 'credential_profile', 'default'),
+        progress: {
+            expectedMs,
+            inQueueMessage: 'Waiting for Gemini...',
+            finalizingMessage: 'Finalizing images...',
+            defaultInProgressMessage: (step) => `Processing step ${step}...`
+        },
+        buildPayload: () => payload,
+        mapOutput: async (result) => {
+            console.log('Gemini 3 Response:', JSON.stringify(result, null, 2))
 
-    try {
-        let stepCount = 0
+            const response = readFalResponse(result, 'Gemini 3 Pro')
+            const description = response.text('description')
 
-        const result = await fal.subscribe('fal-ai/gemini-3-pro-image-preview', {
-            input: payload,
-            logs: true,
-            onQueueUpdate: (status: QueueStatus) => {
-                if (status.status === 'IN_QUEUE') {
-                    const update = strategy.onQueue()
-                    context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-                } else if (status.status === 'IN_PROGRESS') {
-                    stepCount += 1
-                    const update = strategy.onProgress(status, stepCount)
-                    context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-                } else if (status.status === 'COMPLETED') {
-                    const update = strategy.onCompleted()
-                    context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-                }
+            return {
+                images: await uploadGeneratedImages(response.images()),
+                description: description ? [description] : []
             }
-        }) as unknown as Gemini3ProPreviewResponse
-
-        console.log('Gemini 3 Response:', JSON.stringify(result, null, 2))
-
-        const images = result.images || result.data?.images || []
-
-        if (!images.length) {
-            throw new Error('No images were returned by the Gemini API')
-        }
-
-        const uploadedImages = await uploadGeneratedImages(images)
-
-        return {
-            images: uploadedImages,
-            description: result.description ? [result.description] : (result.data?.description ? [result.data.description] : [])
         }
-
-    } catch (error: any) {
-        const message = error?.message || 'Failed to generate images with Gemini 3 Pro'
-        context.sendStatus({ type: 'error', message })
-        throw error
-    }
-}
+    })
+})
 
 export default gemini3PreviewNode
@@ -1,58 +1,10 @@
-import { NanoSDK, NodeDefinition, NodeInstance, resolveAsset, uploadAsset } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { uploadBufferToFal } from '../../utils/fal-storage.js'
-
-const detectImageFormat = (buffer: Buffer): string => {
-  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
-    return 'jpeg'
-  }
-  if (
-    buffer.length >= 8 &&
-    buffer[0] === 0x89 &&
-    buffer[1] === 0x50 &&
-    buffer[2] === 0x4e &&
-    buffer[3] === 0x47 &&
-    buffer[4] === 0x0d &&
-    buffer[5] === 0x0a &&
-    buffer[6] === 0x1a &&
-    buffer[7] === 0x0a
-  ) {
-    return 'png'
-  }
-  if (
-    buffer.length >= 6 &&
-    buffer[0] === 0x47 &&
-    buffer[1] === 0x49 &&
-    buffer[2] === 0x46 &&
-    buffer[3] === 0x38 &&
-    (buffer[4] === 0x39 || buffer[4] === 0x37) &&
-    buffer[5] === 0x61
-  ) {
-    return 'gif'
-  }
-  return 'jpeg'
-}
-
-interface GeminiFlashEditMultiImage {
-  url?: string
-  content_type?: string
-  file_name?: string
-  file_size?: number
-  width?: number
-  height?: number
-}
-
-interface GeminiFlashEditMultiResponse {
-  data?: {
-    image?: GeminiFlashEditMultiImage
-    description?: string
-  }
-  image?: GeminiFlashEditMultiImage
-  description?: string
-}
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { uploadImageToFal } from '../../utils/fal-storage.js'
+import { rehostFalAsset, resolveAsset } from '../../utils/asset-utils.js'
 
 const nodeDef: NodeDefinition = {
   uid: 'gemini-flash-edit-multi',
@@ -104,14 +56,15 @@ const nodeDef: NodeDefinition = {
       description: 'Text description or response from Gemini'
     }
   ],
-  parameters: []
+  parameters: [
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
+  ]
 }
 
 const geminiFlashEditMultiNode: NodeInstance = NanoSDK.registerNode(nodeDef)
 
-geminiFlashEditMultiNode.execute = async ({ inputs, parameters, context }) => {
-  // Configure Fal client
-  configureFalClient()
+geminiFlashEditMultiNode.execute = withFalBatch({ inputs: ['prompt', 'image1', 'image2', 'image3', 'image4'] }, async ({ inputs, parameters, context }) => {
 
   const prompt = inputs.prompt?.[0] as string
   const image1 = inputs.image1?.[0] as string
@@ -134,90 +87,62 @@ geminiFlashEditMultiNode.execute = async ({ inputs, parameters, context }) => {
 
   context.sendStatus({ type: 'running', message: 'Processing input images...' })
 
-  try {
-    const inputImageUrls: string[] = []
-
-    for (let i = 0; i < inputImages.length; i++) {
-      const imageBuffer: Buffer = await resolveAsset(inputImages[i], { asBuffer: true }) as Buffer
-      const format = detectImageFormat(imageBuffer)
-      const uploadedUrl = await uploadBufferToFal(imageBuffer, format, { filenamePrefix: `gemini-flash-input-${i + 1}` })
-      inputImageUrls.push(uploadedUrl)
-
-      context.sendStatus({
-        type: 'running',
-        message: `Uploaded image ${i + 1}/${inputImages.length}`,
-        progress: { step: (i + 1) * 20, total: 100 }
-      })
-    }
-
-    console.log(`Uploaded ${inputImageUrls.length} input images to Fal storage`)
+  const expectedMs = 25000
 
-    let stepCount = 0
-    const expectedMs = 25000
-    const strategy = createProgressStrategy({
+  return runFalExecution({
+    endpoint: 'fal-ai/gemini-flash-edit/multi',
+    context,
+    errorMessage: 'Failed to edit images',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    queueStartStep: 30,
+    progress: {
       expectedMs,
       inQueueMessage: 'Waiting in queue...',
       finalizingMessage: 'Finalizing...',
       defaultInProgressMessage: (n) => `Processing step ${n}...`
-    })
-    const result = await fal.subscribe('fal-ai/gemini-flash-edit/multi', {
-      input: {
+    },
+    buildPayload: async () => {
+      const inputImageUrls: string[] = []
+
+      for (let i = 0; i < inputImages.length; i++) {
+        const imageBuffer: Buffer = await resolveAsset(inputImages[i], { asBuffer: true }) as Buffer
+        const uploadedUrl = await uploadImageToFal(imageBuffer, { filenamePrefix: `gemini-flash-input-${i + 1}` })
+        inputImageUrls.push(uploadedUrl)
+
+        context.sendStatus({
+          type: 'running',
+          message: `Uploaded image ${i + 1}/${inputImages.length}`,
+          progress: { step: (i + 1) * 20, total: 100 }
+        })
+      }
+
+      console.log(`Uploaded ${inputImageUrls.length} input images to Fal storage`)
+      return {
         prompt,
         input_image_urls: inputImageUrls
-      },
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        if (status.status === 'IN_QUEUE') {
-          const r = strategy.onQueue()
-          // Keep pre-processing indication (we used ~20% for inputs) if larger
-          const start = Math.max(30, r.progress.step)
-          context.sendStatus({ type: 'running', message: r.message, progress: { step: start, total: 100 } })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount++
-          const r = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'COMPLETED') {
-          const r = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        }
       }
-    }) as GeminiFlashEditMultiResponse
-
-    if (!result.data || !result.data.image || !result.data.image.url) {
-      throw new Error('No edited image was generated')
-    }
-
-    // Log the full response for debugging
-    console.log('Full API response:', JSON.stringify(result.data, null, 2))
-
-    // Get the edited image URL, fetch it and upload as asset
-    const imageUrl = result.data.image.url
-    console.log('Generated edited image URL:', imageUrl)
-
-    const response = await fetch(imageUrl)
-    const arrayBuffer = await response.arrayBuffer()
-    const buffer = Buffer.from(arrayBuffer)
+    },
+    mapOutput: async (result) => {
+      const response = readFalResponse(result, 'Gemini Flash edit')
+      const editedImage = response.image()
+      const description = response.text('description')
 
-    console.log('Uploading edited image as asset...')
-    const uploadResult = await uploadAsset(buffer, {
-      type: 'image',
-    })
+      // Log the full response for debugging
+      console.log('Full API response:', JSON.stringify(response.data, null, 2))
 
-    if (!uploadResult.uri) {
-      throw new Error('Failed to upload generated image')
-    }
+      // Re-host the edited image as a NanoGraph asset
+      console.log('Generated edited image URL:', editedImage.url)
+      const uploadedUri = await rehostFalAsset(editedImage, 'image')
 
-    console.log('Upload successful, URI:', uploadResult.uri)
-    console.log('Gemini description:', result.data.description)
+      console.log('Upload successful, URI:', uploadedUri)
+      console.log('Gemini description:', description)
 
-    return {
-      edited_image: [uploadResult.uri],
-      description: [result.data.description || '']
+      return {
+        edited_image: [uploadedUri],
+        description: [description || '']
+      }
     }
-  } catch (error: any) {
-    context.sendStatus({ type: 'error', message: error.message || 'Failed to edit images' })
-    throw error
-  }
-}
+  })
+})
 
 export default geminiFlashEditMultiNode 
@@ -1,22 +1,10 @@
-import { NanoSDK, NodeDefinition, NodeInstance, resolveAsset, uploadAsset } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { uploadBufferToFal } from '../../utils/fal-storage.js'
-
-interface Hunyuan3DResponse {
-  data: {
-    model_mesh: {
-      url: string
-      content_type?: string
-      file_name?: string
-      file_size?: number
-    }
-    seed?: number
-  }
-  requestId?: string
-}
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { uploadImageToFal } from '../../utils/fal-storage.js'
+import { rehostFalAsset, resolveAsset } from '../../utils/asset-utils.js'
 
 const nodeDef: NodeDefinition = {
   uid: 'hunyuan3d-image-to-3d',
@@ -88,15 +76,23 @@ const nodeDef: NodeDefinition = {
       default: -1,
       label: 'Seed (-1 = random)',
       description: 'Use fixed seed >= 0 for reproducibility'
-    }
+    },
+    {
+      name: 'bypass_cache',
+      type: 'boolean',
+      value: false,
+      default: false,
+      label: 'Bypass Cache',
+      description: 'Call Fal even when a cached result exists for this seed and these inputs'
+    },
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
   ]
 }
 
 const hunyuan3DNode: NodeInstance = NanoSDK.registerNode(nodeDef)
 
-hunyuan3DNode.execute = async ({ inputs, parameters, context }) => {
-  // Configure Fal client
-  configureFalClient()
+hunyuan3DNode.execute = withFalBatch({ inputs: ['image'] }, async ({ inputs, parameters, context }) => {
 
   const image = inputs.image?.[0] as string
 
@@ -114,76 +110,50 @@ hunyuan3DNode.execute = async ({ inputs, parameters, context }) => {
 
   context.sendStatus({ type: 'running', message: 'Preparing input image...' })
 
-  try {
-    // Resolve input image asset and convert to data URL
-    const imageBuffer: Buffer = await resolveAsset(image, { asBuffer: true }) as Buffer
-    const imageUrl = await uploadBufferToFal(imageBuffer, 'jpeg', { filenamePrefix: 'hunyuan3d-source' })
+  const expectedMs = 90000
 
-    let stepCount = 0
-    const expectedMs = 90000
-    const strategy = createProgressStrategy({
+  return runFalExecution({
+    endpoint: 'fal-ai/hunyuan3d/v2',
+    context,
+    errorMessage: 'Failed to generate 3D model',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    resultCache: { bypass: Boolean(getParameterValue(parameters, 'bypass_cache', false)) },
+    progress: {
       expectedMs,
       inQueueMessage: 'Waiting in queue...',
       finalizingMessage: 'Finalizing...',
       defaultInProgressMessage: (n) => `Processing step ${n}...`
-    })
-    const result = await fal.subscribe('fal-ai/hunyuan3d/v2', {
-      input: {
+    },
+    buildPayload: async () => {
+      // Resolve input image asset and convert to data URL
+      const imageBuffer: Buffer = await resolveAsset(image, { asBuffer: true }) as Buffer
+      const imageUrl = await uploadImageToFal(imageBuffer, { filenamePrefix: 'hunyuan3d-source' })
+      return {
         input_image_url: imageUrl,
         num_inference_steps: Number(num_inference_steps),
         guidance_scale: Number(guidance_scale),
         octree_resolution: Number(octree_resolution),
         textured_mesh: Boolean(textured_mesh),
         ...(Number(seed) >= 0 ? { seed: Number(seed) } : {})
-      },
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        if (status.status === 'IN_QUEUE') {
-          const r = strategy.onQueue()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount++
-          const r = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'COMPLETED') {
-          const r = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        }
       }
-    }) as Hunyuan3DResponse
-
-    if (!result.data || !result.data.model_mesh || !result.data.model_mesh.url) {
-      throw new Error('No 3D model was generated')
-    }
-
-    // Fetch the GLB and upload as file asset with coherent name and content type
-    const modelUrl = result.data.model_mesh.url
-    const response = await fetch(modelUrl)
-    const arrayBuffer = await response.arrayBuffer()
-    const buffer = Buffer.from(arrayBuffer)
-
-    // Determine filename and content type
-    const apiFileName = result.data.model_mesh.file_name
-    const textured = Boolean(textured_mesh)
-    const fallbackName = textured ? 'textured_mesh.glb' : 'white_mesh.glb'
-    const ensureGlb = (name: string) => (name?.toLowerCase().endsWith('.glb') ? name : `${name}.glb`)
-    const filename = ensureGlb(apiFileName || fallbackName)
-    const contentType = result.data.model_mesh.content_type || 'model/gltf-binary'
+    },
+    mapOutput: async (result) => {
+      const response = readFalResponse(result, 'Hunyuan3D')
+      const modelMesh = response.file('model_mesh')
 
-    const uploadOptions: any = { type: 'mesh', filename, contentType }
-    const uploadResult = await uploadAsset(buffer, uploadOptions)
+      // Determine a coherent GLB filename for the re-hosted mesh
+      const textured = Boolean(textured_mesh)
+      const fallbackName = textured ? 'textured_mesh.glb' : 'white_mesh.glb'
+      const ensureGlb = (name: string) => (name?.toLowerCase().endsWith('.glb') ? name : `${name}.glb`)
+      const filename = ensureGlb(modelMesh.file_name || fallbackName)
 
-    if (!(uploadResult as any).uri) {
-      throw new Error('Failed to upload generated 3D model')
-    }
+      const modelUri = await rehostFalAsset(modelMesh, 'mesh', { filename })
 
-    return {
-      model_mesh: [(uploadResult as any).uri]
+      return {
+        model_mesh: [modelUri]
+      }
     }
-  } catch (error: any) {
-    context.sendStatus({ type: 'error', message: error.message || 'Failed to generate 3D model' })
-    throw error
-  }
-}
+  })
+})
 
 export default hunyuan3DNode
@@ -1,18 +1,10 @@
-import { NanoSDK, NodeDefinition, NodeInstance, resolveAsset, uploadAsset } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { uploadBufferToFal } from '../../utils/fal-storage.js'
-import { generateVideoFilename } from '../../utils/asset-utils.js'
-
-interface KlingVideoResponse {
-  data: {
-    video: {
-      url: string
-    }
-  }
-}
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { uploadImageToFal } from '../../utils/fal-storage.js'
+import { rehostFalAsset, resolveAsset } from '../../utils/asset-utils.js'
 
 const nodeDef: NodeDefinition = {
   uid: 'kling-image-to-video',
@@ -68,15 +60,15 @@ const nodeDef: NodeDefinition = {
       description: 'How closely to follow the prompt (higher = more faithful)',
       min: 0.1,
       max: 2.0
-    }
+    },
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
   ]
 }
 
 const klingImageToVideoNode: NodeInstance = NanoSDK.registerNode(nodeDef)
 
-klingImageToVideoNode.execute = async ({ inputs, parameters, context }) => {
-  // Configure Fal client
-  configureFalClient()
+klingImageToVideoNode.execute = withFalBatch({ inputs: ['prompt', 'negative_prompt', 'image'] }, async ({ inputs, parameters, context }) => {
 
   const prompt = inputs.prompt?.[0] as string
   const negative_prompt = inputs.negative_prompt?.[0] as string
@@ -98,75 +90,44 @@ klingImageToVideoNode.execute = async ({ inputs, parameters, context }) => {
 
   context.sendStatus({ type: 'running', message: 'Starting video generation...' })
 
-  try {
-    // Resolve input image asset
-    const imageBuffer: Buffer = await resolveAsset(image, { asBuffer: true }) as Buffer
-    const imageUrl = await uploadBufferToFal(imageBuffer, 'jpeg', { filenamePrefix: 'kling-source' })
+  const expectedMs = Number(duration) === 10 ? 90000 : 60000
 
-    console.log('Uploaded input image to Fal storage:', imageUrl)
-
-    let stepCount = 0
-    const expectedMs = Number(duration) === 10 ? 90000 : 60000
-    const strategy = createProgressStrategy({
+  return runFalExecution({
+    endpoint: 'fal-ai/kling-video/v2.1/master/image-to-video',
+    context,
+    errorMessage: 'Failed to generate video',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    progress: {
       expectedMs,
       inQueueMessage: 'Waiting in queue...',
       finalizingMessage: 'Finalizing...',
       defaultInProgressMessage: (n) => `Processing step ${n}...`
-    })
-    const result = await fal.subscribe('fal-ai/kling-video/v2.1/master/image-to-video', {
-      input: {
+    },
+    buildPayload: async () => {
+      // Resolve input image asset
+      const imageBuffer: Buffer = await resolveAsset(image, { asBuffer: true }) as Buffer
+      const imageUrl = await uploadImageToFal(imageBuffer, { filenamePrefix: 'kling-source' })
+
+      console.log('Uploaded input image to Fal storage:', imageUrl)
+      return {
         prompt,
         image_url: imageUrl,
         duration,
         cfg_scale,
         negative_prompt: negative_prompt || 'blur, distort, and low quality'
-      },
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        if (status.status === 'IN_QUEUE') {
-          const r = strategy.onQueue()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount++
-          const r = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'COMPLETED') {
-          const r = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        }
       }
-    }) as KlingVideoResponse
-
-    if (!result.data || !result.data.video || !result.data.video.url) {
-      throw new Error('No video was generated')
-    }
-
-    // Get the video URL, fetch it and upload as asset
-    const videoUrl = result.data.video.url
-    console.log('Generated video URL:', videoUrl)
-
-    const response = await fetch(videoUrl)
-    const contentType = response.headers.get('content-type')
-    const arrayBuffer = await response.arrayBuffer()
-    const buffer = Buffer.from(arrayBuffer)
-
-    const filename = generateVideoFilename(videoUrl, contentType)
-
-    const uploadResult = await uploadAsset(buffer, { type: 'video', filename })
-
-    if (!uploadResult.uri) {
-      throw new Error('Failed to upload generated video')
-    }
+    },
+    mapOutput: async (result) => {
+      const response = readFalResponse(result, 'Kling')
+      const uploadedUri = await rehostFalAsset(response.video(), 'video')
 
-    console.log('Upload successful, URI:', uploadResult.uri)
+      console.log('Upload successful, URI:', uploadedUri)
 
-    return {
-      video: [uploadResult.uri]
+      return {
+        video: [uploadedUri]
+      }
     }
-  } catch (error: any) {
-    context.sendStatus({ type: 'error', message: error.message || 'Failed to generate video' })
-    throw error
-  }
-}
+  })
+})
 
 export default klingImageToVideoNode 
@@ -1,16 +1,10 @@
 import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
 import { loadImageAssetAsDataUrl } from './shared.js'
 
-interface MoondreamDescribeResponse {
-  data?: {
-    output?: string
-  }
-  output?: string
-}
-
 const nodeDefinition: NodeDefinition = {
   uid: 'fal-moondream2-describe',
   name: 'Moondream 2 Describe',
@@ -32,14 +26,15 @@ const nodeDefinition: NodeDefinition = {
       description: 'Model generated description of the image'
     }
   ],
-  parameters: []
+  parameters: [
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
+  ]
 }
 
 const moondreamDescribeNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-moondreamDescribeNode.execute = async ({ inputs, context }) => {
-  configureFalClient()
-
+moondreamDescribeNode.execute = withFalBatch({ inputs: ['image'] }, async ({ inputs, parameters, context }) => {
   const image = inputs.image?.[0] as string
 
   if (!image) {
@@ -50,51 +45,36 @@ moondreamDescribeNode.execute = async ({ inputs, context }) => {
 
   context.sendStatus({ type: 'running', message: 'Preparing image for analysis...' })
 
-  try {
-    const imageDataUrl = await loadImageAssetAsDataUrl(image)
-
-    let stepCount = 0
-    const strategy = createProgressStrategy({
+  return runFalExecution({
+    endpoint: 'fal-ai/moondream2',
+    context,
+    errorMessage: 'Failed to generate description',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    progress: {
       expectedMs: 12000,
       inQueueMessage: 'Waiting in queue...',
       finalizingMessage: 'Finalizing description...',
       defaultInProgressMessage: (n) => `Processing step ${n}...`
-    })
-
-    const result = await fal.subscribe('fal-ai/moondream2', {
-      input: {
+    },
+    buildPayload: async () => {
+      const imageDataUrl = await loadImageAssetAsDataUrl(image)
+      return {
         image_url: imageDataUrl
-      },
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        if (status.status === 'IN_QUEUE') {
-          const r = strategy.onQueue()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount++
-          const r = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'COMPLETED') {
-          const r = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        }
       }
-    }) as MoondreamDescribeResponse
-
-    const description = result.data?.output ?? result.output
+    },
+    mapOutput: async (result) => {
+      const response = readFalResponse(result, 'Moondream 2')
+      const description = response.text('output')
 
-    if (!description) {
-      throw new Error('Moondream 2 did not return a description')
-    }
+      if (!description) {
+        throw new Error('Moondream 2 did not return a description')
+      }
 
-    return {
-      description: [description]
+      return {
+        description: [description]
+      }
     }
-  } catch (error: any) {
-    const message = error?.message ?? 'Failed to generate description'
-    context.sendStatus({ type: 'error', message })
-    throw error
-  }
-}
+  })
+})
 
 export default moondreamDescribeNode
@@ -1,17 +1,9 @@
 import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { loadImageAssetAsDataUrl, uploadFalGeneratedImage, FalGeneratedImage } from './shared.js'
-
-interface MoondreamObjectDetectionResponse {
-  data?: {
-    image?: FalGeneratedImage
-    objects?: any[]
-  }
-  image?: FalGeneratedImage
-  objects?: any[]
-}
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { loadImageAssetAsDataUrl, uploadFalGeneratedImage } from './shared.js'
 
 const nodeDefinition: NodeDefinition = {
   uid: 'fal-moondream2-object-detection',
@@ -44,14 +36,15 @@ const nodeDefinition: NodeDefinition = {
       description: 'JSON array of detected objects with metadata'
     }
   ],
-  parameters: []
+  parameters: [
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
+  ]
 }
 
 const moondreamObjectDetectionNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-moondreamObjectDetectionNode.execute = async ({ inputs, context }) => {
-  configureFalClient()
-
+moondreamObjectDetectionNode.execute = withFalBatch({ inputs: ['image'] }, async ({ inputs, parameters, context }) => {
   const image = inputs.image?.[0] as string
   const objectInputs = (inputs.object ?? []) as string[]
   const targetObject = objectInputs
@@ -73,57 +66,34 @@ moondreamObjectDetectionNode.execute = async ({ inputs, context }) => {
 
   context.sendStatus({ type: 'running', message: 'Preparing image for object detection...' })
 
-  try {
-    const imageDataUrl = await loadImageAssetAsDataUrl(image)
-
-    let stepCount = 0
-    const strategy = createProgressStrategy({
+  return runFalExecution({
+    endpoint: 'fal-ai/moondream2/object-detection',
+    context,
+    errorMessage: 'Failed to run object detection',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    progress: {
       expectedMs: 20000,
       inQueueMessage: 'Waiting in queue...',
       finalizingMessage: 'Finalizing detections...',
       defaultInProgressMessage: (n) => `Processing step ${n}...`
-    })
-
-    const result = await fal.subscribe('fal-ai/moondream2/object-detection', {
-      input: {
+    },
+    buildPayload: async () => {
+      const imageDataUrl = await loadImageAssetAsDataUrl(image)
+      return {
         image_url: imageDataUrl,
         object: targetObject
-      },
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        if (status.status === 'IN_QUEUE') {
-          const r = strategy.onQueue()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount++
-          const r = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'COMPLETED') {
-          const r = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        }
       }
-    }) as MoondreamObjectDetectionResponse
-
-    const imagePayload = result.data?.image ?? result.image
-    const objects = result.data?.objects ?? result.objects ?? []
-
-    if (!imagePayload) {
-      throw new Error('Moondream 2 did not return an annotated image')
-    }
-
-    const uploadedImageUri = await uploadFalGeneratedImage(imagePayload, 'moondream-object-detection.png')
-    const objectsJson = objects && objects.length ? JSON.stringify(objects) : undefined
+    },
+    mapOutput: async (result) => {
+      const response = readFalResponse(result, 'Moondream 2')
+      const objects = response.list('objects')
 
-    return {
-      image: [uploadedImageUri],
-      objects: objectsJson ? [objectsJson] : []
+      return {
+        image: [await uploadFalGeneratedImage(response.image(), 'moondream-object-detection.png')],
+        objects: objects.length ? [JSON.stringify(objects)] : []
+      }
     }
-  } catch (error: any) {
-    const message = error?.message ?? 'Failed to run object detection'
-    context.sendStatus({ type: 'error', message })
-    throw error
-  }
-}
+  })
+})
 
 export default moondreamObjectDetectionNode
@@ -1,16 +1,10 @@
 import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
 import { loadImageAssetAsDataUrl } from './shared.js'
 
-interface MoondreamVisualQueryResponse {
-  data?: {
-    output?: string
-  }
-  output?: string
-}
-
 const nodeDefinition: NodeDefinition = {
   uid: 'fal-moondream2-visual-query',
   name: 'Moondream 2 Visual Query',
@@ -37,14 +31,15 @@ const nodeDefinition: NodeDefinition = {
       description: 'Model answer to the question'
     }
   ],
-  parameters: []
+  parameters: [
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
+  ]
 }
 
 const moondreamVisualQueryNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-moondreamVisualQueryNode.execute = async ({ inputs, context }) => {
-  configureFalClient()
-
+moondreamVisualQueryNode.execute = withFalBatch({ inputs: ['prompt', 'image'] }, async ({ inputs, parameters, context }) => {
   const prompt = inputs.prompt?.[0] as string
   const image = inputs.image?.[0] as string
 
@@ -62,52 +57,37 @@ moondreamVisualQueryNode.execute = async ({ inputs, context }) => {
 
   context.sendStatus({ type: 'running', message: 'Preparing image and question...' })
 
-  try {
-    const imageDataUrl = await loadImageAssetAsDataUrl(image)
-
-    let stepCount = 0
-    const strategy = createProgressStrategy({
+  return runFalExecution({
+    endpoint: 'fal-ai/moondream2/visual-query',
+    context,
+    errorMessage: 'Failed to answer visual query',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    progress: {
       expectedMs: 15000,
       inQueueMessage: 'Waiting in queue...',
       finalizingMessage: 'Finalizing answer...',
       defaultInProgressMessage: (n) => `Processing step ${n}...`
-    })
-
-    const result = await fal.subscribe('fal-ai/moondream2/visual-query', {
-      input: {
+    },
+    buildPayload: async () => {
+      const imageDataUrl = await loadImageAssetAsDataUrl(image)
+      return {
         image_url: imageDataUrl,
         prompt
-      },
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        if (status.status === 'IN_QUEUE') {
-          const r = strategy.onQueue()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount++
-          const r = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'COMPLETED') {
-          const r = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        }
       }
-    }) as MoondreamVisualQueryResponse
-
-    const answer = result.data?.output ?? result.output
+    },
+    mapOutput: async (result) => {
+      const response = readFalResponse(result, 'Moondream 2')
+      const answer = response.text('output')
 
-    if (!answer) {
-      throw new Error('Moondream 2 did not return an answer')
-    }
+      if (!answer) {
+        throw new Error('Moondream 2 did not return an answer')
+      }
 
-    return {
-      answer: [answer]
+      return {
+        answer: [answer]
+      }
     }
-  } catch (error: any) {
-    const message = error?.message ?? 'Failed to answer visual query'
-    context.sendStatus({ type: 'error', message })
-    throw error
-  }
-}
+  })
+})
 
 export default moondreamVisualQueryNode
@@ -1,78 +1,15 @@
-import { File } from 'node:buffer'
-import { NanoSDK, NodeDefinition, NodeInstance, resolveAsset, uploadAsset } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { generateAssetFilename } from '../../utils/asset-utils.js'
-
-interface NanoBananaProImage {
-  url?: string
-  file_name?: string
-  content_type?: string
-}
-
-interface NanoBananaProEditResponse {
-  data?: {
-    images?: NanoBananaProImage[]
-    description?: string
-  }
-  images?: NanoBananaProImage[]
-  description?: string
-}
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { uploadImageToFal } from '../../utils/fal-storage.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { rehostFalAsset, resolveAsset } from '../../utils/asset-utils.js'
 
 const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max)
 
 const allowedFormats = new Set(['jpeg', 'png', 'webp'])
 
-const detectImageFormat = (buffer: Buffer): string => {
-  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
-    return 'jpeg'
-  }
-
-  if (
-    buffer.length >= 8 &&
-    buffer[0] === 0x89 &&
-    buffer[1] === 0x50 &&
-    buffer[2] === 0x4e &&
-    buffer[3] === 0x47 &&
-    buffer[4] === 0x0d &&
-    buffer[5] === 0x0a &&
-    buffer[6] === 0x1a &&
-    buffer[7] === 0x0a
-  ) {
-    return 'png'
-  }
-
-  if (
-    buffer.length >= 6 &&
-    buffer[0] === 0x47 &&
-    buffer[1] === 0x49 &&
-    buffer[2] === 0x46 &&
-    buffer[3] === 0x38 &&
-    (buffer[4] === 0x39 || buffer[4] === 0x37) &&
-    buffer[5] === 0x61
-  ) {
-    return 'gif'
-  }
-
-  if (
-    buffer.length >= 12 &&
-    buffer[0] === 0x52 &&
-    buffer[1] === 0x49 &&
-    buffer[2] === 0x46 &&
-    buffer[3] === 0x46 &&
-    buffer[8] === 0x57 &&
-    buffer[9] === 0x45 &&
-    buffer[10] === 0x42 &&
-    buffer[11] === 0x50
-  ) {
-    return 'webp'
-  }
-
-  return 'jpeg'
-}
-
 const nodeDefinition: NodeDefinition = {
   uid: 'fal-nano-banana-pro-edit',
   name: 'Nano Banana Pro Edit',
@@ -187,15 +124,15 @@ const nodeDefinition: NodeDefinition = {
         { label: '2:3', value: '2:3' },
         { label: '9:16', value: '9:16' }
       ]
-    }
+    },
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
   ]
 }
 
 const nanoBananaProEditNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-nanoBananaProEditNode.execute = async ({ inputs, parameters, context }) => {
-  configureFalClient()
-
+nanoBananaProEditNode.execute = withFalBatch({ inputs: ['prompt', 'image1', 'image2', 'image3', 'image4'] }, async ({ inputs, parameters, context }) => {
   const prompt = inputs.prompt?.[0] as string
   const imageInputs = [
     inputs.image1?.[0] as string | undefined,
@@ -223,113 +160,63 @@ nanoBananaProEditNode.execute = async ({ inputs, parameters, context }) => {
 
   context.sendStatus({ type: 'running', message: 'Preparing input images...' })
 
-  try {
-    const imageUrls: string[] = []
-
-    type FalStorageUploadInput = Parameters<typeof fal.storage.upload>[0]
+  const expectedMs = Math.min(180000, Math.max(20000, numImages * 9000))
 
-    for (let index = 0; index < imageInputs.length; index++) {
-      const assetUri = imageInputs[index]
-      const buffer: Buffer = await resolveAsset(assetUri, { asBuffer: true }) as Buffer
-      const format = detectImageFormat(buffer)
-      const mimeType = format === 'jpeg' ? 'image/jpeg' : format === 'png' ? 'image/png' : `image/${format}`
-      const extension = format === 'jpeg' ? 'jpg' : format
-      const filename = `reference-${index + 1}.${extension}`
-      const file = new File([buffer], filename, { type: mimeType })
-      const uploadedUrl = await fal.storage.upload(file as unknown as FalStorageUploadInput)
-
-      if (!uploadedUrl) {
-        throw new Error(`Fal storage upload failed for reference image ${index + 1}`)
-      }
-
-      imageUrls.push(uploadedUrl)
-
-      context.sendStatus({
-        type: 'running',
-        message: `Uploaded reference image ${index + 1}/${imageInputs.length}`,
-        progress: { step: Math.min(10 + (index + 1) * 5, 40), total: 100 }
-      })
-    }
-
-    const requestPayload = {
-      prompt,
-      image_urls: imageUrls,
-      num_images: numImages,
-      resolution,
-      output_format: outputFormat,
-      sync_mode: syncMode,
-      aspect_ratio: aspectRatio
-    }
-
-    let stepCount = 0
-    const expectedMs = Math.min(180000, Math.max(20000, numImages * 9000))
-    const strategy = createProgressStrategy({
+  return runFalExecution({
+    endpoint: 'fal-ai/nano-banana-pro/edit',
+    context,
+    errorMessage: 'Failed to edit images',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    queueStartStep: 40,
+    progress: {
       expectedMs,
       inQueueMessage: 'Waiting in queue...',
       finalizingMessage: 'Finalizing edits...',
       defaultInProgressMessage: (n) => `Processing step ${n}...`
-    })
+    },
+    buildPayload: async () => {
+      const imageUrls: string[] = []
+
+      for (let index = 0; index < imageInputs.length; index++) {
+        const assetUri = imageInputs[index]
+        const buffer: Buffer = await resolveAsset(assetUri, { asBuffer: true }) as Buffer
+        const uploadedUrl = await uploadImageToFal(buffer, { filenamePrefix: `reference-${index + 1}` })
 
-    const result = await fal.subscribe('fal-ai/nano-banana-pro/edit', {
-      input: requestPayload,
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        if (status.status === 'IN_QUEUE') {
-          const r = strategy.onQueue()
-          const startStep = Math.max(40, r.progress.step)
-          context.sendStatus({ type: 'running', message: r.message, progress: { step: startStep, total: 100 } })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount++
-          const r = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'COMPLETED') {
-          const r = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
+        if (!uploadedUrl) {
+          throw new Error(`Fal storage upload failed for reference image ${index + 1}`)
         }
-      }
-    }) as NanoBananaProEditResponse
 
-    const images = result.data?.images ?? result.images ?? []
-    if (!images.length) {
-      throw new Error('No images were returned by the Nano Banana Pro edit API')
-    }
+        imageUrls.push(uploadedUrl)
 
-    const uploadedUris: string[] = []
-    for (const image of images) {
-      if (!image.url) {
-        continue
+        context.sendStatus({
+          type: 'running',
+          message: `Uploaded reference image ${index + 1}/${imageInputs.length}`,
+          progress: { step: Math.min(10 + (index + 1) * 5, 40), total: 100 }
+        })
       }
 
-      const response = await fetch(image.url)
-      const contentType = response.headers.get('content-type') ?? image.content_type
-      const arrayBuffer = await response.arrayBuffer()
-      const buffer = Buffer.from(arrayBuffer)
-      const filename = generateAssetFilename(image.url, contentType, 'image')
-      const uploadResult = await uploadAsset(buffer, { type: 'image', filename })
-
-      if (!uploadResult.uri) {
-        throw new Error('Failed to upload edited image')
+      const requestPayload = {
+        prompt,
+        image_urls: imageUrls,
+        num_images: numImages,
+        resolution,
+        output_format: outputFormat,
+        sync_mode: syncMode,
+        aspect_ratio: aspectRatio
       }
+      return requestPayload
+    },
+    mapOutput: async (result) => {
+      const response = readFalResponse(result, 'Nano Banana Pro edit')
+      const description = response.text('description')
 
-      uploadedUris.push(uploadResult.uri)
-    }
-
-    if (!uploadedUris.length) {
-      throw new Error('Edited images could not be retrieved')
-    }
-
-    const description = result.data?.description ?? result.description ?? ''
-
-    return {
-      images: uploadedUris,
-      description: description ? [description] : []
+      return {
+        images: await Promise.all(response.images().map((image) => rehostFalAsset(image, 'image'))),
+        description: description ? [description] : []
+      }
     }
-  } catch (error: any) {
-    const message = error?.message ?? 'Failed to edit images'
-    context.sendStatus({ type: 'error', message })
-    throw error
-  }
-}
+  })
+})
 
 export default nanoBananaProEditNode
 
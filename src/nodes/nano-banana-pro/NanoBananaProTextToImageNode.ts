@@ -1,24 +1,9 @@
-import { NanoSDK, NodeDefinition, NodeInstance, uploadAsset } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { generateAssetFilename } from '../../utils/asset-utils.js'
-
-interface NanoBananaProImage {
-  url?: string
-  file_name?: string
-  content_type?: string
-}
-
-interface NanoBananaProTextToImageResponse {
-  data?: {
-    images?: NanoBananaProImage[]
-    description?: string
-  }
-  images?: NanoBananaProImage[]
-  description?: string
-}
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { rehostFalAsset } from '../../utils/asset-utils.js'
 
 const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max)
 
@@ -114,15 +99,15 @@ const nodeDefinition: NodeDefinition = {
         { label: '2:3', value: '2:3' },
         { label: '9:16', value: '9:16' }
       ]
-    }
+    },
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
   ]
 }
 
 const nanoBananaProTextToImageNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-nanoBananaProTextToImageNode.execute = async ({ inputs, parameters, context }) => {
-  configureFalClient()
-
+nanoBananaProTextToImageNode.execute = withFalBatch({ inputs: ['prompt'] }, async ({ inputs, parameters, context }) => {
   const prompt = inputs.prompt?.[0] as string
 
   if (!prompt) {
@@ -139,84 +124,41 @@ nanoBananaProTextToImageNode.execute = async ({ inputs, parameters, context }) =
 
   context.sendStatus({ type: 'running', message: 'Submitting request to Fal...' })
 
-  try {
-    const requestPayload = {
-      prompt,
-      num_images: numImages,
-      resolution,
-      output_format: outputFormat,
-      sync_mode: syncMode,
-      aspect_ratio: aspectRatio
-    }
+  const expectedMs = Math.min(120000, Math.max(15000, numImages * 8000))
 
-    let stepCount = 0
-    const expectedMs = Math.min(120000, Math.max(15000, numImages * 8000))
-    const strategy = createProgressStrategy({
+  return runFalExecution({
+    endpoint: 'fal-ai/nano-banana-pro',
+    context,
+    errorMessage: 'Failed to generate images',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    progress: {
       expectedMs,
       inQueueMessage: 'Waiting in queue...',
       finalizingMessage: 'Finalizing images...',
       defaultInProgressMessage: (n) => `Processing step ${n}...`
-    })
-
-    const result = await fal.subscribe('fal-ai/nano-banana-pro', {
-      input: requestPayload,
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        if (status.status === 'IN_QUEUE') {
-          const r = strategy.onQueue()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount++
-          const r = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'COMPLETED') {
-          const r = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        }
-      }
-    }) as NanoBananaProTextToImageResponse
-
-    const images = result.data?.images ?? result.images ?? []
-    if (!images.length) {
-      throw new Error('No images were returned by the Nano Banana Pro API')
-    }
-
-    const uploadedUris: string[] = []
-    for (const image of images) {
-      if (!image.url) {
-        continue
+    },
+    buildPayload: async () => {
+      const requestPayload = {
+        prompt,
+        num_images: numImages,
+        resolution,
+        output_format: outputFormat,
+        sync_mode: syncMode,
+        aspect_ratio: aspectRatio
       }
+      return requestPayload
+    },
+    mapOutput: async (result) => {
+      const response = readFalResponse(result, 'Nano Banana Pro')
+      const description = response.text('description')
 
-      const response = await fetch(image.url)
-      const contentType = response.headers.get('content-type') ?? image.content_type
-      const arrayBuffer = await response.arrayBuffer()
-      const buffer = Buffer.from(arrayBuffer)
-      const filename = generateAssetFilename(image.url, contentType, 'image')
-      const uploadResult = await uploadAsset(buffer, { type: 'image', filename })
-
-      if (!uploadResult.uri) {
-        throw new Error('Failed to upload generated image')
+      return {
+        images: await Promise.all(response.images().map((image) => rehostFalAsset(image, 'image'))),
+        description: description ? [description] : []
       }
-
-      uploadedUris.push(uploadResult.uri)
-    }
-
-    if (!uploadedUris.length) {
-      throw new Error('Generated images could not be retrieved')
-    }
-
-    const description = result.data?.description ?? result.description ?? ''
-
-    return {
-      images: uploadedUris,
-      description: description ? [description] : []
     }
-  } catch (error: any) {
-    const message = error?.message ?? 'Failed to generate images'
-    context.sendStatus({ type: 'error', message })
-    throw error
-  }
-}
+  })
+})
 
 export default nanoBananaProTextToImageNode
 
@@ -1,18 +1,11 @@
-import { NanoSDK, NodeDefinition, NodeInstance, resolveAsset, uploadAsset } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { uploadBufferToFal } from '../../utils/fal-storage.js'
-import { generateAssetFilename } from '../../utils/asset-utils.js'
-import { detectImageFormat, clamp } from './shared.js'
-
-interface QwenGroupPhotoResponse {
-  images: Array<{
-    url: string
-  }>
-  seed: number
-}
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { uploadImageToFal } from '../../utils/fal-storage.js'
+import { rehostFalAsset, resolveAsset } from '../../utils/asset-utils.js'
+import { clamp } from './shared.js'
 
 const nodeDefinition: NodeDefinition = {
   uid: 'fal-qwen-group-photo',
@@ -196,15 +189,23 @@ const nodeDefinition: NodeDefinition = {
       default: -1,
       label: 'Seed',
       description: 'Random seed for reproducibility (-1 for random)'
-    }
+    },
+    {
+      name: 'bypass_cache',
+      type: 'boolean',
+      value: false,
+      default: false,
+      label: 'Bypass Cache',
+      description: 'Call Fal even when a cached result exists for this seed and these inputs'
+    },
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
   ]
 }
 
 const qwenGroupPhotoNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-qwenGroupPhotoNode.execute = async ({ inputs, parameters, context }) => {
-  configureFalClient()
-
+qwenGroupPhotoNode.execute = withFalBatch({ inputs: ['prompt', 'image1', 'image2', 'image3', 'image4'] }, async ({ inputs, parameters, context }) => {
   const prompt = inputs.prompt?.[0] as string
   const imageInputs = [
     inputs.image1?.[0] as string | undefined,
@@ -239,119 +240,75 @@ qwenGroupPhotoNode.execute = async ({ inputs, parameters, context }) => {
 
   context.sendStatus({ type: 'running', message: 'Preparing input images...' })
 
-  try {
-    const imageUrls: string[] = []
-    for (let i = 0; i < imageInputs.length; i++) {
-      const assetUri = imageInputs[i]
-      const buffer: Buffer = await resolveAsset(assetUri, { asBuffer: true }) as Buffer
-      const format = detectImageFormat(buffer)
-      const uploadedUrl = await uploadBufferToFal(buffer, format, { filenamePrefix: `qwen-group-photo-${i + 1}` })
-      imageUrls.push(uploadedUrl)
-
-      context.sendStatus({
-        type: 'running',
-        message: `Uploaded image ${i + 1}/${imageInputs.length}`,
-        progress: { step: Math.min(10 + (i + 1) * 5, 40), total: 100 }
-      })
-    }
-
-    const payload: any = {
-      image_urls: imageUrls,
-      prompt,
-      num_images: numImages,
-      guidance_scale: guidanceScale,
-      num_inference_steps: numInferenceSteps,
-      acceleration,
-      negative_prompt: negativePrompt,
-      lora_scale: loraScale,
-      output_format: outputFormat,
-      enable_safety_checker: enableSafetyChecker,
-      sync_mode: syncMode
-    }
-
-    if (imageSizeValue !== 'auto') {
-      payload.image_size = imageSizeValue
-    } else {
-      payload.image_size = {
-        width: imageWidth,
-        height: imageHeight
-      }
-    }
-
-    if (Number.isInteger(seedValue) && seedValue >= 0) {
-      payload.seed = seedValue
-    }
+  const expectedMs = Math.min(180000, Math.max(20000, numImages * 9000))
 
-    let stepCount = 0
-    const expectedMs = Math.min(180000, Math.max(20000, numImages * 9000))
-    const strategy = createProgressStrategy({
+  return runFalExecution({
+    endpoint: 'fal-ai/qwen-image-edit-plus-lora-gallery/group-photo',
+    context,
+    errorMessage: 'Failed to create group photo',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    resultCache: { bypass: Boolean(getParameterValue(parameters, 'bypass_cache', false)) },
+    fieldNames: { 'image_size.width': 'image_width', 'image_size.height': 'image_height' },
+    progress: {
       expectedMs,
       inQueueMessage: 'Waiting in queue...',
       finalizingMessage: 'Finalizing group photo...',
       defaultInProgressMessage: (n) => `Processing step ${n}...`
-    })
+    },
+    buildPayload: async () => {
+      const imageUrls: string[] = []
+      for (let i = 0; i < imageInputs.length; i++) {
+        const assetUri = imageInputs[i]
+        const buffer: Buffer = await resolveAsset(assetUri, { asBuffer: true }) as Buffer
+        const uploadedUrl = await uploadImageToFal(buffer, { filenamePrefix: `qwen-group-photo-${i + 1}` })
+        imageUrls.push(uploadedUrl)
 
-    const result = await fal.subscribe('fal-ai/qwen-image-edit-plus-lora-gallery/group-photo', {
-      input: payload,
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        if (status.status === 'IN_QUEUE') {
-          const r = strategy.onQueue()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount++
-          const r = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'COMPLETED') {
-          const r = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        }
+        context.sendStatus({
+          type: 'running',
+          message: `Uploaded image ${i + 1}/${imageInputs.length}`,
+          progress: { step: Math.min(10 + (i + 1) * 5, 40), total: 100 }
+        })
       }
-    }) as unknown as QwenGroupPhotoResponse
-
-    // Check both result.images and result.data.images
-    const directImages = result.images
-    const dataImages = (result as any)?.data?.images
-    const images = directImages ?? dataImages ?? []
 
-    if (!images.length) {
-      throw new Error('No images were returned by the Qwen Group Photo API')
-    }
-
-    const uploadedUris: string[] = []
-    for (const image of images) {
-      if (!image.url) {
-        continue
+      const payload: any = {
+        image_urls: imageUrls,
+        prompt,
+        num_images: numImages,
+        guidance_scale: guidanceScale,
+        num_inference_steps: numInferenceSteps,
+        acceleration,
+        negative_prompt: negativePrompt,
+        lora_scale: loraScale,
+        output_format: outputFormat,
+        enable_safety_checker: enableSafetyChecker,
+        sync_mode: syncMode
       }
 
-      const response = await fetch(image.url)
-      const contentType = response.headers.get('content-type')
-      const arrayBuffer = await response.arrayBuffer()
-      const resultBuffer = Buffer.from(arrayBuffer)
-      const filename = generateAssetFilename(image.url, contentType, 'image')
-      const uploadResult = await uploadAsset(resultBuffer, { type: 'image', filename })
-
-      if (!uploadResult.uri) {
-        throw new Error('Failed to upload generated image')
+      if (imageSizeValue !== 'auto') {
+        payload.image_size = imageSizeValue
+      } else {
+        payload.image_size = {
+          width: imageWidth,
+          height: imageHeight
+        }
       }
 
-      uploadedUris.push(uploadResult.uri)
-    }
-
-    if (!uploadedUris.length) {
-      throw new Error('Generated images could not be retrieved')
-    }
+      if (Number.isInteger(seedValue) && seedValue >= 0) {
+        payload.seed = seedValue
+      }
+      return payload
+    },
+    mapOutput: async (result) => {
+      const response = readFalResponse(result, 'Qwen Group Photo')
+      const seed = response.seed()
 
-    return {
-      images: uploadedUris,
-      seed: result.seed ? [result.seed] : []
+      return {
+        images: await Promise.all(response.images().map((image) => rehostFalAsset(image, 'image'))),
+        seed: seed === undefined ? [] : [seed]
+      }
     }
-  } catch (error: any) {
-    const message = error?.message ?? 'Failed to create group photo'
-    context.sendStatus({ type: 'error', message })
-    throw error
-  }
-}
+  })
+})
 
 export default qwenGroupPhotoNode
 
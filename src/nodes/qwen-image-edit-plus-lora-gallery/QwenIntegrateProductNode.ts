@@ -1,18 +1,11 @@
-import { NanoSDK, NodeDefinition, NodeInstance, resolveAsset, uploadAsset } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { uploadBufferToFal } from '../../utils/fal-storage.js'
-import { generateAssetFilename } from '../../utils/asset-utils.js'
-import { detectImageFormat, clamp } from './shared.js'
-
-interface QwenIntegrateProductResponse {
-  images: Array<{
-    url: string
-  }>
-  seed: number
-}
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { uploadImageToFal } from '../../utils/fal-storage.js'
+import { rehostFalAsset, resolveAsset } from '../../utils/asset-utils.js'
+import { clamp } from './shared.js'
 
 const nodeDefinition: NodeDefinition = {
   uid: 'fal-qwen-integrate-product',
@@ -179,15 +172,23 @@ const nodeDefinition: NodeDefinition = {
       default: -1,
       label: 'Seed',
       description: 'Random seed for reproducibility (-1 for random)'
-    }
+    },
+    {
+      name: 'bypass_cache',
+      type: 'boolean',
+      value: false,
+      default: false,
+      label: 'Bypass Cache',
+      description: 'Call Fal even when a cached result exists for this seed and these inputs'
+    },
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
   ]
 }
 
 const qwenIntegrateProductNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-qwenIntegrateProductNode.execute = async ({ inputs, parameters, context }) => {
-  configureFalClient()
-
+qwenIntegrateProductNode.execute = withFalBatch({ inputs: ['prompt', 'image'] }, async ({ inputs, parameters, context }) => {
   const prompt = inputs.prompt?.[0] as string
   const imageInput = inputs.image?.[0] as string | undefined
 
@@ -217,108 +218,64 @@ qwenIntegrateProductNode.execute = async ({ inputs, parameters, context }) => {
 
   context.sendStatus({ type: 'running', message: 'Preparing input image...' })
 
-  try {
-    const buffer: Buffer = await resolveAsset(imageInput, { asBuffer: true }) as Buffer
-    const format = detectImageFormat(buffer)
-    const uploadedUrl = await uploadBufferToFal(buffer, format, { filenamePrefix: 'qwen-integrate-product-input' })
-
-    const payload: any = {
-      image_urls: [uploadedUrl],
-      prompt,
-      num_images: numImages,
-      guidance_scale: guidanceScale,
-      num_inference_steps: numInferenceSteps,
-      acceleration,
-      negative_prompt: negativePrompt,
-      lora_scale: loraScale,
-      output_format: outputFormat,
-      enable_safety_checker: enableSafetyChecker,
-      sync_mode: syncMode
-    }
-
-    if (imageSizeValue !== 'auto') {
-      payload.image_size = imageSizeValue
-    } else {
-      payload.image_size = {
-        width: imageWidth,
-        height: imageHeight
-      }
-    }
-
-    if (Number.isInteger(seedValue) && seedValue >= 0) {
-      payload.seed = seedValue
-    }
+  const expectedMs = Math.min(180000, Math.max(20000, numImages * 9000))
 
-    let stepCount = 0
-    const expectedMs = Math.min(180000, Math.max(20000, numImages * 9000))
-    const strategy = createProgressStrategy({
+  return runFalExecution({
+    endpoint: 'fal-ai/qwen-image-edit-plus-lora-gallery/integrate-product',
+    context,
+    errorMessage: 'Failed to integrate product',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    resultCache: { bypass: Boolean(getParameterValue(parameters, 'bypass_cache', false)) },
+    fieldNames: { 'image_urls.0': 'image', 'image_size.width': 'image_width', 'image_size.height': 'image_height' },
+    progress: {
       expectedMs,
       inQueueMessage: 'Waiting in queue...',
       finalizingMessage: 'Finalizing product integration...',
       defaultInProgressMessage: (n) => `Processing step ${n}...`
-    })
+    },
+    buildPayload: async () => {
+      const buffer: Buffer = await resolveAsset(imageInput, { asBuffer: true }) as Buffer
+      const uploadedUrl = await uploadImageToFal(buffer, { filenamePrefix: 'qwen-integrate-product-input' })
 
-    const result = await fal.subscribe('fal-ai/qwen-image-edit-plus-lora-gallery/integrate-product', {
-      input: payload,
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        if (status.status === 'IN_QUEUE') {
-          const r = strategy.onQueue()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount++
-          const r = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'COMPLETED') {
-          const r = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        }
+      const payload: any = {
+        image_urls: [uploadedUrl],
+        prompt,
+        num_images: numImages,
+        guidance_scale: guidanceScale,
+        num_inference_steps: numInferenceSteps,
+        acceleration,
+        negative_prompt: negativePrompt,
+        lora_scale: loraScale,
+        output_format: outputFormat,
+        enable_safety_checker: enableSafetyChecker,
+        sync_mode: syncMode
       }
-    }) as unknown as QwenIntegrateProductResponse
-
-    // Check both result.images and result.data.images
-    const directImages = result.images
-    const dataImages = (result as any)?.data?.images
-    const images = directImages ?? dataImages ?? []
 
-    if (!images.length) {
-      throw new Error('No images were returned by the Qwen Integrate Product API')
-    }
-
-    const uploadedUris: string[] = []
-    for (const image of images) {
-      if (!image.url) {
-        continue
+      if (imageSizeValue !== 'auto') {
+        payload.image_size = imageSizeValue
+      } else {
+        payload.image_size = {
+          width: imageWidth,
+          height: imageHeight
+        }
       }
 
-      const response = await fetch(image.url)
-      const contentType = response.headers.get('content-type')
-      const arrayBuffer = await response.arrayBuffer()
-      const resultBuffer = Buffer.from(arrayBuffer)
-      const filename = generateAssetFilename(image.url, contentType, 'image')
-      const uploadResult = await uploadAsset(resultBuffer, { type: 'image', filename })
-
-      if (!uploadResult.uri) {
-        throw new Error('Failed to upload generated image')
+      if (Number.isInteger(seedValue) && seedValue >= 0) {
+        payload.seed = seedValue
       }
+      return payload
+    },
+    mapOutput: async (result) => {
+      const response = readFalResponse(result, 'Qwen Integrate Product')
+      const seed = response.seed()
 
-      uploadedUris.push(uploadResult.uri)
-    }
-
-    if (!uploadedUris.length) {
-      throw new Error('Generated images could not be retrieved')
-    }
-
-    return {
-      images: uploadedUris,
-      seed: result.seed ? [result.seed] : []
+      return {
+        images: await Promise.all(response.images().map((image) => rehostFalAsset(image, 'image'))),
+        seed: seed === undefined ? [] : [seed]
+      }
     }
-  } catch (error: any) {
-    const message = error?.message ?? 'Failed to integrate product'
-    context.sendStatus({ type: 'error', message })
-    throw error
-  }
-}
+  })
+})
 
 export default qwenIntegrateProductNode
 
@@ -1,26 +1,12 @@
 import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { FalImageReference, uploadGeneratedImages, assetToDataUrl } from '../flux-pro/utils.js'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createSafetyPolicyParameters, withFalSafetyPolicy } from '../../utils/fal-safety.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { uploadGeneratedImages, assetToDataUrl } from '../flux-pro/utils.js'
 import { imageSize } from 'image-size'
-import { resolveAsset } from '@nanograph/sdk'
-
-interface QwenImageEditPlusResponse {
-    images?: FalImageReference[]
-    seed?: number
-    has_nsfw_concepts?: boolean[]
-    timings?: Record<string, number>
-    prompt?: string
-    data?: {
-        images?: FalImageReference[]
-        seed?: number
-        has_nsfw_concepts?: boolean[]
-        timings?: Record<string, number>
-        prompt?: string
-    }
-}
+import { resolveAsset } from '../../utils/asset-utils.js'
 
 const nodeDefinition: NodeDefinition = {
     uid: 'fal-ai-qwen-image-edit-plus',
@@ -79,6 +65,11 @@ const nodeDefinition: NodeDefinition = {
             name: 'has_nsfw_concepts',
             type: 'boolean',
             description: 'Whether the generated images contain NSFW concepts.'
+        },
+        {
+            name: 'safety_report',
+            type: 'string',
+            description: 'JSON report of the NSFW check: policy, decision, seeds tried and the flag of every image'
         }
     ],
     parameters: [
@@ -204,15 +195,24 @@ const nodeDefinition: NodeDefinition = {
             step: 1,
             label: 'Seed (-1 = random)',
             description: 'Seed of the generated Image.'
-        }
+        },
+        {
+            name: 'bypass_cache',
+            type: 'boolean',
+            value: false,
+            default: false,
+            label: 'Bypass Cache',
+            description: 'Call Fal even when a cached result exists for this seed and these inputs'
+        },
+        ...createSafetyPolicyParameters(),
+        createBatchModeParameter(),
+        createCredentialProfileParameter()
     ]
 }
 
 const qwenImageEditPlusNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-qwenImageEditPlusNode.execute = async ({ inputs, parameters, context }) => {
-    configureFalClient()
-
+qwenImageEditPlusNode.execute = withFalBatch({ inputs: ['prompt', 'image1', 'image2', 'image3', 'image4', 'negative_prompt'] }, withFalSafetyPolicy({}, async ({ inputs, parameters, context }) => {
     const prompt = inputs.prompt?.[0] as string
     const imageInputs = [
         inputs.image1?.[0] as string | undefined,
@@ -233,8 +233,6 @@ qwenImageEditPlusNode.execute = async ({ inputs, parameters, context }) => {
         throw new Error('At least one image is required')
     }
 
-    const imageUrls = await Promise.all(imageInputs.map(uri => assetToDataUrl(uri)))
-
     const numInferenceSteps = Number(getParameterValue(parameters, 'num_inference_steps', 50))
     const guidanceScale = Number(getParameterValue(parameters, 'guidance_scale', 4))
     const numImages = Number(getParameterValue(parameters, 'num_images', 1))
@@ -272,7 +270,6 @@ qwenImageEditPlusNode.execute = async ({ inputs, parameters, context }) => {
 
     const payload: Record<string, unknown> = {
         prompt,
-        image_urls: imageUrls,
         negative_prompt: negativePrompt,
         num_inference_steps: numInferenceSteps,
         guidance_scale: guidanceScale,
@@ -289,54 +286,37 @@ qwenImageEditPlusNode.execute = async ({ inputs, parameters, context }) => {
     }
 
     // Estimation logic (rough guess)
-    const expectedMs = Math.max(5000, imageUrls.length * 10000)
+    const expectedMs = Math.max(5000, imageInputs.length * 10000)
 
-    const strategy = createProgressStrategy({
-        expectedMs,
-        inQueueMessage: 'Waiting for Qwen Image Edit Plus...',
-        finalizingMessage: 'Finalizing images...',
-        defaultInProgressMessage: (step) => `Processing step ${step}...`
-    })
+    return runFalExecution({
+        endpoint: 'fal-ai/qwen-image-edit-plus',
+        context,
+        errorMessage: 'Failed to generate images with Qwen Image Edit Plus',
+        credential: getParameterValue(parameters, 'credential_profile', 'default'),
+        resultCache: { bypass: Boolean(getParameterValue(parameters, 'bypass_cache', false)) },
+        fieldNames: { 'image_size.width': 'custom_width', 'image_size.height': 'custom_height' },
+        progress: {
+            expectedMs,
+            inQueueMessage: 'Waiting for Qwen Image Edit Plus...',
+            finalizingMessage: 'Finalizing images...',
+            defaultInProgressMessage: (step) => `Processing step ${step}...`
+        },
+        buildPayload: async () => ({
+            ...payload,
+            image_urls: await Promise.all(imageInputs.map(uri => assetToDataUrl(uri)))
+        }),
 
-    try {
-        let stepCount = 0
+        mapOutput: async (result) => {
+            const response = readFalResponse(result, 'Qwen Image Edit Plus')
+            const seed = response.seed()
 
-        const result = await fal.subscribe('fal-ai/qwen-image-edit-plus', {
-            input: payload as any,
-            logs: true,
-            onQueueUpdate: (status: QueueStatus) => {
-                if (status.status === 'IN_QUEUE') {
-                    const update = strategy.onQueue()
-                    context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-                } else if (status.status === 'IN_PROGRESS') {
-                    stepCount += 1
-                    const update = strategy.onProgress(status, stepCount)
-                    context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-                } else if (status.status === 'COMPLETED') {
-                    const update = strategy.onCompleted()
-                    context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-                }
+            return {
+                images: await uploadGeneratedImages(response.images()),
+                seed: seed === undefined ? [] : [seed],
+                has_nsfw_concepts: response.nsfwFlags()
             }
-        }) as QwenImageEditPlusResponse
-
-        const images = result.images || result.data?.images || []
-
-        if (!images.length) {
-            throw new Error('No images were returned by the Qwen API')
         }
-
-        const uploadedImages = await uploadGeneratedImages(images)
-
-        return {
-            images: uploadedImages,
-            seed: typeof result.seed === 'number' ? [result.seed] : (typeof result.data?.seed === 'number' ? [result.data.seed] : []),
-            has_nsfw_concepts: result.has_nsfw_concepts || result.data?.has_nsfw_concepts || []
-        }
-    } catch (error: any) {
-        const message = error?.message || 'Failed to generate images with Qwen Image Edit Plus'
-        context.sendStatus({ type: 'error', message })
-        throw error
-    }
-}
+    })
+}))
 
 export default qwenImageEditPlusNode
@@ -1,24 +1,10 @@
 import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { FalImageReference, uploadGeneratedImages, assetToDataUrl } from '../flux-pro/utils.js'
-
-interface QwenImageLayeredResponse {
-    images?: FalImageReference[]
-    seed?: number
-    has_nsfw_concepts?: boolean[]
-    timings?: Record<string, number>
-    prompt?: string
-    data?: {
-        images?: FalImageReference[]
-        seed?: number
-        has_nsfw_concepts?: boolean[]
-        timings?: Record<string, number>
-        prompt?: string
-    }
-}
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createSafetyPolicyParameters, withFalSafetyPolicy } from '../../utils/fal-safety.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { uploadGeneratedImages, assetToDataUrl } from '../flux-pro/utils.js'
 
 const nodeDefinition: NodeDefinition = {
     uid: 'fal-ai-qwen-image-layered',
@@ -61,6 +47,11 @@ const nodeDefinition: NodeDefinition = {
             name: 'has_nsfw_concepts',
             type: 'boolean',
             description: 'Whether the generated images contain NSFW concepts.'
+        },
+        {
+            name: 'safety_report',
+            type: 'string',
+            description: 'JSON report of the NSFW check: policy, decision, seeds tried and the flag of every image'
         }
     ],
     parameters: [
@@ -95,15 +86,24 @@ const nodeDefinition: NodeDefinition = {
             step: 1,
             label: 'Seed (-1 = random)',
             description: 'Seed of the generated Image.'
-        }
+        },
+        {
+            name: 'bypass_cache',
+            type: 'boolean',
+            value: false,
+            default: false,
+            label: 'Bypass Cache',
+            description: 'Call Fal even when a cached result exists for this seed and these inputs'
+        },
+        ...createSafetyPolicyParameters(),
+        createBatchModeParameter(),
+        createCredentialProfileParameter()
     ]
 }
 
 const qwenImageLayeredNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-qwenImageLayeredNode.execute = async ({ inputs, parameters, context }) => {
-    configureFalClient()
-
+qwenImageLayeredNode.execute = withFalBatch({ inputs: ['image', 'prompt', 'negative_prompt'] }, withFalSafetyPolicy({}, async ({ inputs, parameters, context }) => {
     const imageInput = inputs.image?.[0] as string | undefined
 
     if (!imageInput) {
@@ -114,14 +114,11 @@ qwenImageLayeredNode.execute = async ({ inputs, parameters, context }) => {
     const prompt = (inputs.prompt?.[0] as string) || 'describe this image'
     const negativePrompt = (inputs.negative_prompt?.[0] as string) || ''
 
-    const imageUrl = await assetToDataUrl(imageInput)
-
     const numInferenceSteps = Number(getParameterValue(parameters, 'num_inference_steps', 28))
     const guidanceScale = Number(getParameterValue(parameters, 'guidance_scale', 5))
     const seedValue = Number(getParameterValue(parameters, 'seed', -1))
 
     const payload: Record<string, unknown> = {
-        image_url: imageUrl,
         prompt,
         negative_prompt: negativePrompt,
         num_inference_steps: numInferenceSteps,
@@ -135,52 +132,31 @@ qwenImageLayeredNode.execute = async ({ inputs, parameters, context }) => {
     // Estimation logic (rough guess) - layered might take a bit longer
     const expectedMs = 15000
 
-    const strategy = createProgressStrategy({
-        expectedMs,
-        inQueueMessage: 'Waiting for Qwen Image Layered...',
-        finalizingMessage: 'Finalizing images...',
-        defaultInProgressMessage: (step) => `Processing step ${step}...`
-    })
+    return runFalExecution({
+        endpoint: 'fal-ai/qwen-image-layered',
+        context,
+        errorMessage: 'Failed to generate images with Qwen Image Layered',
+        credential: getParameterValue(parameters, 'credential_profile', 'default'),
+        resultCache: { bypass: Boolean(getParameterValue(parameters, 'bypass_cache', false)) },
+        progress: {
+            expectedMs,
+            inQueueMessage: 'Waiting for Qwen Image Layered...',
+            finalizingMessage: 'Finalizing images...',
+            defaultInProgressMessage: (step) => `Processing step ${step}...`
+        },
+        buildPayload: async () => ({ ...payload, image_url: await assetToDataUrl(imageInput) }),
 
-    try {
-        let stepCount = 0
+        mapOutput: async (result) => {
+            const response = readFalResponse(result, 'Qwen Image Layered')
+            const seed = response.seed()
 
-        const result = await fal.subscribe('fal-ai/qwen-image-layered', {
-            input: payload as any,
-            logs: true,
-            onQueueUpdate: (status: QueueStatus) => {
-                if (status.status === 'IN_QUEUE') {
-                    const update = strategy.onQueue()
-                    context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-                } else if (status.status === 'IN_PROGRESS') {
-                    stepCount += 1
-                    const update = strategy.onProgress(status, stepCount)
-                    context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-                } else if (status.status === 'COMPLETED') {
-                    const update = strategy.onCompleted()
-                    context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-                }
+            return {
+                images: await uploadGeneratedImages(response.images()),
+                seed: seed === undefined ? [] : [seed],
+                has_nsfw_concepts: response.nsfwFlags()
             }
-        }) as QwenImageLayeredResponse
-
-        const images = result.images || result.data?.images || []
-
-        if (!images.length) {
-            throw new Error('No images were returned by the Qwen API')
         }
-
-        const uploadedImages = await uploadGeneratedImages(images)
-
-        return {
-            images: uploadedImages,
-            seed: typeof result.seed === 'number' ? [result.seed] : (typeof result.data?.seed === 'number' ? [result.data.seed] : []),
-            has_nsfw_concepts: result.has_nsfw_concepts || result.data?.has_nsfw_concepts || []
-        }
-    } catch (error: any) {
-        const message = error?.message || 'Failed to generate images with Qwen Image Layered'
-        context.sendStatus({ type: 'error', message })
-        throw error
-    }
-}
+    })
+}))
 
 export default qwenImageLayeredNode
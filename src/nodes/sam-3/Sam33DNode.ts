@@ -1,19 +1,10 @@
-import { NanoSDK, NodeDefinition, NodeInstance, resolveAsset } from '@nanograph/sdk';
-import { QueueStatus } from '@fal-ai/client';
-import { configureFalClient, fal } from '../../utils/fal-client.js';
-import { getParameterValue } from '../../utils/parameter-utils.js';
-import { createProgressStrategy } from '../../utils/progress-strategy.js';
-
-interface Sam33DResponse {
-    data?: {
-        model_glb?: { url?: string };
-        gaussian_splat?: { url?: string };
-        artifacts_zip?: { url?: string };
-    };
-    model_glb?: { url?: string };
-    gaussian_splat?: { url?: string };
-    artifacts_zip?: { url?: string };
-}
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk';
+import { resolveAsset } from '../../utils/asset-utils.js';
+import { runFalExecution } from '../../utils/fal-execution.js';
+import { FalResponseError, readFalResponse } from '../../utils/fal-response.js';
+import { withFalBatch } from '../../utils/fal-batch.js';
+import { uploadImageToFal } from '../../utils/fal-storage.js';
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js';
 
 const nodeDefinition: NodeDefinition = {
     uid: 'fal-ai/sam-3/3d-objects',
@@ -68,15 +59,23 @@ const nodeDefinition: NodeDefinition = {
             label: 'Seed',
             description: 'Random seed for reproducibility',
             optional: true
-        }
+        },
+        {
+            name: 'bypass_cache',
+            type: 'boolean',
+            value: false,
+            default: false,
+            label: 'Bypass Cache',
+            description: 'Call Fal even when a cached result exists for this seed and these inputs'
+        },
+        createBatchModeParameter(),
+        createCredentialProfileParameter()
     ]
 };
 
 const sam33DNode: NodeInstance = NanoSDK.registerNode(nodeDefinition);
 
-sam33DNode.execute = async ({ inputs, parameters, context }) => {
-    configureFalClient();
-
+sam33DNode.execute = withFalBatch({ inputs: ['prompt', 'image'] }, async ({ inputs, parameters, context }) => {
     const prompt = inputs.prompt?.[0] as string;
     const imageAsset = inputs.image?.[0] as string;
 
@@ -91,63 +90,47 @@ sam33DNode.execute = async ({ inputs, parameters, context }) => {
 
     context.sendStatus({ type: 'running', message: 'Uploading image...' });
 
-    try {
-        const imageBuffer = await resolveAsset(imageAsset, { asBuffer: true }) as Buffer;
-        const blob = new Blob([new Uint8Array(imageBuffer)], { type: 'image/png' });
-        const imageUrl = await fal.storage.upload(blob);
-
-        const payload = {
-            image_url: imageUrl,
-            prompt: prompt || 'car',
-            export_textured_glb: exportTexturedGlb,
-            seed: seed
-        };
-
-        const strategy = createProgressStrategy({
+    return runFalExecution({
+        endpoint: 'fal-ai/sam-3/3d-objects',
+        context,
+        errorMessage: 'Failed to generate 3D objects',
+        credential: getParameterValue(parameters, 'credential_profile', 'default'),
+        resultCache: { bypass: Boolean(getParameterValue(parameters, 'bypass_cache', false)) },
+        progress: {
             expectedMs: 60000,
             inQueueMessage: 'Waiting in queue...',
             finalizingMessage: 'Reconstructing 3D objects...',
             defaultInProgressMessage: (n) => `Processing step ${n}...`
-        });
-
-        let stepCount = 0;
-
-        const result = await fal.subscribe('fal-ai/sam-3/3d-objects', {
-            input: payload,
-            logs: true,
-            onQueueUpdate: (status: QueueStatus) => {
-                if (status.status === 'IN_QUEUE') {
-                    const r = strategy.onQueue();
-                    context.sendStatus({ type: 'running', message: r.message, progress: r.progress });
-                } else if (status.status === 'IN_PROGRESS') {
-                    stepCount++;
-                    const r = strategy.onProgress(status, stepCount);
-                    context.sendStatus({ type: 'running', message: r.message, progress: r.progress });
-                } else if (status.status === 'COMPLETED') {
-                    const r = strategy.onCompleted();
-                    context.sendStatus({ type: 'running', message: r.message, progress: r.progress });
-                }
+        },
+        buildPayload: async () => {
+            const imageBuffer = await resolveAsset(imageAsset, { asBuffer: true }) as Buffer;
+            const imageUrl = await uploadImageToFal(imageBuffer, { filenamePrefix: 'sam3-input' });
+
+            const payload = {
+                image_url: imageUrl,
+                prompt: prompt || 'car',
+                export_textured_glb: exportTexturedGlb,
+                seed: seed
+            };
+            return payload;
+        },
+        mapOutput: async (result) => {
+            const response = readFalResponse(result, 'SAM 3 3D');
+            const modelGlb = response.optionalFile('model_glb');
+            const gaussianSplat = response.optionalFile('gaussian_splat');
+            const artifactsZip = response.optionalFile('artifacts_zip');
+
+            if (!modelGlb?.url && !gaussianSplat?.url) {
+                throw new FalResponseError('SAM 3 3D returned no 3D data (missing model_glb and gaussian_splat)');
             }
-        }) as Sam33DResponse;
 
-        const modelGlb = result.data?.model_glb ?? result.model_glb;
-        const gaussianSplat = result.data?.gaussian_splat ?? result.gaussian_splat;
-        const artifactsZip = result.data?.artifacts_zip ?? result.artifacts_zip;
-
-        if (!modelGlb?.url && !gaussianSplat?.url) {
-            throw new Error('No 3D data returned from Fal AI');
+            return {
+                model_glb: modelGlb?.url ? [modelGlb.url] : [],
+                gaussian_splat: gaussianSplat?.url ? [gaussianSplat.url] : [],
+                artifacts_zip: artifactsZip?.url ? [artifactsZip.url] : []
+            };
         }
-
-        return {
-            model_glb: modelGlb?.url ? [modelGlb.url] : [],
-            gaussian_splat: gaussianSplat?.url ? [gaussianSplat.url] : [],
-            artifacts_zip: artifactsZip?.url ? [artifactsZip.url] : []
-        };
-
-    } catch (error: any) {
-        context.sendStatus({ type: 'error', message: error.message || 'Failed to generate 3D objects' });
-        throw error;
-    }
-};
+    });
+});
 
 export default sam33DNode;
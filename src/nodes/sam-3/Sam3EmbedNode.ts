@@ -1,14 +1,10 @@
-import { NanoSDK, NodeDefinition, NodeInstance, resolveAsset } from '@nanograph/sdk';
-import { QueueStatus } from '@fal-ai/client';
-import { configureFalClient, fal } from '../../utils/fal-client.js';
-import { createProgressStrategy } from '../../utils/progress-strategy.js';
-
-interface Sam3EmbedResponse {
-    data?: {
-        embedding_b64?: string;
-    };
-    embedding_b64?: string;
-}
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk';
+import { resolveAsset } from '../../utils/asset-utils.js';
+import { runFalExecution } from '../../utils/fal-execution.js';
+import { FalResponseError, readFalResponse } from '../../utils/fal-response.js';
+import { withFalBatch } from '../../utils/fal-batch.js';
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js';
+import { uploadImageToFal } from '../../utils/fal-storage.js';
 
 const nodeDefinition: NodeDefinition = {
     uid: 'fal-ai/sam-3/image/embed',
@@ -31,14 +27,15 @@ const nodeDefinition: NodeDefinition = {
             description: 'The image embedding in base64 format'
         }
     ],
-    parameters: []
+    parameters: [
+        createBatchModeParameter(),
+        createCredentialProfileParameter()
+    ]
 };
 
 const sam3EmbedNode: NodeInstance = NanoSDK.registerNode(nodeDefinition);
 
-sam3EmbedNode.execute = async ({ inputs, context }) => {
-    configureFalClient();
-
+sam3EmbedNode.execute = withFalBatch({ inputs: ['image'] }, async ({ inputs, parameters, context }) => {
     const imageAsset = inputs.image?.[0] as string;
 
     if (!imageAsset) {
@@ -48,56 +45,38 @@ sam3EmbedNode.execute = async ({ inputs, context }) => {
 
     context.sendStatus({ type: 'running', message: 'Uploading image...' });
 
-    try {
-        const imageBuffer = await resolveAsset(imageAsset, { asBuffer: true }) as Buffer;
-        const blob = new Blob([new Uint8Array(imageBuffer)], { type: 'image/png' });
-        const imageUrl = await fal.storage.upload(blob);
-
-        const payload = {
-            image_url: imageUrl
-        };
-
-        const strategy = createProgressStrategy({
+    return runFalExecution({
+        endpoint: 'fal-ai/sam-3/image/embed',
+        context,
+        errorMessage: 'Failed to generate embedding',
+        credential: getParameterValue(parameters, 'credential_profile', 'default'),
+        progress: {
             expectedMs: 5000,
             inQueueMessage: 'Waiting in queue...',
             finalizingMessage: 'Generating embedding...',
             defaultInProgressMessage: (n) => `Processing step ${n}...`
-        });
-
-        let stepCount = 0;
-
-        const result = await fal.subscribe('fal-ai/sam-3/image/embed', {
-            input: payload,
-            logs: true,
-            onQueueUpdate: (status: QueueStatus) => {
-                if (status.status === 'IN_QUEUE') {
-                    const r = strategy.onQueue();
-                    context.sendStatus({ type: 'running', message: r.message, progress: r.progress });
-                } else if (status.status === 'IN_PROGRESS') {
-                    stepCount++;
-                    const r = strategy.onProgress(status, stepCount);
-                    context.sendStatus({ type: 'running', message: r.message, progress: r.progress });
-                } else if (status.status === 'COMPLETED') {
-                    const r = strategy.onCompleted();
-                    context.sendStatus({ type: 'running', message: r.message, progress: r.progress });
-                }
+        },
+        buildPayload: async () => {
+            const imageBuffer = await resolveAsset(imageAsset, { asBuffer: true }) as Buffer;
+            const imageUrl = await uploadImageToFal(imageBuffer, { filenamePrefix: 'sam3-input' });
+
+            const payload = {
+                image_url: imageUrl
+            };
+            return payload;
+        },
+        mapOutput: async (result) => {
+            const embedding = readFalResponse(result, 'SAM 3 embed').text('embedding_b64');
+
+            if (!embedding) {
+                throw new FalResponseError('SAM 3 embed returned no embedding (missing embedding_b64)');
             }
-        }) as Sam3EmbedResponse;
 
-        const embedding = result.data?.embedding_b64 ?? result.embedding_b64;
-
-        if (!embedding) {
-            throw new Error('No embedding returned from Fal AI');
+            return {
+                embedding_b64: [embedding]
+            };
         }
-
-        return {
-            embedding_b64: [embedding]
-        };
-
-    } catch (error: any) {
-        context.sendStatus({ type: 'error', message: error.message || 'Failed to generate embedding' });
-        throw error;
-    }
-};
+    });
+});
 
 export default sam3EmbedNode;
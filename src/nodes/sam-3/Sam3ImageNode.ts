@@ -1,42 +1,12 @@
-import { NanoSDK, NodeDefinition, NodeInstance, resolveAsset, uploadAsset } from '@nanograph/sdk';
-import { QueueStatus } from '@fal-ai/client';
-import { configureFalClient, fal } from '../../utils/fal-client.js';
-import { getParameterValue } from '../../utils/parameter-utils.js';
-import { generateAssetFilename } from '../../utils/asset-utils.js';
-import { createProgressStrategy } from '../../utils/progress-strategy.js';
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk';
+import { runFalExecution } from '../../utils/fal-execution.js';
+import { readFalResponse } from '../../utils/fal-response.js';
+import { withFalBatch } from '../../utils/fal-batch.js';
+import { uploadImageToFal } from '../../utils/fal-storage.js';
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js';
+import { rehostFalAsset, resolveAsset, uploadAsset } from '../../utils/asset-utils.js';
 import sharp from 'sharp';
 
-interface Sam3ImageResponse {
-    data?: {
-        image?: {
-            url?: string;
-            content_type?: string;
-            file_size?: number;
-            width?: number;
-            height?: number;
-        };
-        masks?: Array<{
-            url?: string;
-            content_type?: string;
-            width?: number;
-            height?: number;
-        }>;
-    };
-    image?: {
-        url?: string;
-        content_type?: string;
-        file_size?: number;
-        width?: number;
-        height?: number;
-    };
-    masks?: Array<{
-        url?: string;
-        content_type?: string;
-        width?: number;
-        height?: number;
-    }>;
-}
-
 const nodeDefinition: NodeDefinition = {
     uid: 'fal-ai/sam-3/image',
     name: 'SAM 3 Image',
@@ -102,15 +72,15 @@ const nodeDefinition: NodeDefinition = {
             max: 32,
             label: 'Max Masks',
             description: 'Maximum number of masks to return'
-        }
+        },
+        createBatchModeParameter(),
+        createCredentialProfileParameter()
     ]
 };
 
 const sam3ImageNode: NodeInstance = NanoSDK.registerNode(nodeDefinition);
 
-sam3ImageNode.execute = async ({ inputs, parameters, context }) => {
-    configureFalClient();
-
+sam3ImageNode.execute = withFalBatch({ inputs: ['prompt', 'image'] }, async ({ inputs, parameters, context }) => {
     const prompt = inputs.prompt?.[0] as string;
     const imageAsset = inputs.image?.[0] as string;
 
@@ -126,129 +96,96 @@ sam3ImageNode.execute = async ({ inputs, parameters, context }) => {
 
     context.sendStatus({ type: 'running', message: 'Preparing image...' });
 
-    try {
-        const imageBuffer = await resolveAsset(imageAsset, { asBuffer: true }) as Buffer;
-        const blob = new Blob([new Uint8Array(imageBuffer)], { type: 'image/png' });
-        const imageUrl = await fal.storage.upload(blob);
-
-        const payload = {
-            image_url: imageUrl,
-            prompt: prompt || 'wheel',
-            apply_mask: applyMask,
-            return_multiple_masks: returnMultipleMasks || aggregateMasks,
-            max_masks: maxMasks,
-            output_format: 'png'
-        };
-
-        const strategy = createProgressStrategy({
+    return runFalExecution({
+        endpoint: 'fal-ai/sam-3/image',
+        context,
+        errorMessage: 'Failed to process image',
+        credential: getParameterValue(parameters, 'credential_profile', 'default'),
+        progress: {
             expectedMs: 10000,
             inQueueMessage: 'Waiting in queue...',
             finalizingMessage: 'Finalizing segmentation...',
             defaultInProgressMessage: (n) => `Processing step ${n}...`
-        });
-
-        let stepCount = 0;
-
-        const result = await fal.subscribe('fal-ai/sam-3/image', {
-            input: payload,
-            logs: true,
-            onQueueUpdate: (status: QueueStatus) => {
-                if (status.status === 'IN_QUEUE') {
-                    const r = strategy.onQueue();
-                    context.sendStatus({ type: 'running', message: r.message, progress: r.progress });
-                } else if (status.status === 'IN_PROGRESS') {
-                    stepCount++;
-                    const r = strategy.onProgress(status, stepCount);
-                    context.sendStatus({ type: 'running', message: r.message, progress: r.progress });
-                } else if (status.status === 'COMPLETED') {
-                    const r = strategy.onCompleted();
-                    context.sendStatus({ type: 'running', message: r.message, progress: r.progress });
-                }
-            }
-        }) as Sam3ImageResponse;
-
-        const imageResult = result.data?.image ?? result.image;
-        const masksResult = result.data?.masks ?? result.masks ?? [];
-
-        if (!imageResult?.url) {
-            throw new Error('No image returned from Fal AI');
-        }
-
-        const uploadImage = async (url: string, contentType: string) => {
-            const resp = await fetch(url);
-            const data = Buffer.from(await resp.arrayBuffer());
-            const fname = generateAssetFilename(url, contentType || 'image/png', 'image');
-            return uploadAsset(data, { type: 'image', filename: fname });
-        };
-
-        const downloadBuffer = async (url: string) => {
-            const resp = await fetch(url);
-            return Buffer.from(await resp.arrayBuffer());
-        };
-
-        let mainImageUri: string;
-
-        if (aggregateMasks && masksResult.length > 0) {
-            context.sendStatus({ type: 'running', message: 'Aggregating masks...' });
-
-            const maskBuffers = await Promise.all(
-                masksResult
-                    .filter(m => m.url)
-                    .map(m => downloadBuffer(m.url!))
-            );
-
-            if (maskBuffers.length > 0) {
-                let composite = sharp(maskBuffers[0]);
-
-                const composites = maskBuffers.slice(1).map(buffer => ({
-                    input: buffer,
-                    blend: 'lighten' as const
-                }));
-
-                if (composites.length > 0) {
-                    composite = composite.composite(composites);
+        },
+        buildPayload: async () => {
+            const imageBuffer = await resolveAsset(imageAsset, { asBuffer: true }) as Buffer;
+            const imageUrl = await uploadImageToFal(imageBuffer, { filenamePrefix: 'sam3-input' });
+
+            const payload = {
+                image_url: imageUrl,
+                prompt: prompt || 'wheel',
+                apply_mask: applyMask,
+                return_multiple_masks: returnMultipleMasks || aggregateMasks,
+                max_masks: maxMasks,
+                output_format: 'png'
+            };
+            return payload;
+        },
+        mapOutput: async (result) => {
+            const response = readFalResponse(result, 'SAM 3 image');
+            const imageResult = response.image();
+            const masksResult = response.files('masks');
+
+            const downloadBuffer = async (url: string) => {
+                const resp = await fetch(url);
+                return Buffer.from(await resp.arrayBuffer());
+            };
+
+            let mainImageUri: string;
+
+            if (aggregateMasks && masksResult.length > 0) {
+                context.sendStatus({ type: 'running', message: 'Aggregating masks...' });
+
+                const maskBuffers = await Promise.all(
+                    masksResult
+                        .filter(m => m.url)
+                        .map(m => downloadBuffer(m.url!))
+                );
+
+                if (maskBuffers.length > 0) {
+                    let composite = sharp(maskBuffers[0]);
+
+                    const composites = maskBuffers.slice(1).map(buffer => ({
+                        input: buffer,
+                        blend: 'lighten' as const
+                    }));
+
+                    if (composites.length > 0) {
+                        composite = composite.composite(composites);
+                    }
+
+                    const aggregatedBuffer = await composite.toBuffer();
+                    const filename = `aggregated-mask-${Date.now()}.png`;
+                    const uploadResult = await uploadAsset(aggregatedBuffer, { type: 'image', filename });
+
+                    if (!uploadResult?.uri) throw new Error('Failed to upload aggregated mask');
+                    mainImageUri = uploadResult.uri;
+                } else {
+                    mainImageUri = await rehostFalAsset(imageResult, 'image');
                 }
 
-                const aggregatedBuffer = await composite.toBuffer();
-                const filename = `aggregated-mask-${Date.now()}.png`;
-                const uploadResult = await uploadAsset(aggregatedBuffer, { type: 'image', filename });
-
-                if (!uploadResult?.uri) throw new Error('Failed to upload aggregated mask');
-                mainImageUri = uploadResult.uri;
             } else {
-                const mainImageUpload = await uploadImage(imageResult.url, imageResult.content_type || 'image/png');
-                if (!mainImageUpload?.uri) throw new Error('Failed to upload main image');
-                mainImageUri = mainImageUpload.uri;
+                mainImageUri = await rehostFalAsset(imageResult, 'image');
             }
 
-        } else {
-            const mainImageUpload = await uploadImage(imageResult.url, imageResult.content_type || 'image/png');
-            if (!mainImageUpload?.uri) throw new Error('Failed to upload main image');
-            mainImageUri = mainImageUpload.uri;
-        }
+            let validMaskUris: string[] = [];
+            if (masksResult.length > 0) {
+                const maskUploadPromises = masksResult.map(async (mask: any) => {
+                    if (!mask.url) return null;
+                    return rehostFalAsset(mask, 'image');
+                });
 
-        let validMaskUris: string[] = [];
-        if (masksResult.length > 0) {
-            const maskUploadPromises = masksResult.map(async (mask: any) => {
-                if (!mask.url) return null;
-                return uploadImage(mask.url, mask.content_type || 'image/png');
-            });
-
-            const maskUploads = await Promise.all(maskUploadPromises);
-            validMaskUris = maskUploads
-                .filter((u): u is { uri: string } & any => u !== null && typeof u.uri === 'string')
-                .map(u => u.uri);
-        }
+                const maskUploads = await Promise.all(maskUploadPromises);
+                validMaskUris = maskUploads.filter((uri): uri is string => uri !== null);
 
-        return {
-            image: [mainImageUri],
-            masks: validMaskUris
-        };
+            }
 
-    } catch (error: any) {
-        context.sendStatus({ type: 'error', message: error.message || 'Failed to process image' });
-        throw error;
-    }
-};
+            return {
+                image: [mainImageUri],
+                masks: validMaskUris
+            };
+        }
+    });
+});
 
 export default sam3ImageNode;
@@ -1,32 +1,10 @@
-import { NanoSDK, NodeDefinition, NodeInstance, resolveAsset, uploadAsset } from '@nanograph/sdk';
-import { QueueStatus } from '@fal-ai/client';
-import { configureFalClient, fal } from '../../utils/fal-client.js';
-import { getParameterValue } from '../../utils/parameter-utils.js';
-import { generateAssetFilename } from '../../utils/asset-utils.js';
-import { createProgressStrategy } from '../../utils/progress-strategy.js';
-
-interface Sam3VideoResponse {
-    data?: {
-        video?: {
-            url?: string;
-            content_type?: string;
-            file_size?: number;
-        };
-        boundingbox_frames_zip?: {
-            url?: string;
-            file_name?: string;
-        };
-    };
-    video?: {
-        url?: string;
-        content_type?: string;
-        file_size?: number;
-    };
-    boundingbox_frames_zip?: {
-        url?: string;
-        file_name?: string;
-    };
-}
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk';
+import { runFalExecution } from '../../utils/fal-execution.js';
+import { readFalResponse } from '../../utils/fal-response.js';
+import { withFalBatch } from '../../utils/fal-batch.js';
+import { uploadAssetStreamToFal } from '../../utils/fal-storage.js';
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js';
+import { rehostFalAsset } from '../../utils/asset-utils.js';
 
 const nodeDefinition: NodeDefinition = {
     uid: 'fal-ai/sam-3/video',
@@ -77,15 +55,15 @@ const nodeDefinition: NodeDefinition = {
             default: true,
             label: 'Apply Mask',
             description: 'Apply the mask on the video'
-        }
+        },
+        createBatchModeParameter(),
+        createCredentialProfileParameter()
     ]
 };
 
 const sam3VideoNode: NodeInstance = NanoSDK.registerNode(nodeDefinition);
 
-sam3VideoNode.execute = async ({ inputs, parameters, context }) => {
-    configureFalClient();
-
+sam3VideoNode.execute = withFalBatch({ inputs: ['prompt', 'video'] }, async ({ inputs, parameters, context }) => {
     const prompt = inputs.prompt?.[0] as string;
     const videoAsset = inputs.video?.[0] as string;
 
@@ -99,66 +77,40 @@ sam3VideoNode.execute = async ({ inputs, parameters, context }) => {
 
     context.sendStatus({ type: 'running', message: 'Uploading video...' });
 
-    try {
-        const videoBuffer = await resolveAsset(videoAsset, { asBuffer: true }) as Buffer;
-        const blob = new Blob([new Uint8Array(videoBuffer)], { type: 'video/mp4' });
-        const videoUrl = await fal.storage.upload(blob);
-
-        const payload = {
-            video_url: videoUrl,
-            prompt: prompt || '',
-            detection_threshold: detectionThreshold,
-            apply_mask: applyMask
-        };
-
-        const strategy = createProgressStrategy({
+    return runFalExecution({
+        endpoint: 'fal-ai/sam-3/video',
+        context,
+        errorMessage: 'Failed to process video',
+        credential: getParameterValue(parameters, 'credential_profile', 'default'),
+        progress: {
             expectedMs: 30000,
             inQueueMessage: 'Waiting in queue...',
             finalizingMessage: 'Finalizing video segmentation...',
             defaultInProgressMessage: (n) => `Processing step ${n}...`
-        });
-
-        let stepCount = 0;
-
-        const result = await fal.subscribe('fal-ai/sam-3/video', {
-            input: payload,
-            logs: true,
-            onQueueUpdate: (status: QueueStatus) => {
-                if (status.status === 'IN_QUEUE') {
-                    const r = strategy.onQueue();
-                    context.sendStatus({ type: 'running', message: r.message, progress: r.progress });
-                } else if (status.status === 'IN_PROGRESS') {
-                    stepCount++;
-                    const r = strategy.onProgress(status, stepCount);
-                    context.sendStatus({ type: 'running', message: r.message, progress: r.progress });
-                } else if (status.status === 'COMPLETED') {
-                    const r = strategy.onCompleted();
-                    context.sendStatus({ type: 'running', message: r.message, progress: r.progress });
-                }
-            }
-        }) as Sam3VideoResponse;
+        },
+        buildPayload: async () => {
+            const videoUrl = await uploadAssetStreamToFal(videoAsset, { filename: 'sam3-video-input.mp4', contentType: 'video/mp4' });
+
+            const payload = {
+                video_url: videoUrl,
+                prompt: prompt || '',
+                detection_threshold: detectionThreshold,
+                apply_mask: applyMask
+            };
+            return payload;
+        },
+        mapOutput: async (result) => {
+            const response = readFalResponse(result, 'SAM 3 video');
+            const zipResult = response.optionalFile('boundingbox_frames_zip');
 
-        const videoResult = result.data?.video ?? result.video;
-        const zipResult = result.data?.boundingbox_frames_zip ?? result.boundingbox_frames_zip;
+            const videoUri = await rehostFalAsset(response.video(), 'video');
 
-        if (!videoResult?.url) {
-            throw new Error('No video returned from Fal AI');
+            return {
+                video: [videoUri],
+                boundingbox_frames_zip: zipResult?.url ? [zipResult.url] : []
+            };
         }
-
-        const videoResponse = await fetch(videoResult.url);
-        const videoBufferData = Buffer.from(await videoResponse.arrayBuffer());
-        const videoFilename = generateAssetFilename(videoResult.url, videoResult.content_type || 'video/mp4', 'video');
-        const uploadVideoResult = await uploadAsset(videoBufferData, { type: 'video', filename: videoFilename });
-
-        return {
-            video: [uploadVideoResult.uri],
-            boundingbox_frames_zip: zipResult?.url ? [zipResult.url] : []
-        };
-
-    } catch (error: any) {
-        context.sendStatus({ type: 'error', message: error.message || 'Failed to process video' });
-        throw error;
-    }
-};
+    });
+});
 
 export default sam3VideoNode;
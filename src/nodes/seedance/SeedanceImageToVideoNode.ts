@@ -1,19 +1,11 @@
-import { NanoSDK, NodeDefinition, NodeInstance, resolveAsset, uploadAsset } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { createSeedanceProgressStrategy } from './progress.js'
-import { uploadBufferToFal } from '../../utils/fal-storage.js'
-import { generateVideoFilename } from '../../utils/asset-utils.js'
-
-interface SeedanceVideoResponse {
-  data?: {
-    video?: {
-      url?: string
-    }
-    seed?: number
-  }
-}
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { createSeedanceProgressOptions } from './progress.js'
+import { uploadImageToFal } from '../../utils/fal-storage.js'
+import { rehostFalAsset, resolveAsset } from '../../utils/asset-utils.js'
 
 const IMAGE_ASPECT_RATIOS = ['21:9', '16:9', '4:3', '1:1', '3:4', '9:16', 'auto', '9:21'] as const
 const PRO_IMAGE_BLOCKED_RATIOS = new Set(['9:21'])
@@ -33,38 +25,8 @@ const ensureOption = <T extends string>(value: unknown, options: readonly T[], f
   return fallback
 }
 
-const detectImageMime = (buffer: Buffer): string => {
-  const signature = buffer.slice(0, 12)
-
-  if (signature.slice(0, 4).toString('hex') === '89504e47') {
-    return 'png'
-  }
-
-  if (signature.slice(0, 3).toString('hex') === 'ffd8ff') {
-    return 'jpeg'
-  }
-
-  if (signature.slice(0, 4).toString('hex') === '47494638') {
-    return 'gif'
-  }
-
-  if (signature.slice(0, 4).toString('hex') === '424d') {
-    return 'bmp'
-  }
-
-  if (
-    signature.slice(0, 4).toString('ascii') === 'RIFF' &&
-    signature.slice(8, 12).toString('ascii') === 'WEBP'
-  ) {
-    return 'webp'
-  }
-
-  return 'jpeg'
-}
-
 const uploadBufferAsImageUrl = async (buffer: Buffer, filenamePrefix: string): Promise<string> => {
-  const format = detectImageMime(buffer)
-  return uploadBufferToFal(buffer, format, { filenamePrefix })
+  return uploadImageToFal(buffer, { filenamePrefix })
 }
 
 const nodeDefinition: NodeDefinition = {
@@ -180,15 +142,23 @@ const nodeDefinition: NodeDefinition = {
       default: -1,
       label: 'Seed (-1 = random)',
       description: 'Use a fixed seed >= 0 for repeatable generations'
-    }
+    },
+    {
+      name: 'bypass_cache',
+      type: 'boolean',
+      value: false,
+      default: false,
+      label: 'Bypass Cache',
+      description: 'Call Fal even when a cached result exists for this seed and these inputs'
+    },
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
   ]
 }
 
 const seedanceImageToVideoNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-seedanceImageToVideoNode.execute = async ({ inputs, parameters, context }) => {
-  configureFalClient()
-
+seedanceImageToVideoNode.execute = withFalBatch({ inputs: ['prompt', 'image', 'end_image'] }, async ({ inputs, parameters, context }) => {
   const prompt = inputs.prompt?.[0] as string
   const image = inputs.image?.[0] as string
   const endImage = inputs.end_image?.[0] as string | undefined
@@ -229,87 +199,56 @@ seedanceImageToVideoNode.execute = async ({ inputs, parameters, context }) => {
 
   context.sendStatus({ type: 'running', message: 'Preparing Seedance request...' })
 
-  try {
-    const primaryImageBuffer: Buffer = await resolveAsset(image, { asBuffer: true }) as Buffer
-    const primaryImageUrl = await uploadBufferAsImageUrl(primaryImageBuffer, 'seedance-primary')
-
-    let endImageUrl: string | undefined
-    if (endImage) {
-      const endImageBuffer: Buffer = await resolveAsset(endImage, { asBuffer: true }) as Buffer
-      endImageUrl = await uploadBufferAsImageUrl(endImageBuffer, 'seedance-end')
-    }
-
-    const endpoint = modelVariant === 'pro'
-      ? 'fal-ai/bytedance/seedance/v1/pro/image-to-video'
-      : 'fal-ai/bytedance/seedance/v1/lite/image-to-video'
-
-    const requestPayload: any = {
-      prompt,
-      image_url: primaryImageUrl,
-      aspect_ratio: aspectRatio,
-      resolution,
-      duration,
-      camera_fixed,
-      enable_safety_checker
-    }
-
-    if (endImageUrl) {
-      requestPayload.end_image_url = endImageUrl
-    }
-
-    if (Number.isInteger(seedNumber) && seedNumber >= 0) {
-      requestPayload.seed = seedNumber
-    }
-
-    let stepCount = 0
-    const strategy = createSeedanceProgressStrategy({ durationSec: Number(duration), resolution })
-    const result = await fal.subscribe(endpoint, {
-      input: requestPayload,
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        if (status.status === 'IN_QUEUE') {
-          const r = strategy.onQueue()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount += 1
-          const r = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'COMPLETED') {
-          const r = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        }
+  const endpoint = modelVariant === 'pro'
+    ? 'fal-ai/bytedance/seedance/v1/pro/image-to-video'
+    : 'fal-ai/bytedance/seedance/v1/lite/image-to-video'
+
+  return runFalExecution({
+    endpoint,
+    context,
+    errorMessage: 'Failed to animate image with Seedance',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    resultCache: { bypass: Boolean(getParameterValue(parameters, 'bypass_cache', false)) },
+    progress: createSeedanceProgressOptions({ durationSec: Number(duration), resolution }),
+    buildPayload: async () => {
+      const primaryImageBuffer: Buffer = await resolveAsset(image, { asBuffer: true }) as Buffer
+      const primaryImageUrl = await uploadBufferAsImageUrl(primaryImageBuffer, 'seedance-primary')
+
+      let endImageUrl: string | undefined
+      if (endImage) {
+        const endImageBuffer: Buffer = await resolveAsset(endImage, { asBuffer: true }) as Buffer
+        endImageUrl = await uploadBufferAsImageUrl(endImageBuffer, 'seedance-end')
       }
-    }) as SeedanceVideoResponse
-
-    const videoUrl = result.data?.video?.url
 
-    if (!videoUrl) {
-      throw new Error('No video was generated by Seedance')
-    }
-
-    const response = await fetch(videoUrl)
-    const contentType = response.headers.get('content-type')
-    const arrayBuffer = await response.arrayBuffer()
-    const buffer = Buffer.from(arrayBuffer)
-
-    const filename = generateVideoFilename(videoUrl, contentType)
-    const uploadResult = await uploadAsset(buffer, { type: 'video', filename })
+      const requestPayload: any = {
+        prompt,
+        image_url: primaryImageUrl,
+        aspect_ratio: aspectRatio,
+        resolution,
+        duration,
+        camera_fixed,
+        enable_safety_checker
+      }
 
-    if (!uploadResult?.uri) {
-      throw new Error('Failed to upload generated video')
-    }
+      if (endImageUrl) {
+        requestPayload.end_image_url = endImageUrl
+      }
 
-    const seedOutput = typeof result.data?.seed === 'number' ? [result.data.seed] : []
+      if (Number.isInteger(seedNumber) && seedNumber >= 0) {
+        requestPayload.seed = seedNumber
+      }
+      return requestPayload
+    },
+    mapOutput: async (result) => {
+      const response = readFalResponse(result, 'Seedance')
+      const seed = response.seed()
 
-    return {
-      video: [uploadResult.uri],
-      seed: seedOutput
+      return {
+        video: [await rehostFalAsset(response.video(), 'video')],
+        seed: seed === undefined ? [] : [seed]
+      }
     }
-  } catch (error: any) {
-    const message = error?.message || 'Failed to animate image with Seedance'
-    context.sendStatus({ type: 'error', message })
-    throw error
-  }
-}
+  })
+})
 
 export default seedanceImageToVideoNode
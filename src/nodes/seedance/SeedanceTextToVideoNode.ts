@@ -1,18 +1,10 @@
-import { NanoSDK, NodeDefinition, NodeInstance, uploadAsset } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { createSeedanceProgressStrategy } from './progress.js'
-import { generateVideoFilename } from '../../utils/asset-utils.js'
-
-interface SeedanceVideoResponse {
-  data?: {
-    video?: {
-      url?: string
-    }
-    seed?: number
-  }
-}
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { createSeedanceProgressOptions } from './progress.js'
+import { rehostFalAsset } from '../../utils/asset-utils.js'
 
 const TEXT_ASPECT_RATIOS = ['21:9', '16:9', '4:3', '1:1', '3:4', '9:16', '9:21'] as const
 const PRO_TEXT_BLOCKED_RATIOS = new Set(['9:21'])
@@ -133,15 +125,23 @@ const nodeDefinition: NodeDefinition = {
       default: -1,
       label: 'Seed (-1 = random)',
       description: 'Use a fixed seed >= 0 for repeatable generations'
-    }
+    },
+    {
+      name: 'bypass_cache',
+      type: 'boolean',
+      value: false,
+      default: false,
+      label: 'Bypass Cache',
+      description: 'Call Fal even when a cached result exists for this seed and these inputs'
+    },
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
   ]
 }
 
 const seedanceTextToVideoNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-seedanceTextToVideoNode.execute = async ({ inputs, parameters, context }) => {
-  configureFalClient()
-
+seedanceTextToVideoNode.execute = withFalBatch({ inputs: ['prompt'] }, async ({ inputs, parameters, context }) => {
   const prompt = inputs.prompt?.[0] as string
 
   if (!prompt) {
@@ -193,56 +193,24 @@ seedanceTextToVideoNode.execute = async ({ inputs, parameters, context }) => {
 
   context.sendStatus({ type: 'running', message: 'Generating video with Seedance...' })
 
-  try {
-    let stepCount = 0
-    const strategy = createSeedanceProgressStrategy({ durationSec: Number(duration), resolution })
-    const result = await fal.subscribe(endpoint, {
-      input: requestPayload,
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        if (status.status === 'IN_QUEUE') {
-          const r = strategy.onQueue()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount += 1
-          const r = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'COMPLETED') {
-          const r = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        }
+  return runFalExecution({
+    endpoint,
+    context,
+    errorMessage: 'Failed to generate video',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    resultCache: { bypass: Boolean(getParameterValue(parameters, 'bypass_cache', false)) },
+    progress: createSeedanceProgressOptions({ durationSec: Number(duration), resolution }),
+    buildPayload: () => requestPayload,
+    mapOutput: async (result) => {
+      const response = readFalResponse(result, 'Seedance')
+      const seed = response.seed()
+
+      return {
+        video: [await rehostFalAsset(response.video(), 'video')],
+        seed: seed === undefined ? [] : [seed]
       }
-    }) as SeedanceVideoResponse
-
-    const videoUrl = result.data?.video?.url
-
-    if (!videoUrl) {
-      throw new Error('No video was generated by Seedance')
-    }
-
-    const response = await fetch(videoUrl)
-    const contentType = response.headers.get('content-type')
-    const arrayBuffer = await response.arrayBuffer()
-    const buffer = Buffer.from(arrayBuffer)
-
-    const filename = generateVideoFilename(videoUrl, contentType)
-    const uploadResult = await uploadAsset(buffer, { type: 'video', filename })
-
-    if (!uploadResult?.uri) {
-      throw new Error('Failed to upload generated video')
     }
-
-    const seedOutput = typeof result.data?.seed === 'number' ? [result.data.seed] : []
-
-    return {
-      video: [uploadResult.uri],
-      seed: seedOutput
-    }
-  } catch (error: any) {
-    const message = error?.message || 'Failed to generate video'
-    context.sendStatus({ type: 'error', message })
-    throw error
-  }
-}
+  })
+})
 
 export default seedanceTextToVideoNode
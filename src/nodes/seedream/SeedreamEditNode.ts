@@ -1,19 +1,10 @@
-import { NanoSDK, NodeDefinition, NodeInstance, resolveAsset, uploadAsset } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { uploadBufferToFal } from '../../utils/fal-storage.js'
-import { generateAssetFilename } from '../../utils/asset-utils.js'
-
-interface SeedreamEditResponse {
-  data: {
-    images: Array<{
-      url: string
-    }>
-    seed?: number
-  }
-}
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { uploadImageToFal } from '../../utils/fal-storage.js'
+import { rehostFalAsset, resolveAsset } from '../../utils/asset-utils.js'
 
 const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max)
 
@@ -106,6 +97,14 @@ const nodeDef: NodeDefinition = {
       label: 'Seed (-1 = random)',
       description: 'Fixed seed for reproducibility; use -1 for random'
     },
+    {
+      name: 'bypass_cache',
+      type: 'boolean',
+      value: false,
+      default: false,
+      label: 'Bypass Cache',
+      description: 'Call Fal even when a cached result exists for this seed and these inputs'
+    },
     {
       name: 'enable_safety_checker',
       type: 'boolean',
@@ -113,46 +112,15 @@ const nodeDef: NodeDefinition = {
       default: true,
       label: 'Enable Safety Checker',
       description: 'Toggle the Seedream safety checker'
-    }
+    },
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
   ]
 }
 
 const seedreamEditNode: NodeInstance = NanoSDK.registerNode(nodeDef)
 
-const detectImageFormat = (buffer: Buffer): string => {
-  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
-    return 'jpeg'
-  }
-  if (
-    buffer.length >= 8 &&
-    buffer[0] === 0x89 &&
-    buffer[1] === 0x50 &&
-    buffer[2] === 0x4e &&
-    buffer[3] === 0x47 &&
-    buffer[4] === 0x0d &&
-    buffer[5] === 0x0a &&
-    buffer[6] === 0x1a &&
-    buffer[7] === 0x0a
-  ) {
-    return 'png'
-  }
-  if (
-    buffer.length >= 6 &&
-    buffer[0] === 0x47 &&
-    buffer[1] === 0x49 &&
-    buffer[2] === 0x46 &&
-    buffer[3] === 0x38 &&
-    (buffer[4] === 0x39 || buffer[4] === 0x37) &&
-    buffer[5] === 0x61
-  ) {
-    return 'gif'
-  }
-  return 'jpeg'
-}
-
-seedreamEditNode.execute = async ({ inputs, parameters, context }) => {
-  configureFalClient()
-
+seedreamEditNode.execute = withFalBatch({ inputs: ['prompt', 'image1', 'image2', 'image3', 'image4'] }, async ({ inputs, parameters, context }) => {
   const prompt = inputs.prompt?.[0] as string
   const image1 = inputs.image1?.[0] as string
   const image2 = inputs.image2?.[0] as string
@@ -205,100 +173,68 @@ seedreamEditNode.execute = async ({ inputs, parameters, context }) => {
 
   context.sendStatus({ type: 'running', message: 'Preparing input images...' })
 
-  try {
-    const imageUrls: string[] = []
-
-    for (let i = 0; i < inputImages.length; i++) {
-      const assetUri = inputImages[i]
-      const buffer: Buffer = await resolveAsset(assetUri, { asBuffer: true }) as Buffer
-      const format = detectImageFormat(buffer)
-      const uploadedUrl = await uploadBufferToFal(buffer, format, { filenamePrefix: `seedream-input-${i + 1}` })
-      imageUrls.push(uploadedUrl)
-
-      context.sendStatus({
-        type: 'running',
-        message: `Uploaded image ${i + 1}/${inputImages.length}`,
-        progress: { step: Math.min(10 + (i + 1) * 5, 40), total: 100 }
-      })
-    }
-
-    const requestPayload: any = {
-      prompt,
-      image_urls: imageUrls,
-      image_size: {
-        width: imageWidth,
-        height: imageHeight
-      },
-      num_images: numImages,
-      max_images: Math.max(numImages, maxImages),
-      enable_safety_checker: enableSafetyChecker,
-
-    }
-
-    if (Number.isInteger(seedValue) && seedValue >= 0) {
-      requestPayload.seed = seedValue
-    }
-
-    let stepCount = 0
-    const perImageMs = 6000
-    const sizeFactor = Math.max(imageWidth * imageHeight, 1024 * 1024) / (1024 * 1024)
-    const expectedMs = Math.min(180000, Math.max(20000, Math.floor(numImages * perImageMs * sizeFactor)))
-    const strategy = createProgressStrategy({
+  const perImageMs = 6000
+  const sizeFactor = Math.max(imageWidth * imageHeight, 1024 * 1024) / (1024 * 1024)
+  const expectedMs = Math.min(180000, Math.max(20000, Math.floor(numImages * perImageMs * sizeFactor)))
+
+  return runFalExecution({
+    endpoint: 'fal-ai/bytedance/seedream/v4/edit',
+    context,
+    errorMessage: 'Failed to edit images',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    resultCache: { bypass: Boolean(getParameterValue(parameters, 'bypass_cache', false)) },
+    fieldNames: { 'image_size.width': 'width', 'image_size.height': 'height' },
+    queueStartStep: 40,
+    progress: {
       expectedMs,
       inQueueMessage: 'Waiting in queue...',
       finalizingMessage: 'Finalizing...',
       defaultInProgressMessage: (n) => `Processing step ${n}...`
-    })
-    const result = await fal.subscribe('fal-ai/bytedance/seedream/v4/edit', {
-      input: requestPayload,
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        if (status.status === 'IN_QUEUE') {
-          const r = strategy.onQueue()
-          // Keep pre-processing progress when entering queue after uploads
-          const startStep = Math.max(40, r.progress.step)
-          context.sendStatus({ type: 'running', message: r.message, progress: { step: startStep, total: 100 } })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount++
-          const r = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'COMPLETED') {
-          const r = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        }
+    },
+    buildPayload: async () => {
+      const imageUrls: string[] = []
+
+      for (let i = 0; i < inputImages.length; i++) {
+        const assetUri = inputImages[i]
+        const buffer: Buffer = await resolveAsset(assetUri, { asBuffer: true }) as Buffer
+        const uploadedUrl = await uploadImageToFal(buffer, { filenamePrefix: `seedream-input-${i + 1}` })
+        imageUrls.push(uploadedUrl)
+
+        context.sendStatus({
+          type: 'running',
+          message: `Uploaded image ${i + 1}/${inputImages.length}`,
+          progress: { step: Math.min(10 + (i + 1) * 5, 40), total: 100 }
+        })
       }
-    }) as SeedreamEditResponse
-
-    if (!result.data?.images?.length) {
-      throw new Error('No images were generated')
-    }
-
-    const uploadedImageUris: string[] = []
 
-    for (let i = 0; i < result.data.images.length; i++) {
-      const imageUrl = result.data.images[i].url
-      const response = await fetch(imageUrl)
-      const contentType = response.headers.get('content-type')
-      const arrayBuffer = await response.arrayBuffer()
-      const buffer = Buffer.from(arrayBuffer)
-      const filename = generateAssetFilename(imageUrl, contentType, 'image')
-      const uploadResult = await uploadAsset(buffer, { type: 'image', filename })
+      const requestPayload: any = {
+        prompt,
+        image_urls: imageUrls,
+        image_size: {
+          width: imageWidth,
+          height: imageHeight
+        },
+        num_images: numImages,
+        max_images: Math.max(numImages, maxImages),
+        enable_safety_checker: enableSafetyChecker,
 
-      if (!uploadResult.uri) {
-        throw new Error('Failed to upload generated image')
       }
 
-      uploadedImageUris.push(uploadResult.uri)
-    }
+      if (Number.isInteger(seedValue) && seedValue >= 0) {
+        requestPayload.seed = seedValue
+      }
+      return requestPayload
+    },
+    mapOutput: async (result) => {
+      const response = readFalResponse(result, 'Seedream edit')
+      const seed = response.seed()
 
-    return {
-      images: uploadedImageUris,
-      seed: typeof result.data.seed === 'number' ? [result.data.seed] : []
+      return {
+        images: await Promise.all(response.images().map((image) => rehostFalAsset(image, 'image'))),
+        seed: seed === undefined ? [] : [seed]
+      }
     }
-  } catch (error: any) {
-    context.sendStatus({ type: 'error', message: error.message || 'Failed to edit images' })
-    throw error
-  }
-}
+  })
+})
 
 export default seedreamEditNode
@@ -1,18 +1,9 @@
-import { NanoSDK, NodeDefinition, NodeInstance, uploadAsset } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { generateAssetFilename } from '../../utils/asset-utils.js'
-
-interface SeedreamTextToImageResponse {
-  data: {
-    images: Array<{
-      url: string
-    }>
-    seed?: number
-  }
-}
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { rehostFalAsset } from '../../utils/asset-utils.js'
 
 const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max)
 
@@ -91,6 +82,14 @@ const nodeDef: NodeDefinition = {
       label: 'Seed (-1 = random)',
       description: 'Fixed seed for reproducibility; use -1 for random'
     },
+    {
+      name: 'bypass_cache',
+      type: 'boolean',
+      value: false,
+      default: false,
+      label: 'Bypass Cache',
+      description: 'Call Fal even when a cached result exists for this seed and these inputs'
+    },
     {
       name: 'enable_safety_checker',
       type: 'boolean',
@@ -106,15 +105,15 @@ const nodeDef: NodeDefinition = {
       default: false,
       label: 'Sync Mode',
       description: 'Wait for images to upload before returning'
-    }
+    },
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
   ]
 }
 
 const seedreamTextToImageNode: NodeInstance = NanoSDK.registerNode(nodeDef)
 
-seedreamTextToImageNode.execute = async ({ inputs, parameters, context }) => {
-  configureFalClient()
-
+seedreamTextToImageNode.execute = withFalBatch({ inputs: ['prompt'] }, async ({ inputs, parameters, context }) => {
   const prompt = inputs.prompt?.[0] as string
 
   if (!prompt) {
@@ -132,81 +131,51 @@ seedreamTextToImageNode.execute = async ({ inputs, parameters, context }) => {
 
   context.sendStatus({ type: 'running', message: 'Generating images...' })
 
-  try {
-    const requestPayload: any = {
-      prompt,
-      image_size: {
-        width: imageWidth,
-        height: imageHeight
-      },
-      num_images: numImages,
-      max_images: Math.max(numImages, maxImages),
-      enable_safety_checker: enableSafetyChecker,
-      sync_mode: syncMode
-    }
-
-    if (Number.isInteger(seedValue) && seedValue >= 0) {
-      requestPayload.seed = seedValue
-    }
-
-    let stepCount = 0
-    const perImageMs = 6000
-    const sizeFactor = Math.max(imageWidth * imageHeight, 1024 * 1024) / (1024 * 1024)
-    const expectedMs = Math.min(180000, Math.max(20000, Math.floor(numImages * perImageMs * sizeFactor)))
-    const strategy = createProgressStrategy({
+  const perImageMs = 6000
+  const sizeFactor = Math.max(imageWidth * imageHeight, 1024 * 1024) / (1024 * 1024)
+  const expectedMs = Math.min(180000, Math.max(20000, Math.floor(numImages * perImageMs * sizeFactor)))
+
+  return runFalExecution({
+    endpoint: 'fal-ai/bytedance/seedream/v4/text-to-image',
+    context,
+    errorMessage: 'Failed to generate images',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    resultCache: { bypass: Boolean(getParameterValue(parameters, 'bypass_cache', false)) },
+    fieldNames: { 'image_size.width': 'image_width', 'image_size.height': 'image_height' },
+    progress: {
       expectedMs,
       inQueueMessage: 'Waiting in queue...',
       finalizingMessage: 'Finalizing...',
       defaultInProgressMessage: (n) => `Processing step ${n}...`
-    })
-    const result = await fal.subscribe('fal-ai/bytedance/seedream/v4/text-to-image', {
-      input: requestPayload,
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        if (status.status === 'IN_QUEUE') {
-          const r = strategy.onQueue()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount++
-          const r = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'COMPLETED') {
-          const r = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        }
+    },
+    buildPayload: async () => {
+      const requestPayload: any = {
+        prompt,
+        image_size: {
+          width: imageWidth,
+          height: imageHeight
+        },
+        num_images: numImages,
+        max_images: Math.max(numImages, maxImages),
+        enable_safety_checker: enableSafetyChecker,
+        sync_mode: syncMode
       }
-    }) as SeedreamTextToImageResponse
-
-    if (!result.data?.images?.length) {
-      throw new Error('No images were generated')
-    }
-
-    const uploadedImageUris: string[] = []
-
-    for (let i = 0; i < result.data.images.length; i++) {
-      const imageUrl = result.data.images[i].url
-      const response = await fetch(imageUrl)
-      const contentType = response.headers.get('content-type')
-      const arrayBuffer = await response.arrayBuffer()
-      const buffer = Buffer.from(arrayBuffer)
-      const filename = generateAssetFilename(imageUrl, contentType, 'image')
-      const uploadResult = await uploadAsset(buffer, { type: 'image', filename })
 
-      if (!uploadResult.uri) {
-        throw new Error('Failed to upload generated image')
+      if (Number.isInteger(seedValue) && seedValue >= 0) {
+        requestPayload.seed = seedValue
       }
+      return requestPayload
+    },
+    mapOutput: async (result) => {
+      const response = readFalResponse(result, 'Seedream')
+      const seed = response.seed()
 
-      uploadedImageUris.push(uploadResult.uri)
-    }
-
-    return {
-      images: uploadedImageUris,
-      seed: typeof result.data.seed === 'number' ? [result.data.seed] : []
+      return {
+        images: await Promise.all(response.images().map((image) => rehostFalAsset(image, 'image'))),
+        seed: seed === undefined ? [] : [seed]
+      }
     }
-  } catch (error: any) {
-    context.sendStatus({ type: 'error', message: error.message || 'Failed to generate images' })
-    throw error
-  }
-}
+  })
+})
 
 export default seedreamTextToImageNode
@@ -1,19 +1,10 @@
-import { NanoSDK, NodeDefinition, NodeInstance, resolveAsset, uploadAsset } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { uploadBufferToFal } from '../../utils/fal-storage.js'
-import { generateAssetFilename } from '../../utils/asset-utils.js'
-
-interface SeedvrUpscaleImageResponse {
-    data?: {
-        image?: {
-            url?: string
-        }
-        seed?: number
-    }
-}
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { uploadImageToFal } from '../../utils/fal-storage.js'
+import { rehostFalAsset, resolveAsset } from '../../utils/asset-utils.js'
 
 const UPSCALE_MODES = ['factor', 'target'] as const
 const TARGET_RESOLUTIONS = ['720p', '1080p', '1440p', '2160p'] as const
@@ -104,15 +95,23 @@ const nodeDefinition: NodeDefinition = {
             default: -1,
             label: 'Seed (-1 = random)',
             description: 'Random seed for generation'
-        }
+        },
+        {
+            name: 'bypass_cache',
+            type: 'boolean',
+            value: false,
+            default: false,
+            label: 'Bypass Cache',
+            description: 'Call Fal even when a cached result exists for this seed and these inputs'
+        },
+        createBatchModeParameter(),
+        createCredentialProfileParameter()
     ]
 }
 
 const seedvrUpscaleImageNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-seedvrUpscaleImageNode.execute = async ({ inputs, parameters, context }) => {
-    configureFalClient()
-
+seedvrUpscaleImageNode.execute = withFalBatch({ inputs: ['image'] }, async ({ inputs, parameters, context }) => {
     const image = inputs.image?.[0] as string
 
     if (!image) {
@@ -129,79 +128,49 @@ seedvrUpscaleImageNode.execute = async ({ inputs, parameters, context }) => {
 
     context.sendStatus({ type: 'running', message: 'Preparing SeedVR Upscale request...' })
 
-    try {
-        const imageBuffer: Buffer = await resolveAsset(image, { asBuffer: true }) as Buffer
-        const imageUrl = await uploadBufferToFal(imageBuffer, 'jpeg', { filenamePrefix: 'seedvr-upscale-in' })
-
-        const requestPayload: any = {
-            image_url: imageUrl,
-            upscale_mode: upscaleMode,
-            noise_scale: noiseScale,
-            output_format: outputFormat
-        }
-
-        if (upscaleMode === 'factor') {
-            requestPayload.upscale_factor = upscaleFactor
-        } else {
-            requestPayload.target_resolution = targetResolution
-        }
-
-        if (Number.isInteger(seedValueRaw) && seedValueRaw >= 0) {
-            requestPayload.seed = seedValueRaw
-        }
-
-        const strategy = createProgressStrategy({
+    return runFalExecution({
+        endpoint: 'fal-ai/seedvr/upscale/image',
+        context,
+        errorMessage: 'Failed to upscale image with SeedVR',
+        credential: getParameterValue(parameters, 'credential_profile', 'default'),
+        resultCache: { bypass: Boolean(getParameterValue(parameters, 'bypass_cache', false)) },
+        progress: {
             expectedMs: 10000, // 10s estimate
             inQueueMessage: 'Waiting in queue...',
             finalizingMessage: 'Finalizing upscale...'
-        })
-
-        const result = await fal.subscribe('fal-ai/seedvr/upscale/image', {
-            input: requestPayload,
-            logs: true,
-            onQueueUpdate: (status: QueueStatus) => {
-                if (status.status === 'IN_QUEUE') {
-                    const r = strategy.onQueue()
-                    context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-                } else if (status.status === 'IN_PROGRESS') {
-                    const r = strategy.onProgress(status, 0)
-                    context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-                } else if (status.status === 'COMPLETED') {
-                    const r = strategy.onCompleted()
-                    context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-                }
+        },
+        buildPayload: async () => {
+            const imageBuffer: Buffer = await resolveAsset(image, { asBuffer: true }) as Buffer
+            const imageUrl = await uploadImageToFal(imageBuffer, { filenamePrefix: 'seedvr-upscale-in' })
+
+            const requestPayload: any = {
+                image_url: imageUrl,
+                upscale_mode: upscaleMode,
+                noise_scale: noiseScale,
+                output_format: outputFormat
             }
-        }) as SeedvrUpscaleImageResponse
-
-        const outputImageUrl = result.data?.image?.url
-
-        if (!outputImageUrl) {
-            throw new Error('No image was generated by SeedVR')
-        }
-
-        const response = await fetch(outputImageUrl)
-        const contentType = response.headers.get('content-type')
-        const arrayBuffer = await response.arrayBuffer()
-        const buffer = Buffer.from(arrayBuffer)
-
-        const filename = generateAssetFilename(outputImageUrl, contentType, 'image')
-        const uploadResult = await uploadAsset(buffer, { type: 'image', filename })
 
-        if (!uploadResult?.uri) {
-            throw new Error('Failed to upload generated image')
-        }
+            if (upscaleMode === 'factor') {
+                requestPayload.upscale_factor = upscaleFactor
+            } else {
+                requestPayload.target_resolution = targetResolution
+            }
 
-        const seedOutput = typeof result.data?.seed === 'number' ? [result.data.seed] : []
+            if (Number.isInteger(seedValueRaw) && seedValueRaw >= 0) {
+                requestPayload.seed = seedValueRaw
+            }
+            return requestPayload
+        },
+        mapOutput: async (result) => {
+            const response = readFalResponse(result, 'SeedVR')
+            const seed = response.seed()
 
-        return {
-            image: [uploadResult.uri],
-            seed: seedOutput
+            return {
+                image: [await rehostFalAsset(response.image(), 'image')],
+                seed: seed === undefined ? [] : [seed]
+            }
         }
-    } catch (error: any) {
-        const message = error?.message || 'Failed to upscale image with SeedVR'
-        context.sendStatus({ type: 'error', message })
-        throw error
-    }
-}
+    })
+})
 
 export default seedvrUpscaleImageNode
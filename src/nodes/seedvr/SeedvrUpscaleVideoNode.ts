@@ -1,19 +1,10 @@
-import { NanoSDK, NodeDefinition, NodeInstance, resolveAsset, uploadAsset } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { uploadBufferToFal } from '../../utils/fal-storage.js'
-import { generateVideoFilename } from '../../utils/asset-utils.js'
-
-interface SeedvrUpscaleVideoResponse {
-    data?: {
-        video?: {
-            url?: string
-        }
-        seed?: number
-    }
-}
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { uploadAssetStreamToFal } from '../../utils/fal-storage.js'
+import { rehostFalAsset } from '../../utils/asset-utils.js'
 
 const UPSCALE_MODES = ['factor', 'target'] as const
 const TARGET_RESOLUTIONS = ['720p', '1080p', '1440p', '2160p'] as const
@@ -124,15 +115,23 @@ const nodeDefinition: NodeDefinition = {
             default: -1,
             label: 'Seed (-1 = random)',
             description: 'Random seed for generation'
-        }
+        },
+        {
+            name: 'bypass_cache',
+            type: 'boolean',
+            value: false,
+            default: false,
+            label: 'Bypass Cache',
+            description: 'Call Fal even when a cached result exists for this seed and these inputs'
+        },
+        createBatchModeParameter(),
+        createCredentialProfileParameter()
     ]
 }
 
 const seedvrUpscaleVideoNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-seedvrUpscaleVideoNode.execute = async ({ inputs, parameters, context }) => {
-    configureFalClient()
-
+seedvrUpscaleVideoNode.execute = withFalBatch({ inputs: ['video'] }, async ({ inputs, parameters, context }) => {
     const video = inputs.video?.[0] as string
 
     if (!video) {
@@ -151,81 +150,50 @@ seedvrUpscaleVideoNode.execute = async ({ inputs, parameters, context }) => {
 
     context.sendStatus({ type: 'running', message: 'Preparing SeedVR Upscale request...' })
 
-    try {
-        const videoBuffer: Buffer = await resolveAsset(video, { asBuffer: true }) as Buffer
-        const videoUrl = await uploadBufferToFal(videoBuffer, 'mp4', { filenamePrefix: 'seedvr-upscale-in' })
-
-        const requestPayload: any = {
-            video_url: videoUrl,
-            upscale_mode: upscaleMode,
-            noise_scale: noiseScale,
-            output_format: outputFormat,
-            output_quality: outputQuality,
-            output_write_mode: outputWriteMode
-        }
-
-        if (upscaleMode === 'factor') {
-            requestPayload.upscale_factor = upscaleFactor
-        } else {
-            requestPayload.target_resolution = targetResolution
-        }
-
-        if (Number.isInteger(seedValueRaw) && seedValueRaw >= 0) {
-            requestPayload.seed = seedValueRaw
-        }
-
-        const strategy = createProgressStrategy({
+    return runFalExecution({
+        endpoint: 'fal-ai/seedvr/upscale/video',
+        context,
+        errorMessage: 'Failed to upscale video with SeedVR',
+        credential: getParameterValue(parameters, 'credential_profile', 'default'),
+        resultCache: { bypass: Boolean(getParameterValue(parameters, 'bypass_cache', false)) },
+        progress: {
             expectedMs: 30000, // 30s estimate
             inQueueMessage: 'Waiting in queue...',
             finalizingMessage: 'Finalizing upscale...'
-        })
-
-        const result = await fal.subscribe('fal-ai/seedvr/upscale/video', {
-            input: requestPayload,
-            logs: true,
-            onQueueUpdate: (status: QueueStatus) => {
-                if (status.status === 'IN_QUEUE') {
-                    const r = strategy.onQueue()
-                    context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-                } else if (status.status === 'IN_PROGRESS') {
-                    const r = strategy.onProgress(status, 0)
-                    context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-                } else if (status.status === 'COMPLETED') {
-                    const r = strategy.onCompleted()
-                    context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-                }
+        },
+        buildPayload: async () => {
+            const videoUrl = await uploadAssetStreamToFal(video, { filename: 'seedvr-upscale-in.mp4', contentType: 'video/mp4' })
+
+            const requestPayload: any = {
+                video_url: videoUrl,
+                upscale_mode: upscaleMode,
+                noise_scale: noiseScale,
+                output_format: outputFormat,
+                output_quality: outputQuality,
+                output_write_mode: outputWriteMode
             }
-        }) as SeedvrUpscaleVideoResponse
-
-        const outputVideoUrl = result.data?.video?.url
-
-        if (!outputVideoUrl) {
-            throw new Error('No video was generated by SeedVR')
-        }
-
-        const response = await fetch(outputVideoUrl)
-        const contentType = response.headers.get('content-type')
-        const arrayBuffer = await response.arrayBuffer()
-        const buffer = Buffer.from(arrayBuffer)
-
-        const filename = generateVideoFilename(outputVideoUrl, contentType)
-        const uploadResult = await uploadAsset(buffer, { type: 'video', filename })
 
-        if (!uploadResult?.uri) {
-            throw new Error('Failed to upload generated video')
-        }
+            if (upscaleMode === 'factor') {
+                requestPayload.upscale_factor = upscaleFactor
+            } else {
+                requestPayload.target_resolution = targetResolution
+            }
 
-        const seedOutput = typeof result.data?.seed === 'number' ? [result.data.seed] : []
+            if (Number.isInteger(seedValueRaw) && seedValueRaw >= 0) {
+                requestPayload.seed = seedValueRaw
+            }
+            return requestPayload
+        },
+        mapOutput: async (result) => {
+            const response = readFalResponse(result, 'SeedVR')
+            const seed = response.seed()
 
-        return {
-            video: [uploadResult.uri],
-            seed: seedOutput
+            return {
+                video: [await rehostFalAsset(response.video(), 'video')],
+                seed: seed === undefined ? [] : [seed]
+            }
         }
-    } catch (error: any) {
-        const message = error?.message || 'Failed to upscale video with SeedVR'
-        context.sendStatus({ type: 'error', message })
-        throw error
-    }
-}
+    })
+})
 
 export default seedvrUpscaleVideoNode
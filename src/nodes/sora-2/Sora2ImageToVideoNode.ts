@@ -1,22 +1,10 @@
-import { NanoSDK, NodeDefinition, NodeInstance, resolveAsset, uploadAsset } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { generateVideoFilename } from '../../utils/asset-utils.js'
-
-interface Sora2VideoResponse {
-  video?: {
-    url?: string
-    content_type?: string
-    file_size?: number
-    duration?: number
-    height?: number
-    width?: number
-    fps?: number
-    num_frames?: number
-  }
-}
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { uploadImageToFal } from '../../utils/fal-storage.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { rehostFalAsset, resolveAsset } from '../../utils/asset-utils.js'
 
 const ASPECT_RATIOS = ['auto', '16:9', '9:16'] as const
 const DURATIONS = ['4', '8', '12'] as const
@@ -30,41 +18,6 @@ const ensureOption = <T extends string | number>(value: unknown, options: readon
   return fallback
 }
 
-const detectImageMime = (buffer: Buffer): string => {
-  const signature = buffer.slice(0, 12)
-
-  if (signature.slice(0, 4).toString('hex') === '89504e47') {
-    return 'png'
-  }
-
-  if (signature.slice(0, 3).toString('hex') === 'ffd8ff') {
-    return 'jpeg'
-  }
-
-  if (signature.slice(0, 4).toString('hex') === '47494638') {
-    return 'gif'
-  }
-
-  if (signature.slice(0, 4).toString('hex') === '424d') {
-    return 'bmp'
-  }
-
-  if (
-    signature.slice(0, 4).toString('ascii') === 'RIFF' &&
-    signature.slice(8, 12).toString('ascii') === 'WEBP'
-  ) {
-    return 'webp'
-  }
-
-  return 'jpeg'
-}
-
-const bufferToDataUrl = (buffer: Buffer): string => {
-  const format = detectImageMime(buffer)
-  const base64 = buffer.toString('base64')
-  return `data:image/${format};base64,${base64}`
-}
-
 const nodeDefinition: NodeDefinition = {
   uid: 'fal-sora-2-image-to-video',
   name: 'Sora 2 Image to Video',
@@ -150,15 +103,15 @@ const nodeDefinition: NodeDefinition = {
       default: '',
       label: 'OpenAI API Key',
       description: 'Optional OpenAI API key to avoid billing for this request'
-    }
+    },
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
   ]
 }
 
 const sora2ImageToVideoNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-sora2ImageToVideoNode.execute = async ({ inputs, parameters, context }) => {
-  configureFalClient()
-
+sora2ImageToVideoNode.execute = withFalBatch({ inputs: ['prompt', 'image'] }, async ({ inputs, parameters, context }) => {
   const prompt = inputs.prompt?.[0] as string
   const image = inputs.image?.[0] as string
 
@@ -194,110 +147,55 @@ sora2ImageToVideoNode.execute = async ({ inputs, parameters, context }) => {
 
   context.sendStatus({ type: 'running', message: 'Preparing Sora 2 request...' })
 
-  try {
-    const imageBuffer: Buffer = await resolveAsset(image, { asBuffer: true }) as Buffer
-    console.log(`[Sora2ImageToVideo] Image buffer size: ${imageBuffer.length} bytes`)
-
-    const format = detectImageMime(imageBuffer)
-    console.log(`[Sora2ImageToVideo] Detected image format: ${format}`)
-
-    const blob = new Blob([new Uint8Array(imageBuffer)], { type: `image/${format}` })
-    console.log(`[Sora2ImageToVideo] Created blob, size: ${blob.size} bytes, type: ${blob.type}`)
-
-    console.log(`[Sora2ImageToVideo] Calling fal.storage.upload...`)
-    const imageUrl = await fal.storage.upload(blob) as string
-    console.log(`[Sora2ImageToVideo] Storage upload result: ${imageUrl}`)
+  const endpoint = modelVariant === 'pro'
+    ? 'fal-ai/sora-2/image-to-video/pro'
+    : 'fal-ai/sora-2/image-to-video'
 
-    if (!imageUrl) {
-      throw new Error('Fal storage upload did not return a URL')
-    }
-
-    const endpoint = modelVariant === 'pro'
-      ? 'fal-ai/sora-2/image-to-video/pro'
-      : 'fal-ai/sora-2/image-to-video'
-
-    const payload: any = {
-      prompt,
-      image_url: imageUrl,
-      resolution,
-      aspect_ratio,
-      duration: Number(duration)
-    }
-
-    if (apiKeyValue && apiKeyValue.trim().length > 0) {
-      payload.api_key = apiKeyValue.trim()
-    }
+  const expectedMs = duration === '12' ? 180000 : duration === '8' ? 120000 : 90000
 
-    console.log(`[Sora2ImageToVideo] Payload to ${endpoint}:`, JSON.stringify(payload, null, 2))
-
-    let stepCount = 0
-    const expectedMs = duration === '12' ? 180000 : duration === '8' ? 120000 : 90000
-    const strategy = createProgressStrategy({
+  return runFalExecution({
+    endpoint,
+    context,
+    errorMessage: 'Failed to animate image with Sora 2',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    progress: {
       expectedMs,
       inQueueMessage: 'Waiting in queue...',
       finalizingMessage: 'Finalizing video...',
       defaultInProgressMessage: (n) => `Processing step ${n}...`
-    })
-
-    const result = await fal.subscribe(endpoint, {
-      input: payload,
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        try {
-          console.log(`[Sora2ImageToVideo] Queue update:`, JSON.stringify(status, null, 2))
-        } catch { }
-        if (status.status === 'IN_QUEUE') {
-          const r = strategy.onQueue()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount += 1
-          const r = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'COMPLETED') {
-          const r = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        }
+    },
+    buildPayload: async () => {
+      const imageBuffer: Buffer = await resolveAsset(image, { asBuffer: true }) as Buffer
+      console.log(`[Sora2ImageToVideo] Image buffer size: ${imageBuffer.length} bytes`)
+
+      const imageUrl = await uploadImageToFal(imageBuffer, { filenamePrefix: 'sora2-source', accepted: ['jpeg', 'png', 'webp'] })
+      console.log(`[Sora2ImageToVideo] Storage upload result: ${imageUrl}`)
+
+      const payload: any = {
+        prompt,
+        image_url: imageUrl,
+        resolution,
+        aspect_ratio,
+        duration: Number(duration)
       }
-    }) as Sora2VideoResponse
-
-    console.log(`[Sora2ImageToVideo] Final response:`, JSON.stringify(result, null, 2))
-
-    const videoUrl = result.video?.url
-
-    if (!videoUrl) {
-      throw new Error('No video was generated by Sora 2')
-    }
-
-    const response = await fetch(videoUrl)
-    const contentType = response.headers.get('content-type')
-    const arrayBuffer = await response.arrayBuffer()
-    const buffer = Buffer.from(arrayBuffer)
-
-    const filename = generateVideoFilename(videoUrl, contentType)
 
-    const uploadResult = await uploadAsset(buffer, { type: 'video', filename })
-
-    if (!uploadResult?.uri) {
-      throw new Error('Failed to upload generated video')
-    }
+      if (apiKeyValue && apiKeyValue.trim().length > 0) {
+        payload.api_key = apiKeyValue.trim()
+      }
 
-    return {
-      video: [uploadResult.uri]
-    }
-  } catch (error: any) {
-    console.log(`[Sora2ImageToVideo] Error details:`, JSON.stringify(error, null, 2))
+      console.log(`[Sora2ImageToVideo] Payload to ${endpoint}:`, JSON.stringify(payload, null, 2))
+      return payload
+    },
+    mapOutput: async (result) => {
+      console.log(`[Sora2ImageToVideo] Final response:`, JSON.stringify(result, null, 2))
 
-    let message = error?.message || 'Failed to animate image with Sora 2'
+      const response = readFalResponse(result, 'Sora 2')
 
-    // Extract detailed error message from Fal API response
-    if (error?.body?.detail && Array.isArray(error.body.detail)) {
-      const errorDetails = error.body.detail.map((detail: any) => detail.msg).join('; ')
-      message = errorDetails
+      return {
+        video: [await rehostFalAsset(response.video(), 'video')]
+      }
     }
-
-    context.sendStatus({ type: 'error', message })
-    throw error
-  }
-}
+  })
+})
 
 export default sora2ImageToVideoNode
@@ -1,22 +1,9 @@
-import { NanoSDK, NodeDefinition, NodeInstance, uploadAsset } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { generateVideoFilename } from '../../utils/asset-utils.js'
-
-interface Sora2VideoResponse {
-  video?: {
-    url?: string
-    content_type?: string
-    file_size?: number
-    duration?: number
-    height?: number
-    width?: number
-    fps?: number
-    num_frames?: number
-  }
-}
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { rehostFalAsset } from '../../utils/asset-utils.js'
 
 const ASPECT_RATIOS = ['16:9', '9:16'] as const
 const DURATIONS = ['4', '8', '12'] as const
@@ -108,15 +95,15 @@ const nodeDefinition: NodeDefinition = {
       default: '',
       label: 'OpenAI API Key',
       description: 'Optional OpenAI API key to avoid billing for this request'
-    }
+    },
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
   ]
 }
 
 const sora2TextToVideoNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-sora2TextToVideoNode.execute = async ({ inputs, parameters, context }) => {
-  configureFalClient()
-
+sora2TextToVideoNode.execute = withFalBatch({ inputs: ['prompt'] }, async ({ inputs, parameters, context }) => {
   const prompt = inputs.prompt?.[0] as string
 
   if (!prompt) {
@@ -163,75 +150,30 @@ sora2TextToVideoNode.execute = async ({ inputs, parameters, context }) => {
 
   console.log(`[Sora2TextToVideo] Payload to ${endpoint}:`, JSON.stringify(payload, null, 2))
 
-  try {
-    let stepCount = 0
-    const expectedMs = duration === '12' ? 180000 : duration === '8' ? 120000 : 90000
-    const strategy = createProgressStrategy({
+  const expectedMs = duration === '12' ? 180000 : duration === '8' ? 120000 : 90000
+
+  return runFalExecution({
+    endpoint,
+    context,
+    errorMessage: 'Failed to generate video',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    progress: {
       expectedMs,
       inQueueMessage: 'Waiting in queue...',
       finalizingMessage: 'Finalizing video...',
       defaultInProgressMessage: (n) => `Processing step ${n}...`
-    })
-
-    const result = await fal.subscribe(endpoint, {
-      input: payload,
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        try {
-          console.log(`[Sora2TextToVideo] Queue update:`, JSON.stringify(status, null, 2))
-        } catch { }
-        if (status.status === 'IN_QUEUE') {
-          const r = strategy.onQueue()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount += 1
-          const r = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'COMPLETED') {
-          const r = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        }
-      }
-    }) as Sora2VideoResponse
-
-    console.log(`[Sora2TextToVideo] Final response:`, JSON.stringify(result, null, 2))
-
-    const videoUrl = result.video?.url
-
-    if (!videoUrl) {
-      throw new Error('No video was generated by Sora 2')
-    }
-
-    const response = await fetch(videoUrl)
-    const contentType = response.headers.get('content-type')
-    const arrayBuffer = await response.arrayBuffer()
-    const buffer = Buffer.from(arrayBuffer)
-
-    const filename = generateVideoFilename(videoUrl, contentType)
-
-    const uploadResult = await uploadAsset(buffer, { type: 'video', filename })
-
-    if (!uploadResult?.uri) {
-      throw new Error('Failed to upload generated video')
-    }
-
-    return {
-      video: [uploadResult.uri]
-    }
-  } catch (error: any) {
-    console.log(`[Sora2TextToVideo] Error details:`, JSON.stringify(error, null, 2))
+    },
+    buildPayload: () => payload,
+    mapOutput: async (result) => {
+      console.log(`[Sora2TextToVideo] Final response:`, JSON.stringify(result, null, 2))
 
-    let message = error?.message || 'Failed to generate video'
+      const response = readFalResponse(result, 'Sora 2')
 
-    // Extract detailed error message from Fal API response
-    if (error?.body?.detail && Array.isArray(error.body.detail)) {
-      const errorDetails = error.body.detail.map((detail: any) => detail.msg).join('; ')
-      message = errorDetails
+      return {
+        video: [await rehostFalAsset(response.video(), 'video')]
+      }
     }
-
-    context.sendStatus({ type: 'error', message })
-    throw error
-  }
-}
+  })
+})
 
 export default sora2TextToVideoNode
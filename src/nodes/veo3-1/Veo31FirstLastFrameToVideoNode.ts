@@ -1,18 +1,10 @@
-import { NanoSDK, NodeDefinition, NodeInstance, resolveAsset, uploadAsset } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
 import { ensureOption, uploadBufferAsImageUrl } from './utils.js'
-import { generateVideoFilename } from '../../utils/asset-utils.js'
-
-interface Veo31FirstLastFrameResponse {
-  data?: {
-    video?: {
-      url?: string
-    }
-  }
-}
+import { rehostFalAsset, resolveAsset } from '../../utils/asset-utils.js'
 
 const ASPECT_RATIOS = ['auto', '16:9', '9:16', '1:1'] as const
 const RESOLUTIONS = ['720p', '1080p'] as const
@@ -106,15 +98,15 @@ const nodeDefinition: NodeDefinition = {
       default: true,
       label: 'Generate Audio',
       description: 'Include automatically generated audio narration in the output'
-    }
+    },
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
   ]
 }
 
 const veo31FirstLastFrameToVideoNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-veo31FirstLastFrameToVideoNode.execute = async ({ inputs, parameters, context }) => {
-  configureFalClient()
-
+veo31FirstLastFrameToVideoNode.execute = withFalBatch({ inputs: ['prompt', 'first_frame', 'last_frame'] }, async ({ inputs, parameters, context }) => {
   const prompt = inputs.prompt?.[0] as string
   const firstFrameUri = inputs.first_frame?.[0] as string
   const lastFrameUri = inputs.last_frame?.[0] as string
@@ -147,93 +139,57 @@ veo31FirstLastFrameToVideoNode.execute = async ({ inputs, parameters, context })
   const duration = ensureOption(durationValue, DURATIONS, '8s')
   const generate_audio = Boolean(generateAudioValue)
 
-  context.sendStatus({ type: 'running', message: 'Preparing frames for Veo 3.1 interpolation...' })
-
-  const [firstFrameBuffer, lastFrameBuffer] = await Promise.all([
-    resolveAsset(firstFrameUri, { asBuffer: true }) as Promise<Buffer>,
-    resolveAsset(lastFrameUri, { asBuffer: true }) as Promise<Buffer>
-  ])
-
-  const [firstFrameUrl, lastFrameUrl] = await Promise.all([
-    uploadBufferAsImageUrl(firstFrameBuffer, 'veo31-first-frame'),
-    uploadBufferAsImageUrl(lastFrameBuffer, 'veo31-last-frame')
-  ])
-
   const endpoint = modelVariant === 'fast'
     ? 'fal-ai/veo3.1/fast/first-last-frame-to-video'
     : 'fal-ai/veo3.1/first-last-frame-to-video'
 
   const payload = {
     prompt,
-    first_frame_url: firstFrameUrl,
-    last_frame_url: lastFrameUrl,
     aspect_ratio,
     resolution,
     duration,
     generate_audio
   }
 
-  try {
-    let stepCount = 0
-    let expectedMs = modelVariant === 'fast' ? 60000 : 120000
-    if (resolution === '1080p') expectedMs += 30000
-    if (generate_audio) expectedMs += 5000
-    const strategy = createProgressStrategy({
+  let expectedMs = modelVariant === 'fast' ? 60000 : 120000
+  if (resolution === '1080p') expectedMs += 30000
+  if (generate_audio) expectedMs += 5000
+
+  return runFalExecution({
+    endpoint,
+    context,
+    errorMessage: 'Failed to interpolate video',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    progress: {
       expectedMs,
       inQueueMessage: 'Waiting in queue...',
       finalizingMessage: 'Finalizing video...',
       defaultInProgressMessage: (n) => `Interpolating frame ${n}...`
-    })
-
-    const result = await fal.subscribe(endpoint, {
-      input: payload,
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        try {
-          console.log('[Veo31FirstLastFrameToVideo] Queue update:', JSON.stringify(status))
-        } catch { }
-
-        if (status.status === 'IN_QUEUE') {
-          const r = strategy.onQueue()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount += 1
-          const r = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'COMPLETED') {
-          const r = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        }
-      }
-    }) as Veo31FirstLastFrameResponse
-
-    const videoUrl = result.data?.video?.url
-
-    if (!videoUrl) {
-      throw new Error('No video was generated by Veo 3.1')
-    }
+    },
+    buildPayload: async () => {
+      context.sendStatus({ type: 'running', message: 'Preparing frames for Veo 3.1 interpolation...' })
 
-    const response = await fetch(videoUrl)
-    const contentType = response.headers.get('content-type')
-    const arrayBuffer = await response.arrayBuffer()
-    const buffer = Buffer.from(arrayBuffer)
+      const [firstFrameBuffer, lastFrameBuffer] = await Promise.all([
+        resolveAsset(firstFrameUri, { asBuffer: true }) as Promise<Buffer>,
+        resolveAsset(lastFrameUri, { asBuffer: true }) as Promise<Buffer>
+      ])
 
-    const filename = generateVideoFilename(videoUrl, contentType)
+      const [firstFrameUrl, lastFrameUrl] = await Promise.all([
+        uploadBufferAsImageUrl(firstFrameBuffer, 'veo31-first-frame'),
+        uploadBufferAsImageUrl(lastFrameBuffer, 'veo31-last-frame')
+      ])
 
-    const uploadResult = await uploadAsset(buffer, { type: 'video', filename })
+      return { ...payload, first_frame_url: firstFrameUrl, last_frame_url: lastFrameUrl }
+    },
 
-    if (!uploadResult?.uri) {
-      throw new Error('Failed to upload generated video')
-    }
+    mapOutput: async (result) => {
+      const response = readFalResponse(result, 'Veo 3.1')
 
-    return {
-      video: [uploadResult.uri]
+      return {
+        video: [await rehostFalAsset(response.video(), 'video')]
+      }
     }
-  } catch (error: any) {
-    const message = error?.message || 'Failed to interpolate video'
-    context.sendStatus({ type: 'error', message })
-    throw error
-  }
-}
+  })
+})
 
 export default veo31FirstLastFrameToVideoNode
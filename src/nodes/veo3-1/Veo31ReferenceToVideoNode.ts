@@ -1,19 +1,11 @@
-import { NanoSDK, NodeDefinition, NodeInstance, resolveAsset, uploadAsset } from '@nanograph/sdk'
-import { generateVideoFilename } from '../../utils/asset-utils.js'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
+import { rehostFalAsset, resolveAsset } from '../../utils/asset-utils.js'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
 import { ensureOption, uploadBufferAsImageUrl } from './utils.js'
 
-interface Veo31ReferenceToVideoResponse {
-  data?: {
-    video?: {
-      url?: string
-    }
-  }
-}
-
 const RESOLUTIONS = ['720p', '1080p'] as const
 const DURATIONS = ['8s'] as const
 
@@ -92,15 +84,15 @@ const nodeDefinition: NodeDefinition = {
       default: true,
       label: 'Generate Audio',
       description: 'Include automatically generated audio narration in the output'
-    }
+    },
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
   ]
 }
 
 const veo31ReferenceToVideoNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-veo31ReferenceToVideoNode.execute = async ({ inputs, parameters, context }) => {
-  configureFalClient()
-
+veo31ReferenceToVideoNode.execute = withFalBatch({ inputs: ['prompt', 'reference_image1', 'reference_image2', 'reference_image3', 'reference_image4'] }, async ({ inputs, parameters, context }) => {
   const prompt = inputs.prompt?.[0] as string
   const references = [
     inputs.reference_image1?.[0] as string | undefined,
@@ -127,88 +119,55 @@ veo31ReferenceToVideoNode.execute = async ({ inputs, parameters, context }) => {
   const duration = ensureOption(durationValue, DURATIONS, '8s')
   const generate_audio = Boolean(generateAudioValue)
 
-  context.sendStatus({ type: 'running', message: 'Uploading reference images for Veo 3.1...' })
-
-  const referenceBuffers = await Promise.all(
-    references.map((uri) => resolveAsset(uri, { asBuffer: true }) as Promise<Buffer>)
-  )
-
-  const image_urls = await Promise.all(
-    referenceBuffers.map((buffer, index) =>
-      uploadBufferAsImageUrl(buffer, `veo31-reference-${index + 1}`)
-    )
-  )
-
   const endpoint = 'fal-ai/veo3.1/reference-to-video'
 
   const payload = {
     prompt,
-    image_urls,
     resolution,
     duration,
     generate_audio
   }
 
-  try {
-    let stepCount = 0
-    let expectedMs = 130000
-    if (resolution === '1080p') expectedMs += 30000
-    if (generate_audio) expectedMs += 5000
-    const strategy = createProgressStrategy({
+  let expectedMs = 130000
+  if (resolution === '1080p') expectedMs += 30000
+  if (generate_audio) expectedMs += 5000
+
+  return runFalExecution({
+    endpoint,
+    context,
+    errorMessage: 'Failed to generate reference-driven video',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    fieldNames: { 'image_urls.0': 'reference_image1', 'image_urls.1': 'reference_image2', 'image_urls.2': 'reference_image3', 'image_urls.3': 'reference_image4' },
+    progress: {
       expectedMs,
       inQueueMessage: 'Waiting in queue...',
       finalizingMessage: 'Finalizing video...',
       defaultInProgressMessage: (n) => `Refining reference alignment ${n}...`
-    })
-
-    const result = await fal.subscribe(endpoint, {
-      input: payload,
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        try {
-          console.log('[Veo31ReferenceToVideo] Queue update:', JSON.stringify(status))
-        } catch { }
-
-        if (status.status === 'IN_QUEUE') {
-          const r = strategy.onQueue()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount += 1
-          const r = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'COMPLETED') {
-          const r = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        }
-      }
-    }) as Veo31ReferenceToVideoResponse
+    },
+    buildPayload: async () => {
+      context.sendStatus({ type: 'running', message: 'Uploading reference images for Veo 3.1...' })
 
-    const videoUrl = result.data?.video?.url
+      const referenceBuffers = await Promise.all(
+        references.map((uri) => resolveAsset(uri, { asBuffer: true }) as Promise<Buffer>)
+      )
 
-    if (!videoUrl) {
-      throw new Error('No video was generated by Veo 3.1')
-    }
+      const image_urls = await Promise.all(
+        referenceBuffers.map((buffer, index) =>
+          uploadBufferAsImageUrl(buffer, `veo31-reference-${index + 1}`)
+        )
+      )
 
-    const response = await fetch(videoUrl)
-    const contentType = response.headers.get('content-type')
-    const arrayBuffer = await response.arrayBuffer()
-    const buffer = Buffer.from(arrayBuffer)
+      return { ...payload, image_urls }
+    },
 
-    const filename = generateVideoFilename(videoUrl, contentType)
-    const uploadResult = await uploadAsset(buffer, { type: 'video', filename })
+    mapOutput: async (result) => {
+      const response = readFalResponse(result, 'Veo 3.1')
 
-    if (!uploadResult?.uri) {
-      throw new Error('Failed to upload generated video')
-    }
-
-    return {
-      video: [uploadResult.uri]
+      return {
+        video: [await rehostFalAsset(response.video(), 'video')]
+      }
     }
-  } catch (error: any) {
-    const message = error?.message || 'Failed to generate reference-driven video'
-    context.sendStatus({ type: 'error', message })
-    throw error
-  }
-}
+  })
+})
 
 export default veo31ReferenceToVideoNode
@@ -1,18 +1,10 @@
-import { NanoSDK, NodeDefinition, NodeInstance, resolveAsset, uploadAsset } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { uploadBufferToFal } from '../../utils/fal-storage.js'
-import { generateVideoFilename } from '../../utils/asset-utils.js'
-
-interface Veo3ImageToVideoResponse {
-  data?: {
-    video?: {
-      url?: string
-    }
-  }
-}
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { uploadImageToFal } from '../../utils/fal-storage.js'
+import { rehostFalAsset, resolveAsset } from '../../utils/asset-utils.js'
 
 const ASPECT_RATIOS = ['auto', '16:9', '9:16'] as const
 const RESOLUTIONS = ['720p', '1080p'] as const
@@ -25,38 +17,8 @@ const ensureOption = <T extends string>(value: unknown, options: readonly T[], f
   return fallback
 }
 
-const detectImageMime = (buffer: Buffer): string => {
-  const signature = buffer.slice(0, 12)
-
-  if (signature.slice(0, 4).toString('hex') === '89504e47') {
-    return 'png'
-  }
-
-  if (signature.slice(0, 3).toString('hex') === 'ffd8ff') {
-    return 'jpeg'
-  }
-
-  if (signature.slice(0, 4).toString('hex') === '47494638') {
-    return 'gif'
-  }
-
-  if (signature.slice(0, 4).toString('hex') === '424d') {
-    return 'bmp'
-  }
-
-  if (
-    signature.slice(0, 4).toString('ascii') === 'RIFF' &&
-    signature.slice(8, 12).toString('ascii') === 'WEBP'
-  ) {
-    return 'webp'
-  }
-
-  return 'jpeg'
-}
-
 const uploadBufferAsImageUrl = async (buffer: Buffer, filenamePrefix: string): Promise<string> => {
-  const format = detectImageMime(buffer)
-  return uploadBufferToFal(buffer, format, { filenamePrefix })
+  return uploadImageToFal(buffer, { filenamePrefix })
 }
 
 const nodeDefinition: NodeDefinition = {
@@ -141,15 +103,15 @@ const nodeDefinition: NodeDefinition = {
       default: true,
       label: 'Generate Audio',
       description: 'Include automatically generated audio narration in the output'
-    }
+    },
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
   ]
 }
 
 const veo3ImageToVideoNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-veo3ImageToVideoNode.execute = async ({ inputs, parameters, context }) => {
-  configureFalClient()
-
+veo3ImageToVideoNode.execute = withFalBatch({ inputs: ['prompt', 'image'] }, async ({ inputs, parameters, context }) => {
   const prompt = inputs.prompt?.[0] as string
   const imageUri = inputs.image?.[0] as string
 
@@ -176,86 +138,50 @@ veo3ImageToVideoNode.execute = async ({ inputs, parameters, context }) => {
   const duration = ensureOption(durationValue, DURATIONS, '8s')
   const generate_audio = Boolean(generateAudioValue)
 
-  context.sendStatus({ type: 'running', message: 'Preparing image for Veo 3 animation...' })
-
-  const imageBuffer = await resolveAsset(imageUri, { asBuffer: true }) as Buffer
-  const imageUrl = await uploadBufferAsImageUrl(imageBuffer, 'veo3-source')
-
   const endpoint = modelVariant === 'fast'
     ? 'fal-ai/veo3/fast/image-to-video'
     : 'fal-ai/veo3/image-to-video'
 
   const payload = {
     prompt,
-    image_url: imageUrl,
     aspect_ratio,
     resolution,
     duration,
     generate_audio
   }
 
-  try {
-    let stepCount = 0
-    let expectedMs = modelVariant === 'fast' ? 60000 : 120000
-    if (resolution === '1080p') expectedMs += 30000
-    if (generate_audio) expectedMs += 5000
-    const strategy = createProgressStrategy({
+  let expectedMs = modelVariant === 'fast' ? 60000 : 120000
+  if (resolution === '1080p') expectedMs += 30000
+  if (generate_audio) expectedMs += 5000
+
+  return runFalExecution({
+    endpoint,
+    context,
+    errorMessage: 'Failed to animate image',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    progress: {
       expectedMs,
       inQueueMessage: 'Waiting in queue...',
       finalizingMessage: 'Finalizing video...',
       defaultInProgressMessage: (n) => `Animating frame ${n}...`
-    })
-    const result = await fal.subscribe(endpoint, {
-      input: payload,
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        try {
-          console.log('[Veo3ImageToVideo] Queue update:', JSON.stringify(status))
-        } catch { }
-        if (status.status === 'IN_QUEUE') {
-          context.sendStatus({
-            type: 'running',
-            message: 'Waiting in queue...',
-            progress: { step: 5, total: 100 }
-          })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount += 1
-          const r = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'COMPLETED') {
-          const r = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        }
-      }
-    }) as Veo3ImageToVideoResponse
-
-    const videoUrl = result.data?.video?.url
-
-    if (!videoUrl) {
-      throw new Error('No video was generated by Veo 3')
-    }
-
-    const response = await fetch(videoUrl)
-    const contentType = response.headers.get('content-type')
-    const arrayBuffer = await response.arrayBuffer()
-    const buffer = Buffer.from(arrayBuffer)
+    },
+    buildPayload: async () => {
+      context.sendStatus({ type: 'running', message: 'Preparing image for Veo 3 animation...' })
 
-    const filename = generateVideoFilename(videoUrl, contentType)
+      const imageBuffer = await resolveAsset(imageUri, { asBuffer: true }) as Buffer
+      const imageUrl = await uploadBufferAsImageUrl(imageBuffer, 'veo3-source')
 
-    const uploadResult = await uploadAsset(buffer, { type: 'video', filename })
+      return { ...payload, image_url: imageUrl }
+    },
 
-    if (!uploadResult?.uri) {
-      throw new Error('Failed to upload generated video')
-    }
+    mapOutput: async (result) => {
+      const response = readFalResponse(result, 'Veo 3')
 
-    return {
-      video: [uploadResult.uri]
+      return {
+        video: [await rehostFalAsset(response.video(), 'video')]
+      }
     }
-  } catch (error: any) {
-    const message = error?.message || 'Failed to animate image'
-    context.sendStatus({ type: 'error', message })
-    throw error
-  }
-}
+  })
+})
 
 export default veo3ImageToVideoNode
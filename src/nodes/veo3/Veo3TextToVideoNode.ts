@@ -1,18 +1,9 @@
-import { NanoSDK, NodeDefinition, NodeInstance, uploadAsset } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { generateVideoFilename } from '../../utils/asset-utils.js'
-
-interface Veo3VideoResponse {
-  data?: {
-    video?: {
-      url?: string
-    }
-    seed?: number
-  }
-}
+import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { rehostFalAsset } from '../../utils/asset-utils.js'
 
 const ASPECT_RATIOS = ['16:9', '9:16', '1:1'] as const
 const DURATIONS = ['4s', '6s', '8s'] as const
@@ -139,15 +130,23 @@ const nodeDefinition: NodeDefinition = {
       default: -1,
       label: 'Seed (-1 = random)',
       description: 'Use a non-negative seed for reproducible generations'
-    }
+    },
+    {
+      name: 'bypass_cache',
+      type: 'boolean',
+      value: false,
+      default: false,
+      label: 'Bypass Cache',
+      description: 'Call Fal even when a cached result exists for this seed and these inputs'
+    },
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
   ]
 }
 
 const veo3TextToVideoNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-veo3TextToVideoNode.execute = async ({ inputs, parameters, context }) => {
-  configureFalClient()
-
+veo3TextToVideoNode.execute = withFalBatch({ inputs: ['prompt', 'negative_prompt'] }, async ({ inputs, parameters, context }) => {
   const prompt = inputs.prompt?.[0] as string
   const negativePrompt = inputs.negative_prompt?.[0] as string | undefined
 
@@ -199,69 +198,33 @@ veo3TextToVideoNode.execute = async ({ inputs, parameters, context }) => {
 
   context.sendStatus({ type: 'running', message: 'Generating video with Veo 3...' })
 
-  try {
-    let stepCount = 0
-    let expectedMs = modelVariant === 'fast' ? 60000 : 120000
-    if (resolution === '1080p') expectedMs += 30000
-    if (generate_audio) expectedMs += 5000
-    const strategy = createProgressStrategy({
+  let expectedMs = modelVariant === 'fast' ? 60000 : 120000
+  if (resolution === '1080p') expectedMs += 30000
+  if (generate_audio) expectedMs += 5000
+
+  return runFalExecution({
+    endpoint,
+    context,
+    errorMessage: 'Failed to generate video',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    resultCache: { bypass: Boolean(getParameterValue(parameters, 'bypass_cache', false)) },
+    progress: {
       expectedMs,
       inQueueMessage: 'Waiting in queue...',
       finalizingMessage: 'Finalizing video...',
       defaultInProgressMessage: (n) => `Processing step ${n}...`
-    })
-    const result = await fal.subscribe(endpoint, {
-      // Fal client typings don't yet cover Veo3 extras like resolution/auto_fix
-      input: payload,
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        try {
-          console.log('[Veo3TextToVideo] Queue update:', JSON.stringify(status))
-        } catch { }
-        if (status.status === 'IN_QUEUE') {
-          const r = strategy.onQueue()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount += 1
-          const r = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        } else if (status.status === 'COMPLETED') {
-          const r = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: r.message, progress: r.progress })
-        }
+    },
+    buildPayload: () => payload,
+    mapOutput: async (result) => {
+      const response = readFalResponse(result, 'Veo 3')
+      const seed = response.seed()
+
+      return {
+        video: [await rehostFalAsset(response.video(), 'video')],
+        seed: seed === undefined ? [] : [seed]
       }
-    }) as Veo3VideoResponse
-
-    const videoUrl = result.data?.video?.url
-
-    if (!videoUrl) {
-      throw new Error('No video was generated by Veo 3')
-    }
-
-    const response = await fetch(videoUrl)
-    const contentType = response.headers.get('content-type')
-    const arrayBuffer = await response.arrayBuffer()
-    const buffer = Buffer.from(arrayBuffer)
-
-    const filename = generateVideoFilename(videoUrl, contentType)
-
-    const uploadResult = await uploadAsset(buffer, { type: 'video', filename })
-
-    if (!uploadResult?.uri) {
-      throw new Error('Failed to upload generated video')
     }
-
-    const seedOutput = typeof result.data?.seed === 'number' ? [result.data.seed] : []
-
-    return {
-      video: [uploadResult.uri],
-      seed: seedOutput
-    }
-  } catch (error: any) {
-    const message = error?.message || 'Failed to generate video'
-    context.sendStatus({ type: 'error', message })
-    throw error
-  }
-}
+  })
+})
 
 export default veo3TextToVideoNode
@@ -1,20 +1,10 @@
 import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { FalImageReference, uploadGeneratedImages, assetToDataUrl } from '../flux-pro/utils.js'
-
-interface ZImageTurboResponse {
-    images?: FalImageReference[]
-    seed?: number
-    has_nsfw_concepts?: boolean[]
-    data?: {
-        images?: FalImageReference[]
-        seed?: number
-        has_nsfw_concepts?: boolean[]
-    }
-}
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createSafetyPolicyParameters, withFalSafetyPolicy } from '../../utils/fal-safety.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { uploadGeneratedImages, assetToDataUrl } from '../flux-pro/utils.js'
 
 const IMAGE_SIZE_PRESETS = [
     'landscape_4_3',
@@ -89,6 +79,11 @@ const nodeDefinition: NodeDefinition = {
             name: 'has_nsfw_concepts',
             type: 'boolean',
             description: 'Flag per generated image indicating potential NSFW content'
+        },
+        {
+            name: 'safety_report',
+            type: 'string',
+            description: 'JSON report of the NSFW check: policy, decision, seeds tried and the flag of every image'
         }
     ],
     parameters: [
@@ -166,6 +161,14 @@ const nodeDefinition: NodeDefinition = {
             label: 'Seed (-1 = random)',
             description: 'Use a fixed seed (>= 0) for repeatable generations'
         },
+        {
+            name: 'bypass_cache',
+            type: 'boolean',
+            value: false,
+            default: false,
+            label: 'Bypass Cache',
+            description: 'Call Fal even when a cached result exists for this seed and these inputs'
+        },
         {
             name: 'output_format',
             type: 'select',
@@ -215,15 +218,16 @@ const nodeDefinition: NodeDefinition = {
             default: false,
             label: 'Enable Prompt Expansion',
             description: 'Whether to enable prompt expansion (extra cost)'
-        }
+        },
+        ...createSafetyPolicyParameters(),
+        createBatchModeParameter(),
+        createCredentialProfileParameter()
     ]
 }
 
 const zImageTurboImageToImageNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-zImageTurboImageToImageNode.execute = async ({ inputs, parameters, context }) => {
-    configureFalClient()
-
+zImageTurboImageToImageNode.execute = withFalBatch({ inputs: ['prompt', 'image'] }, withFalSafetyPolicy({}, async ({ inputs, parameters, context }) => {
     const prompt = inputs.prompt?.[0] as string
     const imageUri = inputs.image?.[0] as string
 
@@ -237,8 +241,6 @@ zImageTurboImageToImageNode.execute = async ({ inputs, parameters, context }) =>
         throw new Error('Image input is required')
     }
 
-    const imageUrl = await assetToDataUrl(imageUri)
-
     const strength = clampNumber(Number(getParameterValue(parameters, 'strength', 0.6)), 0, 1)
     const numImages = clampNumber(Number(getParameterValue(parameters, 'num_images', 1)), 1, 4)
     const imageSizePreset = ensurePreset(getParameterValue(parameters, 'image_size', 'auto'))
@@ -256,7 +258,6 @@ zImageTurboImageToImageNode.execute = async ({ inputs, parameters, context }) =>
 
     const payload: Record<string, unknown> = {
         prompt,
-        image_url: imageUrl,
         strength,
         num_images: numImages,
         image_size: imageSizePreset === 'custom'
@@ -283,63 +284,35 @@ zImageTurboImageToImageNode.execute = async ({ inputs, parameters, context }) =>
         Math.max(5000, Math.floor(numImages * 5000 * stepFactor * accelerationFactor * syncFactor))
     )
 
-    const strategy = createProgressStrategy({
-        expectedMs,
-        inQueueMessage: 'Waiting for Z-Image Turbo (I2I)...',
-        finalizingMessage: 'Finalizing images...',
-        defaultInProgressMessage: (step) => `Processing step ${step}...`
-    })
+    return runFalExecution({
+        endpoint: 'fal-ai/z-image/turbo/image-to-image',
+        context,
+        errorMessage: 'Failed to generate images with Z-Image Turbo',
+        credential: getParameterValue(parameters, 'credential_profile', 'default'),
+        resultCache: { bypass: Boolean(getParameterValue(parameters, 'bypass_cache', false)) },
+        fieldNames: { 'image_size.width': 'custom_width', 'image_size.height': 'custom_height' },
+        progress: {
+            expectedMs,
+            inQueueMessage: 'Waiting for Z-Image Turbo (I2I)...',
+            finalizingMessage: 'Finalizing images...',
+            defaultInProgressMessage: (step) => `Processing step ${step}...`
+        },
+        buildPayload: async () => {
+            const imageUrl = await assetToDataUrl(imageUri)
 
-    try {
-        let stepCount = 0
+            return { ...payload, image_url: imageUrl }
+        },
+        mapOutput: async (result) => {
+            const response = readFalResponse(result, 'Z-Image Turbo')
+            const seed = response.seed()
 
-        const result = await fal.subscribe('fal-ai/z-image/turbo/image-to-image', {
-            input: payload as any,
-            logs: true,
-            onQueueUpdate: (status: QueueStatus) => {
-                if (status.status === 'IN_QUEUE') {
-                    const update = strategy.onQueue()
-                    context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-                } else if (status.status === 'IN_PROGRESS') {
-                    stepCount += 1
-                    const update = strategy.onProgress(status, stepCount)
-                    context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-                } else if (status.status === 'COMPLETED') {
-                    const update = strategy.onCompleted()
-                    context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-                }
+            return {
+                images: await uploadGeneratedImages(response.images()),
+                seed: seed === undefined ? [] : [seed],
+                has_nsfw_concepts: response.nsfwFlags()
             }
-        }) as ZImageTurboResponse
-
-        const responseData = (result as any)?.data ?? {}
-        const directImages = Array.isArray(result.images) ? result.images : []
-        const nestedImages = Array.isArray(responseData.images) ? responseData.images : []
-        const images = (directImages.length ? directImages : nestedImages) as FalImageReference[]
-
-        if (!images.length) {
-            throw new Error('No images were returned by the Z-Image Turbo API')
-        }
-
-        const uploadedImages = await uploadGeneratedImages(images)
-
-        const responseSeed = typeof responseData.seed === 'number'
-            ? responseData.seed
-            : (typeof result.seed === 'number' ? result.seed : undefined)
-
-        const nsfwFlags = Array.isArray(responseData.has_nsfw_concepts)
-            ? responseData.has_nsfw_concepts
-            : (Array.isArray(result.has_nsfw_concepts) ? result.has_nsfw_concepts : [])
-
-        return {
-            images: uploadedImages,
-            seed: typeof responseSeed === 'number' ? [responseSeed] : [],
-            has_nsfw_concepts: nsfwFlags
         }
-    } catch (error: any) {
-        const message = error?.message || 'Failed to generate images with Z-Image Turbo'
-        context.sendStatus({ type: 'error', message })
-        throw error
-    }
-}
+    })
+}))
 
 export default zImageTurboImageToImageNode
@@ -1,22 +1,12 @@
 import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { FalImageReference, uploadGeneratedImages } from '../flux-pro/utils.js'
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createSafetyPolicyParameters, withFalSafetyPolicy } from '../../utils/fal-safety.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { uploadGeneratedImages } from '../flux-pro/utils.js'
 import { resolveLoraPath } from './utils.js'
 
-interface ZImageTurboResponse {
-    images?: FalImageReference[]
-    seed?: number
-    has_nsfw_concepts?: boolean[]
-    data?: {
-        images?: FalImageReference[]
-        seed?: number
-        has_nsfw_concepts?: boolean[]
-    }
-}
-
 const IMAGE_SIZE_PRESETS = [
     'landscape_4_3',
     'landscape_16_9',
@@ -98,6 +88,11 @@ const nodeDefinition: NodeDefinition = {
             name: 'has_nsfw_concepts',
             type: 'boolean',
             description: 'Flag per generated image indicating potential NSFW content'
+        },
+        {
+            name: 'safety_report',
+            type: 'string',
+            description: 'JSON report of the NSFW check: policy, decision, seeds tried and the flag of every image'
         }
     ],
     parameters: [
@@ -164,6 +159,14 @@ const nodeDefinition: NodeDefinition = {
             label: 'Seed (-1 = random)',
             description: 'Use a fixed seed (>= 0) for repeatable generations'
         },
+        {
+            name: 'bypass_cache',
+            type: 'boolean',
+            value: false,
+            default: false,
+            label: 'Bypass Cache',
+            description: 'Call Fal even when a cached result exists for this seed and these inputs'
+        },
         {
             name: 'output_format',
             type: 'select',
@@ -246,15 +249,16 @@ const nodeDefinition: NodeDefinition = {
             step: 0.05,
             label: 'LoRA 3 Scale',
             description: 'Strength of the third LoRA'
-        }
+        },
+        ...createSafetyPolicyParameters(),
+        createBatchModeParameter(),
+        createCredentialProfileParameter()
     ]
 }
 
 const zImageTurboLoraNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-zImageTurboLoraNode.execute = async ({ inputs, parameters, context }) => {
-    configureFalClient()
-
+zImageTurboLoraNode.execute = withFalBatch({ inputs: ['prompt'] }, withFalSafetyPolicy({}, async ({ inputs, parameters, context }) => {
     const prompt = inputs.prompt?.[0] as string
 
     if (!prompt) {
@@ -276,30 +280,6 @@ zImageTurboLoraNode.execute = async ({ inputs, parameters, context }) => {
     const enableSafetyChecker = Boolean(getParameterValue(parameters, 'enable_safety_checker', true))
     const enablePromptExpansion = Boolean(getParameterValue(parameters, 'enable_prompt_expansion', false))
 
-    // Process LoRAs
-    const loras: Array<{ path: string; scale: number }> = []
-
-    const lora1Path = inputs.lora_1_path?.[0] as string
-    if (lora1Path) {
-        const url = await resolveLoraPath(lora1Path)
-        const scale = Number(getParameterValue(parameters, 'lora_1_scale', 1.0))
-        loras.push({ path: url, scale })
-    }
-
-    const lora2Path = inputs.lora_2_path?.[0] as string
-    if (lora2Path) {
-        const url = await resolveLoraPath(lora2Path)
-        const scale = Number(getParameterValue(parameters, 'lora_2_scale', 1.0))
-        loras.push({ path: url, scale })
-    }
-
-    const lora3Path = inputs.lora_3_path?.[0] as string
-    if (lora3Path) {
-        const url = await resolveLoraPath(lora3Path)
-        const scale = Number(getParameterValue(parameters, 'lora_3_scale', 1.0))
-        loras.push({ path: url, scale })
-    }
-
     const payload: Record<string, unknown> = {
         prompt,
         num_images: numImages,
@@ -311,8 +291,7 @@ zImageTurboLoraNode.execute = async ({ inputs, parameters, context }) => {
         acceleration,
         sync_mode: syncMode,
         enable_safety_checker: enableSafetyChecker,
-        enable_prompt_expansion: enablePromptExpansion,
-        loras
+        enable_prompt_expansion: enablePromptExpansion
     }
 
     if (Number.isInteger(seedValue) && seedValue >= 0) {
@@ -328,63 +307,57 @@ zImageTurboLoraNode.execute = async ({ inputs, parameters, context }) => {
         Math.max(5000, Math.floor(numImages * 5000 * stepFactor * accelerationFactor * syncFactor))
     )
 
-    const strategy = createProgressStrategy({
-        expectedMs,
-        inQueueMessage: 'Waiting for Z-Image Turbo (LoRA)...',
-        finalizingMessage: 'Finalizing images...',
-        defaultInProgressMessage: (step) => `Processing step ${step}...`
-    })
-
-    try {
-        let stepCount = 0
+    return runFalExecution({
+        endpoint: 'fal-ai/z-image/turbo/lora',
+        context,
+        errorMessage: 'Failed to generate images with Z-Image Turbo (LoRA)',
+        credential: getParameterValue(parameters, 'credential_profile', 'default'),
+        resultCache: { bypass: Boolean(getParameterValue(parameters, 'bypass_cache', false)) },
+        fieldNames: { 'image_size.width': 'custom_width', 'image_size.height': 'custom_height' },
+        progress: {
+            expectedMs,
+            inQueueMessage: 'Waiting for Z-Image Turbo (LoRA)...',
+            finalizingMessage: 'Finalizing images...',
+            defaultInProgressMessage: (step) => `Processing step ${step}...`
+        },
+        buildPayload: async () => {
+            // Process LoRAs
+            const loras: Array<{ path: string; scale: number }> = []
 
-        const result = await fal.subscribe('fal-ai/z-image/turbo/lora', {
-            input: payload as any,
-            logs: true,
-            onQueueUpdate: (status: QueueStatus) => {
-                if (status.status === 'IN_QUEUE') {
-                    const update = strategy.onQueue()
-                    context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-                } else if (status.status === 'IN_PROGRESS') {
-                    stepCount += 1
-                    const update = strategy.onProgress(status, stepCount)
-                    context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-                } else if (status.status === 'COMPLETED') {
-                    const update = strategy.onCompleted()
-                    context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-                }
+            const lora1Path = inputs.lora_1_path?.[0] as string
+            if (lora1Path) {
+                const url = await resolveLoraPath(lora1Path)
+                const scale = Number(getParameterValue(parameters, 'lora_1_scale', 1.0))
+                loras.push({ path: url, scale })
             }
-        }) as ZImageTurboResponse
 
-        const responseData = (result as any)?.data ?? {}
-        const directImages = Array.isArray(result.images) ? result.images : []
-        const nestedImages = Array.isArray(responseData.images) ? responseData.images : []
-        const images = (directImages.length ? directImages : nestedImages) as FalImageReference[]
-
-        if (!images.length) {
-            throw new Error('No images were returned by the Z-Image Turbo API')
-        }
-
-        const uploadedImages = await uploadGeneratedImages(images)
+            const lora2Path = inputs.lora_2_path?.[0] as string
+            if (lora2Path) {
+                const url = await resolveLoraPath(lora2Path)
+                const scale = Number(getParameterValue(parameters, 'lora_2_scale', 1.0))
+                loras.push({ path: url, scale })
+            }
 
-        const responseSeed = typeof responseData.seed === 'number'
-            ? responseData.seed
-            : (typeof result.seed === 'number' ? result.seed : undefined)
+            const lora3Path = inputs.lora_3_path?.[0] as string
+            if (lora3Path) {
+                const url = await resolveLoraPath(lora3Path)
+                const scale = Number(getParameterValue(parameters, 'lora_3_scale', 1.0))
+                loras.push({ path: url, scale })
+            }
 
-        const nsfwFlags = Array.isArray(responseData.has_nsfw_concepts)
-            ? responseData.has_nsfw_concepts
-            : (Array.isArray(result.has_nsfw_concepts) ? result.has_nsfw_concepts : [])
+            return { ...payload, loras }
+        },
+        mapOutput: async (result) => {
+            const response = readFalResponse(result, 'Z-Image Turbo')
+            const seed = response.seed()
 
-        return {
-            images: uploadedImages,
-            seed: typeof responseSeed === 'number' ? [responseSeed] : [],
-            has_nsfw_concepts: nsfwFlags
+            return {
+                images: await uploadGeneratedImages(response.images()),
+                seed: seed === undefined ? [] : [seed],
+                has_nsfw_concepts: response.nsfwFlags()
+            }
         }
-    } catch (error: any) {
-        const message = error?.message || 'Failed to generate images with Z-Image Turbo (LoRA)'
-        context.sendStatus({ type: 'error', message })
-        throw error
-    }
-}
+    })
+}))
 
 export default zImageTurboLoraNode
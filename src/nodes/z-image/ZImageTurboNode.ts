@@ -1,20 +1,11 @@
 import { NanoSDK, NodeDefinition, NodeInstance } from '@nanograph/sdk'
-import { QueueStatus } from '@fal-ai/client'
-import { configureFalClient, fal } from '../../utils/fal-client.js'
-import { createProgressStrategy } from '../../utils/progress-strategy.js'
-import { getParameterValue } from '../../utils/parameter-utils.js'
-import { FalImageReference, uploadGeneratedImages } from '../flux-pro/utils.js'
-
-interface ZImageTurboResponse {
-  images?: FalImageReference[]
-  seed?: number
-  has_nsfw_concepts?: boolean[]
-  data?: {
-    images?: FalImageReference[]
-    seed?: number
-    has_nsfw_concepts?: boolean[]
-  }
-}
+import { runFalExecution } from '../../utils/fal-execution.js'
+import { readFalResponse } from '../../utils/fal-response.js'
+import { withFalBatch } from '../../utils/fal-batch.js'
+import { createSafetyPolicyParameters, withFalSafetyPolicy } from '../../utils/fal-safety.js'
+import { createSweepParameters, withFalSweep } from '../../utils/fal-sweep.js'
+import { createBatchModeParameter, createCredentialProfileParameter, getParameterValue } from '../../utils/parameter-utils.js'
+import { uploadGeneratedImages } from '../flux-pro/utils.js'
 
 const IMAGE_SIZE_PRESETS = [
   'landscape_4_3',
@@ -53,6 +44,9 @@ const ensurePreset = (value: unknown): (typeof IMAGE_SIZE_PRESETS)[number] => {
   return 'landscape_4_3'
 }
 
+// Parameters the Parameter Sweep may vary
+const SWEEP_PARAMETERS = ['num_inference_steps', 'seed', 'image_size', 'acceleration']
+
 const nodeDefinition: NodeDefinition = {
   uid: 'fal-z-image-turbo',
   name: 'Z-Image Turbo',
@@ -82,6 +76,21 @@ const nodeDefinition: NodeDefinition = {
       name: 'has_nsfw_concepts',
       type: 'boolean',
       description: 'Flag per generated image indicating potential NSFW content'
+    },
+    {
+      name: 'safety_report',
+      type: 'string',
+      description: 'JSON report of the NSFW check: policy, decision, seeds tried and the flag of every image'
+    },
+    {
+      name: 'manifest',
+      type: 'string',
+      description: 'Parameter Sweep only: JSON listing the parameters behind every generated image'
+    },
+    {
+      name: 'contact_sheet',
+      type: 'asset:image',
+      description: 'Parameter Sweep only: labelled grid of all sweep results, when Sweep Contact Sheet is on'
     }
   ],
   parameters: [
@@ -148,6 +157,14 @@ const nodeDefinition: NodeDefinition = {
       label: 'Seed (-1 = random)',
       description: 'Use a fixed seed (>= 0) for repeatable generations'
     },
+    {
+      name: 'bypass_cache',
+      type: 'boolean',
+      value: false,
+      default: false,
+      label: 'Bypass Cache',
+      description: 'Call Fal even when a cached result exists for this seed and these inputs'
+    },
     {
       name: 'output_format',
       type: 'select',
@@ -174,6 +191,14 @@ const nodeDefinition: NodeDefinition = {
         { label: 'High', value: 'high' }
       ]
     },
+    {
+      name: 'realtime',
+      type: 'boolean',
+      value: false,
+      default: false,
+      label: 'Realtime Mode',
+      description: 'Skip the Fal queue and reuse an open realtime connection, for fast interactive iterations'
+    },
     {
       name: 'sync_mode',
       type: 'boolean',
@@ -197,15 +222,17 @@ const nodeDefinition: NodeDefinition = {
       default: false,
       label: 'Enable Prompt Expansion',
       description: 'Whether to enable prompt expansion (extra cost)'
-    }
+    },
+    ...createSweepParameters(SWEEP_PARAMETERS),
+    ...createSafetyPolicyParameters(),
+    createBatchModeParameter(),
+    createCredentialProfileParameter()
   ]
 }
 
 const zImageTurboNode: NodeInstance = NanoSDK.registerNode(nodeDefinition)
 
-zImageTurboNode.execute = async ({ inputs, parameters, context }) => {
-  configureFalClient()
-
+zImageTurboNode.execute = withFalSweep({ parameters: SWEEP_PARAMETERS }, withFalBatch({ inputs: ['prompt'] }, withFalSafetyPolicy({}, async ({ inputs, parameters, context }) => {
   const prompt = inputs.prompt?.[0] as string
 
   if (!prompt) {
@@ -254,63 +281,32 @@ zImageTurboNode.execute = async ({ inputs, parameters, context }) => {
     Math.max(5000, Math.floor(numImages * 5000 * stepFactor * accelerationFactor * syncFactor))
   )
 
-  const strategy = createProgressStrategy({
-    expectedMs,
-    inQueueMessage: 'Waiting for Z-Image Turbo...',
-    finalizingMessage: 'Finalizing images...',
-    defaultInProgressMessage: (step) => `Processing step ${step}...`
-  })
-
-  try {
-    let stepCount = 0
+  return runFalExecution({
+    endpoint: 'fal-ai/z-image/turbo',
+    context,
+    errorMessage: 'Failed to generate images with Z-Image Turbo',
+    credential: getParameterValue(parameters, 'credential_profile', 'default'),
+    resultCache: { bypass: Boolean(getParameterValue(parameters, 'bypass_cache', false)) },
+    realtime: Boolean(getParameterValue(parameters, 'realtime', false)),
+    fieldNames: { 'image_size.width': 'custom_width', 'image_size.height': 'custom_height' },
+    progress: {
+      expectedMs,
+      inQueueMessage: 'Waiting for Z-Image Turbo...',
+      finalizingMessage: 'Finalizing images...',
+      defaultInProgressMessage: (step) => `Processing step ${step}...`
+    },
+    buildPayload: () => payload,
+    mapOutput: async (result) => {
+      const response = readFalResponse(result, 'Z-Image Turbo')
+      const seed = response.seed()
 
-    const result = await fal.subscribe('fal-ai/z-image/turbo', {
-      input: payload as any,
-      logs: true,
-      onQueueUpdate: (status: QueueStatus) => {
-        if (status.status === 'IN_QUEUE') {
-          const update = strategy.onQueue()
-          context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-        } else if (status.status === 'IN_PROGRESS') {
-          stepCount += 1
-          const update = strategy.onProgress(status, stepCount)
-          context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-        } else if (status.status === 'COMPLETED') {
-          const update = strategy.onCompleted()
-          context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
-        }
+      return {
+        images: await uploadGeneratedImages(response.images()),
+        seed: seed === undefined ? [] : [seed],
+        has_nsfw_concepts: response.nsfwFlags()
       }
-    }) as ZImageTurboResponse
-
-    const responseData = (result as any)?.data ?? {}
-    const directImages = Array.isArray(result.images) ? result.images : []
-    const nestedImages = Array.isArray(responseData.images) ? responseData.images : []
-    const images = (directImages.length ? directImages : nestedImages) as FalImageReference[]
-
-    if (!images.length) {
-      throw new Error('No images were returned by the Z-Image Turbo API')
     }
-
-    const uploadedImages = await uploadGeneratedImages(images)
-
-    const responseSeed = typeof responseData.seed === 'number'
-      ? responseData.seed
-      : (typeof result.seed === 'number' ? result.seed : undefined)
-
-    const nsfwFlags = Array.isArray(responseData.has_nsfw_concepts)
-      ? responseData.has_nsfw_concepts
-      : (Array.isArray(result.has_nsfw_concepts) ? result.has_nsfw_concepts : [])
-
-    return {
-      images: uploadedImages,
-      seed: typeof responseSeed === 'number' ? [responseSeed] : [],
-      has_nsfw_concepts: nsfwFlags
-    }
-  } catch (error: any) {
-    const message = error?.message || 'Failed to generate images with Z-Image Turbo'
-    context.sendStatus({ type: 'error', message })
-    throw error
-  }
-}
+  })
+})))
 
 export default zImageTurboNode
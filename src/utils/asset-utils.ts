@@ -1,3 +1,34 @@
+import { resolveAsset as resolveSdkAsset, uploadAsset as uploadSdkAsset } from '@nanograph/sdk'
+import { createReadStream } from 'node:fs'
+import { Readable } from 'node:stream'
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web'
+import { fileURLToPath } from 'node:url'
+
+// The NanoGraph asset functions every node and helper goes through
+export interface NanoAssetStore {
+  resolveAsset: typeof resolveSdkAsset
+  uploadAsset: typeof uploadSdkAsset
+}
+
+const sdkAssetStore: NanoAssetStore = { resolveAsset: resolveSdkAsset, uploadAsset: uploadSdkAsset }
+let assetStore = sdkAssetStore
+
+/**
+ * Serve asset reads and uploads from another store, e.g. the node harness's in-memory one
+ * @param store Store to use; undefined restores the NanoGraph SDK
+ */
+export const setNanoAssetStore = (store: NanoAssetStore | undefined) => {
+  assetStore = store ?? sdkAssetStore
+}
+
+export const getNanoAssetStore = (): NanoAssetStore => assetStore
+
+// Same signatures as the SDK functions, resolved against the current store on every call
+export const resolveAsset = (...args: Parameters<NanoAssetStore['resolveAsset']>): ReturnType<NanoAssetStore['resolveAsset']> =>
+  assetStore.resolveAsset(...args)
+export const uploadAsset = (...args: Parameters<NanoAssetStore['uploadAsset']>): ReturnType<NanoAssetStore['uploadAsset']> =>
+  assetStore.uploadAsset(...args)
+
 /**
  * Extract file extension from URL or Content-Type header
  * @param url The file URL from Fal
@@ -46,6 +77,94 @@ export function generateAssetFilename(url: string, contentType: string | null |
   return `upload-${date}.${extension}`
 }
 
+export interface FalFileReference {
+  url?: string
+  file_data?: string
+  content_type?: string
+  file_name?: string
+}
+
+export type RehostAssetType = 'image' | 'video' | 'mesh'
+
+const webStreamToReadable = (body: unknown): Readable => Readable.fromWeb(body as NodeReadableStream)
+
+/**
+ * Resolve a NanoGraph asset as a stream so large inputs are never held in memory as a whole
+ * @param uri The NanoGraph asset URI
+ * @returns A readable stream of the asset bytes
+ */
+export async function resolveAssetStream(uri: string): Promise<Readable> {
+  const asset: unknown = await resolveAsset(uri)
+
+  if (asset instanceof Readable) {
+    return asset
+  }
+  if (Buffer.isBuffer(asset)) {
+    return Readable.from([asset])
+  }
+  if (asset instanceof Uint8Array || asset instanceof ArrayBuffer) {
+    return Readable.from([Buffer.from(asset as ArrayBuffer)])
+  }
+  if (typeof asset === 'string') {
+    if (/^https?:\/\//i.test(asset)) {
+      const response = await fetch(asset)
+      if (!response.ok || !response.body) {
+        throw new Error(`Failed to download asset: ${response.status} ${response.statusText}`)
+      }
+      return webStreamToReadable(response.body)
+    }
+    return createReadStream(asset.startsWith('file://') ? fileURLToPath(asset) : asset)
+  }
+
+  throw new Error('Unsupported asset type returned by resolver')
+}
+
+/**
+ * Download a Fal output file and re-upload it as a NanoGraph asset
+ * @param file The Fal file reference (URL or inline base64 data)
+ * @param assetType Type of asset to register
+ * @param options Optional explicit filename; otherwise derived from the Fal file
+ * @returns The NanoGraph asset URI
+ */
+export async function rehostFalAsset(
+  file: FalFileReference | undefined,
+  assetType: RehostAssetType,
+  options: { filename?: string } = {}
+): Promise<string> {
+  let body: Buffer | Readable
+  let contentType = file?.content_type ?? (assetType === 'mesh' ? 'model/gltf-binary' : null)
+
+  if (file?.url) {
+    const response = await fetch(file.url)
+    if (!response.ok) {
+      throw new Error(`Failed to download Fal output: ${response.status} ${response.statusText}`)
+    }
+    contentType = contentType ?? response.headers.get('content-type')
+    // Stream the download straight into the asset store; upscaled videos can run to gigabytes
+    body = response.body ? webStreamToReadable(response.body) : Buffer.from(await response.arrayBuffer())
+  } else if (file?.file_data) {
+    body = Buffer.from(file.file_data, 'base64')
+  } else {
+    throw new Error('Fal response did not include a file URL or file data')
+  }
+
+  const filename = options.filename ?? (assetType === 'mesh'
+    ? file.file_name || 'model.glb'
+    : generateAssetFilename(file.url ?? '', contentType, assetType))
+
+  const uploadOptions: Record<string, any> = { type: assetType, filename }
+  if (contentType) {
+    uploadOptions.contentType = contentType
+  }
+
+  const uploadResult = await uploadAsset(body, uploadOptions)
+  if (!uploadResult?.uri) {
+    throw new Error(`Failed to upload generated ${assetType}`)
+  }
+
+  return uploadResult.uri
+}
+
 // Legacy exports for backward compatibility
 export function getVideoExtension(videoUrl: string, contentType?: string | null): string {
   return getAssetExtension(videoUrl, contentType, 'video')
@@ -0,0 +1,144 @@
+import { Parameter } from '@nanograph/sdk'
+import { FalExecutionContext, FalStatusUpdate } from './fal-execution.js'
+import { getParameterValue } from './parameter-utils.js'
+
+export interface FalNodeExecuteArgs {
+  inputs: Record<string, unknown[] | undefined>
+  parameters: Parameter[]
+  context: FalExecutionContext
+}
+
+export interface FalBatchOptions {
+  // Inputs mapped element by element; one-item lists are reused for every element, others pass through whole
+  inputs: string[]
+}
+
+type FalNodeOutputs = Record<string, unknown>
+
+/**
+ * Work out how many runs a batch needs from the mapped inputs
+ * @param inputs Node inputs
+ * @param names Inputs mapped element by element
+ * @returns Number of runs; throws when two mapped lists disagree on their length
+ */
+export const getFalBatchSize = (inputs: FalNodeExecuteArgs['inputs'], names: string[]): number => {
+  const lengths = names
+    .map((name) => ({ name, length: Array.isArray(inputs[name]) ? inputs[name]!.length : 0 }))
+    .filter(({ length }) => length > 1)
+  const [first, mismatch] = [lengths[0], lengths.find(({ length }) => length !== lengths[0]?.length)]
+  if (mismatch) {
+    throw new Error(`Batch inputs must have the same length or a single item: ${first.name} has ${first.length}, ${mismatch.name} has ${mismatch.length}`)
+  }
+  return first?.length ?? 1
+}
+
+// Element `index` of every mapped input, leaving everything else as the node received it
+const sliceInputs = (inputs: FalNodeExecuteArgs['inputs'], names: string[], index: number): FalNodeExecuteArgs['inputs'] => {
+  const sliced = { ...inputs }
+  for (const name of names) {
+    const values = inputs[name]
+    if (Array.isArray(values) && values.length > 1) {
+      sliced[name] = [values[index]]
+    }
+  }
+  return sliced
+}
+
+/**
+ * Concatenate the outputs of every run in input order, keeping each output aligned with the runs
+ * Every run gets as many items per output as the fullest run, padded with null, so with `n` items
+ * per run item `k * n + j` belongs to run `k` even when runs return several images or none
+ * @param outputs Outputs of each run, in input order
+ * @returns One list per output
+ */
+export const mergeFalOutputs = (outputs: FalNodeOutputs[]): FalNodeOutputs => {
+  const lists = outputs.map((output) => new Map(Object.entries(output ?? {}).map(([name, value]) => [name, Array.isArray(value) ? value : [value]])))
+  const names = [...new Set(lists.flatMap((list) => [...list.keys()]))]
+  return Object.fromEntries(names.map((name) => {
+    const slots = Math.max(...lists.map((list) => list.get(name)?.length ?? 0))
+    return [name, lists.flatMap((list) => Array.from({ length: slots }, (_, index) => list.get(name)?.[index] ?? null))]
+  }))
+}
+
+/**
+ * Run several executions of one node side by side under a shared status line
+ * @param context The node's execution context
+ * @param count Number of executions
+ * @param run Starts execution `index` with a context reporting as `[index/count]` and cancelled with its siblings
+ * @returns Results in index order; the first failure cancels the other executions and is rethrown
+ */
+export const runFalElements = async <T>(
+  context: FalExecutionContext,
+  count: number,
+  run: (index: number, context: FalExecutionContext) => Promise<T>
+): Promise<T[]> => {
+  // One failed element stops the rest, so a bad prompt does not keep spending on its siblings
+  const controller = new AbortController()
+  const stopAll = () => controller.abort()
+  context.signal?.addEventListener('abort', stopAll, { once: true })
+  const progress = new Array<number>(count).fill(0)
+  let failed = false
+
+  const runElement = (index: number): Promise<T> => {
+    const label = `[${index + 1}/${count}]`
+    const sendStatus = (status: FalStatusUpdate) => {
+      if (status.type === 'error') {
+        if (!failed) {
+          context.sendStatus({ ...status, message: `${label} ${status.message}` })
+        }
+        return
+      }
+      if (status.progress) {
+        progress[index] = status.progress.step / status.progress.total
+      }
+      const done = progress.reduce((sum, value) => sum + value, 0) / count
+      context.sendStatus({ ...status, message: `${label} ${status.message}`, progress: { step: Math.round(done * 100), total: 100 } })
+    }
+    // Keep everything else the runtime put on the context, only status and cancellation are per element
+    const elementContext = Object.assign(Object.create(context), { sendStatus, signal: controller.signal })
+    return run(index, elementContext)
+  }
+
+  try {
+    return await Promise.all(Array.from({ length: count }, (_, index) => runElement(index).catch((error) => {
+      if (!failed) {
+        failed = true
+        controller.abort()
+      }
+      throw error
+    })))
+  } finally {
+    context.signal?.removeEventListener('abort', stopAll)
+  }
+}
+
+/**
+ * Let a node map over lists of prompts or images when its 'batch_mode' parameter is on
+ * @param options Inputs to map element by element
+ * @param execute The node's single-request execute function
+ * @returns Execute function running one Fal request per element and returning aligned output lists
+ */
+export const withFalBatch = <TArgs extends FalNodeExecuteArgs, TOutput extends FalNodeOutputs>(
+  options: FalBatchOptions,
+  execute: (args: TArgs) => Promise<TOutput>
+) => async (args: TArgs): Promise<TOutput> => {
+  const { inputs, parameters, context } = args
+  if (!getParameterValue(parameters, 'batch_mode', false)) {
+    return execute(args)
+  }
+
+  let size: number
+  try {
+    size = getFalBatchSize(inputs, options.inputs)
+  } catch (error: any) {
+    context.sendStatus({ type: 'error', message: error.message })
+    throw error
+  }
+  if (size === 1) {
+    return execute(args)
+  }
+
+  const outputs = await runFalElements(context, size, (index, elementContext) =>
+    execute({ ...args, inputs: sliceInputs(inputs, options.inputs, index), context: elementContext }))
+  return mergeFalOutputs(outputs) as TOutput
+}
@@ -0,0 +1,103 @@
+import { formatUsd } from './fal-pricing.js'
+import { summarizeFalSpend } from './fal-spend.js'
+
+export interface FalBudgetLimits {
+  perExecutionUsd?: number
+  perDayUsd?: number
+  // Applies to one run of a workflow, across all its Fal nodes
+  perWorkflowUsd?: number
+}
+
+export interface FalBudgetRequest {
+  endpoint: string
+  costUsd: number
+  workflowId?: string
+  runId?: string
+}
+
+export class FalBudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FalBudgetExceededError'
+  }
+}
+
+// Calls that passed the check but are not in the ledger yet, so parallel nodes cannot overrun a limit together
+const reservations = new Set<FalBudgetRequest>()
+let checking: Promise<unknown> = Promise.resolve()
+let warnedMissingRunId = false
+
+const readLimit = (name: string): number | undefined => {
+  const raw = process.env[name]?.trim()
+  const value = raw ? Number(raw) : NaN
+  return Number.isFinite(value) && value >= 0 ? value : undefined
+}
+
+export const getFalBudgetLimits = (): FalBudgetLimits => ({
+  perExecutionUsd: readLimit('FAL_BUDGET_PER_EXECUTION_USD'),
+  perDayUsd: readLimit('FAL_BUDGET_PER_DAY_USD'),
+  perWorkflowUsd: readLimit('FAL_BUDGET_PER_WORKFLOW_USD')
+})
+
+const startOfDay = (): Date => {
+  const now = new Date()
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate())
+}
+
+const reservedUsd = (filter: (request: FalBudgetRequest) => boolean): number =>
+  Array.from(reservations).filter(filter).reduce((sum, request) => sum + request.costUsd, 0)
+
+const checkAndHold = async (request: FalBudgetRequest): Promise<() => void> => {
+  const limits = getFalBudgetLimits()
+  const cost = formatUsd(request.costUsd)
+  const exceeded = (scope: string, limit: number, variable: string, spent?: number) =>
+    new FalBudgetExceededError(
+      `${request.endpoint} would cost about ${cost}` +
+      `${spent !== undefined ? ` on top of ${formatUsd(spent)} spent or in flight` : ''}, ` +
+      `over the ${scope} budget of ${formatUsd(limit)} (${variable})`
+    )
+
+  if (limits.perExecutionUsd !== undefined && request.costUsd > limits.perExecutionUsd) {
+    throw exceeded('per-execution', limits.perExecutionUsd, 'FAL_BUDGET_PER_EXECUTION_USD')
+  }
+
+  if (limits.perDayUsd !== undefined) {
+    const spent = (await summarizeFalSpend({ since: startOfDay() })).totalUsd + reservedUsd(() => true)
+    if (spent + request.costUsd > limits.perDayUsd) {
+      throw exceeded('daily', limits.perDayUsd, 'FAL_BUDGET_PER_DAY_USD', spent)
+    }
+  }
+
+  const { runId } = request
+  // Without a run id the spend of this run cannot be told apart; the other limits still apply
+  if (limits.perWorkflowUsd !== undefined && !runId && !warnedMissingRunId) {
+    warnedMissingRunId = true
+    console.warn('[Fal] FAL_BUDGET_PER_WORKFLOW_USD is set but the runtime passes no workflow run id, so the per-workflow budget is not enforced')
+  }
+
+  if (limits.perWorkflowUsd !== undefined && runId) {
+    const spent = ((await summarizeFalSpend()).byRun[runId] ?? 0) + reservedUsd((reserved) => reserved.runId === runId)
+    if (spent + request.costUsd > limits.perWorkflowUsd) {
+      throw exceeded('per-workflow', limits.perWorkflowUsd, 'FAL_BUDGET_PER_WORKFLOW_USD', spent)
+    }
+  }
+
+  const held = { ...request }
+  reservations.add(held)
+  return () => {
+    reservations.delete(held)
+  }
+}
+
+/**
+ * Check an estimated Fal call against the configured spend limits and hold its cost until it is recorded
+ * @param request Endpoint, estimated cost and the workflow run it belongs to
+ * @returns Releases the hold; call it once the spend is in the ledger or the call failed
+ * @throws FalBudgetExceededError when the call would go over a limit
+ */
+export const reserveFalBudget = (request: FalBudgetRequest): Promise<() => void> => {
+  // One check at a time, otherwise two nodes could both see room for themselves
+  const run = checking.then(() => checkAndHold(request))
+  checking = run.catch(() => undefined)
+  return run
+}
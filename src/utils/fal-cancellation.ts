@@ -0,0 +1,92 @@
+import { fal, FalClient } from './fal-client.js'
+
+export interface ActiveFalRequest {
+  endpoint: string
+  requestId?: string
+  controller: AbortController
+  // Client the request was submitted with, so a cancel uses the same Fal key
+  client?: FalClient
+  // Set when the server stops waiting but leaves the Fal job running for a later reattach
+  detached?: boolean
+}
+
+export class FalCancelledError extends Error {
+  constructor(message = 'Fal request was cancelled') {
+    super(message)
+    this.name = 'FalCancelledError'
+  }
+}
+
+const activeRequests = new Set<ActiveFalRequest>()
+
+const cancelQueuedRequest = async (request: ActiveFalRequest): Promise<void> => {
+  if (!request.requestId) {
+    return
+  }
+  try {
+    await (request.client ?? fal).queue.cancel(request.endpoint, { requestId: request.requestId })
+  } catch (error) {
+    // The job may already be finished or past the point where Fal can stop it
+    console.warn(`[Fal] Failed to cancel request ${request.requestId} on ${request.endpoint}:`, error)
+  }
+}
+
+/**
+ * Register an in-flight Fal call so it can be cancelled on shutdown or by the caller's signal
+ * @param endpoint Fal endpoint id the request is submitted to
+ * @param signal Optional abort signal from the execution context
+ * @returns Handle to pass to the Fal client and release once the call settles
+ */
+export const trackFalRequest = (endpoint: string, signal?: AbortSignal): ActiveFalRequest => {
+  const request: ActiveFalRequest = { endpoint, controller: new AbortController() }
+  activeRequests.add(request)
+
+  if (signal?.aborted) {
+    request.controller.abort()
+  } else {
+    signal?.addEventListener('abort', () => { void cancelFalRequest(request) }, { once: true })
+  }
+
+  return request
+}
+
+// Record the queue request id; a cancel that arrived before enqueue is forwarded now
+export const setFalRequestId = (request: ActiveFalRequest, requestId: string): void => {
+  if (request.requestId === requestId) {
+    return
+  }
+  request.requestId = requestId
+  if (request.controller.signal.aborted) {
+    void cancelQueuedRequest(request)
+  }
+}
+
+export const releaseFalRequest = (request: ActiveFalRequest): void => {
+  activeRequests.delete(request)
+}
+
+export const cancelFalRequest = async (request: ActiveFalRequest): Promise<void> => {
+  if (request.controller.signal.aborted) {
+    return
+  }
+  request.controller.abort()
+  await cancelQueuedRequest(request)
+}
+
+/**
+ * Abort every in-flight Fal call and ask the Fal queue to stop the matching jobs
+ */
+export const cancelActiveFalRequests = async (): Promise<void> => {
+  await Promise.all(Array.from(activeRequests).map(cancelFalRequest))
+}
+
+/**
+ * Stop waiting on every in-flight Fal call without cancelling the Fal jobs
+ */
+export const detachActiveFalRequests = (): void => {
+  for (const request of activeRequests) {
+    request.detached = true
+    request.controller.abort()
+  }
+}
+
@@ -1,20 +1,206 @@
-import { fal } from '@fal-ai/client'
+import { ApiError, createFalClient, fal, FalClient, ValidationError } from '@fal-ai/client'
 import dotenv from 'dotenv'
+import { createFalRecordingClient, getFalRecordingDirectory } from './fal-recorder.js'
 
 dotenv.config()
 
-// Configure Fal.ai client
-export const configureFalClient = () => {
-  const apiKey = process.env.FAL_KEY
+export const defaultFalCredentialProfile = 'default'
+
+const namedKeyPrefix = 'FAL_KEY_'
+const clients = new Map<string, { apiKey: string, client: FalClient }>()
+// Replaces fal.ai for every profile and storage upload when set, see createFalMockClient
+let transport: FalClient | undefined
+
+/**
+ * Route every Fal call through another client, e.g. the offline mock, or back to fal.ai
+ * @param client Client serving queue, realtime and storage calls; undefined restores the real one
+ */
+export const setFalTransport = (client: FalClient | undefined) => {
+  transport = client
+}
+
+export const getFalTransport = (): FalClient | undefined => transport
+
+/**
+ * Credential profiles available to nodes: FAL_KEY is 'default', FAL_KEY_TEAM_A is 'team_a'
+ * @returns Profile names, 'default' first when FAL_KEY is set
+ */
+export const listFalCredentialProfiles = (): string[] => {
+  const named = Object.keys(process.env)
+    .filter((name) => name.startsWith(namedKeyPrefix) && process.env[name]?.trim())
+    .map((name) => name.slice(namedKeyPrefix.length).toLowerCase())
+    .sort()
+  return process.env.FAL_KEY?.trim() ? [defaultFalCredentialProfile, ...named] : named
+}
+
+/**
+ * Look up the Fal key of a credential profile
+ * @param profile Profile name; empty or 'default' means FAL_KEY
+ * @returns The API key
+ */
+export const getFalCredentials = (profile?: string): string => {
+  const name = profile?.trim().toLowerCase() || defaultFalCredentialProfile
+  const apiKey = name === defaultFalCredentialProfile
+    ? process.env.FAL_KEY?.trim()
+    : process.env[`${namedKeyPrefix}${name.toUpperCase()}`]?.trim()
   if (!apiKey) {
-    throw new Error('FAL_KEY environment variable is required')
+    // The mock transport needs no key, but spend entries still want an id per profile
+    if (transport) {
+      return `mock-${name}:mock`
+    }
+    throw new Error(name === defaultFalCredentialProfile
+      ? 'FAL_KEY environment variable is required'
+      : `Fal credential profile '${name}' is not configured (set ${namedKeyPrefix}${name.toUpperCase()})`)
+  }
+  return apiKey
+}
+
+/**
+ * Fal client bound to one credential profile; each request uses its own client so concurrent runs never share a key
+ * @param profile Profile name; empty or 'default' means FAL_KEY
+ * @returns A client reused for every request with the same profile and key
+ */
+export const getFalClient = (profile?: string): FalClient => {
+  if (transport) {
+    return transport
   }
-  
+  const apiKey = getFalCredentials(profile)
+  const name = profile?.trim().toLowerCase() || defaultFalCredentialProfile
+  const cached = clients.get(name)
+  if (cached?.apiKey === apiKey) {
+    return cached.client
+  }
+  const created = createFalClient({ credentials: apiKey })
+  // FAL_RECORD_FIXTURES captures real traffic as fixtures for the mock transport
+  const recordTo = getFalRecordingDirectory()
+  const client = recordTo ? createFalRecordingClient(created, recordTo, apiKey) : created
+  clients.set(name, { apiKey, client })
+  return client
+}
+
+// Configure the shared client used for storage uploads, which do not depend on who pays for the run
+export const configureFalClient = () => {
   fal.config({
-    credentials: apiKey
+    credentials: getFalCredentials(listFalCredentialProfiles()[0])
   })
-  
+
   return fal
 }
 
-export { fal } 
\ No newline at end of file
+// Storage of the active transport; uploads go through here so the mock can serve them offline
+export const getFalStorage = (): FalClient['storage'] => (transport ?? fal).storage
+
+export { fal }
+export type { FalClient }
+
+export type FalErrorKind = 'validation' | 'content_policy' | 'rate_limit' | 'transient' | 'cancelled' | 'fatal'
+
+export interface FalRetryInfo {
+  attempt: number
+  maxAttempts: number
+  delayMs: number
+  kind: FalErrorKind
+  error: unknown
+}
+
+export interface FalRetryOptions {
+  maxAttempts?: number
+  baseDelayMs?: number
+  maxDelayMs?: number
+  signal?: AbortSignal
+  onRetry?: (info: FalRetryInfo) => void
+}
+
+const transientStatuses = new Set([408, 500, 502, 503, 504, 520, 522, 524])
+const transientNetworkCodes = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ENOTFOUND', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'])
+const contentPolicyPattern = /content[\s_-]?policy|nsfw|unsafe content|safety (checker|filter)|flagged/i
+
+const mentionsContentPolicy = (error: ApiError<any>): boolean => {
+  const details = Array.isArray(error.body?.detail) ? error.body.detail : []
+  return details.some((detail: any) => detail?.type === 'content_policy_violation' || contentPolicyPattern.test(String(detail?.msg ?? ''))) ||
+    contentPolicyPattern.test(typeof error.body?.detail === 'string' ? error.body.detail : error.message)
+}
+
+/**
+ * Classify an error thrown by the Fal client so callers know whether retrying can help
+ * @param error Error thrown by fal.subscribe, fal.queue.* or fal.storage.upload
+ * @returns The error kind; only 'rate_limit' and 'transient' are retryable
+ */
+export const classifyFalError = (error: unknown): FalErrorKind => {
+  const err = error as any
+  if (err?.name === 'AbortError' || err?.name === 'FalCancelledError') {
+    return 'cancelled'
+  }
+
+  if (error instanceof ApiError) {
+    if (mentionsContentPolicy(error)) {
+      return 'content_policy'
+    }
+    if (error instanceof ValidationError || error.status === 422) {
+      return 'validation'
+    }
+    if (error.status === 429) {
+      return 'rate_limit'
+    }
+    if (transientStatuses.has(error.status)) {
+      return 'transient'
+    }
+    return 'fatal'
+  }
+
+  // Network failures surface from fetch as TypeError('fetch failed') with the socket error as cause
+  const code = err?.code ?? err?.cause?.code
+  if (transientNetworkCodes.has(code) || (err instanceof TypeError && /fetch failed|network/i.test(err.message))) {
+    return 'transient'
+  }
+
+  return 'fatal'
+}
+
+export const isRetryableFalError = (kind: FalErrorKind): boolean => kind === 'rate_limit' || kind === 'transient'
+
+const waitFor = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort)
+    resolve()
+  }, ms)
+  const onAbort = () => {
+    clearTimeout(timer)
+    reject(signal?.reason ?? new Error('Aborted'))
+  }
+  signal?.addEventListener('abort', onAbort, { once: true })
+})
+
+/**
+ * Run a Fal call, retrying rate limits and transient failures with jittered exponential backoff
+ * @param operation The call to run; receives the 1-based attempt number
+ * @param options Attempt limits, abort signal and a hook to report retries
+ * @returns The result of the first successful attempt
+ */
+export const withFalRetry = async <T>(operation: (attempt: number) => Promise<T>, options: FalRetryOptions = {}): Promise<T> => {
+  const maxAttempts = Math.max(1, options.maxAttempts ?? 3)
+  const baseDelayMs = options.baseDelayMs ?? 1000
+  const maxDelayMs = options.maxDelayMs ?? 15000
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt)
+    } catch (error) {
+      const kind = classifyFalError(error)
+      if (!isRetryableFalError(kind) || attempt >= maxAttempts || options.signal?.aborted) {
+        throw error
+      }
+
+      // Rate limits back off harder than transient errors
+      const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1) * (kind === 'rate_limit' ? 2 : 1))
+      const delayMs = Math.round(exponential / 2 + Math.random() * exponential / 2)
+      const info: FalRetryInfo = { attempt, maxAttempts, delayMs, kind, error }
+      if (options.onRetry) {
+        options.onRetry(info)
+      } else {
+        console.warn(`[Fal] ${kind} error on attempt ${attempt}/${maxAttempts}, retrying in ${delayMs}ms:`, (error as Error)?.message ?? error)
+      }
+      await waitFor(delayMs, options.signal)
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import { ApiError } from '@fal-ai/client'
+
+// Maps Fal payload paths ('image_size.width', 'image_urls.1') to the NanoGraph input or parameter that fills them
+export type FalFieldNames = Record<string, string>
+
+interface FalValidationDetail {
+  loc?: Array<string | number>
+  msg?: string
+  type?: string
+  ctx?: Record<string, unknown>
+}
+
+const comparisonRules: Array<{ types: string[], pattern: RegExp, operator: string, ctxKeys: string[] }> = [
+  { types: ['less_than_equal', 'not_le'], pattern: /less than or equal to (\S+)/i, operator: '<=', ctxKeys: ['le', 'limit_value'] },
+  { types: ['greater_than_equal', 'not_ge'], pattern: /greater than or equal to (\S+)/i, operator: '>=', ctxKeys: ['ge', 'limit_value'] },
+  { types: ['less_than', 'not_lt'], pattern: /less than (\S+)/i, operator: '<', ctxKeys: ['lt', 'limit_value'] },
+  { types: ['greater_than', 'not_gt'], pattern: /greater than (\S+)/i, operator: '>', ctxKeys: ['gt', 'limit_value'] }
+]
+
+const describeDetail = (detail: FalValidationDetail): string => {
+  const type = detail.type ?? ''
+  const message = (detail.msg ?? '').trim()
+
+  for (const rule of comparisonRules) {
+    const ctxKey = rule.ctxKeys.find((key) => detail.ctx?.[key] !== undefined)
+    if (rule.types.some((candidate) => type.endsWith(candidate)) && ctxKey) {
+      return `must be ${rule.operator} ${detail.ctx![ctxKey]}`
+    }
+    const match = message.match(rule.pattern)
+    if (match) {
+      return `must be ${rule.operator} ${match[1].replace(/[.,]$/, '')}`
+    }
+  }
+
+  if (type === 'missing' || type.endsWith('.missing') || /field required/i.test(message)) {
+    return 'is required'
+  }
+
+  if (type === 'literal_error' || type === 'enum' || type.endsWith('not_a_valid_enumeration_member')) {
+    const expected = detail.ctx?.expected ?? detail.ctx?.enum_values
+    if (expected) {
+      return `must be one of ${Array.isArray(expected) ? expected.join(', ') : expected}`
+    }
+  }
+
+  return message ? message.charAt(0).toLowerCase() + message.slice(1) : 'is invalid'
+}
+
+// Node inputs follow Fal naming minus the URL suffix: image_url <- image, image_urls[1] <- image2
+const conventionalName = (field: string, index: number | undefined): string | undefined => {
+  const base = field.replace(/^input_/, '')
+  if (base.endsWith('_url')) {
+    return base.slice(0, -'_url'.length)
+  }
+  if (base.endsWith('_urls') && index !== undefined) {
+    return `${base.slice(0, -'_urls'.length)}${index + 1}`
+  }
+  return undefined
+}
+
+/**
+ * Translate a Fal validation location into the NanoGraph input or parameter name that produced it
+ * @param loc Location from the Fal 422 detail entry, e.g. ['body', 'image_urls', 1]
+ * @param fieldNames Explicit payload path to node field overrides
+ * @returns A readable field reference such as 'guidance_scale' or 'image2'
+ */
+export const resolveFalFieldName = (loc: Array<string | number>, fieldNames: FalFieldNames = {}): string => {
+  const path = loc[0] === 'body' ? loc.slice(1) : loc
+  if (!path.length) {
+    return 'request'
+  }
+
+  // Longest explicitly mapped prefix wins, remaining segments are kept for context
+  for (let length = path.length; length > 0; length--) {
+    const mapped = fieldNames[path.slice(0, length).join('.')]
+    if (mapped) {
+      return [mapped, ...path.slice(length)].join('.')
+    }
+  }
+
+  const [field, next] = path
+  const conventional = conventionalName(String(field), typeof next === 'number' ? next : undefined)
+  if (conventional) {
+    return [conventional, ...path.slice(typeof next === 'number' ? 2 : 1)].join('.')
+  }
+
+  return path.map((segment, index) => (typeof segment === 'number' ? `[${segment}]` : `${index ? '.' : ''}${segment}`)).join('')
+}
+
+/**
+ * Render a Fal 422 response as "field: problem" lines using NanoGraph field names
+ * @param error Error thrown by the Fal client
+ * @param fieldNames Explicit payload path to node field overrides
+ * @returns The readable message, or undefined when the error carries no validation details
+ */
+export const formatFalValidationError = (error: unknown, fieldNames?: FalFieldNames): string | undefined => {
+  if (!(error instanceof ApiError) || error.status !== 422) {
+    return undefined
+  }
+
+  const details: FalValidationDetail[] = Array.isArray(error.body?.detail) ? error.body.detail : []
+  if (!details.length) {
+    return typeof error.body?.detail === 'string' ? error.body.detail : undefined
+  }
+
+  return details
+    .map((detail) => `${resolveFalFieldName(detail.loc ?? [], fieldNames)}: ${describeDetail(detail)}`)
+    .join('; ')
+}
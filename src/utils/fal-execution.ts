@@ -0,0 +1,410 @@
+import { QueueStatus } from '@fal-ai/client'
+import { classifyFalError, configureFalClient, FalRetryInfo, getFalClient, getFalCredentials, withFalRetry } from './fal-client.js'
+import { FalCancelledError, releaseFalRequest, setFalRequestId, trackFalRequest } from './fal-cancellation.js'
+import { FalFieldNames, formatFalValidationError } from './fal-errors.js'
+import { claimFalJournalEntry, createFalJobKey, isFalJournalEnabled, recordFalJournalEntry, removeFalJournalEntry, takeFalJournalResult } from './fal-journal.js'
+import { isDeterministicFalPayload, isFalResultCacheEnabled, readFalResult, writeFalResult } from './fal-result-cache.js'
+import { createFalRunBucket, getExpectedFalRunMs, recordFalRunDuration } from './fal-run-stats.js'
+import { getFalWebhookUrl, startFalWebhookReceiver, waitForFalWebhook } from './fal-webhook.js'
+import { FalRealtimeUnavailableError, requestFalRealtime } from './fal-realtime.js'
+import { withFalUploadReporter } from './fal-storage.js'
+import { estimateFalCost, formatUsd } from './fal-pricing.js'
+import { describeFalKey, recordFalSpend } from './fal-spend.js'
+import { reserveFalBudget } from './fal-budget.js'
+import { acquireFalSlot } from './fal-scheduler.js'
+import { formatFalSchemaIssues, getFalSchemaValidationMode, validateFalPayload, validateFalResponse } from './fal-openapi.js'
+import { unwrapFalResult } from './fal-response.js'
+import { createProgressStrategy, ProgressStrategy, ProgressStrategyOptions } from './progress-strategy.js'
+
+export interface FalStatusUpdate {
+  type: 'running' | 'error'
+  message: string
+  progress?: { step: number, total: number }
+  // Image URLs of a result that is still being finalised, shown before the assets are rehosted
+  preview?: string[]
+}
+
+// Subset of the NanoGraph execution context the runner relies on
+export interface FalExecutionContext {
+  sendStatus: (status: FalStatusUpdate) => void
+  // Aborted when the run is stopped; cancels the Fal queue request. Without it a request is only cancelled on shutdown
+  signal?: AbortSignal
+  // Identify the workflow and run in the spend ledger when the runtime provides them
+  workflowId?: string
+  runId?: string
+}
+
+export interface FalExecutionOptions<TPayload, TResult, TOutput> {
+  endpoint: string
+  context: FalExecutionContext
+  progress: ProgressStrategyOptions | ProgressStrategy
+  // Lowest step reported while queued, so progress from input uploads does not jump back
+  queueStartStep?: number
+  errorMessage: string
+  // Payload paths whose node input or parameter name differs from the Fal field, used in 422 messages
+  fieldNames?: FalFieldNames
+  buildPayload: () => TPayload | Promise<TPayload>
+  mapOutput: (result: TResult) => TOutput | Promise<TOutput>
+  // Opts the node into the FAL_RESULT_CACHE store; only payloads with a fixed seed are cached
+  resultCache?: { bypass?: boolean }
+  // Credential profile paying for the call, see listFalCredentialProfiles; FAL_KEY when unset
+  credential?: string
+  // Send the request over a shared realtime socket instead of the queue, falling back to the queue if it does not answer
+  realtime?: boolean
+}
+
+const isProgressStrategy = (value: ProgressStrategyOptions | ProgressStrategy): value is ProgressStrategy =>
+  typeof (value as ProgressStrategy).onQueue === 'function'
+
+// Webhook runs get no logs, so progress comes from the ETA on this interval
+const webhookTickMs = 2000
+// A receiver that cannot be reached would leave the node waiting forever; check the queue this often
+const webhookWatchdogMs = 30000
+
+// Status for a retried call, shared by the queue request and the input uploads of buildPayload
+const reportFalRetry = (context: FalExecutionContext, action: string) =>
+  ({ attempt, maxAttempts, delayMs, kind }: FalRetryInfo) => {
+    const reason = kind === 'rate_limit' ? 'Fal rate limit hit' : 'Temporary Fal error'
+    context.sendStatus({
+      type: 'running',
+      message: `${reason}, ${action} in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1}/${maxAttempts})...`
+    })
+  }
+
+/**
+ * Run a single Fal endpoint call with uniform progress and error reporting
+ * @param options Endpoint id, payload builder, output mapper and progress settings
+ * @returns The node outputs produced by the mapper
+ */
+export const runFalExecution = async <TPayload, TResult, TOutput>(
+  options: FalExecutionOptions<TPayload, TResult, TOutput>
+): Promise<TOutput> => {
+  const { context } = options
+  const request = trackFalRequest(options.endpoint, context.signal)
+  const { signal } = request.controller
+  let jobKey: string | undefined
+  let releaseBudget: (() => void) | undefined
+  let releaseSlot: (() => void) | undefined
+
+  try {
+    configureFalClient()
+    let client = getFalClient(options.credential)
+    request.client = client
+
+    const payload = await withFalUploadReporter({
+      onRetry: reportFalRetry(context, 'retrying upload'),
+      onStatus: (message) => context.sendStatus({ type: 'running', message })
+    }, () => options.buildPayload())
+    if (signal.aborted) {
+      throw new FalCancelledError()
+    }
+
+    // Contract check against the specs from scripts/collect-openapi.ts, opt-in via FAL_VALIDATE_SCHEMAS
+    const schemaMode = getFalSchemaValidationMode()
+    if (schemaMode !== 'off') {
+      const issues = await validateFalPayload(options.endpoint, payload)
+      if (issues?.length) {
+        const message = `Payload for ${options.endpoint} does not match its OpenAPI schema: ${formatFalSchemaIssues(issues, options.fieldNames)}`
+        if (schemaMode === 'strict') {
+          throw new Error(message)
+        }
+        console.warn(`[Fal] ${message}`)
+      }
+    }
+
+    const cacheKey = options.resultCache && isFalResultCacheEnabled() && isDeterministicFalPayload(payload)
+      ? createFalJobKey(options.endpoint, payload)
+      : undefined
+    if (cacheKey && !options.resultCache?.bypass) {
+      const cached = await readFalResult<TOutput>(cacheKey)
+      if (cached !== undefined) {
+        context.sendStatus({ type: 'running', message: 'Using cached result', progress: { step: 100, total: 100 } })
+        return cached
+      }
+    }
+
+    // Durations of earlier runs with the same endpoint and size settings replace the node's guess
+    const estimatedCost = estimateFalCost(options.endpoint, payload)
+    if (estimatedCost !== undefined) {
+      context.sendStatus({ type: 'running', message: `Estimated cost: ${formatUsd(estimatedCost)}` })
+      // Spend limits from FAL_BUDGET_* are enforced here, before anything is submitted
+      releaseBudget = await reserveFalBudget({
+        endpoint: options.endpoint,
+        costUsd: estimatedCost,
+        workflowId: context.workflowId,
+        runId: context.runId
+      })
+    }
+
+    // Realtime answers are timed apart from queue runs, so neither skews the other's estimate
+    const runBucket = createFalRunBucket(options.endpoint, payload)
+    const realtimeBucket = createFalRunBucket(options.endpoint, payload, 'realtime')
+    let answeredOverRealtime = false
+    const learnedMs = await getExpectedFalRunMs(options.realtime ? realtimeBucket : runBucket).catch(() => undefined)
+    const strategy = isProgressStrategy(options.progress)
+      ? options.progress
+      : createProgressStrategy({ endpoint: options.endpoint, ...options.progress, expectedMs: learnedMs ?? options.progress.expectedMs })
+    const queueStartStep = options.queueStartStep ?? 0
+    let stepCount = 0
+    let submittedAt = 0
+    let startedAt = 0
+    let resumed = false
+
+    const onQueueUpdate = (status: QueueStatus) => {
+      setFalRequestId(request, status.request_id)
+      if (status.status === 'IN_QUEUE') {
+        const update = strategy.onQueue()
+        const step = Math.max(queueStartStep, update.progress.step)
+        context.sendStatus({ type: 'running', message: update.message, progress: { step, total: update.progress.total } })
+      } else if (status.status === 'IN_PROGRESS') {
+        startedAt ||= Date.now()
+        stepCount += 1
+        const update = strategy.onProgress(status, stepCount)
+        context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
+      } else if (status.status === 'COMPLETED') {
+        const update = strategy.onCompleted()
+        context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
+      }
+    }
+
+    const onEnqueue = (requestId: string) => {
+      setFalRequestId(request, requestId)
+      if (jobKey) {
+        recordFalJournalEntry({
+          key: jobKey,
+          endpoint: options.endpoint,
+          requestId,
+          submittedAt: new Date().toISOString(),
+          credential: options.credential,
+          workflowId: context.workflowId
+        }).catch((error) => {
+          console.warn('[Fal] Failed to record job journal entry:', error?.message ?? error)
+        })
+      }
+    }
+
+    const subscribe = async (): Promise<TResult> => {
+      submittedAt = Date.now()
+      return await client.subscribe(options.endpoint, {
+        input: payload as any,
+        logs: true,
+        abortSignal: signal,
+        onEnqueue,
+        onQueueUpdate
+      }) as TResult
+    }
+
+    // Submit with a callback URL and complete when Fal POSTs the result to the local receiver
+    const submitWithWebhook = async (webhookUrl: string): Promise<TResult> => {
+      const listening = await startFalWebhookReceiver().then(() => true, (error) => {
+        console.warn('[Fal] Webhook receiver unavailable, polling instead:', error?.message ?? error)
+        return false
+      })
+      if (!listening) {
+        return await subscribe()
+      }
+      submittedAt = Date.now()
+      const queued = await client.queue.submit(options.endpoint, { input: payload as any, webhookUrl, abortSignal: signal })
+      onEnqueue(queued.request_id)
+      onQueueUpdate(queued)
+
+      const waiting = new AbortController()
+      const stopWaiting = () => waiting.abort()
+      signal.addEventListener('abort', stopWaiting, { once: true })
+      const ticker = setInterval(() => {
+        stepCount += 1
+        const update = strategy.onProgress({ ...queued, status: 'IN_PROGRESS', logs: [] } as QueueStatus, stepCount)
+        context.sendStatus({ type: 'running', message: update.message, progress: update.progress })
+      }, webhookTickMs)
+      const watchdog = new Promise<TResult>((resolve, reject) => {
+        const check = setInterval(() => {
+          client.queue.status(options.endpoint, { requestId: queued.request_id, abortSignal: waiting.signal })
+            .then((status) => {
+              if (status.status === 'COMPLETED') {
+                clearInterval(check)
+                // The job is over and polling has stopped, so a failed result has to settle the node
+                client.queue.result(options.endpoint, { requestId: queued.request_id, abortSignal: waiting.signal })
+                  .then((result) => resolve(result as TResult), reject)
+              }
+            }, (error) => {
+              // A failed status check is retried on the next tick
+              if (waiting.signal.aborted) {
+                clearInterval(check)
+                reject(error)
+              }
+            })
+        }, webhookWatchdogMs)
+        waiting.signal.addEventListener('abort', () => clearInterval(check), { once: true })
+      })
+
+      try {
+        return await Promise.race([waitForFalWebhook<TResult>(queued.request_id, waiting.signal), watchdog])
+      } finally {
+        clearInterval(ticker)
+        signal.removeEventListener('abort', stopWaiting)
+        waiting.abort()
+      }
+    }
+
+    const submitRealtime = async (): Promise<TResult> => {
+      submittedAt = Date.now()
+      context.sendStatus({ type: 'running', message: 'Sending over realtime connection...', progress: { step: Math.max(queueStartStep, 10), total: 100 } })
+      try {
+        const result = await requestFalRealtime<TResult>(options.endpoint, payload as Record<string, unknown>, {
+          signal,
+          credential: options.credential,
+          onMessage: (message) => {
+            const preview = (Array.isArray(message?.images) ? message.images : [])
+              .map((image: { url?: string }) => image?.url)
+              .filter((url: unknown): url is string => typeof url === 'string')
+            if (preview.length) {
+              context.sendStatus({ type: 'running', message: 'Preview ready', progress: { step: 90, total: 100 }, preview })
+            }
+          }
+        })
+        answeredOverRealtime = true
+        return result
+      } catch (error) {
+        if (!(error instanceof FalRealtimeUnavailableError)) {
+          throw error
+        }
+        console.warn(`[Fal] Realtime unavailable for ${options.endpoint}, using the queue:`, error.message)
+        context.sendStatus({ type: 'running', message: 'Realtime connection did not answer, sending through the queue...', progress: { step: queueStartStep, total: 100 } })
+        return await subscribe()
+      }
+    }
+
+    // Polling stays the default; webhooks need FAL_WEBHOOK_URL to reach this server
+    const webhookUrl = getFalWebhookUrl()
+    const submit = (): Promise<TResult> => (options.realtime
+      ? submitRealtime()
+      : webhookUrl ? submitWithWebhook(webhookUrl) : subscribe())
+
+    // Reattach to a job submitted before a server restart instead of paying for it twice
+    const reattach = async (requestId: string): Promise<TResult> => {
+      resumed = true
+      setFalRequestId(request, requestId)
+      // Fetched at startup when the job finished while the server was down
+      const finished = takeFalJournalResult(requestId)
+      if (finished !== undefined) {
+        context.sendStatus({ type: 'running', message: 'Collecting Fal job finished during the restart...' })
+        return finished as TResult
+      }
+      context.sendStatus({ type: 'running', message: 'Reattaching to running Fal job...' })
+      await client.queue.subscribeToStatus(options.endpoint, { requestId, logs: true, abortSignal: signal, onQueueUpdate })
+      return await client.queue.result(options.endpoint, { requestId, abortSignal: signal }) as TResult
+    }
+
+    // Realtime requests never enter the queue, so there is nothing to reattach to
+    jobKey = isFalJournalEnabled() && !options.realtime ? createFalJobKey(options.endpoint, payload) : undefined
+    const journaled = jobKey ? await claimFalJournalEntry(jobKey) : undefined
+
+    if (journaled) {
+      try {
+        // The job can only be read back with the key that submitted it
+        const journaledClient = getFalClient(journaled.credential)
+        await journaledClient.queue.status(options.endpoint, { requestId: journaled.requestId, abortSignal: signal })
+        client = journaledClient
+        request.client = client
+        setFalRequestId(request, journaled.requestId)
+      } catch (error) {
+        if (signal.aborted) {
+          throw error
+        }
+        console.warn(`[Fal] Could not reattach to ${journaled.requestId}, submitting again:`, (error as Error)?.message ?? error)
+        await removeFalJournalEntry(journaled.requestId).catch(() => undefined)
+      }
+    }
+
+    // Wait for a local slot (FAL_MAX_CONCURRENCY*) so a wide fan-out does not run into Fal rate limits
+    releaseSlot = await acquireFalSlot({
+      endpoint: options.endpoint,
+      group: context.runId ?? context.workflowId,
+      signal,
+      onWait: (position, queued) => {
+        context.sendStatus({ type: 'running', message: `Waiting for local slot ${position}/${queued}...`, progress: { step: queueStartStep, total: 100 } })
+      }
+    })
+
+    // Once a request id is known a retry only resumes polling, so a flaky connection never bills twice
+    const result = await withFalRetry(
+      () => (request.requestId ? reattach(request.requestId) : submit()),
+      {
+        signal,
+        onRetry: reportFalRetry(context, 'retrying')
+      }
+    )
+
+    // Resumed jobs are skipped, their queue time is unknown
+    if (!resumed) {
+      const finishedAt = Date.now()
+      const runStartedAt = startedAt || submittedAt
+      const bucket = answeredOverRealtime ? realtimeBucket : runBucket
+      await recordFalRunDuration(bucket, { queueMs: runStartedAt - submittedAt, runMs: finishedAt - runStartedAt }).catch((error) => {
+        console.warn('[Fal] Failed to record run duration:', error?.message ?? error)
+      })
+    }
+
+    if (estimatedCost !== undefined) {
+      await recordFalSpend({
+        endpoint: options.endpoint,
+        costUsd: estimatedCost,
+        key: describeFalKey(getFalCredentials(options.credential)),
+        workflowId: context.workflowId,
+        runId: context.runId
+      }).catch((error) => {
+        console.warn('[Fal] Failed to record spend:', error?.message ?? error)
+      })
+    }
+
+    // Rehosting outputs does not talk to the Fal queue, so let the next request in
+    releaseSlot()
+
+    // The result is paid for by now, so a response that drifted from the spec is only reported
+    if (schemaMode !== 'off') {
+      const issues = await validateFalResponse(options.endpoint, unwrapFalResult(result))
+      if (issues?.length) {
+        console.warn(`[Fal] Response from ${options.endpoint} does not match its OpenAPI schema: ${formatFalSchemaIssues(issues)}`)
+      }
+    }
+
+    const output = await options.mapOutput(result)
+    if (jobKey && request.requestId) {
+      await removeFalJournalEntry(request.requestId).catch(() => undefined)
+    }
+    // A bypassed run still refreshes the stored result for the next cached run
+    if (cacheKey) {
+      await writeFalResult(cacheKey, options.endpoint, output).catch((error) => {
+        console.warn('[Fal] Failed to cache result:', error?.message ?? error)
+      })
+    }
+    return output
+  } catch (error: any) {
+    // Detached jobs keep their journal entry so the next run can pick the result up
+    if (jobKey && request.requestId && !request.detached) {
+      await removeFalJournalEntry(request.requestId).catch(() => undefined)
+    }
+    if (signal.aborted && !(error instanceof FalCancelledError)) {
+      const cancelled = new FalCancelledError()
+      context.sendStatus({ type: 'error', message: cancelled.message })
+      throw cancelled
+    }
+    const kind = classifyFalError(error)
+    const validation = kind === 'validation' ? formatFalValidationError(error, options.fieldNames) : undefined
+    const message = kind === 'content_policy'
+      ? `Fal rejected the request under its content policy: ${error?.message || options.errorMessage}`
+      : validation
+        ? `Invalid ${options.endpoint} request: ${validation}`
+        : error?.message || options.errorMessage
+    if (validation && error instanceof Error) {
+      error.message = message
+    }
+    context.sendStatus({ type: 'error', message })
+    throw error
+  } finally {
+    releaseBudget?.()
+    releaseSlot?.()
+    releaseFalRequest(request)
+  }
+}
+
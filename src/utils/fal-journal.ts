@@ -0,0 +1,170 @@
+import { createHash, randomUUID } from 'node:crypto'
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { getFalClient } from './fal-client.js'
+
+export interface FalJournalEntry {
+  key: string
+  endpoint: string
+  requestId: string
+  submittedAt: string
+  // Credential profile the job was submitted with
+  credential?: string
+  // Workflow the submitting node ran in, for the restart report
+  workflowId?: string
+  // Process that is waiting on the job; entries of other processes were left by a restart
+  owner?: string
+}
+
+export interface FalJournalResume extends FalJournalEntry {
+  status: 'IN_QUEUE' | 'IN_PROGRESS' | 'COMPLETED'
+}
+
+// Fal keeps queue results for a limited time; older entries cannot be reattached
+const maxEntryAgeMs = 24 * 60 * 60 * 1000
+
+const processOwner = randomUUID()
+
+// Results of jobs that finished while the server was down, fetched at startup for the next run
+const resumedResults = new Map<string, unknown>()
+
+let writeChain: Promise<unknown> = Promise.resolve()
+
+export const getFalJournalPath = (): string | undefined => {
+  const configured = process.env.FAL_JOB_JOURNAL?.trim()
+  return configured ? path.resolve(configured) : undefined
+}
+
+export const isFalJournalEnabled = (): boolean => Boolean(getFalJournalPath())
+
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+// Identifies a Fal call by endpoint and payload so a re-run after a restart finds its earlier job
+export const createFalJobKey = (endpoint: string, payload: unknown): string =>
+  createHash('sha256').update(endpoint).update('\n').update(stableStringify(payload)).digest('hex')
+
+const readEntries = async (journalPath: string): Promise<FalJournalEntry[]> => {
+  try {
+    const parsed = JSON.parse(await readFile(journalPath, 'utf8'))
+    return Array.isArray(parsed) ? parsed as FalJournalEntry[] : []
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      console.warn(`[Fal] Ignoring unreadable job journal ${journalPath}:`, error?.message ?? error)
+    }
+    return []
+  }
+}
+
+// Serialise read-modify-write cycles so concurrent node executions do not drop entries
+const updateEntries = (update: (entries: FalJournalEntry[]) => FalJournalEntry[]): Promise<void> => {
+  const journalPath = getFalJournalPath()
+  if (!journalPath) {
+    return Promise.resolve()
+  }
+
+  const run = writeChain.then(async () => {
+    const entries = update(await readEntries(journalPath))
+    await mkdir(path.dirname(journalPath), { recursive: true })
+    const tempPath = `${journalPath}.${process.pid}.tmp`
+    await writeFile(tempPath, JSON.stringify(entries, null, 2), 'utf8')
+    await rename(tempPath, journalPath)
+  })
+  writeChain = run.catch(() => undefined)
+  return run
+}
+
+/**
+ * Take over a job with this key that a previous process left running
+ * Jobs of this process are never handed out, so concurrent runs with the same payload each keep their own job
+ * @param key Job key from createFalJobKey
+ * @returns The entry, now owned by this process, or undefined when there is none to reattach to
+ */
+export const claimFalJournalEntry = async (key: string): Promise<FalJournalEntry | undefined> => {
+  let claimed: FalJournalEntry | undefined
+  await updateEntries((entries) => entries.map((entry) => {
+    if (claimed || entry.key !== key || entry.owner === processOwner) {
+      return entry
+    }
+    claimed = { ...entry, owner: processOwner }
+    return claimed
+  }))
+  return claimed
+}
+
+export const recordFalJournalEntry = (entry: Omit<FalJournalEntry, 'owner'>): Promise<void> =>
+  updateEntries((entries) => [...entries.filter((existing) => existing.requestId !== entry.requestId), { ...entry, owner: processOwner }])
+
+export const removeFalJournalEntry = (requestId: string): Promise<void> => {
+  resumedResults.delete(requestId)
+  return updateEntries((entries) => entries.filter((entry) => entry.requestId !== requestId))
+}
+
+/**
+ * Hand out the result fetched by resumeFalJournal for a job that finished during the restart
+ * @param requestId Fal request id of the claimed job
+ * @returns The queue result, or undefined when it has to be read from Fal
+ */
+export const takeFalJournalResult = (requestId: string): unknown => {
+  const result = resumedResults.get(requestId)
+  resumedResults.delete(requestId)
+  return result
+}
+
+/**
+ * Check journaled jobs after a restart, fetch the results of finished ones and drop those Fal can no longer return
+ * @returns Entries still queued or running, and finished ones whose result waits for the next run of their node
+ */
+export const resumeFalJournal = async (): Promise<FalJournalResume[]> => {
+  const journalPath = getFalJournalPath()
+  if (!journalPath) {
+    return []
+  }
+
+  const entries = await readEntries(journalPath)
+  if (!entries.length) {
+    return []
+  }
+
+  const now = Date.now()
+  const resumable: FalJournalResume[] = []
+  const dropped = new Set<string>()
+
+  for (const entry of entries) {
+    // Jobs this process submitted are being waited on by their node
+    if (entry.owner === processOwner) {
+      continue
+    }
+    if (now - Date.parse(entry.submittedAt) > maxEntryAgeMs) {
+      dropped.add(entry.requestId)
+      continue
+    }
+    try {
+      const client = getFalClient(entry.credential)
+      const { status } = await client.queue.status(entry.endpoint, { requestId: entry.requestId })
+      // A failed job only shows when its result is read, so finished jobs are read right away
+      if (status === 'COMPLETED') {
+        resumedResults.set(entry.requestId, await client.queue.result(entry.endpoint, { requestId: entry.requestId }))
+      }
+      resumable.push({ ...entry, status })
+    } catch (error: any) {
+      console.warn(`[Fal] Dropping job ${entry.requestId} on ${entry.endpoint}:`, error?.message ?? error)
+      dropped.add(entry.requestId)
+    }
+  }
+
+  if (dropped.size) {
+    await updateEntries((current) => current.filter((entry) => !dropped.has(entry.requestId)))
+  }
+  return resumable
+}
@@ -0,0 +1,252 @@
+import { ApiError, FalClient, QueueStatus, ValidationError } from '@fal-ai/client'
+import { createHash, randomUUID } from 'node:crypto'
+import { readdir, readFile } from 'node:fs/promises'
+import path from 'node:path'
+import { falRecordingFilesDir } from './fal-recorder.js'
+
+// Queue update as recorded from Fal; logs are plain messages
+export interface FalMockUpdate {
+  status: 'IN_QUEUE' | 'IN_PROGRESS' | 'COMPLETED'
+  queue_position?: number
+  logs?: string[]
+  // Time since submission when Fal reported it; replays keep the recorded pacing
+  atMs?: number
+}
+
+export interface FalMockFixture {
+  // Replayed in order through onQueueUpdate; a final COMPLETED is added when missing
+  updates?: FalMockUpdate[]
+  // Payload the endpoint returns, as found in `data` of a real result
+  result?: unknown
+  // Fail the request instead, e.g. { status: 422, body: { detail: [...] } }
+  error?: { status: number, message?: string, body?: unknown }
+  // Pause between updates without `atMs`, so cancellation and progress can be observed
+  delayMs?: number
+  // Request that produced a recorded fixture; picks among several recordings of an endpoint
+  input?: unknown
+}
+
+// A fixture, recordings to choose from by input, or a function choosing one from the request input
+export type FalMockEndpoint = FalMockFixture | FalMockFixture[] | ((input: any) => FalMockFixture)
+
+export interface FalMockCall {
+  method: 'subscribe' | 'submit' | 'realtime'
+  endpoint: string
+  input: any
+  requestId: string
+  webhookUrl?: string
+}
+
+export interface FalMockUpload {
+  url: string
+  size: number
+  contentType: string
+  data: Buffer
+}
+
+export interface FalMock {
+  // Drop-in client for setFalTransport
+  client: FalClient
+  calls: FalMockCall[]
+  uploads: FalMockUpload[]
+  cancelled: string[]
+}
+
+interface FalMockJob {
+  endpoint: string
+  fixture: FalMockFixture
+}
+
+const mockStorageUrl = 'https://mock.fal.media/files'
+
+// Uploaded inputs get different URLs on every run, so recordings are matched with URLs blanked out
+const comparableInput = (input: unknown): string =>
+  JSON.stringify(input, (_key, value) => (typeof value === 'string' && /^(https?|data):/i.test(value) ? '<url>' : value))
+
+// Recording with the same input, otherwise the latest one
+const pickRecording = (recordings: FalMockFixture[], input: unknown): FalMockFixture | undefined => {
+  const wanted = comparableInput(input)
+  return [...recordings].reverse().find((recording) => comparableInput(recording.input) === wanted) ?? recordings[recordings.length - 1]
+}
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer)
+    reject(Object.assign(new Error('Request aborted'), { name: 'AbortError' }))
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort)
+    resolve()
+  }, ms)
+  if (signal?.aborted) {
+    onAbort()
+    return
+  }
+  signal?.addEventListener('abort', onAbort, { once: true })
+})
+
+const toQueueStatus = (update: FalMockUpdate, requestId: string): QueueStatus => {
+  const logs = (update.logs ?? []).map((message) => ({ message, level: 'INFO', source: 'USER', timestamp: new Date().toISOString() }))
+  return update.status === 'IN_QUEUE'
+    ? { status: 'IN_QUEUE', request_id: requestId, queue_position: update.queue_position ?? 0, response_url: '', status_url: '', cancel_url: '' }
+    : { status: update.status, request_id: requestId, logs, response_url: '', status_url: '', cancel_url: '' } as QueueStatus
+}
+
+const toError = (endpoint: string, error: NonNullable<FalMockFixture['error']>): ApiError<unknown> => {
+  const args = { message: error.message ?? `Mock ${endpoint} failed with ${error.status}`, status: error.status, body: error.body }
+  return error.status === 422 ? new ValidationError(args as any) : new ApiError(args)
+}
+
+/**
+ * In-process stand-in for the Fal client serving recorded fixtures per endpoint
+ * @param endpoints Fixture per endpoint id; calls to other endpoints fail with a 404
+ * @returns The client plus every call, upload and cancellation it saw
+ */
+export const createFalMockClient = (endpoints: Record<string, FalMockEndpoint>): FalMock => {
+  const calls: FalMockCall[] = []
+  const uploads: FalMockUpload[] = []
+  const cancelled: string[] = []
+  const jobs = new Map<string, FalMockJob>()
+
+  const fixtureFor = (endpoint: string, input: unknown): FalMockFixture => {
+    const entry = endpoints[endpoint]
+    const fixture = typeof entry === 'function' ? entry(input) : Array.isArray(entry) ? pickRecording(entry, input) : entry
+    if (!fixture) {
+      throw new ApiError({ message: `No mock fixture for ${endpoint}`, status: 404, body: { detail: 'Not Found' } })
+    }
+    return fixture
+  }
+
+  const enqueue = (method: FalMockCall['method'], endpoint: string, input: unknown, webhookUrl?: string): string => {
+    const requestId = randomUUID()
+    calls.push({ method, endpoint, input, requestId, webhookUrl })
+    jobs.set(requestId, { endpoint, fixture: fixtureFor(endpoint, input) })
+    return requestId
+  }
+
+  const jobFor = (requestId: string): FalMockJob => {
+    const job = jobs.get(requestId)
+    if (!job) {
+      throw new ApiError({ message: `Unknown mock request ${requestId}`, status: 404, body: { detail: 'Request not found' } })
+    }
+    return job
+  }
+
+  const updatesOf = (fixture: FalMockFixture): FalMockUpdate[] => {
+    const updates = fixture.updates ?? [{ status: 'IN_QUEUE', queue_position: 0 }, { status: 'IN_PROGRESS' }]
+    return updates[updates.length - 1]?.status === 'COMPLETED' ? updates : [...updates, { status: 'COMPLETED' }]
+  }
+
+  const replay = async (requestId: string, options: { abortSignal?: AbortSignal, onQueueUpdate?: (status: QueueStatus) => void }) => {
+    const { endpoint, fixture } = jobFor(requestId)
+    const startedAt = Date.now()
+    let last: QueueStatus | undefined
+    for (const update of updatesOf(fixture)) {
+      await sleep(update.atMs !== undefined ? Math.max(0, update.atMs - (Date.now() - startedAt)) : fixture.delayMs ?? 0, options.abortSignal)
+      if (cancelled.includes(requestId)) {
+        throw new ApiError({ message: 'Request was cancelled', status: 400, body: { detail: 'Request was cancelled' } })
+      }
+      last = toQueueStatus(update, requestId)
+      options.onQueueUpdate?.(last)
+    }
+    if (fixture.error) {
+      throw toError(endpoint, fixture.error)
+    }
+    return last as QueueStatus
+  }
+
+  const resultOf = (requestId: string) => {
+    const { endpoint, fixture } = jobFor(requestId)
+    if (fixture.error) {
+      throw toError(endpoint, fixture.error)
+    }
+    return { data: fixture.result, requestId }
+  }
+
+  const queue = {
+    submit: async (endpoint: string, options: { input?: unknown, webhookUrl?: string }) => {
+      const requestId = enqueue('submit', endpoint, options.input, options.webhookUrl)
+      return toQueueStatus({ status: 'IN_QUEUE', queue_position: 0 }, requestId)
+    },
+    // Recorded jobs have no clock, so polling sees them finished
+    status: async (_endpoint: string, options: { requestId: string }) => {
+      jobFor(options.requestId)
+      return toQueueStatus({ status: 'COMPLETED' }, options.requestId)
+    },
+    subscribeToStatus: async (_endpoint: string, options: { requestId: string, abortSignal?: AbortSignal, onQueueUpdate?: (status: QueueStatus) => void }) =>
+      replay(options.requestId, options),
+    result: async (_endpoint: string, options: { requestId: string }) => resultOf(options.requestId),
+    cancel: async (_endpoint: string, options: { requestId: string }) => {
+      cancelled.push(options.requestId)
+    }
+  }
+
+  const client = {
+    queue,
+    subscribe: async (endpoint: string, options: { input?: unknown, abortSignal?: AbortSignal, onEnqueue?: (requestId: string) => void, onQueueUpdate?: (status: QueueStatus) => void }) => {
+      const requestId = enqueue('subscribe', endpoint, options.input)
+      options.onEnqueue?.(requestId)
+      await replay(requestId, options)
+      return resultOf(requestId)
+    },
+    storage: {
+      upload: async (file: Blob) => {
+        const data = Buffer.from(await file.arrayBuffer())
+        const url = `${mockStorageUrl}/${createHash('sha256').update(data).digest('hex').slice(0, 16)}`
+        uploads.push({ url, size: data.length, contentType: file.type, data })
+        return url
+      }
+    },
+    realtime: {
+      connect: (endpoint: string, handlers: { onResult?: (result: any) => void, onError?: (error: unknown) => void }) => ({
+        send: (input: { request_id?: string }) => {
+          setImmediate(() => {
+            try {
+              const requestId = enqueue('realtime', endpoint, input)
+              const { data } = resultOf(requestId)
+              handlers.onResult?.({ ...(data as object), request_id: input.request_id ?? requestId })
+            } catch (error) {
+              handlers.onError?.(error)
+            }
+          })
+        },
+        close: () => undefined
+      })
+    }
+  }
+
+  return { client: client as unknown as FalClient, calls, uploads, cancelled }
+}
+
+// Recorded output files are stored next to the fixture; inline them so every fetch of the result works offline
+const inlineRecordedFiles = async (value: unknown, directory: string): Promise<unknown> => {
+  if (Array.isArray(value)) {
+    return Promise.all(value.map((item) => inlineRecordedFiles(item, directory)))
+  }
+  if (!value || typeof value !== 'object') {
+    return value
+  }
+  const entries = await Promise.all(Object.entries(value).map(async ([key, item]) => [key, await inlineRecordedFiles(item, directory)] as const))
+  const inlined: Record<string, unknown> = Object.fromEntries(entries)
+  if (typeof inlined.url === 'string' && inlined.url.startsWith(`${falRecordingFilesDir}/`)) {
+    const data = await readFile(path.join(directory, inlined.url))
+    inlined.url = `data:${inlined.content_type ?? 'application/octet-stream'};base64,${data.toString('base64')}`
+  }
+  return inlined
+}
+
+/**
+ * Read fixtures from a directory of JSON files named like the OpenAPI specs, e.g. fal-ai__flux__dev.json
+ * @param directory Directory holding a FalMockFixture, or the `recordings` written by FAL_RECORD_FIXTURES, per endpoint
+ * @returns Fixtures keyed by endpoint id
+ */
+export const loadFalMockFixtures = async (directory: string): Promise<Record<string, FalMockEndpoint>> => {
+  const files = (await readdir(directory)).filter((file) => file.endsWith('.json'))
+  const entries = await Promise.all(files.map(async (file) => {
+    const content = JSON.parse(await readFile(path.join(directory, file), 'utf8'))
+    const endpoint = typeof content.endpoint === 'string' ? content.endpoint : path.basename(file, '.json').split('__').join('/')
+    const fixture = Array.isArray(content.recordings) ? content.recordings : content
+    return [endpoint, await inlineRecordedFiles(fixture, directory) as FalMockEndpoint] as const
+  }))
+  return Object.fromEntries(entries)
+}
@@ -0,0 +1,211 @@
+import { readFile } from 'node:fs/promises'
+import path from 'node:path'
+import { FalFieldNames, resolveFalFieldName } from './fal-errors.js'
+
+// The subset of JSON Schema that Fal's OpenAPI specs use
+export interface FalJsonSchema {
+  $ref?: string
+  type?: string | string[]
+  enum?: unknown[]
+  const?: unknown
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: number
+  exclusiveMaximum?: number
+  minLength?: number
+  maxLength?: number
+  minItems?: number
+  maxItems?: number
+  items?: FalJsonSchema
+  properties?: Record<string, FalJsonSchema>
+  required?: string[]
+  additionalProperties?: boolean | FalJsonSchema
+  anyOf?: FalJsonSchema[]
+  oneOf?: FalJsonSchema[]
+  allOf?: FalJsonSchema[]
+}
+
+export interface FalSchemaIssue {
+  // Payload path in the form Fal uses for 422 details, e.g. ['image_size', 'width']
+  loc: Array<string | number>
+  message: string
+}
+
+export interface FalEndpointSchemas {
+  input: FalJsonSchema
+  output?: FalJsonSchema
+  components: Record<string, FalJsonSchema>
+}
+
+export type FalSchemaValidationMode = 'off' | 'warn' | 'strict'
+
+// Specs do not change while the server runs; misses are cached too so endpoints without a spec cost one lookup
+const loaded = new Map<string, Promise<FalEndpointSchemas | undefined>>()
+
+export const getFalOpenApiDirectory = (): string =>
+  path.resolve(process.env.FAL_OPENAPI_DIR?.trim() || path.join('scripts', 'openapi'))
+
+export const getFalSchemaValidationMode = (): FalSchemaValidationMode => {
+  const mode = process.env.FAL_VALIDATE_SCHEMAS?.trim().toLowerCase()
+  return mode === 'warn' || mode === 'strict' ? mode : 'off'
+}
+
+// Same lookup as scripts/generate-node.ts: the queue submit operation and the result operation
+const readEndpointSchemas = (spec: any): FalEndpointSchemas | undefined => {
+  const paths: Record<string, any> = spec?.paths ?? {}
+  const input = Object.values(paths).find((item) => item?.post?.requestBody)?.post.requestBody.content?.['application/json']?.schema
+  const result = Object.entries(paths).find(([itemPath, item]) => itemPath.endsWith('/requests/{request_id}') && item?.get)?.[1]
+  const output = result?.get.responses?.['200']?.content?.['application/json']?.schema
+  return input ? { input, output, components: spec.components?.schemas ?? {} } : undefined
+}
+
+/**
+ * Load the request and response schemas saved by scripts/collect-openapi.ts for an endpoint
+ * @param endpoint Fal endpoint id
+ * @returns The schemas, or undefined when no spec was collected for the endpoint
+ */
+export const loadFalEndpointSchemas = (endpoint: string): Promise<FalEndpointSchemas | undefined> => {
+  const specPath = path.join(getFalOpenApiDirectory(), `${endpoint.replace(/[\\/]/g, '__')}.json`)
+  let schemas = loaded.get(specPath)
+  if (!schemas) {
+    schemas = readFile(specPath, 'utf8').then((text) => readEndpointSchemas(JSON.parse(text)), (error) => {
+      if (error?.code !== 'ENOENT') {
+        console.warn(`[Fal] Ignoring unreadable OpenAPI spec ${specPath}:`, error?.message ?? error)
+      }
+      return undefined
+    })
+    loaded.set(specPath, schemas)
+  }
+  return schemas
+}
+
+const typeOf = (value: unknown): string => {
+  if (value === null) {
+    return 'null'
+  }
+  if (Array.isArray(value)) {
+    return 'array'
+  }
+  return typeof value === 'number' && Number.isInteger(value) ? 'integer' : typeof value
+}
+
+const matchesType = (value: unknown, type: string): boolean => {
+  const actual = typeOf(value)
+  return actual === type || (type === 'number' && actual === 'integer')
+}
+
+/**
+ * Check a value against a JSON schema from a Fal spec
+ * @param value Payload or response to check
+ * @param schema Schema to check against
+ * @param components Component schemas `$ref`s point to
+ * @param options Whether properties missing from the schema are reported, as they are for payloads
+ * @returns Every mismatch found, empty when the value conforms
+ */
+export const validateFalSchema = (
+  value: unknown,
+  schema: FalJsonSchema,
+  components: Record<string, FalJsonSchema>,
+  options: { reportUnknown?: boolean } = {}
+): FalSchemaIssue[] => {
+  const check = (current: unknown, node: FalJsonSchema, loc: Array<string | number>): FalSchemaIssue[] => {
+    if (node.$ref) {
+      const target = components[node.$ref.split('/').pop() ?? '']
+      return target ? check(current, target, loc) : []
+    }
+    if (node.allOf) {
+      return node.allOf.flatMap((part) => check(current, part, loc))
+    }
+    const variants = node.anyOf ?? node.oneOf
+    if (variants) {
+      // Report against the closest variant, which for Optional[...] is the non-null one
+      const attempts = variants.map((variant) => check(current, variant, loc))
+      return attempts.find((issues) => !issues.length) ?? attempts.reduce((best, issues) => (issues.length < best.length ? issues : best))
+    }
+
+    const types = Array.isArray(node.type) ? node.type : node.type ? [node.type] : []
+    if (types.length && !types.some((type) => matchesType(current, type))) {
+      return [{ loc, message: `must be ${types.join(' or ')}, got ${typeOf(current)}` }]
+    }
+    if (node.enum && !node.enum.includes(current)) {
+      return [{ loc, message: `must be one of ${node.enum.join(', ')}` }]
+    }
+    if (node.const !== undefined && current !== node.const) {
+      return [{ loc, message: `must be ${node.const}` }]
+    }
+
+    const issues: FalSchemaIssue[] = []
+    if (typeof current === 'number') {
+      if (node.minimum !== undefined && current < node.minimum) issues.push({ loc, message: `must be >= ${node.minimum}` })
+      if (node.maximum !== undefined && current > node.maximum) issues.push({ loc, message: `must be <= ${node.maximum}` })
+      if (node.exclusiveMinimum !== undefined && current <= node.exclusiveMinimum) issues.push({ loc, message: `must be > ${node.exclusiveMinimum}` })
+      if (node.exclusiveMaximum !== undefined && current >= node.exclusiveMaximum) issues.push({ loc, message: `must be < ${node.exclusiveMaximum}` })
+    }
+    if (typeof current === 'string') {
+      if (node.minLength !== undefined && current.length < node.minLength) issues.push({ loc, message: `must have at least ${node.minLength} characters` })
+      if (node.maxLength !== undefined && current.length > node.maxLength) issues.push({ loc, message: `must have at most ${node.maxLength} characters` })
+    }
+    if (Array.isArray(current)) {
+      if (node.minItems !== undefined && current.length < node.minItems) issues.push({ loc, message: `must have at least ${node.minItems} items` })
+      if (node.maxItems !== undefined && current.length > node.maxItems) issues.push({ loc, message: `must have at most ${node.maxItems} items` })
+      if (node.items) {
+        current.forEach((item, index) => issues.push(...check(item, node.items!, [...loc, index])))
+      }
+    }
+    if (typeOf(current) === 'object') {
+      const record = current as Record<string, unknown>
+      for (const name of node.required ?? []) {
+        if (record[name] === undefined) {
+          issues.push({ loc: [...loc, name], message: 'is required' })
+        }
+      }
+      for (const [name, item] of Object.entries(record)) {
+        const property = node.properties?.[name]
+        if (item === undefined) {
+          continue
+        }
+        if (property) {
+          issues.push(...check(item, property, [...loc, name]))
+        } else if (typeof node.additionalProperties === 'object') {
+          issues.push(...check(item, node.additionalProperties, [...loc, name]))
+        } else if (node.additionalProperties === false || (options.reportUnknown && node.properties)) {
+          issues.push({ loc: [...loc, name], message: 'is not in the endpoint schema' })
+        }
+      }
+    }
+    return issues
+  }
+
+  return check(value, schema, [])
+}
+
+/**
+ * Check an outgoing payload against the endpoint's saved request schema
+ * @param endpoint Fal endpoint id
+ * @param payload Payload as it will be submitted
+ * @returns Mismatches, or undefined when no spec was collected for the endpoint
+ */
+export const validateFalPayload = async (endpoint: string, payload: unknown): Promise<FalSchemaIssue[] | undefined> => {
+  const schemas = await loadFalEndpointSchemas(endpoint)
+  return schemas ? validateFalSchema(payload, schemas.input, schemas.components, { reportUnknown: true }) : undefined
+}
+
+/**
+ * Check a result against the endpoint's saved response schema
+ * @param endpoint Fal endpoint id
+ * @param data The `data` of the Fal result
+ * @returns Mismatches, or undefined when the spec or its response schema is missing
+ */
+export const validateFalResponse = async (endpoint: string, data: unknown): Promise<FalSchemaIssue[] | undefined> => {
+  const schemas = await loadFalEndpointSchemas(endpoint)
+  return schemas?.output ? validateFalSchema(data, schemas.output, schemas.components) : undefined
+}
+
+/**
+ * Render schema issues like Fal 422 errors, using the node's field names
+ * @param issues Issues from validateFalPayload or validateFalResponse
+ * @param fieldNames Explicit payload path to node field overrides
+ * @returns "field: problem" entries joined with '; '
+ */
+export const formatFalSchemaIssues = (issues: FalSchemaIssue[], fieldNames?: FalFieldNames): string =>
+  issues.map((issue) => `${resolveFalFieldName(issue.loc, fieldNames)}: ${issue.message}`).join('; ')
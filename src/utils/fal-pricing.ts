@@ -0,0 +1,100 @@
+// Fal list prices in USD, taken from the fal.ai model pages; estimates only, Fal bills what it measures
+
+type PayloadFields = Record<string, unknown>
+
+interface FalPriceRule {
+  endpoint: RegExp
+  estimate: (payload: PayloadFields) => number
+}
+
+const imageSizePresets: Record<string, [number, number]> = {
+  square_hd: [1024, 1024],
+  square: [512, 512],
+  portrait_4_3: [768, 1024],
+  portrait_16_9: [576, 1024],
+  landscape_4_3: [1024, 768],
+  landscape_16_9: [1024, 576]
+}
+
+const videoResolutions: Record<string, [number, number]> = {
+  '480p': [854, 480],
+  '720p': [1280, 720],
+  '1080p': [1920, 1080]
+}
+
+const count = (payload: PayloadFields, field = 'num_images'): number => {
+  const value = Number(payload[field])
+  return Number.isFinite(value) && value > 0 ? value : 1
+}
+
+// Durations arrive as 8, '8' or '8s' depending on the endpoint
+const seconds = (payload: PayloadFields, fallback: number): number => {
+  const value = parseFloat(String(payload.duration ?? ''))
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+// Fal counts a megapixel as 1024x1024 and rounds every image up to the next full one
+const megapixels = (payload: PayloadFields): number => {
+  const size = payload.image_size
+  const [width, height] = typeof size === 'object' && size !== null
+    ? [Number((size as any).width) || 1024, Number((size as any).height) || 1024]
+    : imageSizePresets[String(size)] ?? [1024, 1024]
+  return Math.max(1, Math.ceil((width * height) / (1024 * 1024)))
+}
+
+const perImage = (price: number) => (payload: PayloadFields) => price * count(payload)
+const perMegapixel = (price: number) => (payload: PayloadFields) => price * megapixels(payload) * count(payload)
+
+// Seedance bills video tokens: width * height * fps * seconds / 1024
+const seedanceTokens = (pricePerMillion: number) => (payload: PayloadFields) => {
+  const [width, height] = videoResolutions[String(payload.resolution)] ?? videoResolutions['720p']
+  return (width * height * 24 * seconds(payload, 5) / 1024) * pricePerMillion / 1_000_000
+}
+
+const veo = (withAudio: number, withoutAudio: number) => (payload: PayloadFields) =>
+  seconds(payload, 8) * (payload.generate_audio === false ? withoutAudio : withAudio)
+
+// First match wins, so specific variants come before their base endpoint
+const priceTable: FalPriceRule[] = [
+  { endpoint: /^fal-ai\/veo3(\.1)?\/fast(\/|$)/, estimate: veo(0.15, 0.10) },
+  { endpoint: /^fal-ai\/veo3(\.1)?(\/|$)/, estimate: veo(0.40, 0.20) },
+  // With the node's own OpenAI key, OpenAI bills the generation instead of Fal
+  { endpoint: /^fal-ai\/sora-2\/[^/]+\/pro$/, estimate: (payload) => (payload.api_key ? 0 : seconds(payload, 4) * (payload.resolution === '1080p' ? 0.50 : 0.30)) },
+  { endpoint: /^fal-ai\/sora-2\//, estimate: (payload) => (payload.api_key ? 0 : seconds(payload, 4) * 0.10) },
+  { endpoint: /^fal-ai\/kling-video\/v2\.1\/master\//, estimate: (payload) => 1.40 + Math.max(0, seconds(payload, 5) - 5) * 0.28 },
+  { endpoint: /^fal-ai\/bytedance\/seedance\/v1\/pro\//, estimate: seedanceTokens(2.5) },
+  { endpoint: /^fal-ai\/bytedance\/seedance\/v1\/lite\//, estimate: seedanceTokens(1.8) },
+  { endpoint: /^fal-ai\/bytedance\/seedream\//, estimate: perImage(0.03) },
+  { endpoint: /^fal-ai\/hunyuan3d\/v2(\/|$)/, estimate: (payload) => (payload.textured_mesh ? 0.48 : 0.16) },
+  { endpoint: /^fal-ai\/hunyuan3d-v21(\/|$)/, estimate: (payload) => (payload.textured_mesh ? 0.90 : 0.30) },
+  { endpoint: /^fal-ai\/nano-banana-pro(\/|$)/, estimate: (payload) => count(payload) * (payload.resolution === '4K' ? 0.30 : 0.15) },
+  { endpoint: /^fal-ai\/gemini-3-pro-image-preview(\/|$)/, estimate: (payload) => count(payload) * (payload.resolution === '4K' ? 0.30 : 0.15) },
+  { endpoint: /^fal-ai\/(nano-banana|gemini-flash-edit)(\/|$)/, estimate: perImage(0.039) },
+  { endpoint: /^fal-ai\/flux-pro\/kontext\/max(\/|$)/, estimate: perImage(0.08) },
+  { endpoint: /^fal-ai\/flux-pro\/kontext(\/|$)/, estimate: perImage(0.04) },
+  { endpoint: /^fal-ai\/flux-pro\/v1\.1-ultra/, estimate: perImage(0.06) },
+  { endpoint: /^fal-ai\/flux-pro\//, estimate: perMegapixel(0.05) },
+  { endpoint: /^fal-ai\/(flux-1|flux)\/(krea|srpo)(\/|$)/, estimate: perMegapixel(0.025) },
+  { endpoint: /^fal-ai\/z-image\/turbo(\/|$)/, estimate: (payload) => perMegapixel(0.005)(payload) + (payload.enable_prompt_expansion ? 0.0025 * count(payload) : 0) },
+  { endpoint: /^fal-ai\/qwen-image/, estimate: perMegapixel(0.03) },
+  { endpoint: /^fal-ai\/seedvr\/upscale\/video$/, estimate: () => 0.10 },
+  { endpoint: /^fal-ai\/(seedvr|sam-3|moondream2)(\/|$)/, estimate: () => 0.005 }
+]
+
+/**
+ * Estimate what a Fal call will cost before it is submitted
+ * @param endpoint Fal endpoint id
+ * @param payload Request payload as it will be sent
+ * @returns Estimated cost in USD, or undefined for endpoints missing from the price table
+ */
+export const estimateFalCost = (endpoint: string, payload: unknown): number | undefined => {
+  const rule = priceTable.find((candidate) => candidate.endpoint.test(endpoint))
+  if (!rule) {
+    return undefined
+  }
+  const cost = rule.estimate((payload ?? {}) as PayloadFields)
+  return Number.isFinite(cost) ? Math.round(cost * 10000) / 10000 : undefined
+}
+
+export const formatUsd = (amount: number): string =>
+  `$${amount < 0.1 ? amount.toFixed(3) : amount.toFixed(2)}`
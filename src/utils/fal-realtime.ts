@@ -0,0 +1,164 @@
+import { randomUUID } from 'node:crypto'
+import WebSocket from 'ws'
+import { defaultFalCredentialProfile, getFalClient } from './fal-client.js'
+import { FalCancelledError } from './fal-cancellation.js'
+
+// One open socket per endpoint and credential profile, shared by consecutive node runs
+interface FalRealtimeChannel {
+  send: (input: Record<string, unknown>) => void
+  close: () => void
+  pending: Map<string, FalRealtimeWaiter>
+  idleTimer?: NodeJS.Timeout
+}
+
+interface FalRealtimeWaiter {
+  resolve: (result: any) => void
+  reject: (error: unknown) => void
+  onMessage: (message: any) => void
+}
+
+export interface FalRealtimeRequestOptions {
+  signal?: AbortSignal
+  // Called for every message Fal sends for this request, including the final result
+  onMessage?: (message: any) => void
+  timeoutMs?: number
+  // Credential profile the socket authenticates with
+  credential?: string
+}
+
+// Raised when the socket never answered, so the caller can fall back to the queue
+export class FalRealtimeUnavailableError extends Error {
+  constructor(message = 'Fal realtime connection unavailable') {
+    super(message)
+    this.name = 'FalRealtimeUnavailableError'
+  }
+}
+
+const defaultTimeoutMs = 60000
+// Keep the socket around between runs so interactive tweaking skips the handshake
+const idleCloseMs = 5 * 60 * 1000
+
+const channels = new Map<string, FalRealtimeChannel>()
+
+// Node 20 has no global WebSocket, which the Fal realtime client expects
+const ensureWebSocket = () => {
+  if (typeof (globalThis as any).WebSocket === 'undefined') {
+    (globalThis as any).WebSocket = WebSocket
+  }
+}
+
+const scheduleIdleClose = (channelKey: string, channel: FalRealtimeChannel) => {
+  clearTimeout(channel.idleTimer)
+  if (channel.pending.size) {
+    return
+  }
+  channel.idleTimer = setTimeout(() => {
+    if (!channel.pending.size && channels.get(channelKey) === channel) {
+      channels.delete(channelKey)
+      channel.close()
+    }
+  }, idleCloseMs)
+  channel.idleTimer.unref?.()
+}
+
+const openChannel = (channelKey: string, endpoint: string, credential?: string): FalRealtimeChannel => {
+  const existing = channels.get(channelKey)
+  if (existing) {
+    return existing
+  }
+
+  ensureWebSocket()
+  const pending = new Map<string, FalRealtimeWaiter>()
+  const connection = getFalClient(credential).realtime.connect(endpoint, {
+    connectionKey: `nano-fal:${channelKey}`,
+    // Every node run is a distinct request; throttling would drop all but the last
+    throttleInterval: 0,
+    onResult: (result: any) => {
+      const waiter = pending.get(result?.request_id)
+      waiter?.onMessage(result)
+    },
+    onError: (error) => {
+      // Errors carry no request id, so every request on the socket fails and the next run reconnects
+      channels.delete(channelKey)
+      const waiters = Array.from(pending.values())
+      pending.clear()
+      waiters.forEach((waiter) => waiter.reject(error))
+    }
+  })
+
+  const channel: FalRealtimeChannel = {
+    send: (input) => connection.send(input),
+    close: () => connection.close(),
+    pending
+  }
+  channels.set(channelKey, channel)
+  return channel
+}
+
+/**
+ * Send one request over the shared realtime socket of an endpoint
+ * @param endpoint Fal endpoint id serving a realtime app
+ * @param payload Request input
+ * @param options Abort signal, per-message callback, timeout and credential profile
+ * @returns The first message Fal sends for the request that is not flagged as partial
+ */
+export const requestFalRealtime = <TResult>(
+  endpoint: string,
+  payload: Record<string, unknown>,
+  options: FalRealtimeRequestOptions = {}
+): Promise<TResult> => {
+  if (options.signal?.aborted) {
+    return Promise.reject(new FalCancelledError())
+  }
+
+  const channelKey = `${options.credential?.trim().toLowerCase() || defaultFalCredentialProfile}:${endpoint}`
+  const channel = openChannel(channelKey, endpoint, options.credential)
+  clearTimeout(channel.idleTimer)
+  const requestId = randomUUID()
+
+  return new Promise<TResult>((resolve, reject) => {
+    let answered = false
+    const finish = () => {
+      clearTimeout(timer)
+      options.signal?.removeEventListener('abort', onAbort)
+      channel.pending.delete(requestId)
+      scheduleIdleClose(channelKey, channel)
+    }
+    const onAbort = () => {
+      finish()
+      reject(new FalCancelledError())
+    }
+    const timer = setTimeout(() => {
+      finish()
+      reject(answered
+        ? new Error(`Fal realtime request timed out after ${options.timeoutMs ?? defaultTimeoutMs}ms`)
+        : new FalRealtimeUnavailableError(`No answer from ${endpoint} over realtime`))
+    }, options.timeoutMs ?? defaultTimeoutMs)
+
+    channel.pending.set(requestId, {
+      resolve,
+      reject: (error) => {
+        finish()
+        reject(answered ? error : new FalRealtimeUnavailableError((error as Error)?.message))
+      },
+      onMessage: (message) => {
+        answered = true
+        options.onMessage?.(message)
+        if (message?.partial !== true && message?.is_partial !== true) {
+          finish()
+          resolve(message as TResult)
+        }
+      }
+    })
+    options.signal?.addEventListener('abort', onAbort, { once: true })
+    channel.send({ ...payload, request_id: requestId })
+  })
+}
+
+export const closeFalRealtimeConnections = () => {
+  for (const [channelKey, channel] of channels) {
+    clearTimeout(channel.idleTimer)
+    channels.delete(channelKey)
+    channel.close()
+  }
+}
@@ -0,0 +1,227 @@
+import { ApiError, FalClient, QueueStatus } from '@fal-ai/client'
+import { createHash } from 'node:crypto'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import type { FalMockFixture, FalMockUpdate } from './fal-mock.js'
+import { getFalWebhookError, onFalWebhookDelivery } from './fal-webhook.js'
+
+// One recorded request; a fixture file holds the latest ones for an endpoint
+export interface FalRecording extends FalMockFixture {
+  input: unknown
+  recordedAt: string
+}
+
+interface FalRecordingSession {
+  endpoint: string
+  input: unknown
+  startedAt: number
+  updates: FalMockUpdate[]
+}
+
+const maxRecordingsPerEndpoint = 20
+// Output files are stored under this folder of the fixture directory and referenced relative to it
+export const falRecordingFilesDir = 'files'
+
+// Whole credential names at the end of a key (openai_api_key, hfToken), so max_tokens or token_count stay readable
+const secretKeyPattern = /(?:^|_)(?:api_?key|secret(?:_key)?|password|authorization|credentials?|token)$/
+
+const isSecretKey = (key: string): boolean =>
+  secretKeyPattern.test(key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/-/g, '_').toLowerCase())
+const scrubbed = '[scrubbed]'
+
+let writeChain: Promise<unknown> = Promise.resolve()
+
+export const getFalRecordingDirectory = (): string | undefined => {
+  const configured = process.env.FAL_RECORD_FIXTURES?.trim()
+  return configured ? path.resolve(configured) : undefined
+}
+
+export const falFixtureFileName = (endpoint: string): string => `${endpoint.replace(/[\\/]/g, '__')}.json`
+
+// Secrets in the payload (a node's own OpenAI key for Sora, say) and the Fal key itself never reach the fixture
+const scrub = (value: unknown, apiKey: string): unknown => {
+  if (typeof value === 'string') {
+    return apiKey && value.includes(apiKey) ? value.split(apiKey).join(scrubbed) : value
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => scrub(item, apiKey))
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+      key,
+      isSecretKey(key) && item ? scrubbed : scrub(item, apiKey)
+    ]))
+  }
+  return value
+}
+
+const extensionFor = (url: string, contentType: string | null): string => {
+  const fromUrl = path.extname(new URL(url).pathname).slice(1)
+  return fromUrl || contentType?.split('/')[1]?.split(/[;+]/)[0] || 'bin'
+}
+
+// Download every output file, store it by content hash and point the result at the local copy
+const storeOutputFiles = async (value: unknown, directory: string): Promise<unknown> => {
+  if (Array.isArray(value)) {
+    return Promise.all(value.map((item) => storeOutputFiles(item, directory)))
+  }
+  if (!value || typeof value !== 'object') {
+    return value
+  }
+  const entries = await Promise.all(Object.entries(value).map(async ([key, item]) => [key, await storeOutputFiles(item, directory)] as const))
+  const stored: Record<string, unknown> = Object.fromEntries(entries)
+  if (typeof stored.url !== 'string' || !/^https?:\/\//i.test(stored.url)) {
+    return stored
+  }
+
+  const response = await fetch(stored.url)
+  if (!response.ok) {
+    throw new Error(`Failed to download ${stored.url}: ${response.status} ${response.statusText}`)
+  }
+  const data = Buffer.from(await response.arrayBuffer())
+  const contentType = (stored.content_type as string | undefined) ?? response.headers.get('content-type')
+  const fileName = `${createHash('sha256').update(data).digest('hex').slice(0, 16)}.${extensionFor(stored.url, contentType)}`
+  await mkdir(path.join(directory, falRecordingFilesDir), { recursive: true })
+  await writeFile(path.join(directory, falRecordingFilesDir, fileName), data)
+  return { ...stored, url: `${falRecordingFilesDir}/${fileName}`, ...(contentType ? { content_type: contentType } : {}) }
+}
+
+const saveRecording = async (directory: string, endpoint: string, recording: FalRecording) => {
+  const filePath = path.join(directory, falFixtureFileName(endpoint))
+  const run = writeChain.then(async () => {
+    let recordings: FalRecording[] = []
+    try {
+      recordings = JSON.parse(await readFile(filePath, 'utf8')).recordings ?? []
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        console.warn(`[Fal] Replacing unreadable fixture ${filePath}:`, error?.message ?? error)
+      }
+    }
+    await mkdir(directory, { recursive: true })
+    const kept = [...recordings, recording].slice(-maxRecordingsPerEndpoint)
+    await writeFile(filePath, `${JSON.stringify({ endpoint, recordings: kept }, null, 2)}\n`, 'utf8')
+  })
+  writeChain = run.catch(() => undefined)
+  return run
+}
+
+/**
+ * Wrap a Fal client so every queued request is written to a fixture directory the mock can replay
+ * @param client Client talking to fal.ai
+ * @param directory Fixture directory, one JSON file per endpoint plus downloaded output files
+ * @param apiKey Key of the client, scrubbed from anything recorded
+ * @returns Client with the same behaviour that records as a side effect; realtime requests are not recorded
+ */
+export const createFalRecordingClient = (client: FalClient, directory: string, apiKey: string): FalClient => {
+  const sessions = new Map<string, FalRecordingSession>()
+
+  const track = (session: FalRecordingSession, status: QueueStatus) => {
+    const logs = 'logs' in status && Array.isArray(status.logs) ? status.logs.map((log) => log.message) : []
+    session.updates.push({
+      status: status.status,
+      ...(status.status === 'IN_QUEUE' ? { queue_position: status.queue_position } : {}),
+      ...(logs.length ? { logs } : {}),
+      atMs: Date.now() - session.startedAt
+    })
+  }
+
+  const finish = async (session: FalRecordingSession, outcome: { result?: unknown, error?: unknown }) => {
+    try {
+      const recording: FalRecording = {
+        input: scrub(session.input, apiKey),
+        recordedAt: new Date().toISOString(),
+        updates: session.updates
+      }
+      if (outcome.error instanceof ApiError) {
+        recording.error = { status: outcome.error.status, message: outcome.error.message, body: scrub(outcome.error.body, apiKey) }
+      } else if (outcome.error === undefined) {
+        recording.result = scrub(await storeOutputFiles(outcome.result, directory), apiKey)
+      } else {
+        // Cancellations and network failures say nothing about the endpoint
+        return
+      }
+      await saveRecording(directory, session.endpoint, recording)
+    } catch (error: any) {
+      console.warn(`[Fal] Failed to record ${session.endpoint}:`, error?.message ?? error)
+    }
+  }
+
+  // Jobs submitted with a webhook URL end with Fal's callback instead of a queue.result call
+  onFalWebhookDelivery((delivery) => {
+    const session = sessions.get(delivery.request_id)
+    if (session) {
+      sessions.delete(delivery.request_id)
+      const error = getFalWebhookError(delivery)
+      void finish(session, error ? { error } : { result: delivery.payload })
+    }
+  })
+
+  const queue: FalClient['queue'] = {
+    ...client.queue,
+    submit: async (endpoint, options) => {
+      const startedAt = Date.now()
+      const status = await client.queue.submit(endpoint, options)
+      const session = { endpoint, input: options.input, startedAt, updates: [] }
+      sessions.set(status.request_id, session)
+      track(session, status)
+      return status
+    },
+    status: async (endpoint, options) => {
+      const status = await client.queue.status(endpoint, options)
+      const session = sessions.get(options.requestId)
+      if (session) {
+        track(session, status)
+      }
+      return status
+    },
+    subscribeToStatus: (endpoint, options) => {
+      const session = sessions.get(options.requestId)
+      return client.queue.subscribeToStatus(endpoint, {
+        ...options,
+        onQueueUpdate: (status) => {
+          if (session) {
+            track(session, status)
+          }
+          options.onQueueUpdate?.(status)
+        }
+      })
+    },
+    result: async (endpoint, options) => {
+      const session = sessions.get(options.requestId)
+      try {
+        const result = await client.queue.result(endpoint, options)
+        if (session) {
+          sessions.delete(options.requestId)
+          await finish(session, { result: result.data })
+        }
+        return result
+      } catch (error) {
+        if (session) {
+          sessions.delete(options.requestId)
+          await finish(session, { error })
+        }
+        throw error
+      }
+    }
+  }
+
+  const subscribe: FalClient['subscribe'] = async (endpoint, options) => {
+    const session: FalRecordingSession = { endpoint, input: options.input, startedAt: Date.now(), updates: [] }
+    try {
+      const result = await client.subscribe(endpoint, {
+        ...options,
+        onQueueUpdate: (status) => {
+          track(session, status)
+          options.onQueueUpdate?.(status)
+        }
+      })
+      await finish(session, { result: result.data })
+      return result
+    } catch (error) {
+      await finish(session, { error })
+      throw error
+    }
+  }
+
+  return { ...client, queue, subscribe }
+}
@@ -0,0 +1,157 @@
+import { FalFileReference } from './asset-utils.js'
+
+// Fal Image: a File with the pixel size when the endpoint reports it
+export interface FalImageFile extends FalFileReference {
+  width?: number
+  height?: number
+}
+
+// Seconds spent per stage, e.g. { inference: 1.2 }
+export type FalTimings = Record<string, number>
+
+/**
+ * Typed access to the common fields of a Fal result; every reader validates what it returns
+ */
+export interface FalResponseReader {
+  // The unwrapped payload, for fields specific to one endpoint
+  data: Record<string, unknown>
+  // Non-empty list of images, 'images' by default
+  images: (field?: string) => FalImageFile[]
+  image: (field?: string) => FalImageFile
+  video: (field?: string) => FalFileReference
+  file: (field: string) => FalFileReference
+  optionalFile: (field: string) => FalFileReference | undefined
+  // List of files that may be missing or empty
+  files: (field: string) => FalFileReference[]
+  // Endpoint specific list, e.g. detected objects; empty when missing
+  list: (field: string) => unknown[]
+  text: (field: string) => string | undefined
+  seed: () => number | undefined
+  nsfwFlags: () => boolean[]
+  timings: () => FalTimings | undefined
+}
+
+export class FalResponseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FalResponseError'
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'a list' : typeof value
+
+/**
+ * Strip the queue envelope from a Fal result
+ * @param result Queue results come as { data, requestId }, realtime and webhook deliveries as the bare payload
+ * @returns The endpoint payload
+ */
+export const unwrapFalResult = (result: unknown): unknown =>
+  isRecord(result) && 'requestId' in result && 'data' in result ? result.data : result
+
+/**
+ * Read a Fal result through validating accessors instead of optional chains over both shapes
+ * @param result Result passed to mapOutput, with or without the queue envelope
+ * @param label Model name used in errors, e.g. 'Z-Image Turbo'
+ * @returns Readers for images, videos, files, seed, NSFW flags and timings
+ */
+export const readFalResponse = (result: unknown, label: string): FalResponseReader => {
+  const payload = unwrapFalResult(result)
+  const malformed = (problem: string) => new FalResponseError(`${label} returned a malformed response: ${problem}`)
+  if (!isRecord(payload)) {
+    throw malformed(`expected an object, got ${describe(payload)}`)
+  }
+
+  const checkFile = <TFile extends FalFileReference>(value: unknown, path: string): TFile => {
+    if (!isRecord(value)) {
+      throw malformed(`${path} must be a file object, got ${describe(value)}`)
+    }
+    if (typeof value.url !== 'string' && typeof value.file_data !== 'string') {
+      throw malformed(`${path} has no url or file_data`)
+    }
+    for (const key of ['content_type', 'file_name'] as const) {
+      if (value[key] != null && typeof value[key] !== 'string') {
+        throw malformed(`${path}.${key} must be a string, got ${describe(value[key])}`)
+      }
+    }
+    for (const key of ['width', 'height', 'file_size'] as const) {
+      if (value[key] != null && typeof value[key] !== 'number') {
+        throw malformed(`${path}.${key} must be a number, got ${describe(value[key])}`)
+      }
+    }
+    return value as TFile
+  }
+
+  const required = (field: string, kind: string): unknown => {
+    const value = payload[field]
+    if (value == null) {
+      throw new FalResponseError(`${label} returned no ${kind} (missing '${field}')`)
+    }
+    return value
+  }
+
+  const list = (field: string): unknown[] => {
+    const value = payload[field]
+    if (value == null) {
+      return []
+    }
+    if (!Array.isArray(value)) {
+      throw malformed(`${field} must be a list, got ${describe(value)}`)
+    }
+    return value
+  }
+
+  const optionalFile = (field: string) => (payload[field] == null ? undefined : checkFile<FalFileReference>(payload[field], field))
+
+  return {
+    data: payload,
+    images: (field = 'images') => {
+      const images = list(field)
+      if (!images.length) {
+        throw new FalResponseError(`${label} returned no images${field in payload ? '' : ` (missing '${field}')`}`)
+      }
+      return images.map((image, index) => checkFile<FalImageFile>(image, `${field}[${index}]`))
+    },
+    image: (field = 'image') => checkFile<FalImageFile>(required(field, 'image'), field),
+    video: (field = 'video') => checkFile<FalFileReference>(required(field, 'video'), field),
+    file: (field) => checkFile<FalFileReference>(required(field, field.replace(/_/g, ' ')), field),
+    optionalFile,
+    files: (field) => list(field).map((file, index) => checkFile<FalFileReference>(file, `${field}[${index}]`)),
+    list,
+    text: (field) => {
+      const value = payload[field]
+      if (value != null && typeof value !== 'string') {
+        throw malformed(`${field} must be a string, got ${describe(value)}`)
+      }
+      return value ?? undefined
+    },
+    seed: () => {
+      const seed = payload.seed
+      if (seed != null && (typeof seed !== 'number' || !Number.isFinite(seed))) {
+        throw malformed(`seed must be a number, got ${describe(seed)}`)
+      }
+      return seed ?? undefined
+    },
+    nsfwFlags: () => {
+      const flags = list('has_nsfw_concepts')
+      const invalid = flags.findIndex((flag) => typeof flag !== 'boolean')
+      if (invalid !== -1) {
+        throw malformed(`has_nsfw_concepts[${invalid}] must be a boolean, got ${describe(flags[invalid])}`)
+      }
+      return flags as boolean[]
+    },
+    timings: () => {
+      const timings = payload.timings
+      if (timings == null) {
+        return undefined
+      }
+      if (!isRecord(timings) || Object.values(timings).some((value) => typeof value !== 'number')) {
+        throw malformed('timings must map stage names to seconds')
+      }
+      return timings as FalTimings
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { mkdir, readdir, readFile, rename, stat, unlink, utimes, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+
+interface FalResultCacheEntry<TOutput> {
+  endpoint: string
+  createdAt: string
+  output: TOutput
+}
+
+const defaultMaxMb = 100
+
+let evicting: Promise<void> = Promise.resolve()
+
+export const getFalResultCacheDir = (): string | undefined => {
+  const configured = process.env.FAL_RESULT_CACHE?.trim()
+  return configured ? path.resolve(configured) : undefined
+}
+
+export const isFalResultCacheEnabled = (): boolean => Boolean(getFalResultCacheDir())
+
+const getMaxBytes = (): number => {
+  const megabytes = Number(process.env.FAL_RESULT_CACHE_MAX_MB)
+  return (Number.isFinite(megabytes) && megabytes > 0 ? megabytes : defaultMaxMb) * 1024 * 1024
+}
+
+// Only payloads pinned to a seed reproduce the same output, everything else is sampled fresh on every run
+export const isDeterministicFalPayload = (payload: unknown): boolean => {
+  const seed = (payload as { seed?: unknown } | null)?.seed
+  return typeof seed === 'number' && Number.isInteger(seed) && seed >= 0
+}
+
+const entryPath = (dir: string, key: string): string => path.join(dir, `${key}.json`)
+
+/**
+ * Look up the node outputs of an earlier identical Fal call
+ * @param key Hash of the endpoint and canonical payload
+ * @returns The cached outputs, or undefined on a miss
+ */
+export const readFalResult = async <TOutput>(key: string): Promise<TOutput | undefined> => {
+  const dir = getFalResultCacheDir()
+  if (!dir) {
+    return undefined
+  }
+
+  const file = entryPath(dir, key)
+  try {
+    const entry = JSON.parse(await readFile(file, 'utf8')) as FalResultCacheEntry<TOutput>
+    // Touch the entry so eviction drops the least recently used results first
+    const now = new Date()
+    await utimes(file, now, now).catch(() => undefined)
+    return entry.output
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      console.warn(`[Fal] Ignoring unreadable cached result ${file}:`, error?.message ?? error)
+    }
+    return undefined
+  }
+}
+
+const evictOverflow = async (dir: string): Promise<void> => {
+  const names = (await readdir(dir)).filter((name) => name.endsWith('.json'))
+  const files = await Promise.all(names.map(async (name) => {
+    const file = path.join(dir, name)
+    const info = await stat(file).catch(() => undefined)
+    return { file, size: info?.size ?? 0, usedAt: info?.mtimeMs ?? 0 }
+  }))
+
+  let total = files.reduce((sum, entry) => sum + entry.size, 0)
+  const maxBytes = getMaxBytes()
+  for (const entry of files.sort((a, b) => a.usedAt - b.usedAt)) {
+    if (total <= maxBytes) {
+      break
+    }
+    await unlink(entry.file).catch(() => undefined)
+    total -= entry.size
+  }
+}
+
+/**
+ * Store node outputs for later identical Fal calls, evicting the least recently used results past the size limit
+ * @param key Hash of the endpoint and canonical payload
+ * @param endpoint Fal endpoint id, kept for inspection of the cache directory
+ * @param output Node outputs produced by the mapper
+ */
+export const writeFalResult = async <TOutput>(key: string, endpoint: string, output: TOutput): Promise<void> => {
+  const dir = getFalResultCacheDir()
+  if (!dir) {
+    return
+  }
+
+  const entry: FalResultCacheEntry<TOutput> = { endpoint, createdAt: new Date().toISOString(), output }
+  const file = entryPath(dir, key)
+  await mkdir(dir, { recursive: true })
+  const tempPath = `${file}.${process.pid}.tmp`
+  await writeFile(tempPath, JSON.stringify(entry), 'utf8')
+  await rename(tempPath, file)
+
+  evicting = evicting.then(() => evictOverflow(dir)).catch((error) => {
+    console.warn('[Fal] Failed to trim result cache:', error?.message ?? error)
+  })
+  await evicting
+}
@@ -0,0 +1,130 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+
+export interface FalRunSample {
+  queueMs: number
+  runMs: number
+  recordedAt: string
+}
+
+type FalRunStats = Record<string, FalRunSample[]>
+
+// Enough runs to smooth out a slow queue, few enough to follow Fal getting faster or slower
+const maxSamples = 20
+
+// Payload fields that change how long a run takes, everything else shares one bucket
+const bucketFields = ['resolution', 'duration', 'num_images', 'num_frames', 'image_size'] as const
+
+let stats: FalRunStats | undefined
+let loading: Promise<FalRunStats> | undefined
+let writeChain: Promise<unknown> = Promise.resolve()
+
+export const getFalRunStatsPath = (): string | undefined => {
+  const configured = process.env.FAL_RUN_STATS?.trim()
+  return configured ? path.resolve(configured) : undefined
+}
+
+const describeValue = (value: unknown): string | undefined => {
+  if (value === undefined || value === null || value === '') {
+    return undefined
+  }
+  if (typeof value === 'object') {
+    const { width, height } = value as { width?: unknown, height?: unknown }
+    return width !== undefined && height !== undefined ? `${width}x${height}` : JSON.stringify(value)
+  }
+  return String(value)
+}
+
+/**
+ * Key under which the durations of a Fal call are grouped
+ * @param endpoint Fal endpoint id
+ * @param payload Request payload; only fields affecting run time are used
+ * @param transport 'realtime' for answers over the realtime socket, which never queue and are far quicker than queue runs
+ * @returns e.g. 'fal-ai/veo3|resolution=1080p|duration=8s'
+ */
+export const createFalRunBucket = (endpoint: string, payload: unknown, transport: 'queue' | 'realtime' = 'queue'): string => {
+  const input = (payload ?? {}) as Record<string, unknown>
+  const parts = bucketFields.flatMap((field) => {
+    const value = describeValue(input[field])
+    return value === undefined ? [] : [`${field}=${value}`]
+  })
+  return [endpoint, ...parts, ...(transport === 'realtime' ? ['realtime'] : [])].join('|')
+}
+
+const readStats = async (statsPath: string): Promise<FalRunStats> => {
+  try {
+    const parsed = JSON.parse(await readFile(statsPath, 'utf8'))
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as FalRunStats : {}
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      console.warn(`[Fal] Ignoring unreadable run stats ${statsPath}:`, error?.message ?? error)
+    }
+    return {}
+  }
+}
+
+const loadStats = (): Promise<FalRunStats> => {
+  if (!loading) {
+    loading = (async () => {
+      const statsPath = getFalRunStatsPath()
+      stats = statsPath ? await readStats(statsPath) : {}
+      return stats
+    })()
+  }
+  return loading
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2)
+}
+
+/**
+ * Forget the durations learned in memory, so the next lookup starts from the stats file alone, or from nothing
+ */
+export const resetFalRunStats = (): void => {
+  stats = undefined
+  loading = undefined
+}
+
+/**
+ * Expected wall time of a Fal call, learned from earlier runs in the same bucket
+ * @param bucket Key from createFalRunBucket
+ * @returns Median queue plus run time of the recent runs, or undefined before the first run
+ */
+export const getExpectedFalRunMs = async (bucket: string): Promise<number | undefined> => {
+  const samples = (await loadStats())[bucket]
+  if (!samples?.length) {
+    return undefined
+  }
+  return median(samples.map((sample) => sample.queueMs)) + median(samples.map((sample) => sample.runMs))
+}
+
+/**
+ * Record how long a completed Fal call spent queued and running
+ * @param bucket Key from createFalRunBucket
+ * @param durations Time from submission to the first IN_PROGRESS update, and from there to the result
+ */
+export const recordFalRunDuration = async (bucket: string, durations: { queueMs: number, runMs: number }): Promise<void> => {
+  const current = await loadStats()
+  const sample: FalRunSample = { ...durations, recordedAt: new Date().toISOString() }
+  current[bucket] = [...(current[bucket] ?? []), sample].slice(-maxSamples)
+
+  const statsPath = getFalRunStatsPath()
+  if (!statsPath) {
+    return
+  }
+
+  // Re-read before writing so several servers sharing one stats file keep each other's samples
+  const run = writeChain.then(async () => {
+    const stored = await readStats(statsPath)
+    stored[bucket] = [...(stored[bucket] ?? []), sample].slice(-maxSamples)
+    await mkdir(path.dirname(statsPath), { recursive: true })
+    const tempPath = `${statsPath}.${process.pid}.tmp`
+    await writeFile(tempPath, JSON.stringify(stored, null, 2), 'utf8')
+    await rename(tempPath, statsPath)
+  })
+  writeChain = run.catch(() => undefined)
+  return run
+}
@@ -0,0 +1,150 @@
+import { NodeDefinition } from '@nanograph/sdk'
+import { randomInt } from 'node:crypto'
+import { FalNodeExecuteArgs } from './fal-batch.js'
+import { getParameterValue, withParameterValues } from './parameter-utils.js'
+
+type FalNodeOutputs = Record<string, unknown>
+
+export type FalSafetyPolicy = 'pass' | 'drop' | 'fail' | 'regenerate'
+
+export interface FalSafetyOptions {
+  // Output holding the generated images, 'images' by default
+  imageOutput?: string
+  // Output holding one NSFW flag per image, 'has_nsfw_concepts' by default
+  flagOutput?: string
+  // Parameter given a new seed for every regeneration, 'seed' by default
+  seedParameter?: string
+}
+
+// JSON written to the 'safety_report' output
+export interface FalSafetyReport {
+  policy: FalSafetyPolicy
+  decision: 'clean' | 'passed' | 'dropped' | 'regenerated'
+  // Every generation in order: the seed it used and how many of its images were flagged
+  attempts: Array<{ seed?: number, flagged: number }>
+  // Images of the final generation with their flag; dropped ones are not in the images output
+  images: Array<{ image: unknown, nsfw: boolean, dropped?: boolean }>
+}
+
+export class FalSafetyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FalSafetyError'
+  }
+}
+
+// Every regeneration is billed like the first run
+export const maxFalSafetyRegenerations = 5
+
+const policies: FalSafetyPolicy[] = ['pass', 'drop', 'fail', 'regenerate']
+
+const asList = (value: unknown): unknown[] => (Array.isArray(value) ? value : value === undefined ? [] : [value])
+
+const countLabel = (flagged: number, total: number) => `${flagged} of ${total} image${total === 1 ? '' : 's'}`
+
+/**
+ * Parameters choosing what a node does with images Fal flags as NSFW, see withFalSafetyPolicy
+ * @returns Parameter definitions for 'safety_policy' and 'safety_max_regenerations'
+ */
+export const createSafetyPolicyParameters = (): NonNullable<NodeDefinition['parameters']> => [
+  {
+    name: 'safety_policy',
+    type: 'select',
+    value: 'pass',
+    default: 'pass',
+    label: 'NSFW Handling',
+    description: 'What to do with images flagged in has_nsfw_concepts: keep them, drop them, fail the node, or regenerate with a new seed',
+    options: [
+      { label: 'Pass through', value: 'pass' },
+      { label: 'Drop flagged images', value: 'drop' },
+      { label: 'Fail the node', value: 'fail' },
+      { label: 'Regenerate with a new seed', value: 'regenerate' }
+    ]
+  },
+  {
+    name: 'safety_max_regenerations',
+    type: 'number',
+    value: 2,
+    default: 2,
+    min: 1,
+    max: maxFalSafetyRegenerations,
+    step: 1,
+    label: 'NSFW Regenerations',
+    description: 'With Regenerate, how many new seeds to try before the node fails'
+  }
+]
+
+/**
+ * Apply the node's 'safety_policy' to the NSFW flags of each generation
+ * @param options Outputs holding the images and their flags, and the seed parameter changed on regeneration
+ * @param execute The node's execute function for a single request
+ * @returns Execute function returning the filtered outputs plus a JSON 'safety_report' tagging every image
+ */
+export const withFalSafetyPolicy = <TArgs extends FalNodeExecuteArgs, TOutput extends FalNodeOutputs>(
+  options: FalSafetyOptions,
+  execute: (args: TArgs) => Promise<TOutput>
+) => async (args: TArgs): Promise<TOutput> => {
+  const { parameters, context } = args
+  const imageOutput = options.imageOutput ?? 'images'
+  const flagOutput = options.flagOutput ?? 'has_nsfw_concepts'
+  const requested = getParameterValue(parameters, 'safety_policy', 'pass') as FalSafetyPolicy
+  const policy = policies.includes(requested) ? requested : 'pass'
+  const maxRegenerations = Math.min(Math.max(Math.round(Number(getParameterValue(parameters, 'safety_max_regenerations', 2))) || 1, 1), maxFalSafetyRegenerations)
+
+  const attempts: FalSafetyReport['attempts'] = []
+  // Flags missing for an image count as clean, as Fal omits them when its checker is off
+  const generate = async (runArgs: TArgs, seed?: number) => {
+    const output = await execute(runArgs)
+    const images = asList(output[imageOutput])
+    const flags = images.map((_, index) => asList(output[flagOutput])[index] === true)
+    const returnedSeed = asList(output.seed)[0]
+    attempts.push({ seed: seed ?? (typeof returnedSeed === 'number' ? returnedSeed : undefined), flagged: flags.filter(Boolean).length })
+    return { output, images, flags }
+  }
+
+  let run = await generate(args)
+  while (policy === 'regenerate' && run.flags.some(Boolean) && attempts.length <= maxRegenerations) {
+    const seed = randomInt(2 ** 31)
+    context.sendStatus({
+      type: 'running',
+      message: `${countLabel(attempts[attempts.length - 1].flagged, run.images.length)} flagged as NSFW, regenerating with seed ${seed} (${attempts.length}/${maxRegenerations})...`
+    })
+    run = await generate({ ...args, parameters: withParameterValues(parameters, { [options.seedParameter ?? 'seed']: seed }) }, seed)
+  }
+
+  const { output, images, flags } = run
+  const flagged = flags.filter(Boolean).length
+  if (flagged && (policy === 'fail' || policy === 'regenerate')) {
+    const message = policy === 'fail'
+      ? `${countLabel(flagged, images.length)} flagged as NSFW, failing as the safety policy requires`
+      : `${countLabel(flagged, images.length)} still flagged as NSFW after ${maxRegenerations} regeneration${maxRegenerations === 1 ? '' : 's'}`
+    context.sendStatus({ type: 'error', message })
+    throw new FalSafetyError(message)
+  }
+
+  const drop = policy === 'drop' && flagged > 0
+  if (flagged) {
+    context.sendStatus({
+      type: 'running',
+      message: drop
+        ? `Dropped ${countLabel(flagged, images.length)} flagged as NSFW`
+        : `${countLabel(flagged, images.length)} flagged as NSFW, passed through`
+    })
+  } else if (attempts.length > 1) {
+    context.sendStatus({ type: 'running', message: `No NSFW flags after ${attempts.length - 1} regeneration${attempts.length === 2 ? '' : 's'}` })
+  }
+
+  const report: FalSafetyReport = {
+    policy,
+    decision: flagged ? (drop ? 'dropped' : 'passed') : attempts.length > 1 ? 'regenerated' : 'clean',
+    attempts,
+    images: images.map((image, index) => ({ image, nsfw: flags[index], ...(drop && flags[index] ? { dropped: true } : {}) }))
+  }
+  const kept = (values: unknown) => asList(values).filter((_, index) => !(drop && flags[index]))
+
+  return {
+    ...output,
+    ...(drop ? { [imageOutput]: kept(output[imageOutput]), [flagOutput]: kept(output[flagOutput]) } : {}),
+    safety_report: [JSON.stringify(report, null, 2)]
+  } as TOutput
+}
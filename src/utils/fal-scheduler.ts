@@ -0,0 +1,132 @@
+import { FalCancelledError } from './fal-cancellation.js'
+
+export interface FalSlotRequest {
+  endpoint: string
+  // Waiters are served round-robin across groups, so one large fan-out cannot starve other workflows
+  group?: string
+  signal?: AbortSignal
+  // Called while waiting, and again whenever the position changes
+  onWait?: (position: number, queued: number) => void
+}
+
+interface FalSlotWaiter extends FalSlotRequest {
+  group: string
+  grant: (release: () => void) => void
+  lastReported?: string
+}
+
+const defaultMaxConcurrency = 10
+const defaultMaxPerEndpoint = 5
+
+let active = 0
+const activeByEndpoint = new Map<string, number>()
+const waiting: FalSlotWaiter[] = []
+// Group served last, the next dispatch starts after it
+let lastGroup: string | undefined
+
+const readLimit = (name: string, fallback: number): number => {
+  const value = Number(process.env[name])
+  return Number.isInteger(value) && value > 0 ? value : fallback
+}
+
+export const getFalConcurrencyLimits = () => ({
+  global: readLimit('FAL_MAX_CONCURRENCY', defaultMaxConcurrency),
+  perEndpoint: readLimit('FAL_MAX_CONCURRENCY_PER_ENDPOINT', defaultMaxPerEndpoint)
+})
+
+const hasCapacity = (endpoint: string): boolean => {
+  const limits = getFalConcurrencyLimits()
+  return active < limits.global && (activeByEndpoint.get(endpoint) ?? 0) < limits.perEndpoint
+}
+
+const take = (endpoint: string): (() => void) => {
+  active += 1
+  activeByEndpoint.set(endpoint, (activeByEndpoint.get(endpoint) ?? 0) + 1)
+  let released = false
+  return () => {
+    if (released) {
+      return
+    }
+    released = true
+    active -= 1
+    const remaining = (activeByEndpoint.get(endpoint) ?? 1) - 1
+    if (remaining > 0) {
+      activeByEndpoint.set(endpoint, remaining)
+    } else {
+      activeByEndpoint.delete(endpoint)
+    }
+    dispatch()
+  }
+}
+
+// Groups in the order they first queued, rotated so the one after the last served goes first
+const groupOrder = (): string[] => {
+  const groups = Array.from(new Set(waiting.map((waiter) => waiter.group)))
+  const start = lastGroup === undefined ? -1 : groups.indexOf(lastGroup)
+  return start < 0 ? groups : [...groups.slice(start + 1), ...groups.slice(0, start + 1)]
+}
+
+const nextWaiter = (): FalSlotWaiter | undefined => {
+  for (const group of groupOrder()) {
+    const waiter = waiting.find((candidate) => candidate.group === group && hasCapacity(candidate.endpoint))
+    if (waiter) {
+      return waiter
+    }
+  }
+  return undefined
+}
+
+const notifyPositions = () => {
+  waiting.forEach((waiter, index) => {
+    const reported = `${index + 1}/${waiting.length}`
+    if (waiter.lastReported !== reported) {
+      waiter.lastReported = reported
+      waiter.onWait?.(index + 1, waiting.length)
+    }
+  })
+}
+
+const dispatch = () => {
+  for (let waiter = nextWaiter(); waiter; waiter = nextWaiter()) {
+    waiting.splice(waiting.indexOf(waiter), 1)
+    lastGroup = waiter.group
+    waiter.grant(take(waiter.endpoint))
+  }
+  notifyPositions()
+}
+
+/**
+ * Wait for a local slot before talking to Fal, capping concurrent requests globally and per endpoint
+ * @param request Endpoint, fairness group, abort signal and a hook reporting the queue position
+ * @returns Releases the slot; safe to call more than once
+ */
+export const acquireFalSlot = (request: FalSlotRequest): Promise<() => void> => {
+  if (request.signal?.aborted) {
+    return Promise.reject(new FalCancelledError())
+  }
+  if (!waiting.length && hasCapacity(request.endpoint)) {
+    return Promise.resolve(take(request.endpoint))
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      const index = waiting.indexOf(waiter)
+      if (index >= 0) {
+        waiting.splice(index, 1)
+        notifyPositions()
+      }
+      reject(new FalCancelledError())
+    }
+    const waiter: FalSlotWaiter = {
+      ...request,
+      group: request.group ?? request.endpoint,
+      grant: (release) => {
+        request.signal?.removeEventListener('abort', onAbort)
+        resolve(release)
+      }
+    }
+    request.signal?.addEventListener('abort', onAbort, { once: true })
+    waiting.push(waiter)
+    dispatch()
+  })
+}
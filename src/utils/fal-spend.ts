@@ -0,0 +1,121 @@
+import { createHash } from 'node:crypto'
+import { appendFile, mkdir, readFile } from 'node:fs/promises'
+import path from 'node:path'
+
+export interface FalSpendEntry {
+  at: string
+  endpoint: string
+  costUsd: number
+  // Non-secret id of the Fal key that paid for the call
+  key: string
+  workflowId?: string
+  runId?: string
+}
+
+export interface FalSpendSummary {
+  totalUsd: number
+  byKey: Record<string, number>
+  byWorkflow: Record<string, number>
+  byRun: Record<string, number>
+}
+
+let entries: FalSpendEntry[] | undefined
+let loading: Promise<FalSpendEntry[]> | undefined
+let writeChain: Promise<unknown> = Promise.resolve()
+
+// A daily budget has to outlive restarts and autoWatch reloads, so it keeps a ledger even when none is configured
+export const defaultFalSpendLedger = '.fal-spend.jsonl'
+
+export const getFalSpendLedgerPath = (): string | undefined => {
+  const configured = process.env.FAL_SPEND_LEDGER?.trim()
+  if (configured) {
+    return path.resolve(configured)
+  }
+  return process.env.FAL_BUDGET_PER_DAY_USD?.trim() ? path.resolve(defaultFalSpendLedger) : undefined
+}
+
+/**
+ * Identify a Fal key in the ledger without storing the secret
+ * @param apiKey Key in Fal's 'id:secret' form
+ * @returns The key id, or a short hash for keys without one
+ */
+export const describeFalKey = (apiKey: string | undefined): string => {
+  if (!apiKey) {
+    return 'none'
+  }
+  const [id, secret] = apiKey.split(':')
+  return secret ? id : `sha256:${createHash('sha256').update(apiKey).digest('hex').slice(0, 12)}`
+}
+
+// The ledger is JSON lines so concurrent runs only ever append
+const loadEntries = (): Promise<FalSpendEntry[]> => {
+  if (!loading) {
+    loading = (async () => {
+      const ledgerPath = getFalSpendLedgerPath()
+      let lines: string[] = []
+      if (ledgerPath) {
+        try {
+          lines = (await readFile(ledgerPath, 'utf8')).split('\n').filter((line) => line.trim())
+        } catch (error: any) {
+          if (error?.code !== 'ENOENT') {
+            console.warn(`[Fal] Ignoring unreadable spend ledger ${ledgerPath}:`, error?.message ?? error)
+          }
+        }
+      }
+      entries = lines.flatMap((line) => {
+        try {
+          return [JSON.parse(line) as FalSpendEntry]
+        } catch {
+          return []
+        }
+      })
+      return entries
+    })()
+  }
+  return loading
+}
+
+/**
+ * Add a completed Fal call to the spend ledger
+ * @param entry Estimated cost of the call and who ran it
+ */
+export const recordFalSpend = async (entry: Omit<FalSpendEntry, 'at'>): Promise<void> => {
+  const current = await loadEntries()
+  const stored: FalSpendEntry = { at: new Date().toISOString(), ...entry }
+  current.push(stored)
+
+  const ledgerPath = getFalSpendLedgerPath()
+  if (!ledgerPath) {
+    return
+  }
+  const run = writeChain.then(async () => {
+    await mkdir(path.dirname(ledgerPath), { recursive: true })
+    await appendFile(ledgerPath, `${JSON.stringify(stored)}\n`, 'utf8')
+  })
+  writeChain = run.catch(() => undefined)
+  return run
+}
+
+/**
+ * Total the recorded spend
+ * @param filter Only count entries recorded at or after `since`
+ * @returns Totals overall, per key, per workflow and per workflow run
+ */
+export const summarizeFalSpend = async (filter: { since?: Date } = {}): Promise<FalSpendSummary> => {
+  const since = filter.since?.getTime() ?? 0
+  const summary: FalSpendSummary = { totalUsd: 0, byKey: {}, byWorkflow: {}, byRun: {} }
+  const add = (totals: Record<string, number>, name: string, amount: number) => {
+    totals[name] = (totals[name] ?? 0) + amount
+  }
+
+  for (const entry of await loadEntries()) {
+    if (Date.parse(entry.at) < since) {
+      continue
+    }
+    summary.totalUsd += entry.costUsd
+    add(summary.byKey, entry.key, entry.costUsd)
+    add(summary.byWorkflow, entry.workflowId ?? 'unknown', entry.costUsd)
+    add(summary.byRun, entry.runId ?? 'unknown', entry.costUsd)
+  }
+  return summary
+}
@@ -1,5 +1,47 @@
-import { File } from 'node:buffer'
-import { fal } from './fal-client.js'
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { Blob, File } from 'node:buffer'
+import * as fs from 'node:fs'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { Transform } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import { resolveAssetStream } from './asset-utils.js'
+import { fal, FalRetryOptions, getFalStorage, withFalRetry } from './fal-client.js'
+import { cachedFalUpload, startFalUploadDigest } from './fal-upload-cache.js'
+import { defaultFalImageFormats, ensureImageFormat, ImageFormat } from './image-utils.js'
+
+export interface FalUploadReporter {
+  onRetry?: FalRetryOptions['onRetry']
+  // Steps taken before an upload, such as converting an image the endpoint does not accept
+  onStatus?: (message: string) => void
+}
+
+// Reporter of the node whose payload is being built, so upload retries and conversions show up in its status
+const uploadReporter = new AsyncLocalStorage<FalUploadReporter>()
+
+/**
+ * Report retries and conversions of the storage uploads made by an operation through the given callbacks
+ * @param reporter Called before each retry of an upload started inside the operation, and for each conversion
+ * @param operation Usually the payload builder of a node
+ * @returns The result of the operation
+ */
+export const withFalUploadReporter = <T>(reporter: FalUploadReporter, operation: () => T): T =>
+  uploadReporter.run(reporter, operation)
+
+const uploadToFalStorage = async (file: File): Promise<string> => {
+  type FalStorageUploadInput = Parameters<typeof fal.storage.upload>[0]
+  const url = await withFalRetry(
+    () => getFalStorage().upload(file as unknown as FalStorageUploadInput),
+    { onRetry: uploadReporter.getStore()?.onRetry }
+  )
+
+  if (!url) {
+    throw new Error('Fal storage upload did not return a URL')
+  }
+
+  return url
+}
 
 const formatToMime = (format: string): string => {
   switch (format.toLowerCase()) {
@@ -36,16 +78,66 @@ export const uploadBufferToFal = async (
   const filenamePrefix = options.filenamePrefix ?? 'upload'
   const filename = `${filenamePrefix}.${extension}`
   const mimeType = formatToMime(format)
-  type FalStorageUploadInput = Parameters<typeof fal.storage.upload>[0]
   const file = new File([buffer], filename, { type: mimeType })
-  const url = await fal.storage.upload(file as unknown as FalStorageUploadInput)
+  return cachedFalUpload(buffer, mimeType, () => uploadToFalStorage(file))
+}
 
-  if (!url) {
-    throw new Error('Fal storage upload did not return a URL')
+/**
+ * Upload an image to Fal storage, converting it first when the endpoint does not accept its format
+ * @param buffer Raw image bytes in any format sharp can read
+ * @param options Filename prefix and the formats the endpoint accepts
+ * @returns The Fal storage URL
+ */
+export const uploadImageToFal = async (
+  buffer: Buffer,
+  options: { filenamePrefix?: string, accepted?: readonly ImageFormat[] } = {}
+): Promise<string> => {
+  const image = await ensureImageFormat(buffer, options.accepted ?? defaultFalImageFormats)
+  if (image.convertedFrom) {
+    uploadReporter.getStore()?.onStatus?.(`Converted ${image.convertedFrom} image to ${image.format} for Fal`)
   }
-
-  return url
+  return uploadBufferToFal(image.buffer, image.format, { filenamePrefix: options.filenamePrefix })
 }
 
-export const detectedFormatOrDefault = (format: string | undefined): string =>
-  format && format.trim().length > 0 ? format : 'jpeg'
+// fs.openAsBlob ships with Node 20 but is missing from the @types/node version this package pins
+const openAsBlob = (fs as unknown as {
+  openAsBlob: (filePath: string, options?: { type?: string }) => Promise<Blob>
+}).openAsBlob
+
+/**
+ * Upload a NanoGraph asset to Fal storage without holding it in memory, for large inputs such as videos
+ * @param assetUri The NanoGraph asset URI
+ * @param options Filename and content type sent to Fal storage
+ * @returns The Fal storage URL
+ */
+export const uploadAssetStreamToFal = async (
+  assetUri: string,
+  options: { filename: string, contentType: string }
+): Promise<string> => {
+  // Spool to disk while hashing; Fal storage needs the size up front and uploads large files in parts
+  const spoolDir = await mkdtemp(path.join(tmpdir(), 'nano-fal-'))
+  const spoolPath = path.join(spoolDir, path.basename(options.filename))
+
+  try {
+    const hash = startFalUploadDigest(options.contentType)
+    let size = 0
+    await pipeline(
+      await resolveAssetStream(assetUri),
+      new Transform({
+        transform (chunk: Buffer, _encoding, callback) {
+          hash.update(chunk)
+          size += chunk.length
+          callback(null, chunk)
+        }
+      }),
+      fs.createWriteStream(spoolPath)
+    )
+
+    return await cachedFalUpload({ digest: hash.digest('hex'), size }, options.contentType, async () => {
+      const blob = await openAsBlob(spoolPath, { type: options.contentType })
+      return uploadToFalStorage(new File([blob], options.filename, { type: options.contentType }))
+    })
+  } finally {
+    await rm(spoolDir, { recursive: true, force: true })
+  }
+}
@@ -0,0 +1,225 @@
+import { NodeDefinition } from '@nanograph/sdk'
+import sharp from 'sharp'
+import { resolveAssetStream, uploadAsset } from './asset-utils.js'
+import { FalNodeExecuteArgs, mergeFalOutputs, runFalElements } from './fal-batch.js'
+import { getParameterValue, withParameterValues } from './parameter-utils.js'
+
+type FalSweepValue = string | number
+type FalNodeOutputs = Record<string, unknown>
+
+export interface FalSweepAxis {
+  parameter: string
+  values: FalSweepValue[]
+}
+
+export interface FalSweepOptions {
+  // Parameters a sweep may vary; anything else in the sweep spec is rejected
+  parameters: string[]
+  // Output holding the image assets shown on the contact sheet
+  imageOutput?: string
+}
+
+// Every run is billed, so a typo like seed=1:1000 fails instead of queueing a thousand images
+export const maxFalSweepRuns = 64
+
+const contactSheetCell = 320
+const contactSheetLabel = 44
+
+const parseValue = (raw: string): FalSweepValue => {
+  const value = Number(raw)
+  return raw !== '' && Number.isFinite(value) ? value : raw
+}
+
+// 'start:end' or 'start:end:step', both ends included
+const parseRange = (raw: string, parameter: string): FalSweepValue[] | undefined => {
+  const parts = raw.split(':').map((part) => part.trim())
+  if (parts.length < 2 || parts.length > 3 || parts.some((part) => part === '' || !Number.isFinite(Number(part)))) {
+    return undefined
+  }
+  const [start, end, step = 1] = parts.map(Number)
+  if (step <= 0) {
+    throw new Error(`Sweep range for ${parameter} needs a positive step`)
+  }
+  const count = Math.floor(Math.abs(end - start) / step + 1e-9) + 1
+  if (count > maxFalSweepRuns) {
+    throw new Error(`Sweep range for ${parameter} has ${count} values, more than the ${maxFalSweepRuns} allowed per execution`)
+  }
+  // Rounded so 0.1 steps do not come out as 0.30000000000000004
+  const decimals = Math.max(...parts.map((part) => part.split('.')[1]?.length ?? 0))
+  const direction = start <= end ? 1 : -1
+  return Array.from({ length: count }, (_, index) => Number((start + direction * index * step).toFixed(decimals)))
+}
+
+/**
+ * Parse a sweep spec such as `guidance_scale=2,3.5,5; num_inference_steps=20:40:10; seed=1:3`
+ * @param spec Parameters separated by ';' or new lines, each with a comma list or an inclusive range
+ * @param allowed Parameters the node lets a sweep vary
+ * @returns One axis per parameter, in the order given
+ */
+export const parseFalSweep = (spec: string, allowed: string[]): FalSweepAxis[] => {
+  const axes = spec.split(/[;\n]/).map((entry) => entry.trim()).filter(Boolean).map((entry) => {
+    const [name, raw = ''] = entry.split('=', 2).map((part) => part.trim())
+    if (!allowed.includes(name)) {
+      throw new Error(`Cannot sweep '${name}', choose from ${allowed.join(', ')}`)
+    }
+    const values = parseRange(raw, name) ?? raw.split(',').map((value) => value.trim()).filter(Boolean).map(parseValue)
+    if (!values.length) {
+      throw new Error(`Sweep for ${name} has no values`)
+    }
+    return { parameter: name, values }
+  })
+  const repeated = axes.find((axis, index) => axes.findIndex((other) => other.parameter === axis.parameter) !== index)
+  if (repeated) {
+    throw new Error(`Sweep lists ${repeated.parameter} more than once`)
+  }
+  return axes
+}
+
+// Cartesian product with the last axis varying fastest, matching the contact sheet columns
+const combine = (axes: FalSweepAxis[]): Record<string, FalSweepValue>[] =>
+  axes.reduce<Record<string, FalSweepValue>[]>(
+    (runs, axis) => runs.flatMap((run) => axis.values.map((value) => ({ ...run, [axis.parameter]: value }))),
+    [{}]
+  )
+
+
+const readAsset = async (uri: string): Promise<Buffer> => {
+  const chunks: Buffer[] = []
+  for await (const chunk of await resolveAssetStream(uri)) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk))
+  }
+  return Buffer.concat(chunks)
+}
+
+const escapeXml = (text: string): string =>
+  text.replace(/[<>&'"]/g, (char) => `&#${char.charCodeAt(0)};`)
+
+/**
+ * Lay out sweep results in a labelled grid
+ * @param cells Image asset and caption per cell, in sweep order
+ * @param columns Cells per row
+ * @returns PNG of the contact sheet
+ */
+export const composeFalContactSheet = async (cells: { image: string, label: string }[], columns: number): Promise<Buffer> => {
+  const rows = Math.ceil(cells.length / columns)
+  const cellHeight = contactSheetCell + contactSheetLabel
+  const tiles = await Promise.all(cells.map(async (cell, index) => {
+    const left = (index % columns) * contactSheetCell
+    const top = Math.floor(index / columns) * cellHeight
+    const image = await sharp(await readAsset(cell.image))
+      .resize(contactSheetCell, contactSheetCell, { fit: 'contain', background: '#202020' })
+      .png()
+      .toBuffer()
+    const caption = Buffer.from(
+      `<svg width="${contactSheetCell}" height="${contactSheetLabel}" xmlns="http://www.w3.org/2000/svg">` +
+      `<text x="8" y="${contactSheetLabel / 2 + 5}" font-family="sans-serif" font-size="14" fill="#f0f0f0">${escapeXml(cell.label)}</text></svg>`
+    )
+    return [
+      { input: image, left, top },
+      { input: caption, left, top: top + contactSheetCell }
+    ]
+  }))
+
+  return sharp({
+    create: { width: columns * contactSheetCell, height: rows * cellHeight, channels: 3, background: '#101010' }
+  })
+    .composite(tiles.flat())
+    .png()
+    .toBuffer()
+}
+
+/**
+ * Parameters turning a node into a parameter sweep, see withFalSweep
+ * @param allowed Parameters the sweep may vary, listed in the description
+ * @returns Parameter definitions for 'sweep' and 'sweep_contact_sheet'
+ */
+export const createSweepParameters = (allowed: string[]): NonNullable<NodeDefinition['parameters']> => [
+  {
+    name: 'sweep',
+    type: 'text',
+    value: '',
+    default: '',
+    label: 'Parameter Sweep',
+    description: `Run every combination of the listed values, e.g. "${allowed[0]}=1,2,3; seed=1:4" (ranges are start:end or start:end:step). Sweepable: ${allowed.join(', ')}`
+  },
+  {
+    name: 'sweep_contact_sheet',
+    type: 'boolean',
+    value: false,
+    default: false,
+    label: 'Sweep Contact Sheet',
+    description: 'Also output one image showing every sweep result labelled with its parameters'
+  }
+]
+
+/**
+ * Let a node run a parameter sweep when its 'sweep' parameter is set
+ * @param options Parameters the sweep may vary and the output holding images
+ * @param execute The node's execute function for a single set of parameters
+ * @returns Execute function running every combination, returning all outputs plus a manifest and optional contact sheet
+ */
+export const withFalSweep = <TArgs extends FalNodeExecuteArgs, TOutput extends FalNodeOutputs>(
+  options: FalSweepOptions,
+  execute: (args: TArgs) => Promise<TOutput>
+) => async (args: TArgs): Promise<TOutput> => {
+  const { parameters, context } = args
+  const spec = String(getParameterValue(parameters, 'sweep', '') ?? '').trim()
+  if (!spec) {
+    return execute(args)
+  }
+
+  let axes: FalSweepAxis[]
+  let runs: Record<string, FalSweepValue>[]
+  try {
+    axes = parseFalSweep(spec, options.parameters)
+    runs = combine(axes)
+    if (runs.length > maxFalSweepRuns) {
+      throw new Error(`Sweep has ${runs.length} combinations, more than the ${maxFalSweepRuns} allowed per execution`)
+    }
+  } catch (error: any) {
+    context.sendStatus({ type: 'error', message: error.message })
+    throw error
+  }
+
+  const outputs = await runFalElements(context, runs.length, (index, runContext) =>
+    execute({ ...args, parameters: withParameterValues(parameters, runs[index]), context: runContext }))
+
+  const imageOutput = options.imageOutput ?? 'images'
+  const manifest = {
+    parameters: axes.map((axis) => axis.parameter),
+    runs: runs.map((values, index) => ({ parameters: values, ...outputs[index] }))
+  }
+  const merged: FalNodeOutputs = { ...mergeFalOutputs(outputs), manifest: [JSON.stringify(manifest, null, 2)] }
+
+  if (getParameterValue(parameters, 'sweep_contact_sheet', false)) {
+    context.sendStatus({ type: 'running', message: 'Composing contact sheet...', progress: { step: 99, total: 100 } })
+    // Batch padding and images dropped by the safety filter leave null slots, which have nothing to show
+    const cells = runs.flatMap((values, index) => {
+      const images = outputs[index]?.[imageOutput]
+      const label = Object.entries(values).map(([name, value]) => `${name}=${value}`).join('  ')
+      return (Array.isArray(images) ? images : [])
+        .filter((image) => image !== null && image !== undefined && String(image) !== '')
+        .map((image) => ({ image: String(image), label }))
+    })
+    if (!cells.length) {
+      context.sendStatus({ type: 'running', message: 'No images to put on the contact sheet', progress: { step: 100, total: 100 } })
+      return merged as TOutput
+    }
+    const perRun = Math.max(1, Math.round(cells.length / runs.length))
+    const lastAxis = axes[axes.length - 1].values.length * perRun
+    const columns = Math.min(cells.length, lastAxis <= 8 ? lastAxis : Math.ceil(Math.sqrt(cells.length)))
+    try {
+      const sheet = await composeFalContactSheet(cells, columns)
+      const uploaded = await uploadAsset(sheet, { type: 'image', filename: 'sweep-contact-sheet.png', contentType: 'image/png' })
+      if (!uploaded?.uri) {
+        throw new Error('Failed to upload sweep contact sheet')
+      }
+      merged.contact_sheet = [uploaded.uri]
+    } catch (error: any) {
+      context.sendStatus({ type: 'error', message: `Failed to compose contact sheet: ${error?.message ?? error}` })
+      throw error
+    }
+  }
+
+  return merged as TOutput
+}
@@ -0,0 +1,141 @@
+import { createHash, Hash } from 'node:crypto'
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+
+export interface FalUploadCacheEntry {
+  digest: string
+  url: string
+  size: number
+  uploadedAt: string
+}
+
+// Fal storage keeps uploads for a limited time; stay well inside it unless configured otherwise
+const defaultTtlHours = 24
+
+let entries: Map<string, FalUploadCacheEntry> | undefined
+let loading: Promise<Map<string, FalUploadCacheEntry>> | undefined
+const pendingUploads = new Map<string, Promise<string>>()
+let writeChain: Promise<unknown> = Promise.resolve()
+
+export const getFalUploadCachePath = (): string | undefined => {
+  const configured = process.env.FAL_UPLOAD_CACHE?.trim()
+  return configured ? path.resolve(configured) : undefined
+}
+
+const getTtlMs = (): number => {
+  const hours = Number(process.env.FAL_UPLOAD_CACHE_TTL_HOURS)
+  return (Number.isFinite(hours) && hours > 0 ? hours : defaultTtlHours) * 60 * 60 * 1000
+}
+
+const isFresh = (entry: FalUploadCacheEntry, now = Date.now()): boolean =>
+  now - Date.parse(entry.uploadedAt) < getTtlMs()
+
+// Content type is part of the key so the same bytes uploaded as a different MIME type get their own URL
+export const startFalUploadDigest = (contentType: string): Hash =>
+  createHash('sha256').update(contentType).update('\n')
+
+export const createFalUploadDigest = (buffer: Buffer, contentType: string): string =>
+  startFalUploadDigest(contentType).update(buffer).digest('hex')
+
+const readEntries = async (cachePath: string): Promise<FalUploadCacheEntry[]> => {
+  try {
+    const parsed = JSON.parse(await readFile(cachePath, 'utf8'))
+    return Array.isArray(parsed) ? parsed as FalUploadCacheEntry[] : []
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      console.warn(`[Fal] Ignoring unreadable upload cache ${cachePath}:`, error?.message ?? error)
+    }
+    return []
+  }
+}
+
+const loadEntries = (): Promise<Map<string, FalUploadCacheEntry>> => {
+  if (!loading) {
+    loading = (async () => {
+      const cachePath = getFalUploadCachePath()
+      const stored = cachePath ? await readEntries(cachePath) : []
+      entries = new Map(stored.filter((entry) => isFresh(entry)).map((entry) => [entry.digest, entry]))
+      return entries
+    })()
+  }
+  return loading
+}
+
+// Merge with what is on disk so several servers sharing one cache file do not drop each other's uploads
+const persistEntries = (): Promise<void> => {
+  const cachePath = getFalUploadCachePath()
+  if (!cachePath || !entries) {
+    return Promise.resolve()
+  }
+
+  const current = entries
+  const run = writeChain.then(async () => {
+    const merged = new Map((await readEntries(cachePath)).map((entry) => [entry.digest, entry]))
+    for (const [digest, entry] of current) {
+      merged.set(digest, entry)
+    }
+    const now = Date.now()
+    const fresh = Array.from(merged.values()).filter((entry) => isFresh(entry, now))
+    await mkdir(path.dirname(cachePath), { recursive: true })
+    const tempPath = `${cachePath}.${process.pid}.tmp`
+    await writeFile(tempPath, JSON.stringify(fresh, null, 2), 'utf8')
+    await rename(tempPath, cachePath)
+  })
+  writeChain = run.catch(() => undefined)
+  return run
+}
+
+/**
+ * Forget the uploads known in memory, so the next lookup starts from the cache file alone, or from nothing
+ */
+export const resetFalUploadCache = (): void => {
+  entries = undefined
+  loading = undefined
+  pendingUploads.clear()
+}
+
+/**
+ * Reuse the Fal storage URL of an identical earlier upload, uploading only on a miss
+ * @param source Bytes that would be uploaded, or their digest and size when they were hashed while streaming
+ * @param contentType MIME type the upload is sent with
+ * @param upload Performs the actual upload and resolves to the Fal storage URL
+ * @returns The cached or freshly uploaded URL
+ */
+export const cachedFalUpload = async (
+  source: Buffer | { digest: string, size: number },
+  contentType: string,
+  upload: () => Promise<string>
+): Promise<string> => {
+  const digest = Buffer.isBuffer(source) ? createFalUploadDigest(source, contentType) : source.digest
+  const size = Buffer.isBuffer(source) ? source.length : source.size
+  const cache = await loadEntries()
+
+  const cached = cache.get(digest)
+  if (cached && isFresh(cached)) {
+    return cached.url
+  }
+
+  // Parallel inputs that resolve to the same file share one upload
+  const inFlight = pendingUploads.get(digest)
+  if (inFlight) {
+    return inFlight
+  }
+
+  const run = (async () => {
+    const url = await upload()
+    if (url) {
+      cache.set(digest, { digest, url, size, uploadedAt: new Date().toISOString() })
+      await persistEntries().catch((error) => {
+        console.warn('[Fal] Failed to write upload cache:', error?.message ?? error)
+      })
+    }
+    return url
+  })()
+  pendingUploads.set(digest, run)
+
+  try {
+    return await run
+  } finally {
+    pendingUploads.delete(digest)
+  }
+}
@@ -0,0 +1,243 @@
+import { ApiError } from '@fal-ai/client'
+import { createHash, createPublicKey, KeyObject, verify } from 'node:crypto'
+import { createServer, IncomingMessage, Server } from 'node:http'
+import { FalCancelledError } from './fal-cancellation.js'
+
+// Body Fal POSTs to the webhook URL once a queued request finishes
+export interface FalWebhookDelivery {
+  request_id: string
+  gateway_request_id?: string
+  status: 'OK' | 'ERROR'
+  payload?: any
+  error?: string
+  payload_error?: string
+}
+
+const webhookPath = '/fal/webhook'
+const defaultPort = 3018
+const defaultJwksUrl = 'https://rest.alpha.fal.ai/.well-known/jwks.json'
+// Fal signs the delivery time; older deliveries are treated as replays
+const maxClockSkewSeconds = 300
+const jwksTtlMs = 24 * 60 * 60 * 1000
+// Callbacks that arrive before the node started waiting (very fast jobs) are kept this long
+const earlyDeliveryTtlMs = 10 * 60 * 1000
+
+let server: Server | undefined
+let starting: Promise<void> | undefined
+let jwks: { keys: KeyObject[], fetchedAt: number } | undefined
+const waiters = new Map<string, (delivery: FalWebhookDelivery) => void>()
+const earlyDeliveries = new Map<string, { delivery: FalWebhookDelivery, receivedAt: number }>()
+const listeners = new Set<(delivery: FalWebhookDelivery) => void>()
+
+// Public base URL that forwards to the local receiver, e.g. an ngrok or reverse proxy address
+export const getFalWebhookBaseUrl = (): string | undefined => process.env.FAL_WEBHOOK_URL?.trim().replace(/\/+$/, '') || undefined
+
+export const isFalWebhookEnabled = (): boolean => Boolean(getFalWebhookBaseUrl())
+
+export const getFalWebhookUrl = (): string | undefined => {
+  const base = getFalWebhookBaseUrl()
+  return base ? `${base}${webhookPath}` : undefined
+}
+
+const getPort = (): number => {
+  const port = Number(process.env.FAL_WEBHOOK_PORT)
+  return Number.isInteger(port) && port >= 0 ? port : defaultPort
+}
+
+const loadPublicKeys = async (refresh = false): Promise<KeyObject[]> => {
+  if (jwks && !refresh && Date.now() - jwks.fetchedAt < jwksTtlMs) {
+    return jwks.keys
+  }
+  const response = await fetch(process.env.FAL_WEBHOOK_JWKS_URL?.trim() || defaultJwksUrl)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch Fal webhook keys: ${response.status} ${response.statusText}`)
+  }
+  const body = await response.json() as { keys?: Array<Record<string, string>> }
+  const keys = (body.keys ?? [])
+    .filter((key) => key.kty === 'OKP' && key.crv === 'Ed25519' && key.x)
+    .map((key) => createPublicKey({ key: { kty: 'OKP', crv: 'Ed25519', x: key.x }, format: 'jwk' }))
+  jwks = { keys, fetchedAt: Date.now() }
+  return keys
+}
+
+const header = (request: IncomingMessage, name: string): string | undefined => {
+  const value = request.headers[name]
+  return Array.isArray(value) ? value[0] : value
+}
+
+/**
+ * Check the ED25519 signature Fal attaches to webhook deliveries
+ * @param headers The X-Fal-Webhook-* request headers
+ * @param body Raw request body, exactly as received
+ * @returns True when one of Fal's published keys signed this body recently
+ */
+export const verifyFalWebhookSignature = async (
+  headers: { requestId?: string, userId?: string, timestamp?: string, signature?: string },
+  body: Buffer
+): Promise<boolean> => {
+  const { requestId, userId, timestamp, signature } = headers
+  if (!requestId || !userId || !timestamp || !signature || !/^[0-9a-f]+$/i.test(signature)) {
+    return false
+  }
+  if (!(Math.abs(Date.now() / 1000 - Number(timestamp)) <= maxClockSkewSeconds)) {
+    return false
+  }
+
+  const message = Buffer.from([requestId, userId, timestamp, createHash('sha256').update(body).digest('hex')].join('\n'), 'utf8')
+  const signatureBytes = Buffer.from(signature, 'hex')
+  const matches = (keys: KeyObject[]) => keys.some((key) => verify(null, message, key, signatureBytes))
+
+  // Fal rotates its keys; refetch once before rejecting
+  return matches(await loadPublicKeys()) || matches(await loadPublicKeys(true))
+}
+
+/**
+ * Read the failure out of a webhook delivery
+ * @param delivery Verified body posted by Fal
+ * @returns An ApiError carrying Fal's error body, or undefined when the request succeeded
+ */
+export const getFalWebhookError = (delivery: FalWebhookDelivery): ApiError<unknown> | undefined => {
+  if (delivery.status === 'OK' && !delivery.payload_error) {
+    return undefined
+  }
+  // Validation failures carry FastAPI style details, keep them so 422 formatting still applies
+  const body = delivery.payload ?? { detail: delivery.error ?? delivery.payload_error }
+  const status = Array.isArray(body?.detail) ? 422 : 500
+  return new ApiError({ message: delivery.error ?? delivery.payload_error ?? 'Fal request failed', status, body })
+}
+
+/**
+ * Observe every verified delivery, whether or not a node is waiting for it
+ * @param listener Called with each delivery before it settles its node
+ * @returns Stops listening
+ */
+export const onFalWebhookDelivery = (listener: (delivery: FalWebhookDelivery) => void): (() => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+const deliver = (delivery: FalWebhookDelivery) => {
+  for (const listener of listeners) {
+    listener(delivery)
+  }
+  const waiter = waiters.get(delivery.request_id)
+  if (waiter) {
+    waiters.delete(delivery.request_id)
+    waiter(delivery)
+    return
+  }
+  const now = Date.now()
+  for (const [requestId, early] of earlyDeliveries) {
+    if (now - early.receivedAt > earlyDeliveryTtlMs) {
+      earlyDeliveries.delete(requestId)
+    }
+  }
+  earlyDeliveries.set(delivery.request_id, { delivery, receivedAt: now })
+}
+
+const readBody = async (request: IncomingMessage): Promise<Buffer> => {
+  const chunks: Buffer[] = []
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Start the HTTP receiver for Fal webhook callbacks, once per process
+ * @returns Resolves when the receiver is listening
+ */
+export const startFalWebhookReceiver = (): Promise<void> => {
+  if (!starting) {
+    starting = new Promise<void>((resolve, reject) => {
+      const receiver = createServer(async (request, response) => {
+        if (request.method !== 'POST' || request.url?.split('?')[0] !== webhookPath) {
+          response.writeHead(404).end()
+          return
+        }
+        try {
+          const body = await readBody(request)
+          const verified = await verifyFalWebhookSignature({
+            requestId: header(request, 'x-fal-webhook-request-id'),
+            userId: header(request, 'x-fal-webhook-user-id'),
+            timestamp: header(request, 'x-fal-webhook-timestamp'),
+            signature: header(request, 'x-fal-webhook-signature')
+          }, body)
+          if (!verified) {
+            console.warn('[Fal] Rejected webhook delivery with an invalid signature')
+            response.writeHead(401).end()
+            return
+          }
+          const delivery = JSON.parse(body.toString('utf8')) as FalWebhookDelivery
+          if (!delivery?.request_id || delivery.request_id !== header(request, 'x-fal-webhook-request-id')) {
+            response.writeHead(400).end()
+            return
+          }
+          deliver(delivery)
+          response.writeHead(200).end()
+        } catch (error: any) {
+          console.warn('[Fal] Failed to handle webhook delivery:', error?.message ?? error)
+          response.writeHead(500).end()
+        }
+      })
+      receiver.once('error', (error) => {
+        starting = undefined
+        reject(error)
+      })
+      receiver.listen(getPort(), () => {
+        server = receiver
+        console.log(`[Fal] Webhook receiver listening on port ${(receiver.address() as { port: number }).port}, public URL ${getFalWebhookUrl()}`)
+        resolve()
+      })
+    })
+  }
+  return starting
+}
+
+export const stopFalWebhookReceiver = async (): Promise<void> => {
+  const current = server
+  server = undefined
+  starting = undefined
+  if (current) {
+    await new Promise<void>((resolve) => current.close(() => resolve()))
+  }
+}
+
+/**
+ * Wait for the webhook delivery of a queued Fal request
+ * @param requestId Id returned by fal.queue.submit
+ * @param signal Aborts the wait when the node run is stopped
+ * @returns The endpoint result; failed requests reject with an ApiError carrying Fal's error body
+ */
+export const waitForFalWebhook = <TResult>(requestId: string, signal?: AbortSignal): Promise<TResult> =>
+  new Promise<TResult>((resolve, reject) => {
+    const settle = (delivery: FalWebhookDelivery) => {
+      signal?.removeEventListener('abort', onAbort)
+      const error = getFalWebhookError(delivery)
+      if (error) {
+        reject(error)
+        return
+      }
+      resolve(delivery.payload as TResult)
+    }
+    const onAbort = () => {
+      waiters.delete(requestId)
+      reject(new FalCancelledError())
+    }
+
+    if (signal?.aborted) {
+      onAbort()
+      return
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    const early = earlyDeliveries.get(requestId)
+    if (early) {
+      earlyDeliveries.delete(requestId)
+      settle(early.delivery)
+      return
+    }
+    waiters.set(requestId, settle)
+  })
@@ -1,4 +1,109 @@
-import { uploadAsset, UploadAssetResult } from '@nanograph/sdk'
+import { UploadAssetResult } from '@nanograph/sdk'
+import { uploadAsset } from './asset-utils.js'
+import sharp from 'sharp'
+
+export type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp' | 'bmp' | 'tiff' | 'avif' | 'heic'
+
+// Formats Fal image endpoints accept unless a node narrows the list
+export const defaultFalImageFormats: readonly ImageFormat[] = ['jpeg', 'png', 'webp', 'gif']
+
+// Conversion targets in order of preference; transparency needs a format that keeps the alpha channel
+const alphaTargets = ['png', 'webp', 'jpeg'] as const
+const opaqueTargets = ['jpeg', 'png', 'webp'] as const
+
+const avifBrands = ['avif', 'avis']
+const heicBrands = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1']
+
+const startsWith = (buffer: Buffer, bytes: number[], offset = 0): boolean =>
+  buffer.length >= offset + bytes.length && bytes.every((byte, index) => buffer[offset + index] === byte)
+
+const ascii = (buffer: Buffer, start: number, end: number): string => buffer.subarray(start, end).toString('ascii')
+
+// AVIF and HEIC share the ISO BMFF container; the ftyp box brands tell them apart
+const detectFtypFormat = (buffer: Buffer): ImageFormat | undefined => {
+  if (buffer.length < 16 || ascii(buffer, 4, 8) !== 'ftyp') {
+    return undefined
+  }
+  const boxEnd = Math.min(buffer.readUInt32BE(0), buffer.length)
+  const brands = [ascii(buffer, 8, 12)]
+  for (let offset = 16; offset + 4 <= boxEnd; offset += 4) {
+    brands.push(ascii(buffer, offset, offset + 4))
+  }
+  if (brands.some((brand) => avifBrands.includes(brand))) {
+    return 'avif'
+  }
+  if (brands.some((brand) => heicBrands.includes(brand))) {
+    return 'heic'
+  }
+  return undefined
+}
+
+/**
+ * Identify an image from its leading bytes
+ * @param buffer Raw image bytes
+ * @returns The detected format, or undefined when the bytes are not a recognised image
+ */
+export const detectImageFormat = (buffer: Buffer): ImageFormat | undefined => {
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) {
+    return 'jpeg'
+  }
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'png'
+  }
+  if (ascii(buffer, 0, 6) === 'GIF87a' || ascii(buffer, 0, 6) === 'GIF89a') {
+    return 'gif'
+  }
+  if (ascii(buffer, 0, 4) === 'RIFF' && ascii(buffer, 8, 12) === 'WEBP') {
+    return 'webp'
+  }
+  if (ascii(buffer, 0, 2) === 'BM' && buffer.length >= 26) {
+    return 'bmp'
+  }
+  if (startsWith(buffer, [0x49, 0x49, 0x2a, 0x00]) || startsWith(buffer, [0x4d, 0x4d, 0x00, 0x2a])) {
+    return 'tiff'
+  }
+  return detectFtypFormat(buffer)
+}
+
+export const imageFormatToMime = (format: ImageFormat): string => `image/${format}`
+
+export const imageFormatToExtension = (format: ImageFormat): string => (format === 'jpeg' ? 'jpg' : format)
+
+/**
+ * Make sure an image is in a format the target endpoint accepts, converting it with sharp otherwise
+ * @param buffer Raw image bytes
+ * @param accepted Formats the endpoint accepts
+ * @returns The original bytes when already accepted, or the converted bytes, their format and the format they came from
+ * @throws When the image cannot be decoded or converted to an accepted format
+ */
+export const ensureImageFormat = async (
+  buffer: Buffer,
+  accepted: readonly ImageFormat[] = defaultFalImageFormats
+): Promise<{ buffer: Buffer, format: ImageFormat, convertedFrom?: ImageFormat | 'unrecognised' }> => {
+  const detected = detectImageFormat(buffer)
+  if (detected && accepted.includes(detected)) {
+    return { buffer, format: detected }
+  }
+
+  let metadata: sharp.Metadata
+  try {
+    metadata = await sharp(buffer).metadata()
+  } catch (error: any) {
+    // sharp cannot decode every format we detect (BMP for one), and Fal would reject the original anyway
+    if (detected) {
+      throw new Error(`Cannot convert ${detected.toUpperCase()} image for Fal, which accepts ${accepted.join(', ')}: ${error?.message ?? error}`)
+    }
+    throw new Error(`Unsupported image format: ${error?.message ?? error}`)
+  }
+
+  const target = (metadata.hasAlpha ? alphaTargets : opaqueTargets).find((format) => accepted.includes(format))
+  if (!target) {
+    throw new Error(`Cannot convert ${detected ?? 'unrecognised'} image to any of: ${accepted.join(', ')}`)
+  }
+
+  const converted = await sharp(buffer).toFormat(target).toBuffer()
+  return { buffer: converted, format: target, convertedFrom: detected ?? 'unrecognised' }
+}
 
 export interface FalImage {
   url: string
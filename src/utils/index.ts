@@ -2,5 +2,12 @@ export * from './fal-client.js'
 export * from './image-utils.js'
 export * from './parameter-utils.js'
 export * from './asset-utils.js'
+export * from './fal-execution.js'
+export * from './fal-batch.js'
+export * from './fal-cancellation.js'
+export * from './fal-errors.js'
+export * from './fal-response.js'
+export * from './fal-safety.js'
+
 // Explicit re-exports to ensure ESM named exports are available at runtime
 export { parseFalLog, combineProgress, createEtaEstimator } from './progress-utils.js'
\ No newline at end of file
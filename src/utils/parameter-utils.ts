@@ -1,14 +1,59 @@
-import { Parameter } from '@nanograph/sdk'
+import { NodeDefinition, Parameter } from '@nanograph/sdk'
+import { defaultFalCredentialProfile, listFalCredentialProfiles } from './fal-client.js'
 
 export const getParameterValue = <T>(parameters: Parameter[], name: string, defaultValue: T): T => {
   const param = parameters.find(p => p.name === name)
   return (param?.value as T) ?? defaultValue
 }
 
+/**
+ * Copy of a node's parameters with some values replaced, adding any parameter the node did not receive
+ * @param parameters Parameters passed to execute
+ * @param values New values by parameter name
+ * @returns Parameters to pass on to the next execution
+ */
+export const withParameterValues = (parameters: Parameter[], values: Record<string, Parameter['value']>): Parameter[] => {
+  const overridden = parameters.map((parameter) => (parameter.name in values ? { ...parameter, value: values[parameter.name] } : parameter))
+  const missing = Object.keys(values).filter((name) => !parameters.some((parameter) => parameter.name === name))
+  return [...overridden, ...missing.map((name) => ({ name, value: values[name] }) as Parameter)]
+}
+
 export const getRequiredParameterValue = <T>(parameters: Parameter[], name: string): T => {
   const param = parameters.find(p => p.name === name)
   if (!param?.value) {
     throw new Error(`Required parameter '${name}' is missing`)
   }
   return param.value as T
-} 
\ No newline at end of file
+}
+
+/**
+ * Select parameter choosing which Fal key pays for a node, listing the profiles configured when the server starts
+ * @returns Parameter definition for 'credential_profile'
+ */
+export const createCredentialProfileParameter = (): NonNullable<NodeDefinition['parameters']>[number] => ({
+  name: 'credential_profile',
+  type: 'select',
+  value: defaultFalCredentialProfile,
+  default: defaultFalCredentialProfile,
+  label: 'Credential Profile',
+  description: 'Fal key used for this node: default is FAL_KEY, other profiles come from FAL_KEY_<NAME> variables',
+  options: [
+    { label: 'Default (FAL_KEY)', value: defaultFalCredentialProfile },
+    ...listFalCredentialProfiles()
+      .filter((profile) => profile !== defaultFalCredentialProfile)
+      .map((profile) => ({ label: profile, value: profile }))
+  ]
+})
+
+/**
+ * Toggle letting a node run once per item of its list inputs, see withFalBatch
+ * @returns Parameter definition for 'batch_mode'
+ */
+export const createBatchModeParameter = (): NonNullable<NodeDefinition['parameters']>[number] => ({
+  name: 'batch_mode',
+  type: 'boolean',
+  value: false,
+  default: false,
+  label: 'Batch Mode',
+  description: 'Run one Fal request per connected prompt or image instead of only the first, returning outputs in the same order'
+})
@@ -16,9 +16,17 @@ export interface ProgressStrategyOptions {
   finalizingMessage?: string
   defaultInProgressMessage?: (stepCount: number) => string
   logParser?: LogParser
+  // Fal endpoint id, used to pick a registered log parser when no logParser is given
+  endpoint?: string
 }
 
-export const createProgressStrategy = (options: ProgressStrategyOptions) => {
+export interface ProgressStrategy {
+  onQueue: () => ProgressComputationResult
+  onProgress: (status: QueueStatus, stepCount: number) => ProgressComputationResult
+  onCompleted: () => ProgressComputationResult
+}
+
+export const createProgressStrategy = (options: ProgressStrategyOptions): ProgressStrategy => {
   const eta = createEtaEstimator({
     expectedMs: options.expectedMs,
     minStartStep: options.minStartStep ?? 10,
@@ -29,6 +37,8 @@ export const createProgressStrategy = (options: ProgressStrategyOptions) => {
   const finalizingMessage = options.finalizingMessage ?? 'Finalizing...'
   const defaultInProgressMessage = options.defaultInProgressMessage ?? ((step: number) => `Processing step ${step}...`)
 
+  const logParser = options.logParser ?? (options.endpoint ? resolveProgressParser(options.endpoint) : undefined)
+
   const onQueue = (): ProgressComputationResult => ({
     message: inQueueMessage,
     progress: { step: 5, total: 100 }
@@ -36,9 +46,9 @@ export const createProgressStrategy = (options: ProgressStrategyOptions) => {
 
   const onProgress = (status: QueueStatus, stepCount: number): ProgressComputationResult => {
     // Try custom parser first
-    if (options.logParser) {
+    if (logParser) {
       try {
-        const parsed = options.logParser(status, stepCount)
+        const parsed = logParser(status, stepCount)
         if (parsed && parsed.progress?.total && parsed.progress?.step !== undefined) {
           // Clip to 0..total
           const total = parsed.progress.total
@@ -83,17 +93,23 @@ export interface FrameParserOptions {
   hardCapPercent?: number // default 98
 }
 
+// Newest log line first, so the parser reports the latest state when several lines arrive in one poll
+const latestLogMatch = (status: QueueStatus, regex: RegExp): RegExpMatchArray | null => {
+  const logs = 'logs' in status && Array.isArray((status as any).logs) ? (status as any).logs : []
+  for (let index = logs.length - 1; index >= 0; index--) {
+    const match = (logs[index]?.message as string | undefined)?.match(regex)
+    if (match) return match
+  }
+  return null
+}
+
 export const createFrameLogParser = (opts?: FrameParserOptions): LogParser => {
   const regex = opts?.frameRegex ?? /Animating frame\s+(\d+)/i
   let totalFrames = Math.max(10, opts?.initialTotalFrames ?? 200)
   const cap = Math.min(99, Math.max(50, opts?.hardCapPercent ?? 98))
 
   return (status: QueueStatus, _stepCount: number) => {
-    const hasLogs = 'logs' in status && Array.isArray((status as any).logs) && (status as any).logs.length > 0
-    if (!hasLogs) return null
-    const logMessage = (status as any).logs[(status as any).logs.length - 1]?.message as string | undefined
-    if (!logMessage) return null
-    const match = logMessage.match(regex)
+    const match = latestLogMatch(status, regex)
     if (!match) return null
     const frame = Number(match[1])
     if (!Number.isFinite(frame)) return null
@@ -106,4 +122,171 @@ export const createFrameLogParser = (opts?: FrameParserOptions): LogParser => {
   }
 }
 
+// Diffusion step bars as printed by tqdm ("45%|████▌     | 9/20 [00:03<00:04]") or plain "Step 9/20" lines
+export interface StepParserOptions {
+  stepRegex?: RegExp // first group is the current step, second the total
+  startPercent?: number // default 15, where the first step lands
+  endPercent?: number // default 95, where the last step lands; decoding and upload follow
+  message?: (step: number, total: number) => string
+}
+
+export const createStepLogParser = (opts?: StepParserOptions): LogParser => {
+  const regex = opts?.stepRegex ?? /(?:^|[\s|])(\d+)\s*\/\s*(\d+)(?=\s*(?:\[|$|steps?\b|it\b))|step\s+(\d+)\s*(?:\/|of)\s*(\d+)/i
+  const start = opts?.startPercent ?? 15
+  const end = opts?.endPercent ?? 95
+  const message = opts?.message ?? ((step: number, total: number) => `Denoising step ${step}/${total}...`)
+  let best = 0
+
+  return (status: QueueStatus, _stepCount: number) => {
+    const match = latestLogMatch(status, regex)
+    if (!match) return null
+    const step = Number(match[1] ?? match[3])
+    const total = Number(match[2] ?? match[4])
+    if (!Number.isFinite(step) || !(total > 0) || step > total) return null
+    // Models with several passes restart the bar; keep progress moving forward
+    best = Math.max(best, Math.floor(start + (end - start) * (step / total)))
+    return {
+      message: message(step, total),
+      progress: { step: best, total: 100 }
+    }
+  }
+}
+
+// Lines reporting their own completion ("Generating video: 42%")
+export interface PercentParserOptions {
+  percentRegex?: RegExp // first group is the percentage
+  hardCapPercent?: number // default 98
+}
+
+export const createPercentLogParser = (opts?: PercentParserOptions): LogParser => {
+  const regex = opts?.percentRegex ?? /(\d{1,3}(?:\.\d+)?)\s*%/
+  const cap = Math.min(99, Math.max(50, opts?.hardCapPercent ?? 98))
+  let best = 0
+
+  return (status: QueueStatus, _stepCount: number) => {
+    const match = latestLogMatch(status, regex)
+    if (!match) return null
+    const percent = Number(match[1])
+    if (!Number.isFinite(percent) || percent > 100) return null
+    best = Math.max(best, Math.min(cap, Math.floor(percent)))
+    const line = match.input?.trim()
+    return {
+      message: line && line.length <= 80 ? line : `Processing ${Math.floor(percent)}%...`,
+      progress: { step: best, total: 100 }
+    }
+  }
+}
+
+// Named pipeline stages mapped to fixed progress points, for models that only log what they are doing
+export interface LogStage {
+  pattern: RegExp
+  percent: number
+  message: string
+}
+
+export const createStageLogParser = (stages: LogStage[]): LogParser => {
+  let best = 0
+
+  // Fal sends every log line so far, so the newest line naming a stage is the current one
+  return (status: QueueStatus, _stepCount: number) => {
+    const logs = 'logs' in status && Array.isArray((status as any).logs) ? (status as any).logs : []
+    for (let index = logs.length - 1; index >= 0; index--) {
+      const line = logs[index]?.message as string | undefined
+      const stage = line ? stages.find((candidate) => candidate.pattern.test(line)) : undefined
+      if (stage) {
+        best = Math.max(best, stage.percent)
+        return { message: stage.message, progress: { step: best, total: 100 } }
+      }
+    }
+    return null
+  }
+}
+
+// The parser recognising the newest log line wins, earlier parsers first when several read the same line
+export const combineLogParsers = (...parsers: LogParser[]): LogParser => {
+  let best = 0
+
+  return (status: QueueStatus, stepCount: number) => {
+    const logs = 'logs' in status && Array.isArray((status as any).logs) ? (status as any).logs : []
+    for (let index = logs.length - 1; index >= 0; index--) {
+      const line = { ...status, logs: [logs[index]] } as QueueStatus
+      for (const parser of parsers) {
+        const parsed = parser(line, stepCount)
+        if (parsed) {
+          // A parser for an earlier stage must not move the bar back past another's
+          best = Math.max(best, Math.min(parsed.progress.step, parsed.progress.total))
+          return { message: parsed.message, progress: { step: best, total: parsed.progress.total } }
+        }
+      }
+    }
+    return null
+  }
+}
+
+// Registry of log parsers by endpoint; a string matches the endpoint id and everything below it
+export type ProgressEndpointMatcher = string | RegExp | ((endpoint: string) => boolean)
+
+interface ProgressParserRegistration {
+  matches: (endpoint: string) => boolean
+  create: () => LogParser
+}
+
+const progressParsers: ProgressParserRegistration[] = []
+
+const toEndpointTest = (matcher: ProgressEndpointMatcher): ((endpoint: string) => boolean) => {
+  if (typeof matcher === 'function') return matcher
+  if (matcher instanceof RegExp) return (endpoint) => matcher.test(endpoint)
+  return (endpoint) => endpoint === matcher || endpoint.startsWith(`${matcher}/`)
+}
+
+/**
+ * Register the log parser used for a model family
+ * @param matcher Endpoint id prefix ('fal-ai/flux-pro'), pattern or predicate
+ * @param create Builds a fresh parser per run, since parsers keep state between polls
+ */
+export const registerProgressParser = (matcher: ProgressEndpointMatcher, create: () => LogParser): void => {
+  // Later registrations take precedence so nodes can override the built-in families
+  progressParsers.unshift({ matches: toEndpointTest(matcher), create })
+}
+
+/**
+ * Find the log parser registered for an endpoint
+ * @param endpoint Fal endpoint id
+ * @returns A new parser instance, or undefined when only generic log parsing applies
+ */
+export const resolveProgressParser = (endpoint: string): LogParser | undefined =>
+  progressParsers.find((registration) => registration.matches(endpoint))?.create()
+
+// Late stages only match lines starting with the post-step work, so "Loading VAE" or
+// "Uploading input image" early in a run do not jump the bar to the end
+const inputUploadStage: LogStage = {
+  pattern: /^\s*upload(?:ing)?\s+(?:the\s+)?(?:input|source|reference)/i,
+  percent: 2,
+  message: 'Uploading inputs...'
+}
+
+const diffusionStages: LogStage[] = [
+  inputUploadStage,
+  { pattern: /load(?:ing)?\s+(?:model|lora|weights|vae)/i, percent: 8, message: 'Loading model...' },
+  { pattern: /encod(?:e|ing)\s+prompt|text encoder/i, percent: 12, message: 'Encoding prompt...' },
+  { pattern: /^\s*(?:running\s+)?(?:vae\s+decod(?:e|ing|er)|decod(?:e|ing)\s+(?:the\s+)?(?:latents?|images?))\b/i, percent: 96, message: 'Decoding image...' }
+]
+
+const videoStages: LogStage[] = [
+  inputUploadStage,
+  { pattern: /^\s*encod(?:e|ing)\s+(?:the\s+)?(?:output\s+)?(?:video|frames)\b/i, percent: 94, message: 'Encoding video...' },
+  { pattern: /^\s*upload(?:ing)?\s+(?:the\s+)?(?:generated\s+|output\s+)?(?:video|result|output)s?\b/i, percent: 97, message: 'Uploading video...' }
+]
 
+registerProgressParser(
+  /^fal-ai\/(?:flux|flux-1|flux-pro|z-image|qwen-image[^/]*|bytedance\/seedream|hunyuan3d[^/]*|seedvr)(?:\/|$)/,
+  () => combineLogParsers(createStepLogParser(), createPercentLogParser(), createStageLogParser(diffusionStages))
+)
+registerProgressParser(
+  /^fal-ai\/(?:veo3[^/]*|kling-video|sora-2|sam-3\/video)(?:\/|$)/,
+  () => combineLogParsers(createPercentLogParser(), createFrameLogParser(), createStageLogParser(videoStages))
+)
+registerProgressParser(
+  'fal-ai/bytedance/seedance',
+  () => combineLogParsers(createFrameLogParser(), createPercentLogParser(), createStageLogParser(videoStages))
+)
@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { Parameter } from '@nanograph/sdk'
+import { FalNodeExecuteArgs, mergeFalOutputs, withFalBatch } from '../src/utils/fal-batch.js'
+
+const batchParameters = [{ name: 'batch_mode', type: 'boolean', value: true }] as Parameter[]
+
+describe('Fal batch mode', () => {
+  test('merges single outputs as a flat list', () => {
+    assert.deepEqual(mergeFalOutputs([{ images: ['a'], seed: [1] }, { images: ['b'], seed: [2] }]), { images: ['a', 'b'], seed: [1, 2] })
+  })
+
+  test('pads runs to the same number of items so outputs stay aligned with the inputs', () => {
+    assert.deepEqual(mergeFalOutputs([
+      { images: ['a1', 'a2'], seed: [1] },
+      { images: [], seed: [2] },
+      { images: ['c1'], seed: 3 }
+    ]), {
+      images: ['a1', 'a2', null, null, 'c1', null],
+      seed: [1, 2, 3]
+    })
+  })
+
+  test('returns the images of every prompt in its own slots', async () => {
+    const imagesPerPrompt: Record<string, number> = { fox: 2, owl: 0, bee: 2 }
+    const execute = withFalBatch({ inputs: ['prompt'] }, async ({ inputs }: FalNodeExecuteArgs) => {
+      const prompt = inputs.prompt?.[0] as string
+      return { images: Array.from({ length: imagesPerPrompt[prompt] }, (_, index) => `${prompt}-${index}`), prompt: [prompt] }
+    })
+
+    const outputs = await execute({ inputs: { prompt: ['fox', 'owl', 'bee'] }, parameters: batchParameters, context: { sendStatus: () => undefined } })
+
+    assert.deepEqual(outputs, {
+      images: ['fox-0', 'fox-1', null, null, 'bee-0', 'bee-1'],
+      prompt: ['fox', 'owl', 'bee']
+    })
+  })
+})
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict'
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { after, afterEach, before, describe, test } from 'node:test'
+import { FalBudgetExceededError, reserveFalBudget } from '../src/utils/fal-budget.js'
+import { defaultFalSpendLedger, recordFalSpend } from '../src/utils/fal-spend.js'
+
+describe('Fal budgets', () => {
+  const cwd = process.cwd()
+  let directory: string
+
+  before(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'fal-budget-'))
+    process.chdir(directory)
+  })
+
+  afterEach(() => {
+    delete process.env.FAL_BUDGET_PER_DAY_USD
+    delete process.env.FAL_BUDGET_PER_WORKFLOW_USD
+  })
+
+  after(async () => {
+    process.chdir(cwd)
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  test('skips the per-workflow limit with a single warning when no run id is passed', async (t) => {
+    process.env.FAL_BUDGET_PER_WORKFLOW_USD = '5'
+    const warn = t.mock.method(console, 'warn', () => undefined)
+
+    const releases = [
+      await reserveFalBudget({ endpoint: 'fal-ai/veo3', costUsd: 4, workflowId: 'wf-1' }),
+      await reserveFalBudget({ endpoint: 'fal-ai/veo3', costUsd: 4, workflowId: 'wf-1' })
+    ]
+    assert.equal(warn.mock.callCount(), 1)
+    assert.match(String(warn.mock.calls[0].arguments[0]), /no workflow run id/)
+
+    const release = await reserveFalBudget({ endpoint: 'fal-ai/veo3', costUsd: 4, workflowId: 'wf-1', runId: 'run-1' })
+    await assert.rejects(
+      reserveFalBudget({ endpoint: 'fal-ai/veo3', costUsd: 4, workflowId: 'wf-1', runId: 'run-1' }),
+      (error) => error instanceof FalBudgetExceededError && /per-workflow budget of \$5/.test(error.message)
+    )
+    for (const releaseHold of [...releases, release]) {
+      releaseHold()
+    }
+  })
+
+  test('keeps the daily spend in a ledger file when none is configured', async () => {
+    process.env.FAL_BUDGET_PER_DAY_USD = '2'
+
+    await recordFalSpend({ endpoint: 'fal-ai/veo3', costUsd: 1.5, key: 'key-1' })
+    const ledger = (await readFile(path.join(directory, defaultFalSpendLedger), 'utf8')).trim().split('\n').map((line) => JSON.parse(line))
+
+    assert.deepEqual(ledger.map((entry) => [entry.endpoint, entry.costUsd]), [['fal-ai/veo3', 1.5]])
+    await assert.rejects(reserveFalBudget({ endpoint: 'fal-ai/veo3', costUsd: 1 }), /over the daily budget of \$2/)
+  })
+})
@@ -0,0 +1,148 @@
+import assert from 'node:assert/strict'
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, test } from 'node:test'
+import { FalClient } from '@fal-ai/client'
+import { setFalTransport } from '../src/utils/fal-client.js'
+import { FalExecutionContext, runFalExecution } from '../src/utils/fal-execution.js'
+import { createFalJobKey, FalJournalEntry, resumeFalJournal } from '../src/utils/fal-journal.js'
+import { createFalMockClient } from '../src/utils/fal-mock.js'
+
+const endpoint = 'fal-ai/journal-test'
+const payload = { prompt: 'a lighthouse', duration: 8 }
+let journalPath: string
+
+const readJournal = async (): Promise<FalJournalEntry[]> =>
+  JSON.parse(await readFile(journalPath, 'utf8').catch(() => '[]'))
+
+// Jobs a previous server process submitted and left running on Fal
+const writeLeftJobs = (jobs: Array<{ requestId: string, payload?: unknown }>) =>
+  writeFile(journalPath, JSON.stringify(jobs.map((job) => ({
+    key: createFalJobKey(endpoint, job.payload ?? payload),
+    endpoint,
+    requestId: job.requestId,
+    submittedAt: new Date().toISOString(),
+    workflowId: 'wf-1',
+    owner: 'previous-process'
+  }))), 'utf8')
+
+// Stub of the Fal queue API knowing only the jobs of the previous process
+const createStubQueue = (jobs: Record<string, { status: 'IN_QUEUE' | 'IN_PROGRESS' | 'COMPLETED', result?: unknown, error?: string }>) => {
+  const calls: string[] = []
+  const jobFor = (requestId: string) => {
+    const job = jobs[requestId]
+    if (!job) {
+      throw Object.assign(new Error(`Request ${requestId} not found`), { status: 404 })
+    }
+    return job
+  }
+  const queue = {
+    status: async (_endpoint: string, options: { requestId: string }) => {
+      calls.push(`status ${options.requestId}`)
+      return { status: jobFor(options.requestId).status, request_id: options.requestId }
+    },
+    subscribeToStatus: async (_endpoint: string, options: { requestId: string }) => {
+      calls.push(`subscribeToStatus ${options.requestId}`)
+      jobFor(options.requestId).status = 'COMPLETED'
+      return { status: 'COMPLETED', request_id: options.requestId }
+    },
+    result: async (_endpoint: string, options: { requestId: string }) => {
+      calls.push(`result ${options.requestId}`)
+      const job = jobFor(options.requestId)
+      if (job.error) {
+        throw Object.assign(new Error(job.error), { status: 422 })
+      }
+      return { data: job.result, requestId: options.requestId }
+    },
+    submit: async () => {
+      calls.push('submit')
+      throw new Error('The stub queue does not accept new jobs')
+    }
+  }
+  setFalTransport({ queue, subscribe: queue.submit } as unknown as FalClient)
+  return calls
+}
+
+const execute = (context: Partial<FalExecutionContext> = {}) => runFalExecution({
+  endpoint,
+  context: { sendStatus: () => undefined, ...context },
+  errorMessage: 'Journal test failed',
+  progress: { expectedMs: 1000 },
+  buildPayload: () => payload,
+  mapOutput: (result: any) => result.data
+})
+
+describe('Fal job journal', () => {
+  beforeEach(async () => {
+    journalPath = path.join(await mkdtemp(path.join(tmpdir(), 'fal-journal-')), 'jobs.json')
+    process.env.FAL_JOB_JOURNAL = journalPath
+  })
+
+  afterEach(async () => {
+    setFalTransport(undefined)
+    delete process.env.FAL_JOB_JOURNAL
+    await rm(path.dirname(journalPath), { recursive: true, force: true })
+  })
+
+  test('fetches results of jobs that finished during a restart and drops failed ones', async () => {
+    await writeLeftJobs([
+      { requestId: 'finished' },
+      { requestId: 'running', payload: { ...payload, duration: 4 } },
+      { requestId: 'failed', payload: { ...payload, duration: 2 } },
+      { requestId: 'unknown', payload: { ...payload, duration: 1 } }
+    ])
+    const calls = createStubQueue({
+      finished: { status: 'COMPLETED', result: { video: 'finished.mp4' } },
+      running: { status: 'IN_PROGRESS' },
+      failed: { status: 'COMPLETED', error: 'Invalid duration' }
+    })
+
+    const pending = await resumeFalJournal()
+
+    assert.deepEqual(pending.map((job) => [job.requestId, job.status, job.workflowId]), [['finished', 'COMPLETED', 'wf-1'], ['running', 'IN_PROGRESS', 'wf-1']])
+    assert.deepEqual((await readJournal()).map((entry) => entry.requestId), ['finished', 'running'])
+    assert.ok(calls.includes('result finished'))
+  })
+
+  test('delivers a result fetched at startup to the next run of the node', async () => {
+    await writeLeftJobs([{ requestId: 'finished' }])
+    const calls = createStubQueue({ finished: { status: 'COMPLETED', result: { video: 'finished.mp4' } } })
+    await resumeFalJournal()
+    calls.length = 0
+    const messages: string[] = []
+
+    assert.deepEqual(await execute({ sendStatus: (status) => messages.push(status.message) }), { video: 'finished.mp4' })
+    assert.ok(!calls.includes('submit'))
+    assert.ok(!calls.includes('result finished'))
+    assert.ok(messages.includes('Collecting Fal job finished during the restart...'))
+    assert.deepEqual(await readJournal(), [])
+  })
+
+  test('reattaches to a job still running after a restart', async () => {
+    await writeLeftJobs([{ requestId: 'running' }])
+    const calls = createStubQueue({ running: { status: 'IN_PROGRESS', result: { video: 'running.mp4' } } })
+
+    assert.deepEqual(await execute(), { video: 'running.mp4' })
+    assert.deepEqual(calls, ['status running', 'subscribeToStatus running', 'result running'])
+    assert.deepEqual(await readJournal(), [])
+  })
+
+  test('gives concurrent runs with the same inputs their own job', async () => {
+    const falMock = createFalMockClient({ [endpoint]: { result: { video: 'new.mp4' }, delayMs: 20 } })
+    setFalTransport(falMock.client)
+    const stopped = new AbortController()
+
+    const first = execute({ signal: stopped.signal })
+    const second = execute()
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    stopped.abort()
+
+    await assert.rejects(first)
+    assert.deepEqual(await second, { video: 'new.mp4' })
+    assert.equal(falMock.calls.length, 2)
+    assert.notEqual(falMock.calls[0].requestId, falMock.calls[1].requestId)
+    assert.deepEqual(falMock.cancelled, [falMock.calls[0].requestId])
+    assert.deepEqual(await readJournal(), [])
+  })
+})
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict'
+import { fileURLToPath } from 'node:url'
+import { after, before, describe, test } from 'node:test'
+import { loadFalEndpointSchemas, validateFalPayload, validateFalResponse, validateFalSchema } from '../src/utils/fal-openapi.js'
+
+const endpoint = 'fal-ai/z-image/turbo'
+
+describe('Fal OpenAPI validation', () => {
+  const savedDirectory = process.env.FAL_OPENAPI_DIR
+
+  before(() => {
+    process.env.FAL_OPENAPI_DIR = fileURLToPath(new URL('./fixtures/openapi/', import.meta.url))
+  })
+
+  after(() => {
+    if (savedDirectory === undefined) {
+      delete process.env.FAL_OPENAPI_DIR
+    } else {
+      process.env.FAL_OPENAPI_DIR = savedDirectory
+    }
+  })
+
+  test('accepts a payload that follows the spec', async () => {
+    assert.deepEqual(await validateFalPayload(endpoint, { prompt: 'a lighthouse', image_size: 'square_hd', seed: 7, num_inference_steps: 8 }), [])
+    assert.deepEqual(await validateFalPayload(endpoint, { prompt: 'a lighthouse', image_size: { width: 640, height: 480 }, seed: null }), [])
+  })
+
+  test('reports every mismatch at its payload path', async () => {
+    const schemas = (await loadFalEndpointSchemas(endpoint))!
+    const issues = validateFalSchema({
+      image_size: { width: 0, height: 480 },
+      num_inference_steps: 12,
+      output_format: 'gif',
+      num_images: 1.5,
+      style: 'noir'
+    }, schemas.input, schemas.components, { reportUnknown: true })
+
+    assert.deepEqual(issues, [
+      { loc: ['prompt'], message: 'is required' },
+      { loc: ['image_size', 'width'], message: 'must be >= 1' },
+      { loc: ['num_inference_steps'], message: 'must be <= 8' },
+      { loc: ['output_format'], message: 'must be one of jpeg, png, webp' },
+      { loc: ['num_images'], message: 'must be integer, got number' },
+      { loc: ['style'], message: 'is not in the endpoint schema' }
+    ])
+  })
+
+  test('checks results against the response schema without flagging extra fields', async () => {
+    const image = { url: 'https://v3.fal.media/files/lighthouse.png', width: 1024, height: 768, content_type: 'image/png' }
+
+    assert.deepEqual(await validateFalResponse(endpoint, { images: [image], seed: 7, request_id: 'abc' }), [])
+    assert.deepEqual(await validateFalResponse(endpoint, { images: [{ width: 1024 }] }), [
+      { loc: ['seed'], message: 'is required' },
+      { loc: ['images', 0, 'url'], message: 'is required' }
+    ])
+  })
+
+  test('skips endpoints without a saved spec', async () => {
+    assert.equal(await validateFalPayload('fal-ai/not-collected', { prompt: 'a lighthouse' }), undefined)
+  })
+})
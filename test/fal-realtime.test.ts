@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict'
+import { after, afterEach, describe, test } from 'node:test'
+import { setFalTransport } from '../src/utils/fal-client.js'
+import { FalStatusUpdate, runFalExecution } from '../src/utils/fal-execution.js'
+import { createFalMockClient } from '../src/utils/fal-mock.js'
+import { closeFalRealtimeConnections } from '../src/utils/fal-realtime.js'
+import { createFalRunBucket, getExpectedFalRunMs } from '../src/utils/fal-run-stats.js'
+
+const payload = { prompt: 'a lighthouse', image_size: 'square' }
+
+const execute = (endpoint: string, statuses: FalStatusUpdate[] = []) => runFalExecution({
+  endpoint,
+  realtime: true,
+  context: { sendStatus: (status) => statuses.push(status) },
+  errorMessage: 'Realtime test failed',
+  progress: { expectedMs: 1000 },
+  buildPayload: () => payload,
+  mapOutput: (result: any) => result.source ?? result.data?.source
+})
+
+describe('Fal realtime requests', () => {
+  afterEach(() => {
+    setFalTransport(undefined)
+  })
+
+  after(() => {
+    closeFalRealtimeConnections()
+  })
+
+  test('times realtime answers apart from queue runs', async () => {
+    const endpoint = 'fal-ai/realtime-answer'
+    const falMock = createFalMockClient({ [endpoint]: { result: { source: 'realtime' } } })
+    setFalTransport(falMock.client)
+
+    assert.equal(await execute(endpoint), 'realtime')
+    assert.equal(falMock.calls[0].method, 'realtime')
+    assert.notEqual(await getExpectedFalRunMs(createFalRunBucket(endpoint, payload, 'realtime')), undefined)
+    assert.equal(await getExpectedFalRunMs(createFalRunBucket(endpoint, payload)), undefined)
+  })
+
+  test('tells the user when it falls back to the queue', async () => {
+    const endpoint = 'fal-ai/realtime-down'
+    const falMock = createFalMockClient({ [endpoint]: { result: { source: 'queue' } } })
+    // A socket that drops before answering
+    falMock.client.realtime.connect = ((_endpoint: string, handlers: { onError?: (error: unknown) => void }) => ({
+      send: () => setImmediate(() => handlers.onError?.(new Error('Socket closed'))),
+      close: () => undefined
+    })) as unknown as typeof falMock.client.realtime.connect
+    setFalTransport(falMock.client)
+    const statuses: FalStatusUpdate[] = []
+
+    assert.equal(await execute(endpoint, statuses), 'queue')
+    assert.equal(falMock.calls[0].method, 'subscribe')
+    assert.ok(statuses.some((status) => status.message === 'Realtime connection did not answer, sending through the queue...'))
+    assert.notEqual(await getExpectedFalRunMs(createFalRunBucket(endpoint, payload)), undefined)
+    assert.equal(await getExpectedFalRunMs(createFalRunBucket(endpoint, payload, 'realtime')), undefined)
+  })
+})
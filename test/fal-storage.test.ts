@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict'
+import { afterEach, describe, test } from 'node:test'
+import { resolveLoraPath } from '../src/nodes/z-image/utils.js'
+import { NanoAssetStore, setNanoAssetStore } from '../src/utils/asset-utils.js'
+import { setFalTransport } from '../src/utils/fal-client.js'
+import { FalStatusUpdate, runFalExecution } from '../src/utils/fal-execution.js'
+import { createFalMockClient } from '../src/utils/fal-mock.js'
+import { uploadBufferToFal } from '../src/utils/fal-storage.js'
+
+const retriedUpload = /^Temporary Fal error, retrying upload in \d+s \(attempt 2\/\d+\)\.\.\.$/
+
+// Mock Fal whose storage drops the first upload, as a flaky connection would
+const useFlakyStorage = (endpoint: string) => {
+  const falMock = createFalMockClient({ [endpoint]: { result: { source: 'done' } } })
+  const upload = falMock.client.storage.upload
+  let failures = 1
+  falMock.client.storage.upload = async (file: Blob) => {
+    if (failures-- > 0) {
+      throw Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' })
+    }
+    return upload(file)
+  }
+  setFalTransport(falMock.client)
+  return falMock
+}
+
+const execute = (endpoint: string, statuses: FalStatusUpdate[], buildPayload: () => Promise<Record<string, unknown>>) => runFalExecution({
+  endpoint,
+  context: { sendStatus: (status) => statuses.push(status) },
+  errorMessage: 'Upload test failed',
+  progress: { expectedMs: 1000 },
+  buildPayload,
+  mapOutput: (result: any) => result.data?.source ?? result.source
+})
+
+describe('Fal storage uploads', () => {
+  afterEach(() => {
+    setFalTransport(undefined)
+    setNanoAssetStore(undefined)
+  })
+
+  test('reports retried uploads through the node status', async () => {
+    const endpoint = 'fal-ai/upload-retry'
+    const falMock = useFlakyStorage(endpoint)
+    const statuses: FalStatusUpdate[] = []
+
+    const output = await execute(endpoint, statuses, async () => ({ image_url: await uploadBufferToFal(Buffer.from('retried upload'), 'png') }))
+
+    assert.equal(output, 'done')
+    assert.equal(falMock.uploads.length, 1)
+    assert.equal(falMock.calls[0].input.image_url, falMock.uploads[0].url)
+    assert.ok(statuses.some((status) => retriedUpload.test(status.message)))
+  })
+
+  test('reports retried LoRA uploads through the node status', async () => {
+    const endpoint = 'fal-ai/lora-upload-retry'
+    const falMock = useFlakyStorage(endpoint)
+    setNanoAssetStore({ resolveAsset: async () => Buffer.from('retried lora weights') } as unknown as NanoAssetStore)
+    const statuses: FalStatusUpdate[] = []
+
+    await execute(endpoint, statuses, async () => ({ loras: [{ path: await resolveLoraPath('asset://style.safetensors'), scale: 1 }] }))
+
+    assert.equal(falMock.calls[0].input.loras[0].path, falMock.uploads[0].url)
+    assert.ok(statuses.some((status) => retriedUpload.test(status.message)))
+  })
+})
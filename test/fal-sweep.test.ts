@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict'
+import { afterEach, describe, test } from 'node:test'
+import { Parameter } from '@nanograph/sdk'
+import sharp from 'sharp'
+import { NanoAssetStore, setNanoAssetStore } from '../src/utils/asset-utils.js'
+import { FalNodeExecuteArgs } from '../src/utils/fal-batch.js'
+import { withFalSweep } from '../src/utils/fal-sweep.js'
+import { getParameterValue } from '../src/utils/parameter-utils.js'
+
+const png = await sharp({ create: { width: 8, height: 8, channels: 3, background: '#3060c0' } }).png().toBuffer()
+
+describe('Fal parameter sweeps', () => {
+  afterEach(() => {
+    setNanoAssetStore(undefined)
+  })
+
+  test('leaves empty image slots off the contact sheet', async () => {
+    const uploaded: Buffer[] = []
+    setNanoAssetStore({
+      resolveAsset: async (uri: string) => {
+        if (uri !== 'asset://image.png') {
+          throw new Error(`Unknown asset ${uri}`)
+        }
+        return png
+      },
+      uploadAsset: async (body: Buffer) => {
+        uploaded.push(body)
+        return { uri: 'asset://contact-sheet.png' }
+      }
+    } as unknown as NanoAssetStore)
+    // The second seed had its image dropped by the safety filter; the batch padded the first
+    const execute = withFalSweep({ parameters: ['seed'] }, async ({ parameters }: FalNodeExecuteArgs): Promise<Record<string, unknown>> => ({
+      images: Number(getParameterValue(parameters, 'seed', 0)) === 1 ? ['asset://image.png', null] : [null, null]
+    }))
+
+    const outputs = await execute({
+      inputs: {},
+      parameters: [{ name: 'sweep', value: 'seed=1,2' }, { name: 'sweep_contact_sheet', value: true }] as Parameter[],
+      context: { sendStatus: () => undefined }
+    })
+
+    assert.deepEqual(outputs.contact_sheet, ['asset://contact-sheet.png'])
+    const sheet = await sharp(uploaded[0]).metadata()
+    assert.equal(sheet.width, 320)
+  })
+})
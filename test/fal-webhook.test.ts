@@ -0,0 +1,165 @@
+import assert from 'node:assert/strict'
+import { createHash, generateKeyPairSync, sign } from 'node:crypto'
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { createServer, Server } from 'node:http'
+import { AddressInfo } from 'node:net'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { after, before, describe, mock, test } from 'node:test'
+import { setFalTransport } from '../src/utils/fal-client.js'
+import { FalStatusUpdate, runFalExecution } from '../src/utils/fal-execution.js'
+import { createFalMockClient, FalMockEndpoint } from '../src/utils/fal-mock.js'
+import { createFalRecordingClient, falFixtureFileName } from '../src/utils/fal-recorder.js'
+import { FalWebhookDelivery, stopFalWebhookReceiver } from '../src/utils/fal-webhook.js'
+
+const endpoint = 'fal-ai/webhook-test'
+const { privateKey, publicKey } = generateKeyPairSync('ed25519')
+let jwksServer: Server
+let receiverUrl: string
+
+const listen = (server: Server): Promise<number> =>
+  new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port)))
+
+// Fake POST from Fal: signed the way Fal signs deliveries, with the key the JWKS server publishes
+const postDelivery = async (delivery: FalWebhookDelivery, options: { tamper?: boolean } = {}) => {
+  const body = Buffer.from(JSON.stringify(delivery))
+  const timestamp = String(Math.floor(Date.now() / 1000))
+  const message = [delivery.request_id, 'test-user', timestamp, createHash('sha256').update(body).digest('hex')].join('\n')
+  const signature = sign(null, Buffer.from(message), privateKey).toString('hex')
+  const response = await fetch(receiverUrl, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      'x-fal-webhook-request-id': delivery.request_id,
+      'x-fal-webhook-user-id': 'test-user',
+      'x-fal-webhook-timestamp': timestamp,
+      'x-fal-webhook-signature': options.tamper ? signature.replace(/^./, (char) => (char === '0' ? '1' : '0')) : signature
+    },
+    body
+  })
+  return response.status
+}
+
+// Mock transport whose submit schedules the callback Fal would send for the job
+const useTransport = (fixture: FalMockEndpoint, callback?: (requestId: string) => Promise<unknown>) => {
+  const falMock = createFalMockClient({ [endpoint]: fixture })
+  const submit = falMock.client.queue.submit.bind(falMock.client.queue)
+  falMock.client.queue.submit = (async (...args: Parameters<typeof submit>) => {
+    const queued = await submit(...args)
+    if (callback) {
+      setTimeout(() => void callback(queued.request_id), 20)
+    }
+    return queued
+  }) as typeof submit
+  setFalTransport(falMock.client)
+  return falMock
+}
+
+const execute = (statuses: FalStatusUpdate[] = [], payload: Record<string, unknown> = { prompt: 'a lighthouse' }) => runFalExecution({
+  endpoint,
+  context: { sendStatus: (status) => statuses.push(status) },
+  errorMessage: 'Webhook test failed',
+  progress: { expectedMs: 1000 },
+  buildPayload: () => payload,
+  mapOutput: (result: any) => result
+})
+
+describe('Fal webhook mode', () => {
+  before(async () => {
+    const jwk = publicKey.export({ format: 'jwk' })
+    jwksServer = createServer((_request, response) => {
+      response.writeHead(200, { 'content-type': 'application/json' }).end(JSON.stringify({ keys: [{ ...jwk, kty: 'OKP', crv: 'Ed25519' }] }))
+    })
+    const jwksPort = await listen(jwksServer)
+    // Free port for the receiver, which reads it from FAL_WEBHOOK_PORT
+    const probe = createServer()
+    const receiverPort = await listen(probe)
+    await new Promise((resolve) => probe.close(resolve))
+
+    receiverUrl = `http://127.0.0.1:${receiverPort}/fal/webhook`
+    process.env.FAL_WEBHOOK_URL = `http://127.0.0.1:${receiverPort}`
+    process.env.FAL_WEBHOOK_PORT = String(receiverPort)
+    process.env.FAL_WEBHOOK_JWKS_URL = `http://127.0.0.1:${jwksPort}/jwks.json`
+  })
+
+  after(async () => {
+    setFalTransport(undefined)
+    await stopFalWebhookReceiver()
+    await new Promise((resolve) => jwksServer.close(resolve))
+    delete process.env.FAL_WEBHOOK_URL
+    delete process.env.FAL_WEBHOOK_PORT
+    delete process.env.FAL_WEBHOOK_JWKS_URL
+  })
+
+  test('submits with the callback URL and completes from the signed delivery', async () => {
+    const falMock = useTransport({ result: { source: 'queue' } }, (requestId) =>
+      postDelivery({ request_id: requestId, status: 'OK', payload: { source: 'webhook' } }))
+
+    assert.deepEqual(await execute(), { source: 'webhook' })
+    assert.equal(falMock.calls[0].method, 'submit')
+    assert.equal(falMock.calls[0].webhookUrl, receiverUrl)
+  })
+
+  test('fails the node with the validation error Fal delivers', async () => {
+    useTransport({ result: {} }, (requestId) => postDelivery({
+      request_id: requestId,
+      status: 'ERROR',
+      error: 'Unprocessable Entity',
+      payload: { detail: [{ loc: ['body', 'prompt'], msg: 'is too long', type: 'value_error' }] }
+    }))
+    const statuses: FalStatusUpdate[] = []
+
+    await assert.rejects(execute(statuses), /prompt: is too long/)
+    assert.ok(statuses.some((status) => status.type === 'error' && status.message === `Invalid ${endpoint} request: prompt: is too long`))
+  })
+
+  test('rejects deliveries with an invalid signature', async () => {
+    let status = 0
+    useTransport({ result: {} }, async (requestId) => {
+      status = await postDelivery({ request_id: requestId, status: 'OK', payload: { source: 'forged' } }, { tamper: true })
+      await postDelivery({ request_id: requestId, status: 'OK', payload: { source: 'webhook' } })
+    })
+
+    assert.deepEqual(await execute(), { source: 'webhook' })
+    assert.equal(status, 401)
+  })
+
+  test('records the job when its callback arrives', async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), 'fal-recording-'))
+    try {
+      const falMock = useTransport({ result: {} }, (requestId) =>
+        postDelivery({ request_id: requestId, status: 'OK', payload: { text: 'a lighthouse' } }))
+      setFalTransport(createFalRecordingClient(falMock.client, directory, 'test-key'))
+
+      assert.deepEqual(await execute([], { prompt: 'a lighthouse', max_tokens: 64, openai_api_key: 'sk-test' }), { text: 'a lighthouse' })
+
+      // The fixture is written after the node got its result
+      const fixturePath = path.join(directory, falFixtureFileName(endpoint))
+      let fixture: any
+      for (let attempt = 0; !fixture && attempt < 50; attempt++) {
+        fixture = await readFile(fixturePath, 'utf8').then(JSON.parse, () => new Promise((resolve) => setTimeout(resolve, 10)))
+      }
+      const [recording] = fixture.recordings
+      assert.deepEqual(recording.input, { prompt: 'a lighthouse', max_tokens: 64, openai_api_key: '[scrubbed]' })
+      assert.deepEqual(recording.result, { text: 'a lighthouse' })
+    } finally {
+      await rm(directory, { recursive: true, force: true })
+    }
+  })
+
+  test('settles from the queue when a failed job never calls back', async () => {
+    // The @types/node in use predate the options object Node 20 expects
+    mock.timers.enable({ apis: ['setInterval'] } as unknown as ['setInterval'])
+    try {
+      useTransport({ error: { status: 500, message: 'Job failed without a callback' } })
+      const running = execute()
+      // Let the submit land, then run the watchdog's queue check
+      await new Promise((resolve) => setTimeout(resolve, 50))
+      mock.timers.tick(30000)
+
+      await assert.rejects(running, /Job failed without a callback/)
+    } finally {
+      mock.timers.reset()
+    }
+  })
+})
@@ -0,0 +1,26 @@
+import sharp from 'sharp'
+
+// Every image-like input name used by the nodes; inputs a node does not declare are ignored
+const imageInputNames = [
+  'image', 'image1', 'image2', 'image3', 'image4', 'mask', 'control_image', 'design_image', 'person_image',
+  'reference_image1', 'reference_image2', 'reference_image3', 'reference_image4', 'first_frame', 'last_frame', 'end_image'
+]
+
+// Served from the harness' in-memory asset store, so contract runs need neither the asset server nor the network
+const sampleImageUri = 'asset://contract-sample.png'
+
+/**
+ * Inputs that get every node as far as its Fal call, for checking the payloads it sends
+ * @returns Node inputs and the assets they refer to, ready for runFalNodeWithMock
+ */
+export const createContractInputs = async (): Promise<{ inputs: Record<string, unknown>, assets: Record<string, Buffer> }> => ({
+  inputs: {
+    prompt: 'a red lighthouse on a cliff at dusk',
+    negative_prompt: 'blurry',
+    object: 'lighthouse',
+    ...Object.fromEntries(imageInputNames.map((name) => [name, sampleImageUri]))
+  },
+  assets: {
+    [sampleImageUri]: await sharp({ create: { width: 64, height: 64, channels: 3, background: '#808080' } }).png().toBuffer()
+  }
+})
@@ -0,0 +1,184 @@
+import assert from 'node:assert/strict'
+import { Readable } from 'node:stream'
+import { getNanoAssetStore, NanoAssetStore, setNanoAssetStore } from '../../src/utils/asset-utils.js'
+import { getFalTransport, setFalTransport } from '../../src/utils/fal-client.js'
+import { FalExecutionContext, FalStatusUpdate } from '../../src/utils/fal-execution.js'
+import { createFalMockClient, FalMock, FalMockEndpoint } from '../../src/utils/fal-mock.js'
+import { formatFalSchemaIssues, validateFalPayload } from '../../src/utils/fal-openapi.js'
+import { resetFalRunStats } from '../../src/utils/fal-run-stats.js'
+import { resetFalUploadCache } from '../../src/utils/fal-upload-cache.js'
+
+// Anything registered with NanoSDK.registerNode
+interface FalHarnessNode {
+  execute?: (args: any) => Promise<any> | any
+}
+
+export interface FalNodeHarnessOptions {
+  // Single values are wrapped in a list, as the runtime delivers every input as one
+  inputs?: Record<string, unknown>
+  // Parameter values by name; nodes fall back to their own defaults for the rest
+  parameters?: Record<string, unknown>
+  fixtures: Record<string, FalMockEndpoint>
+  // Contents of the asset URIs passed as inputs; the run reads and uploads assets in memory only
+  assets?: Record<string, Buffer>
+  context?: Partial<Omit<FalExecutionContext, 'sendStatus'>>
+  // Stop the run through the context signal, as the runtime does when the user stops it, once a status matches
+  stopOn?: string | RegExp
+  // Environment for the run; caches, journal, ledger and webhooks are off unless set here
+  env?: Record<string, string | undefined>
+}
+
+export interface FalNodeHarnessRun extends Omit<FalMock, 'client'> {
+  outputs?: Record<string, unknown>
+  error?: unknown
+  statuses: FalStatusUpdate[]
+  // Every asset by URI after the run: the given ones plus those the node uploaded
+  assets: Record<string, Buffer>
+}
+
+// Settings that would make a harness run read or write state outside the test
+const isolatedEnv = [
+  'FAL_RESULT_CACHE', 'FAL_JOB_JOURNAL', 'FAL_UPLOAD_CACHE', 'FAL_RUN_STATS', 'FAL_SPEND_LEDGER', 'FAL_WEBHOOK_URL',
+  'FAL_BUDGET_PER_EXECUTION_USD', 'FAL_BUDGET_PER_DAY_USD', 'FAL_BUDGET_PER_WORKFLOW_USD'
+]
+
+const readBody = async (body: unknown): Promise<Buffer> => {
+  if (body instanceof Readable) {
+    const chunks: Buffer[] = []
+    for await (const chunk of body) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk))
+    }
+    return Buffer.concat(chunks)
+  }
+  return Buffer.from(body as Uint8Array)
+}
+
+// Stand-in for the NanoGraph asset server, so runs need neither the server nor the network
+const createMemoryAssetStore = (assets: Record<string, Buffer>): NanoAssetStore => ({
+  resolveAsset: async (uri: string) => {
+    const asset = assets[uri]
+    if (!asset) {
+      throw new Error(`Unknown asset ${uri}`)
+    }
+    return asset
+  },
+  uploadAsset: async (body: unknown, options: { filename?: string } = {}) => {
+    const uri = `asset://harness/${Object.keys(assets).length + 1}-${options.filename ?? 'asset'}`
+    assets[uri] = await readBody(body)
+    return { uri }
+  }
+}) as NanoAssetStore
+
+/**
+ * Execute a node against the offline Fal mock, capturing outputs and every status it sends
+ * @param node Registered node instance
+ * @param options Inputs, parameters, fixtures per endpoint and environment
+ * @returns Outputs or the thrown error, statuses, and the Fal calls and uploads made; runs must not overlap
+ */
+export const runFalNodeWithMock = async (node: FalHarnessNode, options: FalNodeHarnessOptions): Promise<FalNodeHarnessRun> => {
+  if (typeof node.execute !== 'function') {
+    throw new Error('Node has no execute function')
+  }
+
+  const mock = createFalMockClient(options.fixtures)
+  const statuses: FalStatusUpdate[] = []
+  const env = { ...Object.fromEntries(isolatedEnv.map((name) => [name, undefined])), ...options.env }
+  const savedEnv = Object.fromEntries(Object.keys(env).map((name) => [name, process.env[name]]))
+  const savedTransport = getFalTransport()
+  const savedAssetStore = getNanoAssetStore()
+  const assets: Record<string, Buffer> = { ...options.assets }
+
+  const applyEnv = (values: Record<string, string | undefined>) => {
+    for (const [name, value] of Object.entries(values)) {
+      if (value === undefined) {
+        delete process.env[name]
+      } else {
+        process.env[name] = value
+      }
+    }
+  }
+
+  const stop = new AbortController()
+  const { stopOn } = options
+  const context: FalExecutionContext = {
+    ...(stopOn !== undefined ? { signal: stop.signal } : {}),
+    ...options.context,
+    sendStatus: (status) => {
+      statuses.push(status)
+      if (stopOn !== undefined && (typeof stopOn === 'string' ? status.message.includes(stopOn) : stopOn.test(status.message))) {
+        stop.abort()
+      }
+    }
+  }
+  const inputs = Object.fromEntries(Object.entries(options.inputs ?? {}).map(([name, value]) => [name, Array.isArray(value) ? value : [value]]))
+  const parameters = Object.entries(options.parameters ?? {}).map(([name, value]) => ({ name, value }))
+
+  // Uploads and durations learned in memory by earlier runs would change what this one does
+  const resetLearnedState = () => {
+    resetFalUploadCache()
+    resetFalRunStats()
+  }
+
+  applyEnv(env)
+  resetLearnedState()
+  setFalTransport(mock.client)
+  setNanoAssetStore(createMemoryAssetStore(assets))
+  try {
+    const outputs = await node.execute({ inputs, parameters, context })
+    return { outputs, statuses, assets, calls: mock.calls, uploads: mock.uploads, cancelled: mock.cancelled }
+  } catch (error) {
+    return { error, statuses, assets, calls: mock.calls, uploads: mock.uploads, cancelled: mock.cancelled }
+  } finally {
+    setFalTransport(savedTransport)
+    setNanoAssetStore(savedAssetStore)
+    applyEnv(savedEnv)
+    resetLearnedState()
+  }
+}
+
+/**
+ * Assert that a harness run finished and produced the expected outputs
+ * @param run Result of runFalNodeWithMock
+ * @param expected Output values by name; outputs not listed are not checked
+ */
+export const expectFalOutputs = (run: FalNodeHarnessRun, expected: Record<string, unknown>) => {
+  if (run.error !== undefined) {
+    throw run.error
+  }
+  for (const [name, value] of Object.entries(expected)) {
+    assert.deepEqual(run.outputs?.[name], value, `Output '${name}' differs`)
+  }
+}
+
+/**
+ * Assert that the node sent a status matching a message
+ * @param run Result of runFalNodeWithMock
+ * @param message Text contained in, or pattern matching, the status message
+ * @param type Only consider 'running' or 'error' statuses
+ * @returns The first matching status
+ */
+export const expectFalStatus = (run: FalNodeHarnessRun, message: string | RegExp, type?: FalStatusUpdate['type']): FalStatusUpdate => {
+  const matches = (text: string) => (typeof message === 'string' ? text.includes(message) : message.test(text))
+  const status = run.statuses.find((candidate) => (!type || candidate.type === type) && matches(candidate.message))
+  assert.ok(status, `No ${type ? `${type} ` : ''}status matching ${message}; got:\n${run.statuses.map((entry) => `  ${entry.type}: ${entry.message}`).join('\n')}`)
+  return status
+}
+
+/**
+ * Assert that every payload the node sent matches the endpoint's saved OpenAPI request schema
+ * @param run Result of runFalNodeWithMock
+ * @returns Endpoints that were called without a saved spec and so went unchecked
+ */
+export const expectFalPayloadSchemas = async (run: FalNodeHarnessRun): Promise<string[]> => {
+  assert.ok(run.calls.length, 'Node made no Fal calls')
+  const unchecked: string[] = []
+  for (const call of run.calls) {
+    const issues = await validateFalPayload(call.endpoint, call.input)
+    if (!issues) {
+      unchecked.push(call.endpoint)
+      continue
+    }
+    assert.equal(issues.length, 0, `Payload for ${call.endpoint} does not match its OpenAPI schema: ${formatFalSchemaIssues(issues)}`)
+  }
+  return unchecked
+}
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict'
+import path from 'node:path'
+import { fileURLToPath, pathToFileURL } from 'node:url'
+import { after, before, describe, test } from 'node:test'
+import fg from 'fast-glob'
+import { FalMockFixture } from '../src/utils/fal-mock.js'
+import { expectFalPayloadSchemas, runFalNodeWithMock } from './helpers/fal-node-harness.js'
+import { createContractInputs } from './helpers/contract-inputs.js'
+
+// Specs committed for a few endpoints, so the contract check fails on drift without collecting specs first
+const specDirectory = fileURLToPath(new URL('./fixtures/openapi/', import.meta.url))
+const nodesDirectory = fileURLToPath(new URL('../src/nodes/', import.meta.url))
+const nodeFiles = (await fg('**/*Node.ts', { cwd: nodesDirectory })).sort()
+const specEndpoints = (await fg('*.json', { cwd: specDirectory })).map((file) => path.basename(file, '.json').replace(/__/g, '/'))
+
+// Payloads are captured before any result is read, so an empty result serves every endpoint
+const fixtures = new Proxy({} as Record<string, FalMockFixture>, { get: () => ({ result: {} }) })
+
+describe('node payloads against the committed OpenAPI specs', () => {
+  const savedDirectory = process.env.FAL_OPENAPI_DIR
+  const checked = new Set<string>()
+  let contract: Awaited<ReturnType<typeof createContractInputs>>
+
+  before(async () => {
+    process.env.FAL_OPENAPI_DIR = specDirectory
+    contract = await createContractInputs()
+  })
+
+  after(() => {
+    if (savedDirectory === undefined) {
+      delete process.env.FAL_OPENAPI_DIR
+    } else {
+      process.env.FAL_OPENAPI_DIR = savedDirectory
+    }
+  })
+
+  for (const file of nodeFiles) {
+    test(file, async (t) => {
+      const node = (await import(pathToFileURL(path.join(nodesDirectory, file)).href)).default
+      // Runtime validation would reject the payload before the mock sees it
+      const run = await runFalNodeWithMock(node, { ...contract, fixtures, env: { FAL_VALIDATE_SCHEMAS: undefined } })
+      if (!run.calls.length) {
+        t.skip(`no Fal call made (${(run.error as Error)?.message ?? 'no error'})`)
+        return
+      }
+
+      const unchecked = await expectFalPayloadSchemas(run)
+      run.calls.filter((call) => !unchecked.includes(call.endpoint)).forEach((call) => checked.add(call.endpoint))
+    })
+  }
+
+  test('every committed spec is exercised by a node', () => {
+    assert.ok(specEndpoints.length > 0, 'No specs under test/fixtures/openapi')
+    assert.deepEqual(specEndpoints.filter((endpoint) => !checked.has(endpoint)), [])
+  })
+})
@@ -0,0 +1,166 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import sharp from 'sharp'
+import fluxKontextNode from '../src/nodes/flux-kontext/FluxKontextNode.js'
+import zImageTurboLoraNode from '../src/nodes/z-image/ZImageTurboLoraNode.js'
+import zImageTurboNode from '../src/nodes/z-image/ZImageTurboNode.js'
+import { expectFalOutputs, expectFalStatus, runFalNodeWithMock } from './helpers/fal-node-harness.js'
+
+const png = await sharp({ create: { width: 8, height: 8, channels: 3, background: '#c03030' } }).png().toBuffer()
+// Fal output served inline, so re-hosting needs no network either
+const falImage = { url: `data:image/png;base64,${png.toString('base64')}`, content_type: 'image/png' }
+
+describe('Z-Image Turbo', () => {
+  const fixtures = {
+    'fal-ai/z-image/turbo': (input: any) => ({
+      updates: [{ status: 'IN_QUEUE' as const, queue_position: 1 }, { status: 'IN_PROGRESS' as const, logs: ['Step 4/8'] }],
+      result: { images: [falImage], seed: input.seed ?? 7, has_nsfw_concepts: [false] }
+    })
+  }
+
+  test('re-hosts the generated image and returns the seed it was given', async () => {
+    const run = await runFalNodeWithMock(zImageTurboNode, { inputs: { prompt: 'a lighthouse at dusk' }, parameters: { seed: 3 }, fixtures })
+
+    expectFalOutputs(run, { seed: [3], has_nsfw_concepts: [false] })
+    assert.equal(run.calls.length, 1)
+    assert.equal(run.calls[0].input.prompt, 'a lighthouse at dusk')
+    assert.equal(run.calls[0].input.seed, 3)
+    const [image] = run.outputs?.images as string[]
+    assert.deepEqual(run.assets[image], png)
+    expectFalStatus(run, 'Waiting for Z-Image Turbo', 'running')
+    expectFalStatus(run, 'Estimated cost')
+  })
+
+  test('leaves the seed out of the payload when it is random', async () => {
+    const run = await runFalNodeWithMock(zImageTurboNode, { inputs: { prompt: 'a lighthouse' }, fixtures })
+
+    expectFalOutputs(run, { seed: [7] })
+    assert.equal('seed' in run.calls[0].input, false)
+  })
+
+  test('fails without a prompt before calling Fal', async () => {
+    const run = await runFalNodeWithMock(zImageTurboNode, { inputs: {}, fixtures })
+
+    assert.ok(run.error)
+    assert.equal(run.calls.length, 0)
+    expectFalStatus(run, 'Prompt is required', 'error')
+  })
+
+  test('reports Fal validation errors against the node parameter', async () => {
+    const run = await runFalNodeWithMock(zImageTurboNode, {
+      inputs: { prompt: 'a lighthouse' },
+      parameters: { image_size: 'custom' },
+      fixtures: {
+        'fal-ai/z-image/turbo': {
+          error: { status: 422, body: { detail: [{ loc: ['body', 'image_size', 'width'], msg: 'must be <= 2048', type: 'value_error' }] } }
+        }
+      }
+    })
+
+    expectFalStatus(run, 'custom_width: must be <= 2048', 'error')
+  })
+
+  test('rejects a malformed result', async () => {
+    const run = await runFalNodeWithMock(zImageTurboNode, {
+      inputs: { prompt: 'a lighthouse' },
+      fixtures: { 'fal-ai/z-image/turbo': { result: { images: 'not a list' } } }
+    })
+
+    expectFalStatus(run, 'Z-Image Turbo returned a malformed response: images must be a list', 'error')
+  })
+
+  test('cancels the Fal request when the run is stopped', async () => {
+    const run = await runFalNodeWithMock(zImageTurboNode, {
+      inputs: { prompt: 'a lighthouse' },
+      fixtures: { 'fal-ai/z-image/turbo': { updates: [{ status: 'IN_QUEUE', queue_position: 3 }, { status: 'IN_PROGRESS' }], result: { images: [falImage] }, delayMs: 200 } },
+      stopOn: 'Waiting for Z-Image Turbo'
+    })
+
+    assert.equal((run.error as Error)?.name, 'FalCancelledError')
+    assert.deepEqual(run.cancelled, [run.calls[0].requestId])
+    assert.equal(run.outputs, undefined)
+    expectFalStatus(run, 'Fal request was cancelled', 'error')
+  })
+})
+
+describe('Z-Image Turbo LoRA', () => {
+  test('uploads LoRA weights from an asset and sends their Fal URL', async () => {
+    const weights = Buffer.from('safetensors weights')
+    const run = await runFalNodeWithMock(zImageTurboLoraNode, {
+      inputs: { prompt: 'a lighthouse', lora_1_path: 'asset://style.safetensors', lora_2_path: 'https://example.com/detail.safetensors' },
+      parameters: { lora_1_scale: 0.8 },
+      assets: { 'asset://style.safetensors': weights },
+      fixtures: { 'fal-ai/z-image/turbo/lora': { result: { images: [falImage], seed: 5 } } }
+    })
+
+    expectFalOutputs(run, { seed: [5] })
+    assert.equal(run.uploads.length, 1)
+    assert.deepEqual(run.uploads[0].data, weights)
+    assert.deepEqual(run.calls[0].input.loras, [
+      { path: run.uploads[0].url, scale: 0.8 },
+      { path: 'https://example.com/detail.safetensors', scale: 1 }
+    ])
+  })
+})
+
+describe('Flux Kontext', () => {
+  test('uploads the input image to Fal storage and sends its URL', async () => {
+    const run = await runFalNodeWithMock(fluxKontextNode, {
+      inputs: { prompt: 'make it blue', image: 'asset://source.png' },
+      assets: { 'asset://source.png': png },
+      fixtures: { 'fal-ai/flux-pro/kontext/max': { result: { images: [falImage], seed: 11 } } }
+    })
+
+    expectFalOutputs(run, { seed: [11] })
+    assert.equal(run.uploads.length, 1)
+    assert.deepEqual(run.uploads[0].data, png)
+    assert.equal(run.calls[0].input.image_url, run.uploads[0].url)
+    assert.equal((run.outputs?.image as string[]).length, 1)
+  })
+
+  test('does not reuse uploads from an earlier harness run', async () => {
+    const options = {
+      inputs: { prompt: 'make it blue', image: 'asset://source.png' },
+      assets: { 'asset://source.png': png },
+      fixtures: { 'fal-ai/flux-pro/kontext/max': { result: { images: [falImage], seed: 11 } } }
+    }
+
+    const runs = [await runFalNodeWithMock(fluxKontextNode, options), await runFalNodeWithMock(fluxKontextNode, options)]
+
+    assert.deepEqual(runs.map((run) => run.uploads.length), [1, 1])
+  })
+
+  test('converts an input image Fal does not accept and says so', async () => {
+    const tiff = await sharp(png).tiff().toBuffer()
+    const run = await runFalNodeWithMock(fluxKontextNode, {
+      inputs: { prompt: 'make it blue', image: 'asset://source.tiff' },
+      assets: { 'asset://source.tiff': tiff },
+      fixtures: { 'fal-ai/flux-pro/kontext/max': { result: { images: [falImage], seed: 11 } } }
+    })
+
+    expectFalOutputs(run, { seed: [11] })
+    expectFalStatus(run, /^Converted tiff image to (?:jpeg|png) for Fal$/, 'running')
+  })
+
+  test('fails with the format named when an input image cannot be converted', async () => {
+    const bmp = Buffer.concat([Buffer.from('BM'), Buffer.alloc(60)])
+    const run = await runFalNodeWithMock(fluxKontextNode, {
+      inputs: { prompt: 'make it blue', image: 'asset://source.bmp' },
+      assets: { 'asset://source.bmp': bmp },
+      fixtures: {}
+    })
+
+    assert.equal(run.calls.length, 0)
+    expectFalStatus(run, 'Cannot convert BMP image for Fal', 'error')
+  })
+
+  test('fails when the input image asset does not exist', async () => {
+    const run = await runFalNodeWithMock(fluxKontextNode, {
+      inputs: { prompt: 'make it blue', image: 'asset://missing.png' },
+      fixtures: {}
+    })
+
+    assert.equal(run.calls.length, 0)
+    expectFalStatus(run, 'Unknown asset asset://missing.png', 'error')
+  })
+})
@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict'
+import { readFile } from 'node:fs/promises'
+import { describe, test } from 'node:test'
+import { QueueStatus } from '@fal-ai/client'
+import { FalRecording } from '../src/utils/fal-recorder.js'
+import { createProgressStrategy, resolveProgressParser } from '../src/utils/progress-strategy.js'
+
+const loadRecording = async (endpoint: string): Promise<FalRecording> => {
+  const [recording] = JSON.parse(await readFile(new URL(`./fixtures/progress/${endpoint.replace(/\//g, '__')}.json`, import.meta.url), 'utf8'))
+  return recording
+}
+
+const toStatus = (logs: string[]) =>
+  ({ status: 'IN_PROGRESS', request_id: 'recorded', logs: logs.map((message) => ({ message })) }) as unknown as QueueStatus
+
+// Progress the node reports for every IN_PROGRESS poll of the recording
+const replay = async (endpoint: string) => {
+  const recording = await loadRecording(endpoint)
+  const strategy = createProgressStrategy({ endpoint, expectedMs: 30000 })
+  return recording.updates!
+    .filter((update) => update.status === 'IN_PROGRESS')
+    .map((update, index) => ({ line: update.logs!.at(-1), ...strategy.onProgress(toStatus(update.logs!), index + 1) }))
+}
+
+const parse = (endpoint: string, line: string) => resolveProgressParser(endpoint)!(toStatus([line]), 1)
+
+describe('progress from recorded logs', () => {
+  test('keeps a diffusion run near the start until its steps begin', async () => {
+    const polls = await replay('fal-ai/z-image/turbo')
+
+    assert.deepEqual(polls.slice(0, 3).map((poll) => [poll.line, poll.message, poll.progress.step]), [
+      ['Loading model weights', 'Loading model...', 8],
+      ['Loading VAE', 'Loading model...', 8],
+      ['Encoding prompt', 'Encoding prompt...', 12]
+    ])
+    polls.slice(1).forEach((poll, index) => assert.ok(poll.progress.step >= polls[index].progress.step, `${poll.line} moved the bar back`))
+    assert.deepEqual([polls.at(-1)?.message, polls.at(-1)?.progress.step], ['Decoding image...', 96])
+  })
+
+  test('keeps a video run near the start while its input uploads', async () => {
+    const polls = await replay('fal-ai/veo3/fast')
+
+    assert.equal(polls[0].line, 'Uploading input image')
+    assert.ok(polls[0].progress.step < 20)
+    polls.slice(1).forEach((poll, index) => assert.ok(poll.progress.step >= polls[index].progress.step, `${poll.line} moved the bar back`))
+    assert.deepEqual(polls.slice(-2).map((poll) => poll.message), ['Encoding video...', 'Uploading video...'])
+  })
+
+  test('follows the newest line when earlier lines match another parser', () => {
+    const parser = resolveProgressParser('fal-ai/z-image/turbo')!
+    assert.equal(parser(toStatus(['Encoding prompt', 'Step 4/8']), 1)?.message, 'Denoising step 4/8...')
+    assert.deepEqual(parser(toStatus(['Encoding prompt', 'Step 8/8', 'Decoding latents']), 2), {
+      message: 'Decoding image...',
+      progress: { step: 96, total: 100 }
+    })
+    // An early stage line after the steps keeps the bar where it was
+    assert.deepEqual(parser(toStatus(['Step 8/8', 'Decoding latents', 'Loading VAE']), 3)?.progress, { step: 96, total: 100 })
+  })
+
+  test('maps only the post-step decode and upload lines to the final stages', () => {
+    assert.equal(parse('fal-ai/z-image/turbo', 'Loading VAE')?.message, 'Loading model...')
+    assert.deepEqual(parse('fal-ai/z-image/turbo', 'Decoding latents')?.progress, { step: 96, total: 100 })
+    assert.deepEqual(parse('fal-ai/z-image/turbo', 'Running VAE decoder')?.progress, { step: 96, total: 100 })
+    assert.deepEqual(parse('fal-ai/veo3/fast', 'Uploading input image')?.progress, { step: 2, total: 100 })
+    assert.deepEqual(parse('fal-ai/veo3/fast', 'Encoding video frames')?.progress, { step: 94, total: 100 })
+    assert.deepEqual(parse('fal-ai/veo3/fast', 'Uploading video to CDN')?.progress, { step: 97, total: 100 })
+  })
+})